@@ -20,6 +20,24 @@ CREATE TABLE users (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE TABLE addresses (
+    id VARCHAR2(36) PRIMARY KEY,
+    user_id VARCHAR2(36) NOT NULL,
+    label VARCHAR2(50),
+    recipient_name VARCHAR2(200),
+    line1 VARCHAR2(255) NOT NULL,
+    line2 VARCHAR2(255),
+    city VARCHAR2(100) NOT NULL,
+    state VARCHAR2(100),
+    postal_code VARCHAR2(20),
+    country VARCHAR2(100) NOT NULL,
+    phone VARCHAR2(20),
+    is_default NUMBER(1) DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
 CREATE TABLE products (
     id VARCHAR2(36) PRIMARY KEY,
     name VARCHAR2(255) NOT NULL,
@@ -29,6 +47,7 @@ CREATE TABLE products (
     brand VARCHAR2(100),
     sku VARCHAR2(100) UNIQUE,
     stock_quantity NUMBER(10) DEFAULT 0,
+    weight_kg NUMBER(8,3),
     is_active NUMBER(1) DEFAULT 1,
     seller_id VARCHAR2(36) NOT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -86,28 +105,326 @@ CREATE TABLE orders (
     id VARCHAR2(36) PRIMARY KEY,
     user_id VARCHAR2(36) NOT NULL,
     status VARCHAR2(50) DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'shipped', 'delivered', 'cancelled')),
+    subtotal_amount NUMBER(10,2) NOT NULL,
+    discount_amount NUMBER(10,2) DEFAULT 0 NOT NULL,
+    tax_amount NUMBER(10,2) DEFAULT 0 NOT NULL,
+    shipping_amount NUMBER(10,2) DEFAULT 0 NOT NULL,
     total_amount NUMBER(10,2) NOT NULL,
     shipping_address VARCHAR2(500) NOT NULL,
     billing_address VARCHAR2(500) NOT NULL,
     payment_method VARCHAR2(50) NOT NULL,
-    payment_status VARCHAR2(50) DEFAULT 'pending' CHECK (payment_status IN ('pending', 'paid', 'failed', 'refunded')),
+    payment_status VARCHAR2(50) DEFAULT 'pending' CHECK (payment_status IN ('pending', 'authorized', 'paid', 'failed', 'voided', 'partially_refunded', 'refunded')),
     tracking_number VARCHAR2(100),
     notes CLOB,
+    confirmed_at TIMESTAMP,
+    shipped_at TIMESTAMP,
+    delivered_at TIMESTAMP,
+    cancelled_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (user_id) REFERENCES users(id)
 );
 
+CREATE TABLE order_addresses (
+    order_id VARCHAR2(36) NOT NULL,
+    address_type VARCHAR2(20) NOT NULL CHECK (address_type IN ('shipping', 'billing')),
+    recipient_name VARCHAR2(200),
+    line1 VARCHAR2(255) NOT NULL,
+    line2 VARCHAR2(255),
+    city VARCHAR2(100) NOT NULL,
+    state VARCHAR2(100),
+    postal_code VARCHAR2(20),
+    country VARCHAR2(100) NOT NULL,
+    phone VARCHAR2(20),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (order_id, address_type),
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE TABLE order_fulfillments (
+    id VARCHAR2(36) PRIMARY KEY,
+    order_id VARCHAR2(36) NOT NULL,
+    seller_id VARCHAR2(36) NOT NULL,
+    status VARCHAR2(50) DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'shipped', 'delivered', 'cancelled')),
+    subtotal NUMBER(10,2) NOT NULL,
+    discount_amount NUMBER(10,2) DEFAULT 0 NOT NULL,
+    tax_amount NUMBER(10,2) DEFAULT 0 NOT NULL,
+    shipping_method_id VARCHAR2(36),
+    shipping_method VARCHAR2(255),
+    shipping_amount NUMBER(10,2) DEFAULT 0 NOT NULL,
+    estimated_delivery_from TIMESTAMP,
+    estimated_delivery_to TIMESTAMP,
+    tracking_number VARCHAR2(100),
+    carrier VARCHAR2(50),
+    cancel_reason VARCHAR2(500),
+    confirmed_at TIMESTAMP,
+    shipped_at TIMESTAMP,
+    delivered_at TIMESTAMP,
+    cancelled_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+    FOREIGN KEY (seller_id) REFERENCES users(id)
+);
+
+CREATE TABLE fulfillment_notes (
+    id VARCHAR2(36) PRIMARY KEY,
+    fulfillment_id VARCHAR2(36) NOT NULL,
+    author_id VARCHAR2(36) NOT NULL,
+    note VARCHAR2(2000) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (fulfillment_id) REFERENCES order_fulfillments(id) ON DELETE CASCADE,
+    FOREIGN KEY (author_id) REFERENCES users(id)
+);
+
 CREATE TABLE order_items (
     id VARCHAR2(36) PRIMARY KEY,
     order_id VARCHAR2(36) NOT NULL,
+    fulfillment_id VARCHAR2(36),
     product_id VARCHAR2(36) NOT NULL,
     quantity NUMBER(10) NOT NULL,
     unit_price NUMBER(10,2) NOT NULL,
     total_price NUMBER(10,2) NOT NULL,
+    discount_amount NUMBER(10,2) DEFAULT 0 NOT NULL,
+    tax_rate NUMBER(6,3) DEFAULT 0 NOT NULL,
+    tax_amount NUMBER(10,2) DEFAULT 0 NOT NULL,
+    -- The product as it was at checkout. product_id has no foreign key so
+    -- products can be deleted without breaking past orders.
+    product_name VARCHAR2(255),
+    product_sku VARCHAR2(100),
+    product_category VARCHAR2(100),
+    product_image_url VARCHAR2(500),
+    product_attributes CLOB,
+    seller_id VARCHAR2(36),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+    FOREIGN KEY (fulfillment_id) REFERENCES order_fulfillments(id)
+);
+
+CREATE TABLE order_status_events (
+    id VARCHAR2(36) PRIMARY KEY,
+    order_id VARCHAR2(36) NOT NULL,
+    fulfillment_id VARCHAR2(36),
+    event_type VARCHAR2(20) NOT NULL CHECK (event_type IN ('status', 'payment_status')),
+    from_status VARCHAR2(50),
+    to_status VARCHAR2(50) NOT NULL,
+    actor_id VARCHAR2(36),
+    actor_role VARCHAR2(20),
+    reason VARCHAR2(500),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
-    FOREIGN KEY (product_id) REFERENCES products(id)
+    FOREIGN KEY (fulfillment_id) REFERENCES order_fulfillments(id),
+    FOREIGN KEY (actor_id) REFERENCES users(id)
+);
+
+CREATE TABLE payment_intents (
+    id VARCHAR2(36) PRIMARY KEY,
+    order_id VARCHAR2(36) NOT NULL,
+    provider VARCHAR2(50) NOT NULL,
+    provider_reference VARCHAR2(255) NOT NULL,
+    method VARCHAR2(50) NOT NULL,
+    status VARCHAR2(20) NOT NULL CHECK (status IN ('pending', 'authorized', 'captured', 'voided', 'refunded', 'failed')),
+    amount NUMBER(10,2) NOT NULL,
+    captured_amount NUMBER(10,2) DEFAULT 0,
+    refunded_amount NUMBER(10,2) DEFAULT 0,
+    card_brand VARCHAR2(20),
+    card_last4 VARCHAR2(4),
+    failure_code VARCHAR2(50),
+    failure_message VARCHAR2(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE
+);
+
+CREATE TABLE refunds (
+    id VARCHAR2(36) PRIMARY KEY,
+    order_id VARCHAR2(36) NOT NULL,
+    payment_intent_id VARCHAR2(36) NOT NULL,
+    provider_reference VARCHAR2(255) NOT NULL,
+    amount NUMBER(10,2) NOT NULL CHECK (amount > 0),
+    reason VARCHAR2(500) NOT NULL,
+    restocked NUMBER(1) DEFAULT 0,
+    actor_id VARCHAR2(36),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+    FOREIGN KEY (payment_intent_id) REFERENCES payment_intents(id),
+    FOREIGN KEY (actor_id) REFERENCES users(id)
+);
+
+CREATE TABLE refund_items (
+    id VARCHAR2(36) PRIMARY KEY,
+    refund_id VARCHAR2(36) NOT NULL,
+    order_item_id VARCHAR2(36) NOT NULL,
+    quantity NUMBER(10) NOT NULL CHECK (quantity > 0),
+    FOREIGN KEY (refund_id) REFERENCES refunds(id) ON DELETE CASCADE,
+    FOREIGN KEY (order_item_id) REFERENCES order_items(id)
+);
+
+CREATE TABLE return_requests (
+    id VARCHAR2(36) PRIMARY KEY,
+    order_id VARCHAR2(36) NOT NULL,
+    user_id VARCHAR2(36) NOT NULL,
+    status VARCHAR2(20) DEFAULT 'requested' CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'inspected')),
+    reason VARCHAR2(500) NOT NULL,
+    resolution_note VARCHAR2(500),
+    refund_id VARCHAR2(36),
+    restocked NUMBER(1) DEFAULT 0,
+    approved_at TIMESTAMP,
+    rejected_at TIMESTAMP,
+    received_at TIMESTAMP,
+    inspected_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id),
+    FOREIGN KEY (refund_id) REFERENCES refunds(id)
+);
+
+CREATE TABLE return_items (
+    id VARCHAR2(36) PRIMARY KEY,
+    return_id VARCHAR2(36) NOT NULL,
+    order_item_id VARCHAR2(36) NOT NULL,
+    quantity NUMBER(10) NOT NULL CHECK (quantity > 0),
+    FOREIGN KEY (return_id) REFERENCES return_requests(id) ON DELETE CASCADE,
+    FOREIGN KEY (order_item_id) REFERENCES order_items(id)
+);
+
+CREATE TABLE shipments (
+    id VARCHAR2(36) PRIMARY KEY,
+    order_id VARCHAR2(36) NOT NULL,
+    fulfillment_id VARCHAR2(36) NOT NULL,
+    carrier VARCHAR2(50) NOT NULL,
+    tracking_number VARCHAR2(100) NOT NULL,
+    status VARCHAR2(20) DEFAULT 'info_received' CHECK (status IN ('info_received', 'in_transit', 'out_for_delivery', 'delivered', 'exception')),
+    shipped_at TIMESTAMP NOT NULL,
+    delivered_at TIMESTAMP,
+    last_synced_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+    FOREIGN KEY (fulfillment_id) REFERENCES order_fulfillments(id)
+);
+
+CREATE TABLE shipment_tracking_events (
+    id VARCHAR2(36) PRIMARY KEY,
+    shipment_id VARCHAR2(36) NOT NULL,
+    status VARCHAR2(20) NOT NULL CHECK (status IN ('info_received', 'in_transit', 'out_for_delivery', 'delivered', 'exception')),
+    description VARCHAR2(255) NOT NULL,
+    location VARCHAR2(255),
+    occurred_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (shipment_id) REFERENCES shipments(id) ON DELETE CASCADE,
+    CONSTRAINT uq_tracking_event UNIQUE (shipment_id, status, occurred_at)
+);
+
+CREATE TABLE promotions (
+    id VARCHAR2(36) PRIMARY KEY,
+    code VARCHAR2(50) UNIQUE,
+    name VARCHAR2(255) NOT NULL,
+    description VARCHAR2(500),
+    discount_type VARCHAR2(20) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+    discount_value NUMBER(10,2) NOT NULL CHECK (discount_value > 0),
+    category VARCHAR2(100),
+    seller_id VARCHAR2(36),
+    min_spend NUMBER(10,2),
+    max_discount NUMBER(10,2),
+    usage_limit NUMBER(10),
+    per_user_limit NUMBER(10),
+    times_used NUMBER(10) DEFAULT 0 NOT NULL,
+    starts_at TIMESTAMP,
+    ends_at TIMESTAMP,
+    is_active NUMBER(1) DEFAULT 1,
+    created_by VARCHAR2(36) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (seller_id) REFERENCES users(id),
+    FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+CREATE TABLE order_discounts (
+    id VARCHAR2(36) PRIMARY KEY,
+    order_id VARCHAR2(36) NOT NULL,
+    promotion_id VARCHAR2(36) NOT NULL,
+    code VARCHAR2(50),
+    description VARCHAR2(500) NOT NULL,
+    amount NUMBER(10,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+    FOREIGN KEY (promotion_id) REFERENCES promotions(id)
+);
+
+CREATE TABLE tax_rules (
+    id VARCHAR2(36) PRIMARY KEY,
+    country VARCHAR2(100) NOT NULL,
+    state VARCHAR2(100),
+    category VARCHAR2(100),
+    name VARCHAR2(255) NOT NULL,
+    rate NUMBER(6,3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+    is_active NUMBER(1) DEFAULT 1,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE shipping_methods (
+    id VARCHAR2(36) PRIMARY KEY,
+    seller_id VARCHAR2(36) NOT NULL,
+    name VARCHAR2(255) NOT NULL,
+    carrier VARCHAR2(100),
+    rate_type VARCHAR2(20) DEFAULT 'flat' CHECK (rate_type IN ('flat', 'weight')),
+    base_rate NUMBER(10,2) DEFAULT 0 NOT NULL CHECK (base_rate >= 0),
+    rate_per_kg NUMBER(10,2) DEFAULT 0 NOT NULL CHECK (rate_per_kg >= 0),
+    free_over NUMBER(10,2),
+    min_days NUMBER NOT NULL,
+    max_days NUMBER NOT NULL,
+    is_active NUMBER(1) DEFAULT 1,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (seller_id) REFERENCES users(id) ON DELETE CASCADE,
+    CHECK (min_days <= max_days)
+);
+
+CREATE TABLE shipping_zones (
+    id VARCHAR2(36) PRIMARY KEY,
+    method_id VARCHAR2(36) NOT NULL,
+    country VARCHAR2(100) NOT NULL,
+    state VARCHAR2(100),
+    base_rate NUMBER(10,2),
+    rate_per_kg NUMBER(10,2),
+    min_days NUMBER,
+    max_days NUMBER,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (method_id) REFERENCES shipping_methods(id) ON DELETE CASCADE
+);
+
+-- Last invoice number handed out per year; the row is locked while an invoice
+-- is issued so numbers are sequential with no gaps
+CREATE TABLE invoice_counters (
+    invoice_year NUMBER(4) PRIMARY KEY,
+    last_number NUMBER(10) DEFAULT 0 NOT NULL
+);
+
+CREATE TABLE invoices (
+    id VARCHAR2(36) PRIMARY KEY,
+    order_id VARCHAR2(36) NOT NULL UNIQUE,
+    invoice_number VARCHAR2(30) NOT NULL UNIQUE,
+    invoice_year NUMBER(4) NOT NULL,
+    sequence_number NUMBER(10) NOT NULL,
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+    UNIQUE (invoice_year, sequence_number)
+);
+
+CREATE TABLE idempotency_keys (
+    user_id VARCHAR2(36) NOT NULL,
+    idempotency_key VARCHAR2(255) NOT NULL,
+    operation VARCHAR2(100) NOT NULL,
+    request_hash VARCHAR2(64) NOT NULL,
+    status VARCHAR2(20) NOT NULL CHECK (status IN ('in_progress', 'completed')),
+    response CLOB,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, idempotency_key),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 );
 
 CREATE TABLE sessions (
@@ -128,15 +445,69 @@ CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_products_category ON products(category);
 CREATE INDEX idx_products_seller ON products(seller_id);
 CREATE INDEX idx_products_active ON products(is_active);
+CREATE INDEX idx_products_created ON products(created_at, id);
+CREATE INDEX idx_products_price ON products(price, id);
 CREATE INDEX idx_reviews_product ON reviews(product_id);
 CREATE INDEX idx_reviews_user ON reviews(user_id);
 CREATE INDEX idx_cart_items_user ON cart_items(user_id);
 CREATE INDEX idx_orders_user ON orders(user_id);
+CREATE INDEX idx_orders_user_created ON orders(user_id, created_at, id);
 CREATE INDEX idx_orders_status ON orders(status);
 CREATE INDEX idx_order_items_order ON order_items(order_id);
+CREATE INDEX idx_order_items_product ON order_items(product_id);
+CREATE INDEX idx_order_fulfillments_order ON order_fulfillments(order_id);
+CREATE INDEX idx_order_fulfillments_seller ON order_fulfillments(seller_id, status);
+CREATE INDEX idx_order_fulfillments_seller_created ON order_fulfillments(seller_id, created_at);
+CREATE INDEX idx_fulfillment_notes_fulfillment ON fulfillment_notes(fulfillment_id, created_at);
+CREATE INDEX idx_order_status_events_order ON order_status_events(order_id, created_at);
+CREATE INDEX idx_payment_intents_order ON payment_intents(order_id, created_at);
+CREATE INDEX idx_refunds_order ON refunds(order_id, created_at);
+CREATE INDEX idx_refund_items_refund ON refund_items(refund_id);
+CREATE INDEX idx_return_requests_order ON return_requests(order_id, created_at);
+CREATE INDEX idx_return_items_return ON return_items(return_id);
+CREATE INDEX idx_shipments_order ON shipments(order_id);
+CREATE INDEX idx_shipments_fulfillment ON shipments(fulfillment_id);
+CREATE INDEX idx_promotions_seller ON promotions(seller_id);
+CREATE INDEX idx_order_discounts_order ON order_discounts(order_id);
+CREATE INDEX idx_order_discounts_promotion ON order_discounts(promotion_id);
+CREATE INDEX idx_tax_rules_country ON tax_rules(country, is_active);
+CREATE INDEX idx_addresses_user ON addresses(user_id, is_default);
+CREATE INDEX idx_shipping_methods_seller ON shipping_methods(seller_id, is_active);
+CREATE INDEX idx_shipping_zones_method ON shipping_zones(method_id);
 CREATE INDEX idx_sessions_user ON sessions(user_id);
 CREATE INDEX idx_sessions_token ON sessions(refresh_token);
 
+-- Full-text search over product name, brand and description, each in its own
+-- section so matches can be weighted by field. Accents are folded and prefixes
+-- indexed for partial words. Used when SEARCH_ENGINE=oracle_text.
+BEGIN
+    CTX_DDL.CREATE_PREFERENCE('product_search_datastore', 'MULTI_COLUMN_DATASTORE');
+    CTX_DDL.SET_ATTRIBUTE('product_search_datastore', 'COLUMNS', 'name, brand, description');
+
+    CTX_DDL.CREATE_SECTION_GROUP('product_search_sections', 'BASIC_SECTION_GROUP');
+    CTX_DDL.ADD_FIELD_SECTION('product_search_sections', 'name', 'name', TRUE);
+    CTX_DDL.ADD_FIELD_SECTION('product_search_sections', 'brand', 'brand', TRUE);
+    CTX_DDL.ADD_FIELD_SECTION('product_search_sections', 'description', 'description', TRUE);
+
+    CTX_DDL.CREATE_PREFERENCE('product_search_lexer', 'BASIC_LEXER');
+    CTX_DDL.SET_ATTRIBUTE('product_search_lexer', 'BASE_LETTER', 'YES');
+
+    CTX_DDL.CREATE_PREFERENCE('product_search_wordlist', 'BASIC_WORDLIST');
+    CTX_DDL.SET_ATTRIBUTE('product_search_wordlist', 'PREFIX_INDEX', 'TRUE');
+    CTX_DDL.SET_ATTRIBUTE('product_search_wordlist', 'PREFIX_MIN_LENGTH', 2);
+    CTX_DDL.SET_ATTRIBUTE('product_search_wordlist', 'PREFIX_MAX_LENGTH', 10);
+    CTX_DDL.SET_ATTRIBUTE('product_search_wordlist', 'WILDCARD_MAXTERMS', 5000);
+END;
+/
+
+CREATE INDEX idx_products_search ON products(name)
+    INDEXTYPE IS CTXSYS.CONTEXT
+    PARAMETERS ('DATASTORE product_search_datastore
+                 SECTION GROUP product_search_sections
+                 LEXER product_search_lexer
+                 WORDLIST product_search_wordlist
+                 SYNC (ON COMMIT)');
+
 -- Create sequences for auto-incrementing IDs (Oracle style)
 CREATE SEQUENCE seq_users START WITH 1 INCREMENT BY 1;
 CREATE SEQUENCE seq_products START WITH 1 INCREMENT BY 1;
@@ -240,40 +611,24 @@ CREATE OR REPLACE PROCEDURE proc_search_products(
     p_offset IN NUMBER DEFAULT 0,
     p_cursor OUT SYS_REFCURSOR
 ) AS
-    v_sql VARCHAR2(4000);
+    v_search_term VARCHAR2(4000) := LOWER(TRIM(p_search_term));
 BEGIN
-    v_sql := 'SELECT p.*, u.first_name || '' '' || u.last_name as seller_name
-              FROM products p
-              JOIN users u ON p.seller_id = u.id
-              WHERE p.is_active = 1';
-    
-    -- Add search term filter
-    IF p_search_term IS NOT NULL AND LENGTH(TRIM(p_search_term)) > 0 THEN
-        v_sql := v_sql || ' AND (LOWER(p.name) LIKE LOWER(''%' || p_search_term || '%'') 
-                              OR LOWER(p.description) LIKE LOWER(''%' || p_search_term || '%'')
-                              OR LOWER(p.brand) LIKE LOWER(''%' || p_search_term || '%''))';
-    END IF;
-    
-    -- Add category filter
-    IF p_category IS NOT NULL THEN
-        v_sql := v_sql || ' AND p.category = ''' || p_category || '''';
-    END IF;
-    
-    -- Add price filters
-    IF p_min_price IS NOT NULL THEN
-        v_sql := v_sql || ' AND p.price >= ' || p_min_price;
-    END IF;
-    
-    IF p_max_price IS NOT NULL THEN
-        v_sql := v_sql || ' AND p.price <= ' || p_max_price;
-    END IF;
-    
-    -- Add ordering and pagination
-    v_sql := v_sql || ' ORDER BY p.created_at DESC
-                       OFFSET ' || p_offset || ' ROWS
-                       FETCH NEXT ' || p_limit || ' ROWS ONLY';
-    
-    OPEN p_cursor FOR v_sql;
+    -- Static SQL: the parameters are bound, never pasted into the statement
+    OPEN p_cursor FOR
+        SELECT p.*, u.first_name || ' ' || u.last_name as seller_name
+        FROM products p
+        JOIN users u ON p.seller_id = u.id
+        WHERE p.is_active = 1
+        AND (v_search_term IS NULL
+             OR INSTR(LOWER(p.name), v_search_term) > 0
+             OR INSTR(LOWER(p.description), v_search_term) > 0
+             OR INSTR(LOWER(p.brand), v_search_term) > 0)
+        AND (p_category IS NULL OR p.category = p_category)
+        AND (p_min_price IS NULL OR p.price >= p_min_price)
+        AND (p_max_price IS NULL OR p.price <= p_max_price)
+        ORDER BY p.created_at DESC
+        OFFSET p_offset ROWS
+        FETCH NEXT p_limit ROWS ONLY;
     
 EXCEPTION
     WHEN OTHERS THEN
@@ -306,10 +661,10 @@ BEGIN
     
     -- Create order
     INSERT INTO orders (
-        id, user_id, total_amount, shipping_address, 
+        id, user_id, subtotal_amount, total_amount, shipping_address, 
         billing_address, payment_method, notes
     ) VALUES (
-        p_order_id, p_user_id, p_total_amount, p_shipping_address,
+        p_order_id, p_user_id, p_total_amount, p_total_amount, p_shipping_address,
         p_billing_address, p_payment_method, p_notes
     );
     
@@ -353,12 +708,15 @@ BEGIN
         RETURN;
     END IF;
     
-    -- Add order item
+    -- Add order item, with a snapshot of the product
     INSERT INTO order_items (
-        id, order_id, product_id, quantity, unit_price, total_price
-    ) VALUES (
-        p_id, p_order_id, p_product_id, p_quantity, p_unit_price, p_total_price
-    );
+        id, order_id, product_id, quantity, unit_price, total_price,
+        product_name, product_sku, product_category, seller_id
+    )
+    SELECT p_id, p_order_id, p_product_id, p_quantity, p_unit_price, p_total_price,
+           name, sku, category, seller_id
+    FROM products
+    WHERE id = p_product_id;
     
     COMMIT;
     p_result := 'SUCCESS';
@@ -371,6 +729,7 @@ END;
 /
 
 -- Grant permissions
+GRANT CTXAPP TO marketplace;
 GRANT EXECUTE ON proc_register_user TO marketplace;
 GRANT EXECUTE ON proc_authenticate_user TO marketplace;
 GRANT EXECUTE ON proc_search_products TO marketplace;
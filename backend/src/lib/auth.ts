@@ -17,6 +17,15 @@ export interface RefreshTokenPayload {
   exp?: number;
 }
 
+// Grants one user a download of data they were allowed to see when the link
+// was made, e.g. an order export. The scope travels in the token.
+export interface DownloadTokenPayload<T = unknown> {
+  userId: string;
+  scope: T;
+  iat?: number;
+  exp?: number;
+}
+
 export class AuthService {
   private readonly jwtSecret: string;
   private readonly refreshSecret: string;
@@ -85,6 +94,26 @@ export class AuthService {
     }
   }
 
+  generateDownloadToken<T>(payload: Omit<DownloadTokenPayload<T>, 'iat' | 'exp'>, expiresIn: string): string {
+    return jwt.sign(payload, this.jwtSecret, {
+      expiresIn,
+      issuer: 'marketplace-api',
+      audience: 'marketplace-download',
+    } as jwt.SignOptions);
+  }
+
+  verifyDownloadToken<T>(token: string): DownloadTokenPayload<T> | null {
+    try {
+      return jwt.verify(token, this.jwtSecret, {
+        issuer: 'marketplace-api',
+        audience: 'marketplace-download',
+      }) as DownloadTokenPayload<T>;
+    } catch (error) {
+      logger.warn({ error }, 'Invalid download token');
+      return null;
+    }
+  }
+
   extractTokenFromHeader(authHeader: string | undefined): string | null {
     if (!authHeader) return null;
     
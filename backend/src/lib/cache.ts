@@ -146,4 +146,5 @@ export const cacheKeys = {
   order: (id: string) => `order:${id}`,
   cart: (userId: string) => `cart:${userId}`,
   search: (query: string, filters: string) => `search:${query}:${filters}`,
+  searchSuggestions: (prefix: string, limit: number) => `search_suggestions:${limit}:${prefix}`,
 };
@@ -3,7 +3,7 @@ import { JWTPayload } from './auth';
 import { Loaders } from './loaders';
 import { cacheService } from './cache';
 import { databaseService } from './database';
-import { createRequestLogger } from './logger';
+import { createRequestLogger, logger } from './logger';
 
 export interface GraphQLContext {
   req: Request;
@@ -67,8 +67,52 @@ export async function createContext({
   };
 }
 
+export type SubscriptionContext = Omit<GraphQLContext, 'req' | 'res'>;
+
+// Context for operations over the WebSocket transport. The token is taken from
+// the connection_init payload, since browsers cannot set headers on upgrade.
+export function createSubscriptionContext(
+  connectionParams: Record<string, unknown> | undefined
+): SubscriptionContext {
+  const requestId = `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const logger = createRequestLogger(requestId);
+
+  return {
+    user: getSubscriptionUser(connectionParams),
+    loaders: createLoaders(),
+    cache: cacheService,
+    db: databaseService,
+    logger,
+    requestId,
+  };
+}
+
+export function getSubscriptionUser(
+  connectionParams: Record<string, unknown> | undefined
+): JWTPayload | null {
+  const authorization = connectionParams?.authorization ?? connectionParams?.Authorization;
+  if (typeof authorization !== 'string') {
+    return null;
+  }
+
+  const token = authService.extractTokenFromHeader(authorization);
+  return token ? authService.verifyAccessToken(token) : null;
+}
+
+// graphql-ws onConnect hook: refuses the connection unless connection_init
+// carries a valid access token
+export function acceptSubscriptionConnection(
+  connectionParams: Record<string, unknown> | undefined
+): boolean {
+  if (!getSubscriptionUser(connectionParams)) {
+    logger.warn('Rejected WebSocket connection without a valid token');
+    return false;
+  }
+  return true;
+}
+
 // Helper function to require authentication
-export function requireAuth(context: GraphQLContext): JWTPayload {
+export function requireAuth(context: Pick<GraphQLContext, 'user'>): JWTPayload {
   if (!context.user) {
     throw new Error('Authentication required');
   }
@@ -85,7 +129,7 @@ export function requireAdmin(context: GraphQLContext): JWTPayload {
 }
 
 // Helper function to check if user owns resource
-export function requireOwnership(context: GraphQLContext, resourceUserId: string): JWTPayload {
+export function requireOwnership(context: Pick<GraphQLContext, 'user'>, resourceUserId: string): JWTPayload {
   const user = requireAuth(context);
   if (user.userId !== resourceUserId && !user.isAdmin) {
     throw new Error('Access denied: insufficient permissions');
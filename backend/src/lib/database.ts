@@ -107,6 +107,46 @@ class DatabaseService {
     }
   }
 
+  // Runs a statement on the caller's connection when one is given (so it joins
+  // an executeTransaction callback), otherwise on a pooled autocommit connection
+  async executeOn<T = any>(
+    connection: oracledb.Connection | undefined,
+    sql: string,
+    binds: any = {},
+    options: oracledb.ExecuteOptions = {}
+  ): Promise<oracledb.Result<T>> {
+    if (!connection) {
+      return this.executeQuery<T>(sql, binds, options);
+    }
+
+    try {
+      return await connection.execute<T>(sql, binds, options);
+    } catch (error) {
+      logger.error({ error, sql, binds }, 'Database query failed');
+      throw error;
+    }
+  }
+
+  // Yields rows as the driver fetches them instead of loading the whole result,
+  // for exports and other large reads. The connection is held until the
+  // caller finishes or stops iterating.
+  async *streamQuery<T = any>(sql: string, binds: any = {}): AsyncGenerator<T> {
+    const connection = await this.getConnection();
+    const stream = connection.queryStream(sql, binds);
+
+    try {
+      for await (const row of stream) {
+        yield row as T;
+      }
+    } catch (error) {
+      logger.error({ error, sql, binds }, 'Database stream failed');
+      throw error;
+    } finally {
+      stream.destroy();
+      await connection.close();
+    }
+  }
+
   async executeProcedure<T = any>(
     procedureName: string,
     binds: any = {},
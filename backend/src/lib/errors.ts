@@ -0,0 +1,132 @@
+import { ApolloError } from 'apollo-server-express';
+
+// Typed GraphQL errors. Each carries a stable `extensions.code` the client can
+// switch on instead of parsing messages.
+
+export class InvalidOrderTransitionError extends ApolloError {
+  constructor(from: string, to: string) {
+    super(
+      `Cannot change order status from ${from.toUpperCase()} to ${to.toUpperCase()}`,
+      'INVALID_ORDER_TRANSITION',
+      { from: from.toUpperCase(), to: to.toUpperCase() }
+    );
+
+    Object.defineProperty(this, 'name', { value: 'InvalidOrderTransitionError' });
+  }
+}
+
+export class OrderTransitionForbiddenError extends ApolloError {
+  constructor(to: string, allowedRoles: string[]) {
+    super(
+      `Only ${allowedRoles.join(', ')} may change this order to ${to.toUpperCase()}`,
+      'ORDER_TRANSITION_FORBIDDEN',
+      { to: to.toUpperCase(), allowedRoles: allowedRoles.map(role => role.toUpperCase()) }
+    );
+
+    Object.defineProperty(this, 'name', { value: 'OrderTransitionForbiddenError' });
+  }
+}
+
+export class PaymentDeclinedError extends ApolloError {
+  constructor(failureCode: string, message = 'The payment was declined') {
+    super(message, 'PAYMENT_DECLINED', { reason: failureCode });
+
+    Object.defineProperty(this, 'name', { value: 'PaymentDeclinedError' });
+  }
+}
+
+export class PaymentNotCompletedError extends ApolloError {
+  constructor(orderId: string, paymentStatus: string) {
+    super(
+      `Order ${orderId} cannot proceed until its payment is completed`,
+      'PAYMENT_NOT_COMPLETED',
+      { paymentStatus: paymentStatus.toUpperCase() }
+    );
+
+    Object.defineProperty(this, 'name', { value: 'PaymentNotCompletedError' });
+  }
+}
+
+export class InvalidRefundError extends ApolloError {
+  constructor(message: string) {
+    super(message, 'INVALID_REFUND');
+
+    Object.defineProperty(this, 'name', { value: 'InvalidRefundError' });
+  }
+}
+
+export class InvalidReturnError extends ApolloError {
+  constructor(message: string) {
+    super(message, 'INVALID_RETURN');
+
+    Object.defineProperty(this, 'name', { value: 'InvalidReturnError' });
+  }
+}
+
+export class InvalidReturnTransitionError extends ApolloError {
+  constructor(from: string, to: string) {
+    super(
+      `Cannot change return status from ${from.toUpperCase()} to ${to.toUpperCase()}`,
+      'INVALID_RETURN_TRANSITION',
+      { from: from.toUpperCase(), to: to.toUpperCase() }
+    );
+
+    Object.defineProperty(this, 'name', { value: 'InvalidReturnTransitionError' });
+  }
+}
+
+export class IdempotencyKeyConflictError extends ApolloError {
+  constructor(key: string) {
+    super(
+      'This idempotency key was already used for a different request',
+      'IDEMPOTENCY_KEY_CONFLICT',
+      { idempotencyKey: key }
+    );
+
+    Object.defineProperty(this, 'name', { value: 'IdempotencyKeyConflictError' });
+  }
+}
+
+export class IdempotencyKeyInProgressError extends ApolloError {
+  constructor(key: string) {
+    super(
+      'A request with this idempotency key is still being processed',
+      'IDEMPOTENCY_KEY_IN_PROGRESS',
+      { idempotencyKey: key }
+    );
+
+    Object.defineProperty(this, 'name', { value: 'IdempotencyKeyInProgressError' });
+  }
+}
+
+export class InvalidCouponError extends ApolloError {
+  constructor(code: string, reason: string) {
+    super(reason, 'INVALID_COUPON', { couponCode: code.toUpperCase() });
+
+    Object.defineProperty(this, 'name', { value: 'InvalidCouponError' });
+  }
+}
+
+export class InvalidShippingMethodError extends ApolloError {
+  constructor(message: string, sellerId?: string) {
+    super(message, 'INVALID_SHIPPING_METHOD', sellerId ? { sellerId } : {});
+
+    Object.defineProperty(this, 'name', { value: 'InvalidShippingMethodError' });
+  }
+}
+
+export class InvoiceNotAvailableError extends ApolloError {
+  constructor(message: string) {
+    super(message, 'INVOICE_NOT_AVAILABLE');
+
+    Object.defineProperty(this, 'name', { value: 'InvoiceNotAvailableError' });
+  }
+}
+
+export class InvalidCursorError extends ApolloError {
+  constructor(message: string) {
+    super(message, 'INVALID_CURSOR');
+
+    Object.defineProperty(this, 'name', { value: 'InvalidCursorError' });
+  }
+}
@@ -0,0 +1,171 @@
+import { createHash } from 'crypto';
+import oracledb from 'oracledb';
+import { databaseService } from './database';
+import { GraphQLContext, requireAuth } from './context';
+import { IdempotencyKeyConflictError, IdempotencyKeyInProgressError } from './errors';
+import { logger } from './logger';
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+// ORA-00001: unique constraint violated
+const UNIQUE_VIOLATION = 1;
+
+interface IdempotencyRecord {
+  user_id: string;
+  idempotency_key: string;
+  operation: string;
+  request_hash: string;
+  status: 'in_progress' | 'completed';
+  response?: string | null;
+  expires_at: string;
+}
+
+export function getIdempotencyTtlHours(): number {
+  return parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24');
+}
+
+// Same arguments in any key order hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as any)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+export function hashRequest(operation: string, args: unknown): string {
+  return createHash('sha256').update(`${operation}:${stableStringify(args)}`).digest('hex');
+}
+
+// Keys are scoped to the user, so two users can never replay each other's
+// results. Claims are committed on their own, outside the mutation's
+// transaction, so a concurrent repeat sees them.
+class IdempotencyStore {
+  async find(userId: string, key: string): Promise<IdempotencyRecord | null> {
+    const result = await databaseService.executeQuery<IdempotencyRecord>(
+      `SELECT * FROM idempotency_keys
+       WHERE user_id = :userId AND idempotency_key = :key AND expires_at > CURRENT_TIMESTAMP`,
+      { userId, key },
+      { fetchInfo: { RESPONSE: { type: oracledb.STRING } } }
+    );
+
+    return result.rows?.[0] || null;
+  }
+
+  // Returns false when the key is already held
+  async claim(userId: string, key: string, operation: string, requestHash: string): Promise<boolean> {
+    // A key past its TTL may be reused
+    await databaseService.executeQuery(
+      `DELETE FROM idempotency_keys
+       WHERE user_id = :userId AND idempotency_key = :key AND expires_at <= CURRENT_TIMESTAMP`,
+      { userId, key }
+    );
+
+    try {
+      await databaseService.executeQuery(
+        `INSERT INTO idempotency_keys (user_id, idempotency_key, operation, request_hash, status, expires_at)
+         VALUES (:userId, :key, :operation, :requestHash, 'in_progress',
+                 CURRENT_TIMESTAMP + NUMTODSINTERVAL(:ttlHours, 'HOUR'))`,
+        { userId, key, operation, requestHash, ttlHours: getIdempotencyTtlHours() }
+      );
+      return true;
+    } catch (error: any) {
+      if (error?.errorNum === UNIQUE_VIOLATION) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async complete(userId: string, key: string, response: unknown): Promise<void> {
+    await databaseService.executeQuery(
+      `UPDATE idempotency_keys SET status = 'completed', response = :response
+       WHERE user_id = :userId AND idempotency_key = :key`,
+      { userId, key, response: JSON.stringify(response ?? null) }
+    );
+  }
+
+  // Failed requests are not stored, so the client can retry with the same key
+  async release(userId: string, key: string): Promise<void> {
+    await databaseService.executeQuery(
+      'DELETE FROM idempotency_keys WHERE user_id = :userId AND idempotency_key = :key',
+      { userId, key }
+    );
+  }
+}
+
+export const idempotencyStore = new IdempotencyStore();
+
+// The Idempotency-Key header wins over a clientMutationId argument
+export function getIdempotencyKey(
+  context: Pick<GraphQLContext, 'req'>,
+  clientMutationId?: string | null
+): string | null {
+  const header = context.req?.headers?.[IDEMPOTENCY_HEADER];
+  const key = (Array.isArray(header) ? header[0] : header) || clientMutationId;
+  return key ? key.trim().slice(0, 255) || null : null;
+}
+
+// Runs a mutation at most once per key. A repeat with the same arguments gets
+// the first result back; different arguments, or a repeat while the first
+// call is still running, are rejected.
+export async function withIdempotency<T>(
+  context: Pick<GraphQLContext, 'req' | 'user'>,
+  operation: string,
+  args: { clientMutationId?: string | null | undefined } & Record<string, unknown>,
+  execute: () => Promise<T>
+): Promise<T> {
+  const { clientMutationId, ...request } = args;
+  const key = getIdempotencyKey(context, clientMutationId);
+  if (!key) {
+    return execute();
+  }
+
+  const user = requireAuth(context);
+  const requestHash = hashRequest(operation, request);
+
+  if (!(await idempotencyStore.claim(user.userId, key, operation, requestHash))) {
+    const existing = await idempotencyStore.find(user.userId, key);
+
+    if (!existing) {
+      // Released or expired in between
+      return withIdempotency(context, operation, args, execute);
+    }
+
+    if (existing.operation !== operation || existing.request_hash !== requestHash) {
+      throw new IdempotencyKeyConflictError(key);
+    }
+
+    if (existing.status !== 'completed') {
+      throw new IdempotencyKeyInProgressError(key);
+    }
+
+    logger.info({ userId: user.userId, operation, key }, 'Replaying idempotent mutation');
+    return JSON.parse(existing.response ?? 'null') as T;
+  }
+
+  let result: T;
+  try {
+    result = await execute();
+  } catch (error) {
+    await idempotencyStore.release(user.userId, key).catch((releaseError) => {
+      logger.error({ error: releaseError, userId: user.userId, key }, 'Failed to release idempotency key');
+    });
+    throw error;
+  }
+
+  // The mutation went through either way; a repeat then waits out the TTL
+  await idempotencyStore.complete(user.userId, key, result).catch((error) => {
+    logger.error({ error, userId: user.userId, key }, 'Failed to store idempotent result');
+  });
+
+  return result;
+}
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import { createClient, RedisClientType } from 'redis';
+import { logger } from './logger';
+
+const MINUTE = 60 * 1000;
+
+// Cron fields in order: minute, hour, day of month, month, day of week
+// (0 is Sunday)
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 6]];
+
+export type Schedule = Set<number>[];
+
+// Parses a five-field cron expression. Each field takes *, a number, a range
+// (1-5), a step (*/15 or 0-30/10) or a comma-separated list of those.
+export function parseSchedule(expression: string): Schedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid schedule "${expression}": expected 5 fields`);
+  }
+
+  return fields.map((field, index) => {
+    const [min, max] = FIELD_RANGES[index]!;
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+      if (!match) {
+        throw new Error(`Invalid schedule "${expression}": bad field "${field}"`);
+      }
+
+      const [, range, stepText] = match;
+      const [from, to] = range === '*'
+        ? [min, max]
+        : range!.includes('-')
+          ? range!.split('-').map(Number) as [number, number]
+          : [Number(range), stepText ? max : Number(range)];
+      const step = stepText ? Number(stepText) : 1;
+
+      if (from < min || to > max || from > to || step < 1) {
+        throw new Error(`Invalid schedule "${expression}": "${part}" is out of range`);
+      }
+
+      for (let value = from; value <= to; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  });
+}
+
+// Whether the schedule fires in the minute of the given time, in UTC
+export function matchesSchedule(schedule: Schedule, time: Date): boolean {
+  const [minutes, hours, days, months, weekdays] = schedule;
+
+  return minutes!.has(time.getUTCMinutes())
+    && hours!.has(time.getUTCHours())
+    && days!.has(time.getUTCDate())
+    && months!.has(time.getUTCMonth() + 1)
+    && weekdays!.has(time.getUTCDay());
+}
+
+export interface JobDefinition {
+  name: string;
+  // Five-field cron expression, in UTC
+  schedule: string;
+  run: () => Promise<void>;
+  // How long the lock is held if the instance dies mid-run
+  lockTtlMs?: number;
+}
+
+interface RegisteredJob extends JobDefinition {
+  parsed: Schedule;
+}
+
+// Runs scheduled jobs inside the API process. Each run takes a lock in Redis
+// so only one instance runs a job at a time; without Redis, the lock only
+// covers this process. Jobs should still tolerate running twice.
+export class JobRunner {
+  private client: RedisClientType | null = null;
+  private useRedis = false;
+  private jobs = new Map<string, RegisteredJob>();
+  // In-memory locks by job name
+  private localLocks = new Map<string, { token: string; expiresAt: number }>();
+  private timer: NodeJS.Timeout | null = null;
+
+  register(job: JobDefinition): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job "${job.name}" is already registered`);
+    }
+
+    this.jobs.set(job.name, { ...job, parsed: parseSchedule(job.schedule) });
+  }
+
+  async connect(): Promise<void> {
+    try {
+      this.client = createClient({
+        socket: {
+          host: process.env.REDIS_HOST || 'localhost',
+          port: parseInt(process.env.REDIS_PORT || '6379'),
+        },
+        ...(process.env.REDIS_PASSWORD && { password: process.env.REDIS_PASSWORD }),
+      });
+
+      this.client.on('error', (err) => {
+        logger.error({ error: err }, 'Redis job lock client error');
+      });
+
+      await this.client.connect();
+      this.useRedis = true;
+      logger.info('Redis job locks connected');
+    } catch (error) {
+      logger.warn({ error }, 'Failed to connect Redis job locks, using in-memory locks');
+      this.client = null;
+      this.useRedis = false;
+    }
+  }
+
+  // Checks the schedules at the start of every minute
+  start(): void {
+    if (this.timer) return;
+
+    const scheduleTick = () => {
+      const now = Date.now();
+      this.timer = setTimeout(() => {
+        void this.tick(new Date());
+        scheduleTick();
+      }, MINUTE - (now % MINUTE));
+    };
+
+    scheduleTick();
+    logger.info({ jobs: [...this.jobs.keys()] }, 'Job runner started');
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.useRedis) {
+      await this.client?.disconnect();
+      this.useRedis = false;
+    }
+    this.localLocks.clear();
+  }
+
+  async tick(time: Date): Promise<void> {
+    const due = [...this.jobs.values()].filter(job => matchesSchedule(job.parsed, time));
+    await Promise.all(due.map(job => this.runJob(job.name)));
+  }
+
+  // Runs the job now unless another run holds its lock. Returns whether it ran.
+  async runJob(name: string): Promise<boolean> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job "${name}"`);
+    }
+
+    const token = randomUUID();
+    const ttl = job.lockTtlMs ?? 10 * MINUTE;
+    if (!(await this.acquire(name, token, ttl))) {
+      logger.debug({ job: name }, 'Job already running elsewhere, skipped');
+      return false;
+    }
+
+    const startedAt = Date.now();
+    try {
+      await job.run();
+      logger.info({ job: name, durationMs: Date.now() - startedAt }, 'Job finished');
+    } catch (error) {
+      logger.error({ error, job: name }, 'Job failed');
+    } finally {
+      await this.release(name, token);
+    }
+
+    return true;
+  }
+
+  private async acquire(name: string, token: string, ttlMs: number): Promise<boolean> {
+    if (this.useRedis && this.client) {
+      const result = await this.client.set(`jobs:lock:${name}`, token, { NX: true, PX: ttlMs });
+      return result === 'OK';
+    }
+
+    const lock = this.localLocks.get(name);
+    if (lock && lock.expiresAt > Date.now()) {
+      return false;
+    }
+    this.localLocks.set(name, { token, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  // Only the holder releases the lock, so a run that outlived its TTL cannot
+  // drop the next run's lock
+  private async release(name: string, token: string): Promise<void> {
+    if (this.useRedis && this.client) {
+      try {
+        await this.client.eval(
+          "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+          { keys: [`jobs:lock:${name}`], arguments: [token] }
+        );
+      } catch (error) {
+        logger.error({ error, job: name }, 'Failed to release job lock');
+      }
+      return;
+    }
+
+    if (this.localLocks.get(name)?.token === token) {
+      this.localLocks.delete(name);
+    }
+  }
+}
+
+export const jobRunner = new JobRunner();
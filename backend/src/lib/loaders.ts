@@ -2,6 +2,11 @@ import DataLoader from 'dataloader';
 import { UserDAO } from '../modules/user/user.dao';
 import { ProductDAO } from '../modules/product/product.dao';
 import { OrderDAO } from '../modules/order/order.dao';
+import { PaymentDAO } from '../modules/payment/payment.dao';
+import { ReturnDAO } from '../modules/return/return.dao';
+import { ShipmentDAO } from '../modules/shipment/shipment.dao';
+import { PromotionDAO } from '../modules/promotion/promotion.dao';
+import { AddressDAO } from '../modules/address/address.dao';
 
 export interface Loaders {
   userById: DataLoader<string, any>;
@@ -9,6 +14,16 @@ export interface Loaders {
   productsBySeller: DataLoader<string, any>;
   ordersByUser: DataLoader<string, any>;
   orderItemsByOrder: DataLoader<string, any>;
+  fulfillmentsByOrder: DataLoader<string, any>;
+  notesByFulfillment: DataLoader<string, any>;
+  orderStatusEventsByOrder: DataLoader<string, any>;
+  paymentIntentsByOrder: DataLoader<string, any>;
+  refundsByOrder: DataLoader<string, any>;
+  returnsByOrder: DataLoader<string, any>;
+  shipmentsByOrder: DataLoader<string, any>;
+  trackingEventsByShipment: DataLoader<string, any>;
+  discountsByOrder: DataLoader<string, any>;
+  addressesByOrder: DataLoader<string, any>;
   reviewsByProduct: DataLoader<string, any>;
   cartItemsByUser: DataLoader<string, any>;
 }
@@ -17,6 +32,11 @@ export function createLoaders(): Loaders {
   const userDAO = new UserDAO();
   const productDAO = new ProductDAO();
   const orderDAO = new OrderDAO();
+  const paymentDAO = new PaymentDAO();
+  const returnDAO = new ReturnDAO();
+  const shipmentDAO = new ShipmentDAO();
+  const promotionDAO = new PromotionDAO();
+  const addressDAO = new AddressDAO();
 
   return {
     userById: new DataLoader(async (ids: readonly string[]) => {
@@ -50,6 +70,76 @@ export function createLoaders(): Loaders {
       );
     }),
 
+    fulfillmentsByOrder: new DataLoader(async (orderIds: readonly string[]) => {
+      const fulfillments = await orderDAO.findFulfillmentsByOrders(orderIds as string[]);
+      return orderIds.map(orderId => 
+        fulfillments.filter(fulfillment => fulfillment.order_id === orderId)
+      );
+    }),
+
+    notesByFulfillment: new DataLoader(async (fulfillmentIds: readonly string[]) => {
+      const notes = await orderDAO.findNotesByFulfillments(fulfillmentIds as string[]);
+      return fulfillmentIds.map(fulfillmentId => 
+        notes.filter(note => note.fulfillment_id === fulfillmentId)
+      );
+    }),
+
+    orderStatusEventsByOrder: new DataLoader(async (orderIds: readonly string[]) => {
+      const events = await orderDAO.findStatusEventsByOrders(orderIds as string[]);
+      return orderIds.map(orderId => 
+        events.filter(event => event.order_id === orderId)
+      );
+    }),
+
+    paymentIntentsByOrder: new DataLoader(async (orderIds: readonly string[]) => {
+      const intents = await paymentDAO.findByOrders(orderIds as string[]);
+      return orderIds.map(orderId => 
+        intents.filter(intent => intent.order_id === orderId)
+      );
+    }),
+
+    refundsByOrder: new DataLoader(async (orderIds: readonly string[]) => {
+      const refunds = await paymentDAO.findRefundsByOrders(orderIds as string[]);
+      return orderIds.map(orderId => 
+        refunds.filter(refund => refund.order_id === orderId)
+      );
+    }),
+
+    returnsByOrder: new DataLoader(async (orderIds: readonly string[]) => {
+      const returns = await returnDAO.findByOrders(orderIds as string[]);
+      return orderIds.map(orderId => 
+        returns.filter(returnRequest => returnRequest.order_id === orderId)
+      );
+    }),
+
+    shipmentsByOrder: new DataLoader(async (orderIds: readonly string[]) => {
+      const shipments = await shipmentDAO.findByOrders(orderIds as string[]);
+      return orderIds.map(orderId => 
+        shipments.filter(shipment => shipment.order_id === orderId)
+      );
+    }),
+
+    trackingEventsByShipment: new DataLoader(async (shipmentIds: readonly string[]) => {
+      const events = await shipmentDAO.findEventsByShipments(shipmentIds as string[]);
+      return shipmentIds.map(shipmentId => 
+        events.filter(event => event.shipment_id === shipmentId)
+      );
+    }),
+
+    discountsByOrder: new DataLoader(async (orderIds: readonly string[]) => {
+      const discounts = await promotionDAO.findDiscountsByOrders(orderIds as string[]);
+      return orderIds.map(orderId => 
+        discounts.filter(discount => discount.order_id === orderId)
+      );
+    }),
+
+    addressesByOrder: new DataLoader(async (orderIds: readonly string[]) => {
+      const addresses = await addressDAO.findByOrders(orderIds as string[]);
+      return orderIds.map(orderId => 
+        addresses.filter(address => address.order_id === orderId)
+      );
+    }),
+
     reviewsByProduct: new DataLoader(async (productIds: readonly string[]) => {
       const reviews = await productDAO.findReviewsByProducts(productIds as string[]);
       return productIds.map(productId => 
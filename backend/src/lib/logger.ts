@@ -14,6 +14,16 @@ export const logger = pino({
       },
     },
   }),
+  // Card data must never reach the logs, wherever it ends up in a log object
+  redact: {
+    paths: [
+      'cardNumber', 'cvv', 'expiryDate',
+      '*.cardNumber', '*.cvv', '*.expiryDate',
+      '*.payment.cardNumber', '*.payment.cvv', '*.payment.expiryDate',
+      'variables.input.payment.cardNumber', 'variables.input.payment.cvv', 'variables.input.payment.expiryDate',
+    ],
+    censor: '[REDACTED]',
+  },
   formatters: {
     level: (label) => {
       return { level: label };
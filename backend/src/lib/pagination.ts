@@ -0,0 +1,171 @@
+import { InvalidCursorError } from './errors';
+
+// Keyset pagination: a cursor holds the sort key and id of a row, and the next
+// page is the rows ordered after it. Unlike an OFFSET, pages do not shift when
+// rows are inserted, and deep pages cost the same as the first one.
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface CursorArgs {
+  first?: number | undefined;
+  after?: string | undefined;
+  last?: number | undefined;
+  before?: string | undefined;
+}
+
+// Where a row sits in a sort: its key, as text, and its id
+export interface CursorKey {
+  key: string;
+  id: string;
+}
+
+export interface KeysetPage {
+  limit: number;
+  // The row to start from, exclusive
+  cursor?: CursorKey;
+  // last/before: the page ends just before the cursor
+  backward: boolean;
+}
+
+// A sort column as the database sees it. Keys travel in cursors as text and
+// are converted back in SQL, so timestamps and computed numbers compare at full
+// precision.
+export interface KeysetColumn {
+  // What rows are ordered by; must not be NULL
+  expression: string;
+  // The expression as text
+  key: string;
+  // Reads a key bind back into the expression's type
+  param: (bind: string) => string;
+}
+
+const TIMESTAMP_KEY_FORMAT = 'YYYY-MM-DD HH24:MI:SS.FF6';
+
+export function textColumn(expression: string): KeysetColumn {
+  return { expression, key: expression, param: bind => bind };
+}
+
+export function numberColumn(expression: string): KeysetColumn {
+  return { expression, key: `TO_CHAR(${expression})`, param: bind => `TO_NUMBER(${bind})` };
+}
+
+export function timestampColumn(expression: string): KeysetColumn {
+  return {
+    expression,
+    key: `TO_CHAR(${expression}, '${TIMESTAMP_KEY_FORMAT}')`,
+    param: bind => `TO_TIMESTAMP(${bind}, '${TIMESTAMP_KEY_FORMAT}')`,
+  };
+}
+
+interface CursorPayload extends CursorKey {
+  // The sort the cursor was made for; it means nothing in another one
+  sort: string;
+}
+
+export function encodeCursor(sort: string, position: CursorKey): string {
+  const payload: CursorPayload = { sort, key: position.key, id: position.id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(sort: string, cursor: string): CursorKey {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidCursorError('Invalid cursor');
+  }
+
+  if (typeof payload?.key !== 'string' || typeof payload.id !== 'string') {
+    throw new InvalidCursorError('Invalid cursor');
+  }
+  if (payload.sort !== sort) {
+    throw new InvalidCursorError('Cursor belongs to a different sort; start again from the first page');
+  }
+
+  return { key: payload.key, id: payload.id };
+}
+
+export function toKeysetPage(sort: string, args: CursorArgs, defaultLimit = 20): KeysetPage {
+  const backward = args.last !== undefined || args.before !== undefined;
+  if (backward && (args.first !== undefined || args.after !== undefined)) {
+    throw new InvalidCursorError('Use first/after or last/before, not both');
+  }
+
+  const cursor = backward ? args.before : args.after;
+
+  return {
+    limit: Math.min((backward ? args.last : args.first) || defaultLimit, 100),
+    ...(cursor && { cursor: decodeCursor(sort, cursor) }),
+    backward,
+  };
+}
+
+// The parts of a query that fetch one page: the cursor key to select, the
+// condition for rows past the cursor and the order to read them in. Backward
+// pages read the order in reverse from the cursor; finishPage puts them back.
+// One extra row is fetched to tell whether there are more.
+export function buildKeysetQuery(
+  column: KeysetColumn,
+  idExpression: string,
+  direction: SortDirection,
+  page: KeysetPage
+): { select: string; condition: string | null; orderBy: string; binds: Record<string, any> } {
+  const readDirection = page.backward ? (direction === 'ASC' ? 'DESC' : 'ASC') : direction;
+  const operator = readDirection === 'ASC' ? '>' : '<';
+  const cursorKey = column.param(':cursorKey');
+
+  return {
+    select: `${column.key} as cursor_key`,
+    condition: page.cursor
+      ? `(${column.expression} ${operator} ${cursorKey}
+          OR (${column.expression} = ${cursorKey} AND ${idExpression} ${operator} :cursorId))`
+      : null,
+    orderBy: `ORDER BY ${column.expression} ${readDirection}, ${idExpression} ${readDirection}`,
+    binds: {
+      ...(page.cursor && { cursorKey: page.cursor.key, cursorId: page.cursor.id }),
+      limit: page.limit + 1,
+    },
+  };
+}
+
+export interface KeysetResult<T> {
+  rows: T[];
+  // More rows past the page in the direction it was read
+  hasMore: boolean;
+}
+
+export function finishPage<T>(rows: T[], page: KeysetPage): KeysetResult<T> {
+  const pageRows = rows.slice(0, page.limit);
+
+  return {
+    rows: page.backward ? pageRows.reverse() : pageRows,
+    hasMore: rows.length > page.limit,
+  };
+}
+
+// Relay connection for a page of rows that carry their cursor_key. A cursor
+// on the other side of the page means rows exist there.
+export function toConnection<T extends { id: string; cursor_key: string }, N>(
+  sort: string,
+  page: KeysetPage,
+  result: KeysetResult<T>,
+  transform: (row: T) => N
+): {
+  edges: { node: N; cursor: string }[];
+  pageInfo: { hasNextPage: boolean; hasPreviousPage: boolean; startCursor: string | null; endCursor: string | null };
+} {
+  const edges = result.rows.map(row => ({
+    node: transform(row),
+    cursor: encodeCursor(sort, { key: row.cursor_key, id: row.id }),
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: page.backward ? Boolean(page.cursor) : result.hasMore,
+      hasPreviousPage: page.backward ? result.hasMore : Boolean(page.cursor),
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+  };
+}
@@ -0,0 +1,103 @@
+// A minimal PDF writer for text documents such as invoices: A4 pages of text
+// in the standard Helvetica fonts plus horizontal rules. Text is encoded as
+// WinAnsi, so characters outside Latin-1 are printed as '?'.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  x: number;
+  // From the bottom of the page, as in PDF
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Right-aligned text ends at x
+  align?: 'left' | 'right';
+}
+
+export interface PdfRule {
+  x1: number;
+  x2: number;
+  y: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules: PdfRule[];
+}
+
+// Helvetica glyph widths in thousandths of the font size, for the characters
+// amounts and numbers are made of; other characters use an average width
+const GLYPH_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, '%': 889, '/': 278, ':': 278,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+};
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const units = [...text].reduce((sum, char) => {
+    const width = GLYPH_WIDTHS[char] ?? (char === char.toUpperCase() && char !== char.toLowerCase() ? 667 : 520);
+    return sum + width;
+  }, 0);
+
+  return (units * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+}
+
+function contentStream(page: PdfPage): string {
+  const commands: string[] = [];
+
+  for (const rule of page.rules) {
+    commands.push(`0.5 w ${rule.x1} ${rule.y} m ${rule.x2} ${rule.y} l S`);
+  }
+
+  for (const text of page.texts) {
+    const size = text.size ?? 10;
+    const x = text.align === 'right' ? text.x - textWidth(text.text, size, text.bold) : text.x;
+    commands.push(
+      `BT /${text.bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${text.y.toFixed(2)} Td (${escapeText(text.text)}) Tj ET`
+    );
+  }
+
+  return commands.join('\n');
+}
+
+export function renderPdf(pages: PdfPage[]): Buffer {
+  // Objects 1-4 are the catalog, page tree and fonts; each page then takes
+  // two objects, the page and its content stream
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((page, index) => {
+    const stream = contentStream(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index]! + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,167 @@
+import { EventEmitter } from 'events';
+import { createClient, RedisClientType } from 'redis';
+import { logger } from './logger';
+
+// Pub/sub for GraphQL subscriptions. Messages go through Redis so every API
+// instance sees them; without Redis, events stay inside this process.
+class PubSubService {
+  private publisher: RedisClientType | null = null;
+  private subscriber: RedisClientType | null = null;
+  private emitter = new EventEmitter();
+  private redisChannels = new Set<string>();
+  private useRedis = false;
+
+  constructor() {
+    // One listener per active subscription, so the default cap of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  async connect(): Promise<void> {
+    try {
+      this.publisher = createClient({
+        socket: {
+          host: process.env.REDIS_HOST || 'localhost',
+          port: parseInt(process.env.REDIS_PORT || '6379'),
+        },
+        ...(process.env.REDIS_PASSWORD && { password: process.env.REDIS_PASSWORD }),
+      });
+      this.subscriber = this.publisher.duplicate();
+
+      this.publisher.on('error', (err) => {
+        logger.error({ error: err }, 'Redis pub/sub publisher error');
+      });
+
+      this.subscriber.on('error', (err) => {
+        logger.error({ error: err }, 'Redis pub/sub subscriber error');
+      });
+
+      await this.publisher.connect();
+      await this.subscriber.connect();
+      this.useRedis = true;
+      logger.info('Redis pub/sub connected');
+    } catch (error) {
+      logger.warn({ error }, 'Failed to connect Redis pub/sub, using in-memory mode');
+      this.publisher = null;
+      this.subscriber = null;
+      this.useRedis = false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.useRedis) {
+      await this.subscriber?.disconnect();
+      await this.publisher?.disconnect();
+      this.useRedis = false;
+    }
+    this.redisChannels.clear();
+    this.emitter.removeAllListeners();
+  }
+
+  async publish<T>(channel: string, payload: T): Promise<void> {
+    try {
+      if (this.useRedis && this.publisher) {
+        // Delivered back to this instance through the Redis subscription
+        await this.publisher.publish(channel, JSON.stringify(payload));
+      } else {
+        this.emitter.emit(channel, payload);
+      }
+    } catch (error) {
+      logger.error({ error, channel }, 'Failed to publish event');
+    }
+  }
+
+  // Async iterator over a channel, as expected by GraphQL subscription resolvers
+  asyncIterator<T>(channel: string): AsyncIterableIterator<T> {
+    const queue: T[] = [];
+    const waiting: ((result: IteratorResult<T>) => void)[] = [];
+    let done = false;
+
+    const listener = (payload: T) => {
+      const resolve = waiting.shift();
+      if (resolve) {
+        resolve({ value: payload, done: false });
+      } else {
+        queue.push(payload);
+      }
+    };
+
+    const stop = async (): Promise<IteratorResult<T>> => {
+      if (!done) {
+        done = true;
+        this.emitter.off(channel, listener);
+        waiting.forEach(resolve => resolve({ value: undefined, done: true }));
+        waiting.length = 0;
+        queue.length = 0;
+        await this.releaseRedisChannel(channel);
+      }
+      return { value: undefined, done: true };
+    };
+
+    this.emitter.on(channel, listener);
+    void this.ensureRedisChannel(channel);
+
+    return {
+      next: () => {
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift() as T, done: false });
+        }
+        return new Promise(resolve => waiting.push(resolve));
+      },
+      return: stop,
+      throw: async (error: unknown) => {
+        await stop();
+        throw error;
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  isHealthy(): boolean {
+    return !this.useRedis || Boolean(this.subscriber?.isOpen);
+  }
+
+  private async ensureRedisChannel(channel: string): Promise<void> {
+    if (!this.useRedis || !this.subscriber || this.redisChannels.has(channel)) {
+      return;
+    }
+
+    this.redisChannels.add(channel);
+    try {
+      await this.subscriber.subscribe(channel, (message) => {
+        try {
+          this.emitter.emit(channel, JSON.parse(message));
+        } catch (error) {
+          logger.error({ error, channel }, 'Failed to parse pub/sub message');
+        }
+      });
+    } catch (error) {
+      this.redisChannels.delete(channel);
+      logger.error({ error, channel }, 'Failed to subscribe to Redis channel');
+    }
+  }
+
+  private async releaseRedisChannel(channel: string): Promise<void> {
+    if (!this.useRedis || !this.subscriber || this.emitter.listenerCount(channel) > 0) {
+      return;
+    }
+
+    this.redisChannels.delete(channel);
+    try {
+      await this.subscriber.unsubscribe(channel);
+    } catch (error) {
+      logger.error({ error, channel }, 'Failed to unsubscribe from Redis channel');
+    }
+  }
+}
+
+export const pubSubService = new PubSubService();
+
+// Channel name generators
+export const pubSubChannels = {
+  orderStatusChanged: (userId: string) => `order_status_changed:${userId}`,
+};
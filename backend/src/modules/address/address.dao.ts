@@ -0,0 +1,259 @@
+import oracledb from 'oracledb';
+import { databaseService } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+// The fields a postal address is made of, shared by the address book and the
+// copies kept on orders
+export interface AddressFields {
+  recipient_name?: string | null;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  state?: string | null;
+  postal_code?: string | null;
+  country: string;
+  phone?: string | null;
+}
+
+export interface Address extends AddressFields {
+  id: string;
+  user_id: string;
+  label?: string | null;
+  is_default: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OrderAddressType = 'shipping' | 'billing';
+
+// An address as it was when the order was placed; later edits to the
+// address book do not change it
+export interface OrderAddress extends AddressFields {
+  order_id: string;
+  address_type: OrderAddressType;
+  created_at: string;
+}
+
+export type NewAddress = AddressFields & { user_id: string; label?: string | null };
+
+const ADDRESS_NULLS = {
+  recipient_name: null,
+  line2: null,
+  state: null,
+  postal_code: null,
+  phone: null,
+};
+
+export class AddressDAO {
+  async findById(id: string, connection?: oracledb.Connection): Promise<Address | null> {
+    try {
+      const result = await databaseService.executeOn<Address>(
+        connection,
+        'SELECT * FROM addresses WHERE id = :id',
+        { id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to find address by ID');
+      throw error;
+    }
+  }
+
+  // Default address first, then newest
+  async findByUser(userId: string): Promise<Address[]> {
+    try {
+      const result = await databaseService.executeQuery<Address>(
+        'SELECT * FROM addresses WHERE user_id = :userId ORDER BY is_default DESC, created_at DESC',
+        { userId }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, userId }, 'Failed to find addresses');
+      throw error;
+    }
+  }
+
+  async findDefault(userId: string, connection?: oracledb.Connection): Promise<Address | null> {
+    try {
+      const result = await databaseService.executeOn<Address>(
+        connection,
+        'SELECT * FROM addresses WHERE user_id = :userId AND is_default = 1',
+        { userId }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, userId }, 'Failed to find default address');
+      throw error;
+    }
+  }
+
+  // A user's first address becomes their default
+  async create(addressData: NewAddress, makeDefault: boolean): Promise<Address> {
+    try {
+      return await databaseService.executeTransaction(async (connection) => {
+        const existing = await connection.execute<{ count: number }>(
+          'SELECT COUNT(*) as count FROM addresses WHERE user_id = :userId',
+          { userId: addressData.user_id }
+        );
+        const isDefault = makeDefault || (existing.rows?.[0]?.count || 0) === 0;
+
+        if (isDefault) {
+          await this.clearDefault(addressData.user_id, connection);
+        }
+
+        const result = await connection.execute<Address>(
+          `INSERT INTO addresses (
+            id, user_id, label, recipient_name, line1, line2, city, state, postal_code, country, phone, is_default
+          ) VALUES (
+            SYS_GUID(), :user_id, :label, :recipient_name, :line1, :line2, :city, :state, :postal_code, :country, :phone, :is_default
+          ) RETURNING *`,
+          { label: null, ...ADDRESS_NULLS, ...addressData, is_default: isDefault ? 1 : 0 }
+        );
+
+        return result.rows?.[0]!;
+      });
+    } catch (error) {
+      logger.error({ error, userId: addressData.user_id }, 'Failed to create address');
+      throw error;
+    }
+  }
+
+  async update(
+    id: string,
+    updates: Partial<AddressFields & { label: string | null }>
+  ): Promise<Address | null> {
+    try {
+      const setClause = Object.keys(updates)
+        .map(key => `${key} = :${key}`)
+        .join(', ');
+
+      if (!setClause) {
+        return this.findById(id);
+      }
+
+      const result = await databaseService.executeQuery<Address>(
+        `UPDATE addresses SET ${setClause}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { ...updates, id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to update address');
+      throw error;
+    }
+  }
+
+  // Removing the default hands it to the user's newest remaining address
+  async delete(address: Address): Promise<boolean> {
+    try {
+      return await databaseService.executeTransaction(async (connection) => {
+        const result = await connection.execute(
+          'DELETE FROM addresses WHERE id = :id',
+          { id: address.id }
+        );
+
+        if (address.is_default) {
+          await connection.execute(
+            `UPDATE addresses SET is_default = 1, updated_at = CURRENT_TIMESTAMP
+             WHERE id = (
+               SELECT id FROM addresses WHERE user_id = :userId
+               ORDER BY created_at DESC FETCH FIRST 1 ROWS ONLY
+             )`,
+            { userId: address.user_id }
+          );
+        }
+
+        return (result.rowsAffected || 0) > 0;
+      });
+    } catch (error) {
+      logger.error({ error, id: address.id }, 'Failed to delete address');
+      throw error;
+    }
+  }
+
+  async setDefault(address: Address): Promise<Address> {
+    try {
+      return await databaseService.executeTransaction(async (connection) => {
+        await this.clearDefault(address.user_id, connection);
+
+        const result = await connection.execute<Address>(
+          `UPDATE addresses SET is_default = 1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = :id RETURNING *`,
+          { id: address.id }
+        );
+
+        return result.rows?.[0]!;
+      });
+    } catch (error) {
+      logger.error({ error, id: address.id }, 'Failed to set default address');
+      throw error;
+    }
+  }
+
+  async createOrderAddresses(
+    orderId: string,
+    addresses: { address_type: OrderAddressType; address: AddressFields }[],
+    connection: oracledb.Connection
+  ): Promise<OrderAddress[]> {
+    try {
+      const created: OrderAddress[] = [];
+
+      for (const { address_type, address } of addresses) {
+        const result = await connection.execute<OrderAddress>(
+          `INSERT INTO order_addresses (
+            order_id, address_type, recipient_name, line1, line2, city, state, postal_code, country, phone
+          ) VALUES (
+            :order_id, :address_type, :recipient_name, :line1, :line2, :city, :state, :postal_code, :country, :phone
+          ) RETURNING *`,
+          {
+            recipient_name: address.recipient_name ?? null,
+            line1: address.line1,
+            line2: address.line2 ?? null,
+            city: address.city,
+            state: address.state ?? null,
+            postal_code: address.postal_code ?? null,
+            country: address.country,
+            phone: address.phone ?? null,
+            order_id: orderId,
+            address_type,
+          }
+        );
+
+        created.push(result.rows?.[0]!);
+      }
+
+      return created;
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to create order addresses');
+      throw error;
+    }
+  }
+
+  async findByOrders(orderIds: string[]): Promise<OrderAddress[]> {
+    if (orderIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<OrderAddress>(
+        'SELECT * FROM order_addresses WHERE order_id IN (:orderIds)',
+        { orderIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, orderIds }, 'Failed to find order addresses');
+      throw error;
+    }
+  }
+
+  private async clearDefault(userId: string, connection: oracledb.Connection): Promise<void> {
+    await connection.execute(
+      `UPDATE addresses SET is_default = 0, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = :userId AND is_default = 1`,
+      { userId }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { AddressDAO, Address, AddressFields } from './address.dao';
+import { AddressInputSchema, toAddressFields } from './address.service';
+import { GraphQLContext, requireAuth } from '../../lib/context';
+import { logger } from '../../lib/logger';
+
+const addressDAO = new AddressDAO();
+
+// Validation schemas
+const LabelSchema = z.string().trim().min(1).max(50, 'Label is too long');
+
+const AddAddressInputSchema = AddressInputSchema.extend({
+  label: LabelSchema.optional(),
+  isDefault: z.boolean().optional(),
+});
+
+const UpdateAddressInputSchema = AddressInputSchema.partial().extend({
+  label: LabelSchema.optional(),
+});
+
+// Helper functions to transform database objects to GraphQL objects
+function transformAddressFields(address: AddressFields): any {
+  return {
+    recipientName: address.recipient_name,
+    line1: address.line1,
+    line2: address.line2,
+    city: address.city,
+    state: address.state,
+    postalCode: address.postal_code,
+    country: address.country,
+    phone: address.phone,
+  };
+}
+
+function transformAddress(address: Address): any {
+  return {
+    id: address.id,
+    label: address.label,
+    ...transformAddressFields(address),
+    isDefault: Boolean(address.is_default),
+    createdAt: address.created_at,
+    updatedAt: address.updated_at,
+  };
+}
+
+async function findOwnAddress(id: string, userId: string): Promise<Address> {
+  const address = await addressDAO.findById(id);
+  if (!address || address.user_id !== userId) {
+    throw new Error('Address not found');
+  }
+  return address;
+}
+
+async function loadOrderAddress(orderId: string, type: string, context: GraphQLContext): Promise<any> {
+  try {
+    const addresses = await context.loaders.addressesByOrder.load(orderId);
+    const address = addresses.find((candidate: any) => candidate.address_type === type);
+    return address ? transformAddressFields(address) : null;
+  } catch (error) {
+    logger.error({ error, orderId }, 'Failed to load order address');
+    return null;
+  }
+}
+
+export const addressResolvers = {
+  Query: {
+    addresses: async (_: any, __: any, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+
+        const addresses = await addressDAO.findByUser(user.userId);
+        return addresses.map(transformAddress);
+      } catch (error) {
+        logger.error({ error }, 'Failed to get addresses');
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    addAddress: async (_: any, { input }: { input: any }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const validatedInput = AddAddressInputSchema.parse(input);
+
+        const address = await addressDAO.create(
+          {
+            user_id: user.userId,
+            ...toAddressFields(validatedInput),
+            ...(validatedInput.label && { label: validatedInput.label }),
+          },
+          validatedInput.isDefault ?? false
+        );
+
+        logger.info({ addressId: address.id, userId: user.userId }, 'Address added');
+
+        return transformAddress(address);
+      } catch (error) {
+        logger.error({ error }, 'Failed to add address');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    updateAddress: async (_: any, { id, input }: { id: string; input: any }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const validatedInput = UpdateAddressInputSchema.parse(input);
+
+        await findOwnAddress(id, user.userId);
+
+        const updates: any = {};
+        if (validatedInput.label !== undefined) updates.label = validatedInput.label;
+        if (validatedInput.recipientName !== undefined) updates.recipient_name = validatedInput.recipientName;
+        if (validatedInput.line1 !== undefined) updates.line1 = validatedInput.line1;
+        if (validatedInput.line2 !== undefined) updates.line2 = validatedInput.line2;
+        if (validatedInput.city !== undefined) updates.city = validatedInput.city;
+        if (validatedInput.state !== undefined) updates.state = validatedInput.state;
+        if (validatedInput.postalCode !== undefined) updates.postal_code = validatedInput.postalCode;
+        if (validatedInput.country !== undefined) updates.country = validatedInput.country;
+        if (validatedInput.phone !== undefined) updates.phone = validatedInput.phone;
+
+        const address = await addressDAO.update(id, updates);
+        return transformAddress(address!);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to update address');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    removeAddress: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+
+        const address = await findOwnAddress(id, user.userId);
+        return await addressDAO.delete(address);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to remove address');
+        throw error;
+      }
+    },
+
+    setDefaultAddress: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+
+        const address = await findOwnAddress(id, user.userId);
+        const updated = await addressDAO.setDefault(address);
+
+        return transformAddress(updated);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to set default address');
+        throw error;
+      }
+    },
+  },
+
+  User: {
+    // Only the user and admins see the address book
+    addresses: async (parent: any, __: any, context: GraphQLContext) => {
+      if (!context.user || (context.user.userId !== parent.id && !context.user.isAdmin)) {
+        return [];
+      }
+
+      try {
+        const addresses = await addressDAO.findByUser(parent.id);
+        return addresses.map(transformAddress);
+      } catch (error) {
+        logger.error({ error, userId: parent.id }, 'Failed to load user addresses');
+        return [];
+      }
+    },
+  },
+
+  Order: {
+    shippingAddressDetails: async (parent: any, __: any, context: GraphQLContext) => {
+      return loadOrderAddress(parent.id, 'shipping', context);
+    },
+
+    billingAddressDetails: async (parent: any, __: any, context: GraphQLContext) => {
+      return loadOrderAddress(parent.id, 'billing', context);
+    },
+  },
+};
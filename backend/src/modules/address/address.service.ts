@@ -0,0 +1,99 @@
+import oracledb from 'oracledb';
+import { z } from 'zod';
+import { AddressDAO, Address, AddressFields } from './address.dao';
+import { UserDAO } from '../user/user.dao';
+import { TaxDestination } from '../tax/tax.provider';
+
+const addressDAO = new AddressDAO();
+const userDAO = new UserDAO();
+
+// Shared by the address book and checkout, which both take AddressInput
+export const AddressInputSchema = z.object({
+  recipientName: z.string().trim().min(1).max(200, 'Recipient name is too long').optional(),
+  line1: z.string().trim().min(1, 'Address line is required').max(255, 'Address line is too long'),
+  line2: z.string().trim().min(1).max(255, 'Address line is too long').optional(),
+  city: z.string().trim().min(1, 'City is required').max(100, 'City is too long'),
+  state: z.string().trim().min(1).max(100, 'State is too long').optional(),
+  postalCode: z.string().trim().min(1).max(20, 'Postal code is too long').optional(),
+  country: z.string().trim().min(2, 'Country is required').max(100, 'Country is too long'),
+  phone: z.string().trim().min(1).max(20, 'Phone is too long').optional(),
+});
+
+export type AddressInput = z.infer<typeof AddressInputSchema>;
+
+export function toAddressFields(input: AddressInput): AddressFields {
+  return {
+    line1: input.line1,
+    city: input.city,
+    country: input.country,
+    ...(input.recipientName && { recipient_name: input.recipientName }),
+    ...(input.line2 && { line2: input.line2 }),
+    ...(input.state && { state: input.state }),
+    ...(input.postalCode && { postal_code: input.postalCode }),
+    ...(input.phone && { phone: input.phone }),
+  };
+}
+
+// Copies only the postal fields, leaving out the address book's own
+export function pickAddressFields(address: Address): AddressFields {
+  return {
+    recipient_name: address.recipient_name ?? null,
+    line1: address.line1,
+    line2: address.line2 ?? null,
+    city: address.city,
+    state: address.state ?? null,
+    postal_code: address.postal_code ?? null,
+    country: address.country,
+    phone: address.phone ?? null,
+  };
+}
+
+// One line, for the free-text address columns on orders
+export function formatAddress(address: AddressFields): string {
+  const cityLine = [address.city, [address.state, address.postal_code].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  return [address.recipient_name, address.line1, address.line2, cityLine, address.country]
+    .filter(Boolean)
+    .join(', ')
+    .slice(0, 500);
+}
+
+export class AddressService {
+  // The user's saved address when an ID is given, otherwise the address
+  // passed in; null when neither is
+  async resolve(
+    userId: string,
+    choice: { addressId?: string | undefined; address?: AddressFields | undefined },
+    connection?: oracledb.Connection
+  ): Promise<AddressFields | null> {
+    if (choice.addressId) {
+      const saved = await addressDAO.findById(choice.addressId, connection);
+      if (!saved || saved.user_id !== userId) {
+        throw new Error('Address not found');
+      }
+      return pickAddressFields(saved);
+    }
+
+    return choice.address ?? null;
+  }
+
+  async findDefault(userId: string, connection?: oracledb.Connection): Promise<AddressFields | null> {
+    const saved = await addressDAO.findDefault(userId, connection);
+    return saved ? pickAddressFields(saved) : null;
+  }
+
+  // Where tax and shipping are worked out for: the address when there is one,
+  // otherwise the country and state on the user's profile
+  async destination(userId: string, address: AddressFields | null): Promise<TaxDestination> {
+    if (address) {
+      return { country: address.country, state: address.state };
+    }
+
+    const user = await userDAO.findById(userId);
+    return { country: user?.country, state: user?.state };
+  }
+}
+
+export const addressService = new AddressService();
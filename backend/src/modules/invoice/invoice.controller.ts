@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import { invoiceService } from './invoice.service';
+import { renderInvoiceHtml, renderInvoicePdf } from './invoice.render';
+import { OrderDAO } from '../order/order.dao';
+import { resolveOrderRoles } from '../order/order.lifecycle';
+import { authService } from '../../lib/auth';
+import { InvoiceNotAvailableError } from '../../lib/errors';
+import { logger } from '../../lib/logger';
+
+const orderDAO = new OrderDAO();
+
+export class InvoiceController {
+  // GET /orders/:id/invoice?format=pdf|html
+  async download(req: Request, res: Response): Promise<void> {
+    const orderId = req.params.id!;
+
+    try {
+      const token = authService.extractTokenFromHeader(req.headers.authorization);
+      const user = token ? authService.verifyAccessToken(token) : null;
+      if (!user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const format = req.query.format ?? 'pdf';
+      if (format !== 'pdf' && format !== 'html') {
+        res.status(400).json({ error: 'Format must be pdf or html' });
+        return;
+      }
+
+      const order = await orderDAO.findById(orderId);
+      if (!order) {
+        res.status(404).json({ error: 'Order not found' });
+        return;
+      }
+
+      // Buyers and admins get the whole order; a seller only their own part
+      const roles = await resolveOrderRoles(order, user);
+      if (roles.length === 0) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+      const sellerId = roles.includes('buyer') || roles.includes('admin') ? undefined : user.userId;
+
+      const invoice = await invoiceService.issue(order);
+      const document = await invoiceService.build(order, invoice, sellerId);
+
+      res.setHeader('Cache-Control', 'private, no-store');
+      if (format === 'html') {
+        res.type('html').send(renderInvoiceHtml(document));
+        return;
+      }
+
+      res.type('pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoice_number}.pdf"`);
+      res.send(renderInvoicePdf(document));
+    } catch (error) {
+      if (error instanceof InvoiceNotAvailableError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+
+      logger.error({ error, orderId }, 'Failed to generate invoice');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import oracledb from 'oracledb';
+import { databaseService } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+export interface Invoice {
+  id: string;
+  order_id: string;
+  // e.g. INV-2024-000042
+  invoice_number: string;
+  invoice_year: number;
+  sequence_number: number;
+  issued_at: string;
+}
+
+export function formatInvoiceNumber(year: number, sequence: number): string {
+  return `INV-${year}-${String(sequence).padStart(6, '0')}`;
+}
+
+export class InvoiceDAO {
+  async findByOrder(orderId: string, connection?: oracledb.Connection): Promise<Invoice | null> {
+    try {
+      const result = await databaseService.executeOn<Invoice>(
+        connection,
+        'SELECT * FROM invoices WHERE order_id = :orderId',
+        { orderId }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to find invoice by order');
+      throw error;
+    }
+  }
+
+  // Takes the year's next number under the counter row's lock, so numbers
+  // are handed out in order and a rolled-back issue does not leave a gap
+  async create(orderId: string, year: number, connection: oracledb.Connection): Promise<Invoice> {
+    try {
+      await databaseService.executeOn(
+        connection,
+        `MERGE INTO invoice_counters c
+         USING (SELECT :year AS invoice_year FROM dual) s
+         ON (c.invoice_year = s.invoice_year)
+         WHEN NOT MATCHED THEN INSERT (invoice_year, last_number) VALUES (s.invoice_year, 0)`,
+        { year }
+      );
+
+      const counter = await databaseService.executeOn<{ last_number: number }>(
+        connection,
+        'SELECT last_number FROM invoice_counters WHERE invoice_year = :year FOR UPDATE',
+        { year }
+      );
+
+      const sequence = (counter.rows?.[0]?.last_number ?? 0) + 1;
+      await databaseService.executeOn(
+        connection,
+        'UPDATE invoice_counters SET last_number = :sequence WHERE invoice_year = :year',
+        { sequence, year }
+      );
+
+      const result = await databaseService.executeOn<Invoice>(
+        connection,
+        `INSERT INTO invoices (id, order_id, invoice_number, invoice_year, sequence_number)
+         VALUES (SYS_GUID(), :orderId, :invoiceNumber, :year, :sequence)
+         RETURNING *`,
+        { orderId, invoiceNumber: formatInvoiceNumber(year, sequence), year, sequence }
+      );
+
+      return result.rows?.[0]!;
+    } catch (error) {
+      logger.error({ error, orderId, year }, 'Failed to create invoice');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,284 @@
+import { InvoiceDocument, InvoiceSection } from './invoice.service';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfPage, PdfText, renderPdf } from '../../lib/pdf';
+
+export function formatMoney(amount: number, currency: string): string {
+  const [whole, cents] = Math.abs(amount).toFixed(2).split('.');
+  const grouped = whole!.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${amount < 0 ? '-' : ''}${currency} ${grouped}.${cents}`;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Label and amount rows of the totals block; zero discounts, shipping and
+// refunds are left out
+function totalRows(invoice: InvoiceDocument): [string, number, boolean][] {
+  const { totals } = invoice;
+  const rows: [string, number, boolean][] = [['Subtotal', totals.subtotal, false]];
+
+  if (totals.discount > 0) rows.push(['Discounts', -totals.discount, false]);
+  rows.push(['Tax', totals.tax, false]);
+  if (totals.shipping > 0) rows.push(['Shipping', totals.shipping, false]);
+  rows.push(['Total', totals.total, true]);
+  if (totals.refunded > 0) {
+    rows.push(['Refunded', -totals.refunded, false]);
+    rows.push(['Net paid', totals.net, true]);
+  }
+
+  return rows;
+}
+
+function htmlSection(section: InvoiceSection, currency: string): string {
+  const money = (amount: number) => escapeHtml(formatMoney(amount, currency));
+  const lines = section.lines.map(line => `
+        <tr>
+          <td>${escapeHtml(line.description)}${line.sku ? `<br><small>SKU ${escapeHtml(line.sku)}</small>` : ''}</td>
+          <td class="num">${line.quantity}</td>
+          <td class="num">${money(line.unitPrice)}</td>
+          <td class="num">${line.discount > 0 ? money(-line.discount) : '-'}</td>
+          <td class="num">${money(line.tax)} (${line.taxRate}%)</td>
+          <td class="num">${money(line.total)}</td>
+        </tr>`).join('');
+
+  return `
+    <section class="seller">
+      <h2>Sold by ${escapeHtml(section.seller.name)}</h2>
+      <p>${escapeHtml(section.seller.email)}${section.seller.address ? `<br>${escapeHtml(section.seller.address)}` : ''}</p>
+      <table>
+        <thead>
+          <tr><th>Item</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Discount</th><th class="num">Tax</th><th class="num">Total</th></tr>
+        </thead>
+        <tbody>${lines}
+        </tbody>
+        <tfoot>
+          <tr><td colspan="5">Shipping${section.shippingMethod ? ` (${escapeHtml(section.shippingMethod)})` : ''}</td><td class="num">${money(section.shipping)}</td></tr>
+          <tr><th colspan="5">Seller total</th><th class="num">${money(section.total)}</th></tr>
+        </tfoot>
+      </table>
+    </section>`;
+}
+
+export function renderInvoiceHtml(invoice: InvoiceDocument): string {
+  const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency));
+
+  const discounts = invoice.discounts.length === 0 ? '' : `
+    <section>
+      <h2>Discounts</h2>
+      <table>
+        <tbody>${invoice.discounts.map(discount => `
+          <tr><td>${escapeHtml(discount.description)}</td><td class="num">${money(-discount.amount)}</td></tr>`).join('')}
+        </tbody>
+      </table>
+    </section>`;
+
+  const refunds = invoice.refunds.length === 0 ? '' : `
+    <section>
+      <h2>Refunds</h2>
+      <table>
+        <tbody>${invoice.refunds.map(refund => `
+          <tr><td>${formatDate(refund.date)}</td><td>${escapeHtml(refund.reason)}</td><td class="num">${money(-refund.amount)}</td></tr>`).join('')}
+        </tbody>
+      </table>
+    </section>`;
+
+  const totals = totalRows(invoice).map(([label, amount, strong]) => strong
+    ? `<tr><th>${label}</th><th class="num">${money(amount)}</th></tr>`
+    : `<tr><td>${label}</td><td class="num">${money(amount)}</td></tr>`).join('\n        ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #222; margin: 40px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+    th, td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #ddd; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .parties { display: flex; gap: 48px; }
+    .totals { width: 50%; margin-left: auto; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Invoice ${escapeHtml(invoice.number)}</h1>
+    <p>
+      Issued ${formatDate(invoice.issuedAt)}<br>
+      Order ${escapeHtml(invoice.order.id)}, placed ${formatDate(invoice.order.placedAt)}<br>
+      Payment: ${escapeHtml(invoice.order.paymentMethod)} (${escapeHtml(invoice.order.paymentStatus)})
+    </p>
+  </header>
+  <div class="parties">
+    <section>
+      <h2>Bill to</h2>
+      <p>${escapeHtml(invoice.buyer.name)}<br>${escapeHtml(invoice.buyer.email)}<br>${escapeHtml(invoice.billingAddress)}</p>
+    </section>
+    <section>
+      <h2>Ship to</h2>
+      <p>${escapeHtml(invoice.shippingAddress)}</p>
+    </section>
+  </div>
+  ${invoice.sections.map(section => htmlSection(section, invoice.currency)).join('')}
+  ${discounts}
+  ${refunds}
+  <table class="totals">
+    <tbody>
+        ${totals}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+const MARGIN = 50;
+const LINE_HEIGHT = 14;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+// Lays the invoice out top to bottom, starting a new page when one fills up
+class PdfLayout {
+  readonly pages: PdfPage[] = [];
+  private page!: PdfPage;
+  private y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  private addPage(): void {
+    this.page = { texts: [], rules: [] };
+    this.pages.push(this.page);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Moves down by the given number of lines, first moving to a new page when
+  // they would not fit
+  advance(lines = 1): void {
+    if (this.y - lines * LINE_HEIGHT < MARGIN) {
+      this.addPage();
+    }
+    this.y -= lines * LINE_HEIGHT;
+  }
+
+  text(x: number, text: string, options: Omit<PdfText, 'x' | 'y' | 'text'> = {}): void {
+    this.page.texts.push({ x, y: this.y, text, ...options });
+  }
+
+  rule(): void {
+    this.page.rules.push({ x1: MARGIN, x2: RIGHT, y: this.y - 4 });
+  }
+
+  gap(): void {
+    this.y -= LINE_HEIGHT / 2;
+  }
+}
+
+// Item table columns: description, then right-aligned quantity, unit price,
+// discount, tax and total
+const COLUMNS = { qty: 300, unit: 365, discount: 425, tax: 485, total: RIGHT };
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+export function renderInvoicePdf(invoice: InvoiceDocument): Buffer {
+  const layout = new PdfLayout();
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+
+  layout.advance();
+  layout.text(MARGIN, `Invoice ${invoice.number}`, { size: 18, bold: true });
+  layout.advance(1.5);
+  layout.text(MARGIN, `Issued ${formatDate(invoice.issuedAt)}`);
+  layout.advance();
+  layout.text(MARGIN, `Order ${invoice.order.id}, placed ${formatDate(invoice.order.placedAt)}`);
+  layout.advance();
+  layout.text(MARGIN, `Payment: ${invoice.order.paymentMethod} (${invoice.order.paymentStatus})`);
+
+  layout.advance(2);
+  layout.text(MARGIN, 'Bill to', { bold: true });
+  layout.advance();
+  layout.text(MARGIN, `${invoice.buyer.name} <${invoice.buyer.email}>`);
+  layout.advance();
+  layout.text(MARGIN, truncate(invoice.billingAddress, 95));
+  layout.advance(1.5);
+  layout.text(MARGIN, 'Ship to', { bold: true });
+  layout.advance();
+  layout.text(MARGIN, truncate(invoice.shippingAddress, 95));
+
+  for (const section of invoice.sections) {
+    layout.advance(2);
+    layout.text(MARGIN, `Sold by ${section.seller.name} <${section.seller.email}>`, { size: 11, bold: true });
+    if (section.seller.address) {
+      layout.advance();
+      layout.text(MARGIN, truncate(section.seller.address, 95), { size: 9 });
+    }
+
+    layout.advance(1.5);
+    layout.text(MARGIN, 'Item', { size: 9, bold: true });
+    layout.text(COLUMNS.qty, 'Qty', { size: 9, bold: true, align: 'right' });
+    layout.text(COLUMNS.unit, 'Unit price', { size: 9, bold: true, align: 'right' });
+    layout.text(COLUMNS.discount, 'Discount', { size: 9, bold: true, align: 'right' });
+    layout.text(COLUMNS.tax, 'Tax', { size: 9, bold: true, align: 'right' });
+    layout.text(COLUMNS.total, 'Total', { size: 9, bold: true, align: 'right' });
+    layout.rule();
+
+    for (const line of section.lines) {
+      layout.advance();
+      const description = line.sku ? `${line.description} (${line.sku})` : line.description;
+      layout.text(MARGIN, truncate(description, 40), { size: 9 });
+      layout.text(COLUMNS.qty, String(line.quantity), { size: 9, align: 'right' });
+      layout.text(COLUMNS.unit, money(line.unitPrice), { size: 9, align: 'right' });
+      layout.text(COLUMNS.discount, line.discount > 0 ? money(-line.discount) : '-', { size: 9, align: 'right' });
+      layout.text(COLUMNS.tax, money(line.tax), { size: 9, align: 'right' });
+      layout.text(COLUMNS.total, money(line.total), { size: 9, align: 'right' });
+    }
+
+    layout.rule();
+    layout.advance();
+    layout.text(MARGIN, section.shippingMethod ? `Shipping (${section.shippingMethod})` : 'Shipping', { size: 9 });
+    layout.text(COLUMNS.total, money(section.shipping), { size: 9, align: 'right' });
+    layout.advance();
+    layout.text(MARGIN, 'Seller total', { size: 9, bold: true });
+    layout.text(COLUMNS.total, money(section.total), { size: 9, bold: true, align: 'right' });
+  }
+
+  if (invoice.discounts.length > 0) {
+    layout.advance(2);
+    layout.text(MARGIN, 'Discounts', { bold: true });
+    for (const discount of invoice.discounts) {
+      layout.advance();
+      layout.text(MARGIN, truncate(discount.description, 70), { size: 9 });
+      layout.text(COLUMNS.total, money(-discount.amount), { size: 9, align: 'right' });
+    }
+  }
+
+  if (invoice.refunds.length > 0) {
+    layout.advance(2);
+    layout.text(MARGIN, 'Refunds', { bold: true });
+    for (const refund of invoice.refunds) {
+      layout.advance();
+      layout.text(MARGIN, truncate(`${formatDate(refund.date)}  ${refund.reason}`, 70), { size: 9 });
+      layout.text(COLUMNS.total, money(-refund.amount), { size: 9, align: 'right' });
+    }
+  }
+
+  layout.advance(1.5);
+  layout.gap();
+  for (const [label, amount, strong] of totalRows(invoice)) {
+    layout.advance();
+    layout.text(COLUMNS.discount, label, { bold: strong, align: 'right' });
+    layout.text(COLUMNS.total, money(amount), { bold: strong, align: 'right' });
+  }
+
+  return renderPdf(layout.pages);
+}
@@ -0,0 +1,253 @@
+import { InvoiceDAO, Invoice } from './invoice.dao';
+import { OrderDAO, Order, OrderItem } from '../order/order.dao';
+import { PaymentDAO } from '../payment/payment.dao';
+import { PromotionDAO } from '../promotion/promotion.dao';
+import { AddressDAO } from '../address/address.dao';
+import { formatAddress } from '../address/address.service';
+import { ProductDAO } from '../product/product.dao';
+import { UserDAO, User } from '../user/user.dao';
+import { roundAmount } from '../payment/payment.service';
+import { databaseService } from '../../lib/database';
+import { InvoiceNotAvailableError } from '../../lib/errors';
+import { logger } from '../../lib/logger';
+
+const invoiceDAO = new InvoiceDAO();
+const orderDAO = new OrderDAO();
+const paymentDAO = new PaymentDAO();
+const promotionDAO = new PromotionDAO();
+const addressDAO = new AddressDAO();
+const productDAO = new ProductDAO();
+const userDAO = new UserDAO();
+
+// An invoice number is only taken once the money was captured, so an order
+// cancelled before paying never leaves a gap in the sequence
+const INVOICEABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+export interface InvoiceParty {
+  name: string;
+  email: string;
+  address: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  sku: string | null;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+// One seller's part of the order
+export interface InvoiceSection {
+  seller: InvoiceParty;
+  lines: InvoiceLine[];
+  shippingMethod: string | null;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  shipping: number;
+  total: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  shipping: number;
+  total: number;
+  refunded: number;
+  // What the buyer paid once refunds are taken off
+  net: number;
+}
+
+export interface InvoiceDocument {
+  number: string;
+  issuedAt: string;
+  currency: string;
+  order: {
+    id: string;
+    placedAt: string;
+    status: string;
+    paymentMethod: string;
+    paymentStatus: string;
+  };
+  buyer: InvoiceParty;
+  shippingAddress: string;
+  billingAddress: string;
+  sections: InvoiceSection[];
+  discounts: { description: string; amount: number }[];
+  refunds: { date: string; reason: string; amount: number }[];
+  totals: InvoiceTotals;
+}
+
+function fullName(user: User | undefined): string {
+  return user ? `${user.first_name} ${user.last_name}` : 'Unknown';
+}
+
+function profileAddress(user: User | undefined): string | null {
+  if (!user) return null;
+
+  const address = [user.address, user.city, [user.state, user.zip_code].filter(Boolean).join(' '), user.country]
+    .filter(Boolean)
+    .join(', ');
+  return address || null;
+}
+
+function toParty(user: User | undefined): InvoiceParty {
+  return { name: fullName(user), email: user?.email ?? '', address: profileAddress(user) };
+}
+
+function toLine(item: OrderItem, productNames: Map<string, string>): InvoiceLine {
+  const discount = item.discount_amount || 0;
+  const tax = item.tax_amount || 0;
+
+  return {
+    description: item.product_name ?? productNames.get(item.product_id) ?? 'Deleted product',
+    sku: item.product_sku ?? null,
+    quantity: item.quantity,
+    unitPrice: item.unit_price,
+    discount,
+    taxRate: item.tax_rate || 0,
+    tax,
+    total: roundAmount(item.total_price - discount + tax),
+  };
+}
+
+function sumSections(sections: InvoiceSection[], field: 'subtotal' | 'discount' | 'tax' | 'shipping' | 'total'): number {
+  return roundAmount(sections.reduce((sum, section) => sum + section[field], 0));
+}
+
+export class InvoiceService {
+  // The order's invoice, issued with the next number the first time it is
+  // asked for once the payment is captured
+  async issue(order: Order): Promise<Invoice> {
+    if (!INVOICEABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+      throw new InvoiceNotAvailableError('Orders are invoiced once their payment is captured');
+    }
+
+    const existing = await invoiceDAO.findByOrder(order.id);
+    if (existing) return existing;
+
+    return databaseService.executeTransaction(async (connection) => {
+      // Lock the order so two requests cannot both issue a number for it
+      const locked = await orderDAO.findByIdForUpdate(order.id, connection);
+
+      const issued = await invoiceDAO.findByOrder(order.id, connection);
+      if (issued) return issued;
+
+      if (!locked || !INVOICEABLE_PAYMENT_STATUSES.includes(locked.payment_status)) {
+        throw new InvoiceNotAvailableError('Orders are invoiced once their payment is captured');
+      }
+
+      const invoice = await invoiceDAO.create(order.id, new Date().getUTCFullYear(), connection);
+      logger.info({ orderId: order.id, invoiceNumber: invoice.invoice_number }, 'Invoice issued');
+      return invoice;
+    });
+  }
+
+  // Everything printed on the invoice. With a seller ID only that seller's
+  // part of the order is included, with totals for it alone.
+  async build(order: Order, invoice: Invoice, sellerId?: string): Promise<InvoiceDocument> {
+    const [items, fulfillments, refunds, discounts, addresses] = await Promise.all([
+      orderDAO.findItemsByOrder(order.id),
+      orderDAO.findFulfillmentsByOrder(order.id),
+      paymentDAO.findRefundsByOrders([order.id]),
+      promotionDAO.findDiscountsByOrders([order.id]),
+      addressDAO.findByOrders([order.id]),
+    ]);
+
+    const sellerByFulfillment = new Map(fulfillments.map(fulfillment => [fulfillment.id, fulfillment.seller_id]));
+    const itemSeller = (item: OrderItem) =>
+      (item.fulfillment_id && sellerByFulfillment.get(item.fulfillment_id)) || item.seller_id || '';
+
+    const visibleItems = sellerId ? items.filter(item => itemSeller(item) === sellerId) : items;
+    const sellerIds = [...new Set(visibleItems.map(itemSeller))];
+
+    // Items from before product snapshots were kept take the live name
+    const missingNames = visibleItems.filter(item => !item.product_name).map(item => item.product_id);
+    const [users, products] = await Promise.all([
+      userDAO.findByIds([order.user_id, ...sellerIds.filter(Boolean)]),
+      productDAO.findByIds([...new Set(missingNames)]),
+    ]);
+    const usersById = new Map(users.map(user => [user.id, user]));
+    const productNames = new Map(products.map(product => [product.id, product.name]));
+
+    const sections = sellerIds.map((id): InvoiceSection => {
+      const sellerItems = visibleItems.filter(item => itemSeller(item) === id);
+      const fulfillment = fulfillments.find(candidate => candidate.seller_id === id);
+      const lines = sellerItems.map(item => toLine(item, productNames));
+
+      const subtotal = roundAmount(sellerItems.reduce((sum, item) => sum + item.total_price, 0));
+      const discount = roundAmount(lines.reduce((sum, line) => sum + line.discount, 0));
+      const tax = roundAmount(lines.reduce((sum, line) => sum + line.tax, 0));
+      const shipping = fulfillment?.shipping_amount || 0;
+
+      return {
+        seller: toParty(usersById.get(id)),
+        lines,
+        shippingMethod: fulfillment?.shipping_method ?? null,
+        subtotal,
+        discount,
+        tax,
+        shipping,
+        total: roundAmount(subtotal - discount + tax + shipping),
+      };
+    });
+
+    // A seller only sees refunds made up entirely of their own items
+    const visibleItemIds = new Set(visibleItems.map(item => item.id));
+    const visibleRefunds = sellerId
+      ? refunds.filter(refund =>
+        refund.items.length > 0 && refund.items.every(item => visibleItemIds.has(item.order_item_id))
+      )
+      : refunds;
+    const refunded = roundAmount(visibleRefunds.reduce((sum, refund) => sum + refund.amount, 0));
+
+    const totals = sellerId
+      ? {
+        subtotal: sumSections(sections, 'subtotal'),
+        discount: sumSections(sections, 'discount'),
+        tax: sumSections(sections, 'tax'),
+        shipping: sumSections(sections, 'shipping'),
+        total: sumSections(sections, 'total'),
+      }
+      : {
+        subtotal: order.subtotal_amount,
+        discount: order.discount_amount,
+        tax: order.tax_amount,
+        shipping: order.shipping_amount,
+        total: order.total_amount,
+      };
+
+    const orderAddress = (type: string) => {
+      const address = addresses.find(candidate => candidate.address_type === type);
+      return address ? formatAddress(address) : null;
+    };
+
+    return {
+      number: invoice.invoice_number,
+      issuedAt: invoice.issued_at,
+      currency: process.env.PAYMENT_CURRENCY || 'BRL',
+      order: {
+        id: order.id,
+        placedAt: order.created_at,
+        status: order.status,
+        paymentMethod: order.payment_method,
+        paymentStatus: order.payment_status,
+      },
+      buyer: toParty(usersById.get(order.user_id)),
+      shippingAddress: orderAddress('shipping') ?? order.shipping_address,
+      billingAddress: orderAddress('billing') ?? order.billing_address,
+      sections,
+      // Order-wide discounts are already spread over the lines a seller sees
+      discounts: sellerId ? [] : discounts.map(discount => ({ description: discount.description, amount: discount.amount })),
+      refunds: visibleRefunds.map(refund => ({ date: refund.created_at, reason: refund.reason, amount: refund.amount })),
+      totals: { ...totals, refunded, net: roundAmount(totals.total - refunded) },
+    };
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { OrderExportScope, exportOrders } from './order.export';
+import { authService } from '../../lib/auth';
+import { logger } from '../../lib/logger';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+};
+
+// Waits until the response can take more data or the client has gone
+function drained(res: Response): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+export class OrderController {
+  // GET /orders/export?token=...
+  // The token comes from the requestOrderExport mutation, which checks the
+  // user's role and fixes the filters
+  async exportOrders(req: Request, res: Response): Promise<void> {
+    const token = typeof req.query.token === 'string' ? req.query.token : null;
+    const payload = token ? authService.verifyDownloadToken<OrderExportScope>(token) : null;
+    if (!payload) {
+      res.status(401).json({ error: 'Invalid or expired export link' });
+      return;
+    }
+
+    const { format } = payload.scope;
+    const fileName = `orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const startedAt = Date.now();
+    let chunks = 0;
+
+    try {
+      res.status(200);
+      res.setHeader('Content-Type', CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+
+      for await (const chunk of exportOrders(payload.scope)) {
+        // Stop reading from the database once the client is gone
+        if (res.destroyed) break;
+
+        if (!res.write(chunk)) {
+          await drained(res);
+        }
+        chunks++;
+      }
+
+      res.end();
+      logger.info({ userId: payload.userId, format, chunks, durationMs: Date.now() - startedAt }, 'Orders exported');
+    } catch (error) {
+      logger.error({ error, userId: payload.userId, chunks }, 'Failed to export orders');
+
+      // Once rows have gone out the status cannot change; cut the download
+      // short so it is not mistaken for a complete file
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+}
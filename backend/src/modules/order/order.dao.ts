@@ -1,10 +1,17 @@
+import oracledb from 'oracledb';
 import { databaseService, escapeString } from '@/lib/database';
 import { logger } from '@/lib/logger';
+import { KeysetPage, KeysetResult, buildKeysetQuery, finishPage, timestampColumn } from '@/lib/pagination';
 
 export interface Order {
   id: string;
   user_id: string;
   status: string;
+  // Item total before discounts; total_amount is what the buyer pays
+  subtotal_amount: number;
+  discount_amount: number;
+  tax_amount: number;
+  shipping_amount: number;
   total_amount: number;
   shipping_address: string;
   billing_address: string;
@@ -12,20 +19,128 @@ export interface Order {
   payment_status: string;
   tracking_number?: string;
   notes?: string;
+  confirmed_at?: string;
+  shipped_at?: string;
+  delivered_at?: string;
+  cancelled_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+// An order with its position in the list it was paged from
+export type PagedOrder = Order & { cursor_key: string };
+
 export interface OrderItem {
   id: string;
   order_id: string;
+  fulfillment_id?: string | null;
   product_id: string;
   quantity: number;
   unit_price: number;
   total_price: number;
+  // This line's share of the order's discounts
+  discount_amount: number;
+  // Percent charged on the discounted line amount
+  tax_rate: number;
+  tax_amount: number;
+  // The product as it was at checkout; null on items from before snapshots
+  // were kept
+  product_name?: string | null;
+  product_sku?: string | null;
+  product_category?: string | null;
+  product_image_url?: string | null;
+  // JSON array of { name, value }
+  product_attributes?: string | null;
+  seller_id?: string | null;
+  created_at: string;
+}
+
+// The part of an order shipped by one seller. The order's own status follows
+// its fulfillments.
+export interface Fulfillment {
+  id: string;
+  order_id: string;
+  seller_id: string;
+  status: string;
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  // The shipping option the buyer picked, as it was at checkout
+  shipping_method_id?: string | null;
+  shipping_method?: string | null;
+  shipping_amount: number;
+  estimated_delivery_from?: string | null;
+  estimated_delivery_to?: string | null;
+  tracking_number?: string | null;
+  carrier?: string | null;
+  cancel_reason?: string | null;
+  confirmed_at?: string | null;
+  shipped_at?: string | null;
+  delivered_at?: string | null;
+  cancelled_at?: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+// Seller-side note on a fulfillment, e.g. packing or carrier details. Only
+// the seller and admins see them.
+export interface FulfillmentNote {
+  id: string;
+  fulfillment_id: string;
+  author_id: string;
+  note: string;
+  created_at: string;
+}
+
+export interface SellerOrderFilters {
+  status?: string;
+  from?: Date;
+  to?: Date;
 }
 
+export interface NewFulfillment {
+  id: string;
+  seller_id: string;
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  shipping_method_id: string | null;
+  shipping_method: string;
+  shipping_amount: number;
+  estimated_delivery_from: Date;
+  estimated_delivery_to: Date;
+  items: Omit<OrderItem, 'id' | 'order_id' | 'fulfillment_id' | 'created_at'>[];
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  order_id: string;
+  // Set when the change applies to one seller's fulfillment only
+  fulfillment_id?: string | null;
+  event_type: 'status' | 'payment_status';
+  from_status?: string | null;
+  to_status: string;
+  actor_id?: string | null;
+  actor_role?: string | null;
+  reason?: string | null;
+  created_at: string;
+}
+
+// Binds for items written without a product snapshot
+const ITEM_SNAPSHOT_NULLS = {
+  product_name: null,
+  product_sku: null,
+  product_category: null,
+  product_image_url: null,
+  product_attributes: null,
+  seller_id: null,
+};
+
+// product_attributes is a CLOB, which would otherwise come back as a Lob
+const ORDER_ITEM_FETCH_OPTIONS: oracledb.ExecuteOptions = {
+  fetchInfo: { PRODUCT_ATTRIBUTES: { type: oracledb.STRING } },
+};
+
 export class OrderDAO {
   async findById(id: string): Promise<Order | null> {
     try {
@@ -41,7 +156,58 @@ export class OrderDAO {
     }
   }
 
-  async findByUser(userId: string, pagination: { limit: number; offset: number }): Promise<{ orders: Order[]; totalCount: number }> {
+  // Pending orders whose payment never arrived, oldest first
+  async findUnpaidBefore(before: Date, limit: number): Promise<Order[]> {
+    try {
+      const result = await databaseService.executeQuery<Order>(
+        `SELECT * FROM orders
+         WHERE status = 'pending' AND payment_status IN ('pending', 'failed') AND created_at < :before
+         ORDER BY created_at ASC
+         FETCH FIRST :limit ROWS ONLY`,
+        { before, limit }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, before }, 'Failed to find unpaid orders');
+      throw error;
+    }
+  }
+
+  async findByIdForUpdate(id: string, connection: oracledb.Connection): Promise<Order | null> {
+    try {
+      const result = await databaseService.executeOn<Order>(
+        connection,
+        'SELECT * FROM orders WHERE id = :id FOR UPDATE',
+        { id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to lock order by ID');
+      throw error;
+    }
+  }
+
+  // Distinct sellers on an order, from the items' snapshots so they keep
+  // their rights on it after deleting a product
+  async findSellerIds(orderId: string): Promise<string[]> {
+    try {
+      const result = await databaseService.executeQuery<{ seller_id: string }>(
+        `SELECT DISTINCT seller_id
+         FROM order_items
+         WHERE order_id = :orderId AND seller_id IS NOT NULL`,
+        { orderId }
+      );
+
+      return (result.rows || []).map(row => row.seller_id);
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to find order sellers');
+      throw error;
+    }
+  }
+
+  async findByUser(userId: string, page: KeysetPage): Promise<KeysetResult<PagedOrder> & { totalCount: number }> {
     try {
       // Get total count
       const countResult = await databaseService.executeQuery<{ count: number }>(
@@ -51,21 +217,22 @@ export class OrderDAO {
 
       const totalCount = countResult.rows?.[0]?.count || 0;
 
-      // Get orders with pagination
-      const ordersResult = await databaseService.executeQuery<Order>(
-        `SELECT * FROM orders 
-         WHERE user_id = :userId 
-         ORDER BY created_at DESC
-         OFFSET :offset ROWS FETCH NEXT :limit ROWS ONLY`,
-        { userId, ...pagination }
+      // Newest first; get the page of orders past the cursor
+      const keyset = buildKeysetQuery(timestampColumn('created_at'), 'id', 'DESC', page);
+      const ordersResult = await databaseService.executeQuery<PagedOrder>(
+        `SELECT orders.*, ${keyset.select} FROM orders
+         WHERE user_id = :userId ${keyset.condition ? `AND ${keyset.condition}` : ''}
+         ${keyset.orderBy}
+         FETCH FIRST :limit ROWS ONLY`,
+        { userId, ...keyset.binds }
       );
 
       return {
-        orders: ordersResult.rows || [],
+        ...finishPage(ordersResult.rows || [], page),
         totalCount,
       };
     } catch (error) {
-      logger.error({ error, userId, pagination }, 'Failed to find orders by user');
+      logger.error({ error, userId, page }, 'Failed to find orders by user');
       throw error;
     }
   }
@@ -90,11 +257,13 @@ export class OrderDAO {
     try {
       const result = await databaseService.executeQuery<Order>(
         `INSERT INTO orders (
-          id, user_id, status, total_amount, shipping_address, 
+          id, user_id, status, subtotal_amount, discount_amount, tax_amount, shipping_amount,
+          total_amount, shipping_address, 
           billing_address, payment_method, payment_status, 
           tracking_number, notes
         ) VALUES (
-          :id, :user_id, :status, :total_amount, :shipping_address,
+          :id, :user_id, :status, :subtotal_amount, :discount_amount, :tax_amount, :shipping_amount,
+          :total_amount, :shipping_address,
           :billing_address, :payment_method, :payment_status,
           :tracking_number, :notes
         ) RETURNING *`,
@@ -108,7 +277,11 @@ export class OrderDAO {
     }
   }
 
-  async update(id: string, updates: Partial<Omit<Order, 'id' | 'created_at' | 'updated_at'>>): Promise<Order | null> {
+  async update(
+    id: string,
+    updates: Partial<Omit<Order, 'id' | 'created_at' | 'updated_at'>>,
+    connection?: oracledb.Connection
+  ): Promise<Order | null> {
     try {
       const setClause = Object.keys(updates)
         .map(key => `${key} = :${key}`)
@@ -118,7 +291,8 @@ export class OrderDAO {
         return this.findById(id);
       }
 
-      const result = await databaseService.executeQuery<Order>(
+      const result = await databaseService.executeOn<Order>(
+        connection,
         `UPDATE orders SET ${setClause}, updated_at = CURRENT_TIMESTAMP 
          WHERE id = :id RETURNING *`,
         { ...updates, id }
@@ -131,55 +305,351 @@ export class OrderDAO {
     }
   }
 
+  // Writes the order with its per-seller fulfillments and their items on the
+  // caller's transaction connection; without one, a transaction of its own is
+  // opened
   async createOrderWithItems(
     orderData: Omit<Order, 'created_at' | 'updated_at'>,
-    items: Omit<OrderItem, 'id' | 'created_at'>[]
-  ): Promise<{ order: Order; items: OrderItem[] }> {
+    fulfillments: NewFulfillment[],
+    connection?: oracledb.Connection
+  ): Promise<{ order: Order; fulfillments: Fulfillment[]; items: OrderItem[] }> {
+    if (!connection) {
+      return databaseService.executeTransaction((conn) =>
+        this.createOrderWithItems(orderData, fulfillments, conn)
+      );
+    }
+
     try {
-      return await databaseService.executeTransaction(async (connection) => {
-        // Create order
-        const orderResult = await connection.execute<Order>(
-          `INSERT INTO orders (
-            id, user_id, status, total_amount, shipping_address, 
-            billing_address, payment_method, payment_status, 
-            tracking_number, notes
+      // Create order
+      const orderResult = await connection.execute<Order>(
+        `INSERT INTO orders (
+          id, user_id, status, subtotal_amount, discount_amount, tax_amount, shipping_amount,
+          total_amount, shipping_address, 
+          billing_address, payment_method, payment_status, 
+          tracking_number, notes
+        ) VALUES (
+          :id, :user_id, :status, :subtotal_amount, :discount_amount, :tax_amount, :shipping_amount,
+          :total_amount, :shipping_address,
+          :billing_address, :payment_method, :payment_status,
+          :tracking_number, :notes
+        ) RETURNING *`,
+        {
+          tracking_number: null,
+          notes: null,
+          ...orderData,
+        }
+      );
+
+      const order = orderResult.rows?.[0]!;
+
+      // Create fulfillments and their items
+      const createdFulfillments: Fulfillment[] = [];
+      const createdItems: OrderItem[] = [];
+      for (const { items, ...fulfillment } of fulfillments) {
+        const fulfillmentResult = await connection.execute<Fulfillment>(
+          `INSERT INTO order_fulfillments (
+            id, order_id, seller_id, status, subtotal, discount_amount, tax_amount, shipping_method_id,
+            shipping_method, shipping_amount, estimated_delivery_from, estimated_delivery_to
           ) VALUES (
-            :id, :user_id, :status, :total_amount, :shipping_address,
-            :billing_address, :payment_method, :payment_status,
-            :tracking_number, :notes
+            :id, :order_id, :seller_id, :status, :subtotal, :discount_amount, :tax_amount, :shipping_method_id,
+            :shipping_method, :shipping_amount, :estimated_delivery_from, :estimated_delivery_to
           ) RETURNING *`,
-          orderData
+          { ...fulfillment, order_id: orderData.id, status: orderData.status }
         );
 
-        const order = orderResult.rows?.[0]!;
+        createdFulfillments.push(fulfillmentResult.rows?.[0]!);
 
-        // Create order items
-        const createdItems: OrderItem[] = [];
         for (const item of items) {
           const itemResult = await connection.execute<OrderItem>(
-            `INSERT INTO order_items (id, order_id, product_id, quantity, unit_price, total_price)
-             VALUES (SYS_GUID(), :order_id, :product_id, :quantity, :unit_price, :total_price)
+            `INSERT INTO order_items (
+              id, order_id, fulfillment_id, product_id, quantity, unit_price, total_price,
+              discount_amount, tax_rate, tax_amount, product_name, product_sku, product_category,
+              product_image_url, product_attributes, seller_id
+            ) VALUES (
+              SYS_GUID(), :order_id, :fulfillment_id, :product_id, :quantity, :unit_price, :total_price,
+              :discount_amount, :tax_rate, :tax_amount, :product_name, :product_sku, :product_category,
+              :product_image_url, :product_attributes, :seller_id
+            )
              RETURNING *`,
-            { ...item, order_id: order.id }
+            {
+              ...ITEM_SNAPSHOT_NULLS,
+              ...item,
+              order_id: orderData.id,
+              fulfillment_id: fulfillment.id,
+            }
           );
 
           createdItems.push(itemResult.rows?.[0]!);
         }
+      }
+
+      return { order, fulfillments: createdFulfillments, items: createdItems };
+    } catch (error) {
+      logger.error({ error, orderId: orderData.id }, 'Failed to create order with items');
+      throw error;
+    }
+  }
+
+  // Moves the order to a new status, stamping the per-status timestamp column
+  async updateStatus(
+    id: string,
+    status: string,
+    timestampColumn: keyof Order | null,
+    connection?: oracledb.Connection
+  ): Promise<Order | null> {
+    try {
+      const timestampClause = timestampColumn ? `, ${timestampColumn} = CURRENT_TIMESTAMP` : '';
+
+      const result = await databaseService.executeOn<Order>(
+        connection,
+        `UPDATE orders SET status = :status${timestampClause}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { id, status }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id, status }, 'Failed to update order status');
+      throw error;
+    }
+  }
+
+  async updatePaymentStatus(
+    id: string,
+    paymentStatus: string,
+    connection?: oracledb.Connection
+  ): Promise<Order | null> {
+    try {
+      const result = await databaseService.executeOn<Order>(
+        connection,
+        `UPDATE orders SET payment_status = :paymentStatus, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { id, paymentStatus }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id, paymentStatus }, 'Failed to update order payment status');
+      throw error;
+    }
+  }
+
+  // Status history
+  async createStatusEvent(
+    eventData: Omit<OrderStatusEvent, 'id' | 'created_at'>,
+    connection?: oracledb.Connection
+  ): Promise<OrderStatusEvent> {
+    try {
+      const result = await databaseService.executeOn<OrderStatusEvent>(
+        connection,
+        `INSERT INTO order_status_events (
+          id, order_id, fulfillment_id, event_type, from_status, to_status, actor_id, actor_role, reason
+        ) VALUES (
+          SYS_GUID(), :order_id, :fulfillment_id, :event_type, :from_status, :to_status, :actor_id, :actor_role, :reason
+        ) RETURNING *`,
+        {
+          fulfillment_id: null,
+          from_status: null,
+          actor_id: null,
+          actor_role: null,
+          reason: null,
+          ...eventData,
+        }
+      );
 
-        return { order, items: createdItems };
-      });
+      return result.rows?.[0]!;
     } catch (error) {
-      logger.error({ error, orderData, items }, 'Failed to create order with items');
+      logger.error({ error, eventData }, 'Failed to create order status event');
+      throw error;
+    }
+  }
+
+  async findStatusEventsByOrders(orderIds: string[]): Promise<OrderStatusEvent[]> {
+    if (orderIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<OrderStatusEvent>(
+        'SELECT * FROM order_status_events WHERE order_id IN (:orderIds) ORDER BY created_at ASC',
+        { orderIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, orderIds }, 'Failed to find order status events by orders');
+      throw error;
+    }
+  }
+
+  // Fulfillments
+  async findFulfillmentsByOrder(orderId: string, connection?: oracledb.Connection): Promise<Fulfillment[]> {
+    try {
+      const result = await databaseService.executeOn<Fulfillment>(
+        connection,
+        'SELECT * FROM order_fulfillments WHERE order_id = :orderId ORDER BY created_at ASC, id ASC',
+        { orderId }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to find fulfillments by order');
+      throw error;
+    }
+  }
+
+  async findFulfillmentsByOrders(orderIds: string[]): Promise<Fulfillment[]> {
+    if (orderIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<Fulfillment>(
+        'SELECT * FROM order_fulfillments WHERE order_id IN (:orderIds) ORDER BY created_at ASC, id ASC',
+        { orderIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, orderIds }, 'Failed to find fulfillments by orders');
+      throw error;
+    }
+  }
+
+  async findFulfillmentById(id: string): Promise<Fulfillment | null> {
+    try {
+      const result = await databaseService.executeQuery<Fulfillment>(
+        'SELECT * FROM order_fulfillments WHERE id = :id',
+        { id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to find fulfillment by ID');
+      throw error;
+    }
+  }
+
+  // A seller's fulfillments, newest first
+  async findFulfillmentsBySeller(
+    sellerId: string,
+    filters: SellerOrderFilters,
+    pagination: { limit: number; offset: number }
+  ): Promise<{ fulfillments: Fulfillment[]; totalCount: number }> {
+    try {
+      const whereConditions = ['seller_id = :sellerId'];
+      const binds: any = { sellerId };
+
+      if (filters.status) {
+        whereConditions.push('status = :status');
+        binds.status = filters.status;
+      }
+
+      if (filters.from) {
+        whereConditions.push('created_at >= :fromDate');
+        binds.fromDate = filters.from;
+      }
+
+      if (filters.to) {
+        whereConditions.push('created_at < :toDate');
+        binds.toDate = filters.to;
+      }
+
+      const whereClause = `WHERE ${whereConditions.join(' AND ')}`;
+
+      const countResult = await databaseService.executeQuery<{ count: number }>(
+        `SELECT COUNT(*) as count FROM order_fulfillments ${whereClause}`,
+        binds
+      );
+
+      const totalCount = countResult.rows?.[0]?.count || 0;
+
+      const fulfillmentsResult = await databaseService.executeQuery<Fulfillment>(
+        `SELECT * FROM order_fulfillments ${whereClause}
+         ORDER BY created_at DESC, id DESC
+         OFFSET :offset ROWS FETCH NEXT :limit ROWS ONLY`,
+        { ...binds, ...pagination }
+      );
+
+      return {
+        fulfillments: fulfillmentsResult.rows || [],
+        totalCount,
+      };
+    } catch (error) {
+      logger.error({ error, sellerId, filters, pagination }, 'Failed to find fulfillments by seller');
+      throw error;
+    }
+  }
+
+  // Moves a fulfillment to a new status, stamping the per-status timestamp
+  // column and applying any other column updates
+  async updateFulfillmentStatus(
+    id: string,
+    status: string,
+    timestampColumn: keyof Fulfillment | null,
+    updates: Partial<Pick<Fulfillment, 'tracking_number' | 'carrier' | 'cancel_reason'>>,
+    connection?: oracledb.Connection
+  ): Promise<Fulfillment | null> {
+    try {
+      const setClause = ['status = :status', ...Object.keys(updates).map(key => `${key} = :${key}`)];
+      if (timestampColumn) {
+        setClause.push(`${timestampColumn} = CURRENT_TIMESTAMP`);
+      }
+
+      const result = await databaseService.executeOn<Fulfillment>(
+        connection,
+        `UPDATE order_fulfillments SET ${setClause.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { ...updates, status, id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id, status }, 'Failed to update fulfillment status');
+      throw error;
+    }
+  }
+
+  async createFulfillmentNote(
+    noteData: Omit<FulfillmentNote, 'id' | 'created_at'>,
+    connection?: oracledb.Connection
+  ): Promise<FulfillmentNote> {
+    try {
+      const result = await databaseService.executeOn<FulfillmentNote>(
+        connection,
+        `INSERT INTO fulfillment_notes (id, fulfillment_id, author_id, note)
+         VALUES (SYS_GUID(), :fulfillment_id, :author_id, :note)
+         RETURNING *`,
+        noteData
+      );
+
+      return result.rows?.[0]!;
+    } catch (error) {
+      logger.error({ error, fulfillmentId: noteData.fulfillment_id }, 'Failed to create fulfillment note');
+      throw error;
+    }
+  }
+
+  async findNotesByFulfillments(fulfillmentIds: string[]): Promise<FulfillmentNote[]> {
+    if (fulfillmentIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<FulfillmentNote>(
+        'SELECT * FROM fulfillment_notes WHERE fulfillment_id IN (:fulfillmentIds) ORDER BY created_at ASC',
+        { fulfillmentIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, fulfillmentIds }, 'Failed to find fulfillment notes');
       throw error;
     }
   }
 
   // Order items
-  async findItemsByOrder(orderId: string): Promise<OrderItem[]> {
+  async findItemsByOrder(orderId: string, connection?: oracledb.Connection): Promise<OrderItem[]> {
     try {
-      const result = await databaseService.executeQuery<OrderItem>(
+      const result = await databaseService.executeOn<OrderItem>(
+        connection,
         'SELECT * FROM order_items WHERE order_id = :orderId ORDER BY created_at ASC',
-        { orderId }
+        { orderId },
+        ORDER_ITEM_FETCH_OPTIONS
       );
 
       return result.rows || [];
@@ -195,7 +665,8 @@ export class OrderDAO {
     try {
       const result = await databaseService.executeQuery<OrderItem>(
         'SELECT * FROM order_items WHERE order_id IN (:orderIds) ORDER BY created_at ASC',
-        { orderIds }
+        { orderIds },
+        ORDER_ITEM_FETCH_OPTIONS
       );
 
       return result.rows || [];
@@ -208,10 +679,15 @@ export class OrderDAO {
   async createOrderItem(itemData: Omit<OrderItem, 'id' | 'created_at'>): Promise<OrderItem> {
     try {
       const result = await databaseService.executeQuery<OrderItem>(
-        `INSERT INTO order_items (id, order_id, product_id, quantity, unit_price, total_price)
-         VALUES (SYS_GUID(), :order_id, :product_id, :quantity, :unit_price, :total_price)
+        `INSERT INTO order_items (
+          id, order_id, product_id, quantity, unit_price, total_price, discount_amount, tax_rate, tax_amount,
+          product_name, product_sku, product_category, product_image_url, product_attributes, seller_id
+        ) VALUES (
+          SYS_GUID(), :order_id, :product_id, :quantity, :unit_price, :total_price, :discount_amount, :tax_rate, :tax_amount,
+          :product_name, :product_sku, :product_category, :product_image_url, :product_attributes, :seller_id
+        )
          RETURNING *`,
-        itemData
+        { ...ITEM_SNAPSHOT_NULLS, ...itemData }
       );
 
       return result.rows?.[0]!;
@@ -0,0 +1,211 @@
+import { roundAmount } from '../payment/payment.service';
+import { JWTPayload, authService } from '../../lib/auth';
+import { databaseService } from '../../lib/database';
+
+// How long an export link works
+const EXPORT_LINK_TTL_MINUTES = 15;
+
+export type OrderExportFormat = 'csv' | 'jsonl';
+
+// Dates are ISO strings so the filters can travel in a download token
+export interface OrderExportFilters {
+  from?: string;
+  // Exclusive
+  to?: string;
+  // Status of each seller's part of the order
+  statuses?: string[];
+  // Set for sellers, who only export their own items
+  sellerId?: string;
+}
+
+export interface OrderExportScope {
+  format: OrderExportFormat;
+  filters: OrderExportFilters;
+}
+
+export interface OrderExportLink {
+  url: string;
+  expiresAt: Date;
+}
+
+// Signs a short-lived link to the export. Admins export any seller's items or
+// all of them; everyone else only their own items as a seller.
+export function createExportLink(user: JWTPayload, scope: OrderExportScope): OrderExportLink {
+  const { sellerId } = scope.filters;
+  if (!user.isAdmin && sellerId && sellerId !== user.userId) {
+    throw new Error('Access denied');
+  }
+
+  const filters = user.isAdmin ? scope.filters : { ...scope.filters, sellerId: user.userId };
+  const token = authService.generateDownloadToken(
+    { userId: user.userId, scope: { format: scope.format, filters } },
+    `${EXPORT_LINK_TTL_MINUTES}m`
+  );
+
+  return {
+    url: `/orders/export?token=${encodeURIComponent(token)}`,
+    expiresAt: new Date(Date.now() + EXPORT_LINK_TTL_MINUTES * 60 * 1000),
+  };
+}
+
+// One row per order item, with its order and fulfillment alongside
+interface ExportRow {
+  order_id: string;
+  order_date: Date | string;
+  order_status: string;
+  payment_status: string;
+  payment_method: string;
+  buyer_id: string;
+  order_total: number;
+  seller_id: string | null;
+  fulfillment_id: string | null;
+  fulfillment_status: string | null;
+  item_id: string;
+  product_id: string;
+  product_name: string | null;
+  product_sku: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  discount_amount: number | null;
+  tax_amount: number | null;
+}
+
+export const EXPORT_COLUMNS = [
+  'orderId',
+  'orderDate',
+  'orderStatus',
+  'paymentStatus',
+  'paymentMethod',
+  'buyerId',
+  'orderTotal',
+  'sellerId',
+  'fulfillmentId',
+  'fulfillmentStatus',
+  'itemId',
+  'productId',
+  'productName',
+  'sku',
+  'quantity',
+  'unitPrice',
+  'subtotal',
+  'discount',
+  'tax',
+  'total',
+] as const;
+
+export type ExportRecord = Record<typeof EXPORT_COLUMNS[number], string | number | null>;
+
+export function buildExportQuery(filters: OrderExportFilters): { sql: string; binds: Record<string, any> } {
+  const whereConditions: string[] = [];
+  const binds: Record<string, any> = {};
+
+  if (filters.sellerId) {
+    whereConditions.push('COALESCE(f.seller_id, oi.seller_id) = :sellerId');
+    binds.sellerId = filters.sellerId;
+  }
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    whereConditions.push('COALESCE(f.status, o.status) IN (:statuses)');
+    binds.statuses = filters.statuses;
+  }
+
+  if (filters.from) {
+    whereConditions.push('o.created_at >= :fromDate');
+    binds.fromDate = new Date(filters.from);
+  }
+
+  if (filters.to) {
+    whereConditions.push('o.created_at < :toDate');
+    binds.toDate = new Date(filters.to);
+  }
+
+  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+  return {
+    sql: `SELECT o.id as order_id, o.created_at as order_date, o.status as order_status,
+                 o.payment_status, o.payment_method, o.user_id as buyer_id, o.total_amount as order_total,
+                 COALESCE(f.seller_id, oi.seller_id) as seller_id, f.id as fulfillment_id,
+                 f.status as fulfillment_status, oi.id as item_id, oi.product_id,
+                 COALESCE(oi.product_name, p.name) as product_name, oi.product_sku,
+                 oi.quantity, oi.unit_price, oi.total_price, oi.discount_amount, oi.tax_amount
+          FROM order_items oi
+          JOIN orders o ON o.id = oi.order_id
+          LEFT JOIN order_fulfillments f ON f.id = oi.fulfillment_id
+          LEFT JOIN products p ON p.id = oi.product_id
+          ${whereClause}
+          ORDER BY o.created_at ASC, o.id ASC, oi.id ASC`,
+    binds,
+  };
+}
+
+function toRecord(row: ExportRow): ExportRecord {
+  const discount = row.discount_amount || 0;
+  const tax = row.tax_amount || 0;
+
+  return {
+    orderId: row.order_id,
+    orderDate: new Date(row.order_date).toISOString(),
+    orderStatus: row.order_status,
+    paymentStatus: row.payment_status,
+    paymentMethod: row.payment_method,
+    buyerId: row.buyer_id,
+    orderTotal: row.order_total,
+    sellerId: row.seller_id,
+    fulfillmentId: row.fulfillment_id,
+    fulfillmentStatus: row.fulfillment_status,
+    itemId: row.item_id,
+    productId: row.product_id,
+    productName: row.product_name,
+    sku: row.product_sku,
+    quantity: row.quantity,
+    unitPrice: row.unit_price,
+    subtotal: row.total_price,
+    discount,
+    tax,
+    total: roundAmount(row.total_price - discount + tax),
+  };
+}
+
+// Quotes fields that need it. Text starting with a formula character gets a
+// leading quote so spreadsheets do not evaluate it.
+export function toCsvLine(values: (string | number | null)[]): string {
+  return values.map(value => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value);
+
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
+}
+
+// The export as chunks of text, one line per order item, read from the
+// database as it is written out. The query runs before anything is yielded,
+// so a failing query fails before the first chunk.
+export async function* exportOrders(scope: OrderExportScope): AsyncGenerator<string> {
+  const { sql, binds } = buildExportQuery(scope.filters);
+  const rows = databaseService.streamQuery<ExportRow>(sql, binds);
+  const format = (row: ExportRow) => {
+    const record = toRecord(row);
+    return scope.format === 'csv'
+      ? toCsvLine(EXPORT_COLUMNS.map(column => record[column]))
+      : `${JSON.stringify(record)}\n`;
+  };
+
+  try {
+    const first = await rows.next();
+
+    if (scope.format === 'csv') {
+      yield toCsvLine([...EXPORT_COLUMNS]);
+    }
+    if (first.done) return;
+    yield format(first.value);
+
+    for await (const row of rows) {
+      yield format(row);
+    }
+  } finally {
+    // Releases the connection when the caller stops early
+    await rows.return(undefined);
+  }
+}
@@ -0,0 +1,71 @@
+import { OrderDAO } from './order.dao';
+import { publishOrderStatusChanged, settlePayment, transitionOrder } from './order.lifecycle';
+import { databaseService } from '../../lib/database';
+import { JobDefinition } from '../../lib/jobs';
+import { logger } from '../../lib/logger';
+
+const orderDAO = new OrderDAO();
+
+// Orders cancelled per run; the rest wait for the next run
+const STALE_ORDER_BATCH_SIZE = 100;
+
+// Payment statuses of an order whose money has not arrived
+const UNPAID_STATUSES = ['pending', 'failed'];
+
+export function getPaymentTimeoutMinutes(): number {
+  return parseInt(process.env.ORDER_PAYMENT_TIMEOUT_MINUTES || '60');
+}
+
+// Cancels pending orders whose payment has not arrived within the timeout.
+// A payment still pending here may only mean its notification never came, so
+// it is looked up with the provider first; only one that is still unpaid, or
+// that failed, cancels the order. Entering CANCELLED restocks the items and
+// releases the payment. Returns how many orders were cancelled.
+export async function cancelStaleOrders(now: Date = new Date()): Promise<number> {
+  const before = new Date(now.getTime() - getPaymentTimeoutMinutes() * 60 * 1000);
+  const orders = await orderDAO.findUnpaidBefore(before, STALE_ORDER_BATCH_SIZE);
+
+  let cancelled = 0;
+  for (const order of orders) {
+    try {
+      const updatedOrder = await databaseService.executeTransaction(async (connection) => {
+        // The payment may have arrived since the lookup
+        const current = await orderDAO.findByIdForUpdate(order.id, connection);
+        if (current?.status !== 'pending' || !UNPAID_STATUSES.includes(current.payment_status)) {
+          return null;
+        }
+
+        const settled = await settlePayment(order.id, { connection });
+        if (!UNPAID_STATUSES.includes(settled.payment_status)) {
+          return null;
+        }
+
+        return transitionOrder(order.id, 'cancelled', null, {
+          reason: 'Payment not received in time',
+          connection,
+        });
+      });
+
+      if (updatedOrder) {
+        await publishOrderStatusChanged(updatedOrder);
+        cancelled++;
+      }
+    } catch (error) {
+      logger.warn({ error, orderId: order.id }, 'Failed to cancel unpaid order');
+    }
+  }
+
+  if (cancelled > 0) {
+    logger.info({ cancelled, before }, 'Cancelled unpaid orders');
+  }
+
+  return cancelled;
+}
+
+export const cancelStaleOrdersJob: JobDefinition = {
+  name: 'cancel-stale-orders',
+  schedule: process.env.STALE_ORDER_JOB_SCHEDULE || '*/5 * * * *',
+  run: async () => {
+    await cancelStaleOrders();
+  },
+};
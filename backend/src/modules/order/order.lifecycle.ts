@@ -0,0 +1,554 @@
+import oracledb from 'oracledb';
+import { OrderDAO, Order, OrderItem, Fulfillment } from './order.dao';
+import { ProductDAO } from '../product/product.dao';
+import { PaymentDAO } from '../payment/payment.dao';
+import { ShipmentDAO } from '../shipment/shipment.dao';
+import { paymentService, roundAmount, toOrderPaymentStatus } from '../payment/payment.service';
+import { JWTPayload } from '../../lib/auth';
+import { databaseService } from '../../lib/database';
+import { InvalidOrderTransitionError, OrderTransitionForbiddenError } from '../../lib/errors';
+import { logger } from '../../lib/logger';
+import { pubSubService, pubSubChannels } from '../../lib/pubsub';
+
+const orderDAO = new OrderDAO();
+const productDAO = new ProductDAO();
+const paymentDAO = new PaymentDAO();
+const shipmentDAO = new ShipmentDAO();
+
+export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
+
+// 'system' is the platform itself, e.g. a carrier reporting a delivery or the
+// job that cancels unpaid orders
+export type OrderActorRole = 'buyer' | 'seller' | 'admin' | 'system';
+
+// Payment statuses with captured money that can still be given back
+export const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+// What the buyer paid for some units of an order item: its share of the
+// order's discounts off, its tax on
+export function paidAmount(item: OrderItem, quantity: number): number {
+  return (item.total_price - (item.discount_amount || 0) + (item.tax_amount || 0)) * quantity / item.quantity;
+}
+
+// What the buyer pays for one seller's part of the order, shipping included
+function fulfillmentAmount(fulfillment: Fulfillment): number {
+  return fulfillment.subtotal - (fulfillment.discount_amount || 0) + (fulfillment.tax_amount || 0)
+    + (fulfillment.shipping_amount || 0);
+}
+
+// Allowed transitions: for each current status, the statuses it may move to
+// and the roles allowed to trigger the move. Anything not listed is rejected.
+// The rules apply to each seller's fulfillment; the order itself follows them.
+export const ORDER_LIFECYCLE: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  pending: {
+    confirmed: ['seller', 'admin'],
+    cancelled: ['buyer', 'seller', 'admin', 'system'],
+  },
+  confirmed: {
+    shipped: ['seller', 'admin'],
+    cancelled: ['buyer', 'seller', 'admin'],
+  },
+  shipped: {
+    delivered: ['seller', 'admin', 'system'],
+    cancelled: ['admin'],
+  },
+  delivered: {},
+  cancelled: {},
+};
+
+// Column stamped when an order or fulfillment enters a status
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, keyof Order & keyof Fulfillment>> = {
+  confirmed: 'confirmed_at',
+  shipped: 'shipped_at',
+  delivered: 'delivered_at',
+  cancelled: 'cancelled_at',
+};
+
+const STATUS_PROGRESS: OrderStatus[] = ['pending', 'confirmed', 'shipped', 'delivered'];
+
+interface TransitionEffectContext {
+  order: Order;
+  from: OrderStatus;
+  reason?: string;
+  connection: oracledb.Connection;
+}
+
+interface FulfillmentEffectContext {
+  order: Order;
+  fulfillment: Fulfillment;
+  // Every fulfillment of the order, as updated so far
+  fulfillments: Fulfillment[];
+  reason?: string;
+  tracking?: ShipmentTracking;
+  connection: oracledb.Connection;
+}
+
+// Side effects run in the same transaction, after the new status is written.
+// An effect that changes the order again returns the updated row.
+const ON_ENTER: Partial<Record<OrderStatus, (ctx: TransitionEffectContext) => Promise<Order | void>>> = {
+  // Every fulfillment is cancelled: release whatever is left of the payment
+  cancelled: async ({ order, reason, connection }) => {
+    const intent = await paymentService.release(order.id, connection, reason);
+    if (!intent) return;
+
+    return changePaymentStatus(order.id, toOrderPaymentStatus(intent.status), { connection });
+  },
+};
+
+const ON_FULFILLMENT_ENTER: Partial<Record<OrderStatus, (ctx: FulfillmentEffectContext) => Promise<Order | void>>> = {
+  // The first confirmation captures the payment for every fulfillment still
+  // live; a payment still pending blocks it
+  confirmed: async ({ order, fulfillments, connection }) => {
+    const liveAmount = roundAmount(
+      fulfillments
+        .filter(fulfillment => fulfillment.status !== 'cancelled')
+        .reduce((sum, fulfillment) => sum + fulfillmentAmount(fulfillment), 0)
+    );
+
+    const intent = await paymentService.capture(order.id, connection, liveAmount);
+    if (!intent) return;
+
+    return changePaymentStatus(order.id, toOrderPaymentStatus(intent.status), { connection });
+  },
+  // Opens a shipment when the seller gave the carrier's tracking number
+  shipped: async ({ order, fulfillment, tracking, connection }) => {
+    if (!tracking) return;
+
+    await shipmentDAO.create(
+      {
+        order_id: order.id,
+        fulfillment_id: fulfillment.id,
+        carrier: tracking.carrier,
+        tracking_number: tracking.trackingNumber,
+      },
+      connection
+    );
+  },
+  // Restocks the fulfillment's items and, once paid, refunds them
+  cancelled: async ({ order, fulfillment, reason, connection }) => {
+    const items = (await orderDAO.findItemsByOrder(order.id, connection))
+      .filter(item => item.fulfillment_id === fulfillment.id);
+
+    const restocked = await paymentDAO.findRefundedQuantities(order.id, connection, true);
+    for (const item of items) {
+      const quantity = item.quantity - (restocked.get(item.id) || 0);
+      if (quantity > 0) {
+        await productDAO.incrementStock(item.product_id, quantity, connection);
+      }
+    }
+
+    if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status)) return;
+
+    const refunded = await paymentDAO.findRefundedQuantities(order.id, connection);
+    const refundItems = items
+      .map(item => ({ item, quantity: item.quantity - (refunded.get(item.id) || 0) }))
+      .filter(({ quantity }) => quantity > 0);
+
+    // Shipping is given back too, unless the parcel already left
+    const shippingAmount = fulfillment.shipped_at ? 0 : fulfillment.shipping_amount || 0;
+    const amount = roundAmount(
+      refundItems.reduce((sum, { item, quantity }) => sum + paidAmount(item, quantity), shippingAmount)
+    );
+    if (amount <= 0) return;
+
+    const { intent } = await paymentService.refund(
+      order.id,
+      amount,
+      {
+        reason: reason || 'Fulfillment cancelled',
+        items: refundItems.map(({ item, quantity }) => ({ order_item_id: item.id, quantity })),
+        restocked: true,
+      },
+      connection
+    );
+
+    return changePaymentStatus(order.id, toOrderPaymentStatus(intent.status, intent.refunded_amount), { connection });
+  },
+};
+
+export function isOrderStatus(status: string): status is OrderStatus {
+  return Object.prototype.hasOwnProperty.call(ORDER_LIFECYCLE, status);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return Boolean(ORDER_LIFECYCLE[from][to]);
+}
+
+// An order is as far along as its least advanced live fulfillment, and
+// cancelled only once every fulfillment is
+export function deriveOrderStatus(fulfillmentStatuses: string[]): OrderStatus {
+  const live = fulfillmentStatuses.filter(status => status !== 'cancelled') as OrderStatus[];
+  if (live.length === 0) {
+    return 'cancelled';
+  }
+
+  return live.reduce((least, status) =>
+    STATUS_PROGRESS.indexOf(status) < STATUS_PROGRESS.indexOf(least) ? status : least
+  );
+}
+
+// Roles the user holds on this particular order
+export async function resolveOrderRoles(order: Order, user: JWTPayload): Promise<OrderActorRole[]> {
+  const roles: OrderActorRole[] = [];
+
+  if (user.isAdmin) {
+    roles.push('admin');
+  }
+
+  if (order.user_id === user.userId) {
+    roles.push('buyer');
+  }
+
+  const sellerIds = await orderDAO.findSellerIds(order.id);
+  if (sellerIds.includes(user.userId)) {
+    roles.push('seller');
+  }
+
+  return roles;
+}
+
+export interface ShipmentTracking {
+  trackingNumber: string;
+  carrier: string;
+}
+
+export interface TransitionOptions {
+  reason?: string;
+  // Shipping only: stored on each fulfillment that ships, which also gets a
+  // shipment to follow the carrier's tracking
+  tracking?: ShipmentTracking;
+  connection?: oracledb.Connection;
+}
+
+interface FulfillmentMove {
+  fulfillment: Fulfillment;
+  role: OrderActorRole;
+}
+
+// Picks, for each fulfillment that can move to `to`, a role the user holds on
+// it. A seller only holds the seller role on their own fulfillments.
+function planMoves(
+  order: Order,
+  fulfillments: Fulfillment[],
+  to: OrderStatus,
+  roles: OrderActorRole[],
+  user: JWTPayload | null
+): FulfillmentMove[] {
+  const movable = fulfillments.filter(fulfillment =>
+    isOrderStatus(fulfillment.status) && canTransition(fulfillment.status, to)
+  );
+
+  if (movable.length === 0) {
+    throw new InvalidOrderTransitionError(order.status, to);
+  }
+
+  const moves: FulfillmentMove[] = [];
+  for (const fulfillment of movable) {
+    const allowedRoles = ORDER_LIFECYCLE[fulfillment.status as OrderStatus][to]!;
+    const role = roles.find(candidate =>
+      allowedRoles.includes(candidate) && (candidate !== 'seller' || fulfillment.seller_id === user?.userId)
+    );
+
+    if (role) {
+      moves.push({ fulfillment, role });
+    }
+  }
+
+  if (moves.length === 0) {
+    throw new OrderTransitionForbiddenError(to, ORDER_LIFECYCLE[movable[0]!.status as OrderStatus][to]!);
+  }
+
+  return moves;
+}
+
+async function applyMoves(
+  order: Order,
+  fulfillments: Fulfillment[],
+  moves: FulfillmentMove[],
+  to: OrderStatus,
+  user: JWTPayload | null,
+  options: TransitionOptions & { connection: oracledb.Connection }
+): Promise<{ order: Order; fulfillments: Fulfillment[] }> {
+  const { connection, reason, tracking } = options;
+  const updatedFulfillments = [...fulfillments];
+  let currentOrder = order;
+
+  const updates: Partial<Pick<Fulfillment, 'tracking_number' | 'carrier' | 'cancel_reason'>> = {};
+  if (to === 'cancelled' && reason) {
+    updates.cancel_reason = reason;
+  }
+  if (to === 'shipped' && tracking) {
+    updates.tracking_number = tracking.trackingNumber;
+    updates.carrier = tracking.carrier;
+  }
+
+  for (const { fulfillment, role } of moves) {
+    const updated = await orderDAO.updateFulfillmentStatus(
+      fulfillment.id,
+      to,
+      STATUS_TIMESTAMPS[to] ?? null,
+      updates,
+      connection
+    );
+
+    if (!updated) {
+      throw new Error('Failed to update fulfillment status');
+    }
+
+    updatedFulfillments[updatedFulfillments.findIndex(f => f.id === fulfillment.id)] = updated;
+
+    // With a single seller the order's own event already says the same thing
+    if (fulfillments.length > 1) {
+      await orderDAO.createStatusEvent(
+        {
+          order_id: order.id,
+          fulfillment_id: fulfillment.id,
+          event_type: 'status',
+          from_status: fulfillment.status,
+          to_status: to,
+          actor_id: user?.userId ?? null,
+          actor_role: role,
+          reason: reason ?? null,
+        },
+        connection
+      );
+    }
+
+    const enteredOrder = await ON_FULFILLMENT_ENTER[to]?.({
+      order: currentOrder,
+      fulfillment: updated,
+      fulfillments: updatedFulfillments,
+      connection,
+      ...(reason && { reason }),
+      ...(tracking && { tracking }),
+    });
+    currentOrder = enteredOrder || currentOrder;
+
+    logger.info(
+      { orderId: order.id, fulfillmentId: fulfillment.id, from: fulfillment.status, to, userId: user?.userId, role },
+      'Fulfillment status changed'
+    );
+  }
+
+  currentOrder = await syncOrderStatus(currentOrder, updatedFulfillments, user, moves[0]!.role, options);
+
+  return { order: currentOrder, fulfillments: updatedFulfillments };
+}
+
+// Moves the order to the status its fulfillments add up to, recording the
+// change and running the order-level side effects
+async function syncOrderStatus(
+  order: Order,
+  fulfillments: Fulfillment[],
+  user: JWTPayload | null,
+  actingRole: OrderActorRole,
+  options: TransitionOptions & { connection: oracledb.Connection }
+): Promise<Order> {
+  const { connection, reason } = options;
+  const from = order.status as OrderStatus;
+  const to = deriveOrderStatus(fulfillments.map(fulfillment => fulfillment.status));
+  if (to === from) {
+    return order;
+  }
+
+  const updatedOrder = await orderDAO.updateStatus(
+    order.id,
+    to,
+    STATUS_TIMESTAMPS[to] ?? null,
+    connection
+  );
+
+  if (!updatedOrder) {
+    throw new Error('Failed to update order status');
+  }
+
+  await orderDAO.createStatusEvent(
+    {
+      order_id: order.id,
+      event_type: 'status',
+      from_status: from,
+      to_status: to,
+      actor_id: user?.userId ?? null,
+      actor_role: actingRole,
+      reason: reason ?? null,
+    },
+    connection
+  );
+
+  const enteredOrder = await ON_ENTER[to]?.({
+    order: updatedOrder,
+    from,
+    connection,
+    ...(reason && { reason }),
+  });
+
+  logger.info({ orderId: order.id, from, to, userId: user?.userId, role: actingRole }, 'Order status changed');
+
+  return enteredOrder || updatedOrder;
+}
+
+// Moves every fulfillment of the order the user may act on: a seller moves
+// their own, buyers and admins all of them. The order status follows. A null
+// user is the platform itself, as for transitionFulfillment.
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  user: JWTPayload | null,
+  options: TransitionOptions = {}
+): Promise<Order> {
+  const { connection } = options;
+  if (!connection) {
+    return databaseService.executeTransaction((conn) =>
+      transitionOrder(orderId, to, user, { ...options, connection: conn })
+    );
+  }
+
+  // Lock the row so two concurrent transitions cannot both pass the check
+  const order = await orderDAO.findByIdForUpdate(orderId, connection);
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  const roles: OrderActorRole[] = user ? await resolveOrderRoles(order, user) : ['system'];
+  if (roles.length === 0) {
+    throw new Error('Access denied');
+  }
+
+  const fulfillments = await orderDAO.findFulfillmentsByOrder(orderId, connection);
+  const moves = planMoves(order, fulfillments, to, roles, user);
+
+  const result = await applyMoves(order, fulfillments, moves, to, user, { ...options, connection });
+  return result.order;
+}
+
+// Moves a single seller's fulfillment. The order status follows. A null user
+// is the platform itself and may only make moves open to the system role.
+export async function transitionFulfillment(
+  fulfillmentId: string,
+  to: OrderStatus,
+  user: JWTPayload | null,
+  options: TransitionOptions = {}
+): Promise<{ order: Order; fulfillment: Fulfillment }> {
+  const { connection } = options;
+  if (!connection) {
+    return databaseService.executeTransaction((conn) =>
+      transitionFulfillment(fulfillmentId, to, user, { ...options, connection: conn })
+    );
+  }
+
+  const target = await orderDAO.findFulfillmentById(fulfillmentId);
+  if (!target) {
+    throw new Error('Fulfillment not found');
+  }
+
+  // Fulfillments are changed under the order's lock
+  const order = await orderDAO.findByIdForUpdate(target.order_id, connection);
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  const roles: OrderActorRole[] = user ? await resolveOrderRoles(order, user) : ['system'];
+  if (roles.length === 0) {
+    throw new Error('Access denied');
+  }
+
+  const fulfillments = await orderDAO.findFulfillmentsByOrder(order.id, connection);
+  const fulfillment = fulfillments.find(candidate => candidate.id === fulfillmentId);
+  if (!fulfillment) {
+    throw new Error('Fulfillment not found');
+  }
+
+  const moves = planMoves({ ...order, status: fulfillment.status }, [fulfillment], to, roles, user);
+
+  const result = await applyMoves(order, fulfillments, moves, to, user, { ...options, connection });
+  return {
+    order: result.order,
+    fulfillment: result.fulfillments.find(candidate => candidate.id === fulfillmentId)!,
+  };
+}
+
+export interface PaymentStatusOptions extends TransitionOptions {
+  // Omitted when the change comes from the payment provider rather than a user
+  actor?: JWTPayload;
+  actorRole?: OrderActorRole;
+}
+
+// Payment status is driven by the payment provider, so it is not role-checked
+// here; it is recorded in the history like any other status change
+export async function changePaymentStatus(
+  orderId: string,
+  to: string,
+  options: PaymentStatusOptions = {}
+): Promise<Order> {
+  const { connection } = options;
+  if (!connection) {
+    return databaseService.executeTransaction((conn) =>
+      changePaymentStatus(orderId, to, { ...options, connection: conn })
+    );
+  }
+
+  const order = await orderDAO.findByIdForUpdate(orderId, connection);
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (order.payment_status === to) {
+    return order;
+  }
+
+  const updatedOrder = await orderDAO.updatePaymentStatus(orderId, to, connection);
+  if (!updatedOrder) {
+    throw new Error('Failed to update payment status');
+  }
+
+  await orderDAO.createStatusEvent(
+    {
+      order_id: orderId,
+      event_type: 'payment_status',
+      from_status: order.payment_status,
+      to_status: to,
+      actor_id: options.actor?.userId ?? null,
+      actor_role: options.actor ? options.actorRole ?? null : 'system',
+      reason: options.reason ?? null,
+    },
+    connection
+  );
+
+  logger.info({ orderId, from: order.payment_status, to }, 'Order payment status changed');
+
+  return updatedOrder;
+}
+
+// Brings the order's payment status up to date with the provider, as when it
+// reports that a pix or boleto has been paid. Seller confirmation then
+// captures it like an authorized card payment.
+export async function settlePayment(orderId: string, options: TransitionOptions = {}): Promise<Order> {
+  const { connection } = options;
+  if (!connection) {
+    return databaseService.executeTransaction((conn) =>
+      settlePayment(orderId, { ...options, connection: conn })
+    );
+  }
+
+  const order = await orderDAO.findByIdForUpdate(orderId, connection);
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  const intent = await paymentService.refresh(orderId, connection);
+  if (!intent) {
+    return order;
+  }
+
+  return changePaymentStatus(
+    orderId,
+    toOrderPaymentStatus(intent.status, intent.refunded_amount),
+    { connection, ...(options.reason && { reason: options.reason }) }
+  );
+}
+
+// Notifies the buyer's orderStatusChanged subscribers. Call once the
+// transition's transaction has committed.
+export async function publishOrderStatusChanged(order: Order): Promise<void> {
+  await pubSubService.publish(pubSubChannels.orderStatusChanged(order.user_id), order);
+}
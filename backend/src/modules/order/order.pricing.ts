@@ -0,0 +1,129 @@
+import oracledb from 'oracledb';
+import { Product } from '../product/product.dao';
+import { DiscountableLine, DiscountResult } from '../promotion/promotion.engine';
+import { promotionService } from '../promotion/promotion.service';
+import { SellerShipping, ShippingSelection, shippingService } from '../shipping/shipping.service';
+import { TaxDestination } from '../tax/tax.provider';
+import { taxService } from '../tax/tax.service';
+import { roundAmount } from '../payment/payment.service';
+
+export interface OrderLine extends DiscountableLine {
+  unit_price: number;
+  weight_kg?: number | null | undefined;
+}
+
+export interface PricedLine extends OrderLine {
+  discount_amount: number;
+  // Percent, from the tax provider
+  tax_rate: number;
+  tax_amount: number;
+}
+
+export interface OrderPricing {
+  lines: PricedLine[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  shippingAmount: number;
+  total: number;
+  // Promotions to redeem when the order is placed
+  promotions: DiscountResult;
+  // The shipping option for each seller's part
+  shipping: SellerShipping[];
+}
+
+export interface PriceOrderOptions {
+  userId: string;
+  destination: TaxDestination;
+  couponCode?: string | undefined;
+  shipping?: ShippingSelection[] | undefined;
+  connection?: oracledb.Connection | undefined;
+}
+
+// Turns requested quantities into order lines, failing on products that are
+// missing or inactive, and on short stock when asked to
+export function toOrderLines(
+  quantities: Map<string, number>,
+  products: Product[],
+  options: { checkStock: boolean }
+): OrderLine[] {
+  const lines: OrderLine[] = [];
+
+  for (const [productId, quantity] of quantities) {
+    const product = products.find(p => p.id === productId);
+    if (!product) {
+      throw new Error(`Product not found: ${productId}`);
+    }
+
+    if (!product.is_active) {
+      throw new Error(`Product is not available: ${product.name}`);
+    }
+
+    if (options.checkStock && product.stock_quantity < quantity) {
+      throw new Error(`Insufficient stock for product: ${product.name}`);
+    }
+
+    lines.push({
+      product_id: productId,
+      seller_id: product.seller_id,
+      category: product.category,
+      quantity,
+      unit_price: product.price,
+      total_price: product.price * quantity,
+      weight_kg: product.weight_kg,
+    });
+  }
+
+  return lines;
+}
+
+// Prices an order the same way for checkout and previews: discounts first,
+// then tax on what each line costs after them, then each seller's shipping.
+// Shipping is not taxed.
+export async function priceOrder(lines: OrderLine[], options: PriceOrderOptions): Promise<OrderPricing> {
+  const promotions = await promotionService.price(lines, {
+    userId: options.userId,
+    couponCode: options.couponCode,
+    connection: options.connection,
+  });
+
+  const netAmounts = lines.map((line, index) => roundAmount(line.total_price - promotions.lineDiscounts[index]!));
+
+  const taxes = await taxService.calculate(
+    options.destination,
+    lines.map((line, index) => ({ category: line.category, amount: netAmounts[index]! }))
+  );
+
+  const quotes = await shippingService.quote(
+    lines.map((line, index) => ({
+      seller_id: line.seller_id,
+      quantity: line.quantity,
+      weight_kg: line.weight_kg,
+      amount: netAmounts[index]!,
+    })),
+    options.destination,
+    options.connection
+  );
+  const shipping = shippingService.choose(quotes, options.shipping);
+
+  const pricedLines = lines.map((line, index) => ({
+    ...line,
+    discount_amount: promotions.lineDiscounts[index]!,
+    tax_rate: taxes[index]!.rate,
+    tax_amount: taxes[index]!.amount,
+  }));
+
+  const taxAmount = roundAmount(pricedLines.reduce((sum, line) => sum + line.tax_amount, 0));
+  const shippingAmount = roundAmount(shipping.reduce((sum, { option }) => sum + option.amount, 0));
+
+  return {
+    lines: pricedLines,
+    subtotal: promotions.subtotal,
+    discountAmount: promotions.discountAmount,
+    taxAmount,
+    shippingAmount,
+    total: roundAmount(promotions.total + taxAmount + shippingAmount),
+    promotions,
+    shipping,
+  };
+}
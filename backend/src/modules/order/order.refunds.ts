@@ -0,0 +1,153 @@
+import oracledb from 'oracledb';
+import { OrderDAO, Order } from './order.dao';
+import {
+  OrderActorRole,
+  REFUNDABLE_PAYMENT_STATUSES,
+  changePaymentStatus,
+  paidAmount,
+  resolveOrderRoles,
+} from './order.lifecycle';
+import { ProductDAO } from '../product/product.dao';
+import { PaymentDAO, Refund, RefundItem } from '../payment/payment.dao';
+import { paymentService, roundAmount, toOrderPaymentStatus } from '../payment/payment.service';
+import { JWTPayload } from '../../lib/auth';
+import { databaseService } from '../../lib/database';
+import { InvalidRefundError } from '../../lib/errors';
+import { logger } from '../../lib/logger';
+
+const orderDAO = new OrderDAO();
+const productDAO = new ProductDAO();
+const paymentDAO = new PaymentDAO();
+
+export interface RefundItemRequest {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface RefundRequest {
+  items?: RefundItemRequest[];
+  amount?: number;
+  reason: string;
+  restock?: boolean;
+}
+
+export interface RefundOptions {
+  connection?: oracledb.Connection;
+}
+
+export interface RefundResult {
+  order: Order;
+  refund: Refund & { items: RefundItem[] };
+}
+
+// Refunds an order in full or in part. Admins may refund any amount; sellers
+// only refund their own items. Items are checked against what was already
+// refunded, and the amount against what is left of the captured payment.
+export async function refundOrder(
+  orderId: string,
+  user: JWTPayload,
+  request: RefundRequest,
+  options: RefundOptions = {}
+): Promise<RefundResult> {
+  const { connection } = options;
+  if (!connection) {
+    return databaseService.executeTransaction((conn) =>
+      refundOrder(orderId, user, request, { connection: conn })
+    );
+  }
+
+  const order = await orderDAO.findByIdForUpdate(orderId, connection);
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  const roles = await resolveOrderRoles(order, user);
+  const actingRole = (['admin', 'seller'] as OrderActorRole[]).find(role => roles.includes(role));
+  if (!actingRole) {
+    throw new Error('Access denied: only admins and sellers can refund orders');
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+    throw new InvalidRefundError(`Orders with payment status ${order.payment_status.toUpperCase()} cannot be refunded`);
+  }
+
+  const requestedItems = new Map<string, number>();
+  for (const item of request.items ?? []) {
+    requestedItems.set(item.orderItemId, (requestedItems.get(item.orderItemId) || 0) + item.quantity);
+  }
+
+  if (actingRole === 'seller' && requestedItems.size === 0) {
+    throw new InvalidRefundError('Sellers must list the items to refund');
+  }
+
+  const orderItems = await orderDAO.findItemsByOrder(orderId, connection);
+  const refundedQuantities = await paymentDAO.findRefundedQuantities(orderId, connection);
+
+  const refundItems = [];
+  let itemsAmount = 0;
+
+  for (const [orderItemId, quantity] of requestedItems) {
+    const orderItem = orderItems.find(item => item.id === orderItemId);
+    if (!orderItem) {
+      throw new InvalidRefundError(`Item ${orderItemId} is not part of this order`);
+    }
+
+    // The seller is snapshotted on the item, so it holds for deleted products
+    if (actingRole === 'seller' && orderItem.seller_id !== user.userId) {
+      throw new Error('Access denied: sellers can only refund their own items');
+    }
+
+    const remaining = orderItem.quantity - (refundedQuantities.get(orderItemId) || 0);
+    if (quantity > remaining) {
+      throw new InvalidRefundError(`Only ${remaining} of item ${orderItemId} can still be refunded`);
+    }
+
+    itemsAmount += paidAmount(orderItem, quantity);
+    refundItems.push({ order_item_id: orderItemId, product_id: orderItem.product_id, quantity });
+  }
+
+  itemsAmount = roundAmount(itemsAmount);
+
+  // Without an explicit amount, listed items are refunded at the price paid
+  const amount = request.amount ?? (refundItems.length > 0 ? itemsAmount : undefined);
+  if (amount === undefined) {
+    throw new InvalidRefundError('Specify the items or the amount to refund');
+  }
+
+  if (refundItems.length > 0 && roundAmount(amount) > itemsAmount) {
+    throw new InvalidRefundError(`Refund amount exceeds the value of the refunded items (${itemsAmount.toFixed(2)})`);
+  }
+
+  const restock = Boolean(request.restock) && refundItems.length > 0;
+
+  const { intent, refund } = await paymentService.refund(
+    orderId,
+    amount,
+    {
+      reason: request.reason,
+      items: refundItems.map(({ order_item_id, quantity }) => ({ order_item_id, quantity })),
+      restocked: restock,
+      actorId: user.userId,
+    },
+    connection
+  );
+
+  if (restock) {
+    for (const item of refundItems) {
+      await productDAO.incrementStock(item.product_id, item.quantity, connection);
+    }
+  }
+
+  const updatedOrder = await changePaymentStatus(
+    orderId,
+    toOrderPaymentStatus(intent.status, intent.refunded_amount),
+    { connection, actor: user, actorRole: actingRole, reason: request.reason }
+  );
+
+  logger.info(
+    { orderId, refundId: refund.id, amount: refund.amount, restocked: restock, userId: user.userId, role: actingRole },
+    'Order refunded'
+  );
+
+  return { order: updatedOrder, refund };
+}
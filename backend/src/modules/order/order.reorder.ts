@@ -0,0 +1,120 @@
+import { OrderDAO, OrderItem } from './order.dao';
+import { ProductDAO } from '../product/product.dao';
+import { UserDAO, CartItem } from '../user/user.dao';
+import { JWTPayload } from '../../lib/auth';
+import { databaseService } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+const orderDAO = new OrderDAO();
+const productDAO = new ProductDAO();
+const userDAO = new UserDAO();
+
+export type ReorderSkipReason = 'product_unavailable' | 'out_of_stock';
+
+export interface ReorderedItem {
+  productId: string;
+  name: string;
+  // What the order had; quantity is less when stock is short
+  orderedQuantity: number;
+  quantity: number;
+  previousPrice: number;
+  currentPrice: number;
+}
+
+export interface SkippedReorderItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  reason: ReorderSkipReason;
+}
+
+export interface ReorderResult {
+  added: ReorderedItem[];
+  skipped: SkippedReorderItem[];
+  cart: CartItem[];
+}
+
+// Order items grouped by product, keeping the first line's name and price
+function groupByProduct(items: OrderItem[]): Map<string, { item: OrderItem; quantity: number }> {
+  const grouped = new Map<string, { item: OrderItem; quantity: number }>();
+
+  for (const item of items) {
+    const entry = grouped.get(item.product_id);
+    if (entry) {
+      entry.quantity += item.quantity;
+    } else {
+      grouped.set(item.product_id, { item, quantity: item.quantity });
+    }
+  }
+
+  return grouped;
+}
+
+// Copies the order's items into the buyer's cart at today's prices. Products
+// that are gone or inactive are skipped; quantities are cut to the stock left
+// after what is already in the cart.
+export async function reorder(orderId: string, user: JWTPayload): Promise<ReorderResult> {
+  const order = await orderDAO.findById(orderId);
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  // Only the buyer: the items go into the caller's own cart
+  if (order.user_id !== user.userId) {
+    throw new Error('Access denied: insufficient permissions');
+  }
+
+  const grouped = groupByProduct(await orderDAO.findItemsByOrder(orderId));
+  const [products, cart] = await Promise.all([
+    productDAO.findByIds([...grouped.keys()]),
+    userDAO.getCartItems(user.userId),
+  ]);
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const inCart = new Map(cart.map(cartItem => [cartItem.product_id, cartItem.quantity]));
+
+  const added: ReorderedItem[] = [];
+  const skipped: SkippedReorderItem[] = [];
+
+  for (const [productId, { item, quantity }] of grouped) {
+    const product = productsById.get(productId);
+    const name = product?.name ?? item.product_name ?? 'Deleted product';
+
+    if (!product || !product.is_active) {
+      skipped.push({ productId, name, quantity, reason: 'product_unavailable' });
+      continue;
+    }
+
+    const available = product.stock_quantity - (inCart.get(productId) || 0);
+    if (available <= 0) {
+      skipped.push({ productId, name, quantity, reason: 'out_of_stock' });
+      continue;
+    }
+
+    added.push({
+      productId,
+      name,
+      orderedQuantity: quantity,
+      quantity: Math.min(quantity, available),
+      previousPrice: item.unit_price,
+      currentPrice: product.price,
+    });
+  }
+
+  if (added.length > 0) {
+    await databaseService.executeTransaction((connection) =>
+      userDAO.mergeCartItems(
+        user.userId,
+        added.map(entry => ({ product_id: entry.productId, quantity: entry.quantity })),
+        connection
+      )
+    );
+  }
+
+  logger.info({ orderId, userId: user.userId, added: added.length, skipped: skipped.length }, 'Order items added to cart');
+
+  return {
+    added,
+    skipped,
+    cart: added.length > 0 ? await userDAO.getCartItems(user.userId) : cart,
+  };
+}
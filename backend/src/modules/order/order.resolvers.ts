@@ -1,26 +1,66 @@
 import { GraphQLResolveInfo } from 'graphql';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
-import { OrderDAO, Order, OrderItem } from './order.dao';
+import {
+  OrderDAO,
+  Order,
+  OrderItem,
+  OrderStatusEvent,
+  Fulfillment,
+  FulfillmentNote,
+  NewFulfillment,
+} from './order.dao';
+import {
+  transitionOrder,
+  transitionFulfillment,
+  isOrderStatus,
+  publishOrderStatusChanged,
+} from './order.lifecycle';
+import { refundOrder } from './order.refunds';
+import { priceOrder, toOrderLines } from './order.pricing';
+import { snapshotProducts } from './order.snapshot';
+import { createExportLink } from './order.export';
+import { reorder } from './order.reorder';
 import { ProductDAO } from '../product/product.dao';
-import { UserDAO } from '../user/user.dao';
-import { GraphQLContext, requireAuth, requireOwnership } from '../../lib/context';
+import { CartItem, UserDAO } from '../user/user.dao';
+import { PaymentIntent, Refund, RefundItem } from '../payment/payment.dao';
+import { PaymentProviderResult, isCardPaymentMethod } from '../payment/payment.provider';
+import { paymentService, roundAmount, toOrderPaymentStatus } from '../payment/payment.service';
+import { promotionService } from '../promotion/promotion.service';
+import { estimateDelivery } from '../shipping/shipping.rates';
+import { AddressDAO, AddressFields } from '../address/address.dao';
+import { AddressInputSchema, addressService, formatAddress, toAddressFields } from '../address/address.service';
+import { JWTPayload } from '../../lib/auth';
+import { GraphQLContext, SubscriptionContext, requireAuth, requireOwnership } from '../../lib/context';
+import { databaseService } from '../../lib/database';
+import { PaymentDeclinedError } from '../../lib/errors';
+import { withIdempotency } from '../../lib/idempotency';
 import { logger } from '../../lib/logger';
+import { toConnection, toKeysetPage } from '../../lib/pagination';
+import { pubSubService, pubSubChannels } from '../../lib/pubsub';
 
 const orderDAO = new OrderDAO();
 const productDAO = new ProductDAO();
 const userDAO = new UserDAO();
+const addressDAO = new AddressDAO();
 
 // Validation schemas
 const PaymentInputSchema = z.object({
   method: z.string().min(1, 'Payment method is required'),
-  cardNumber: z.string().optional(),
-  expiryDate: z.string().optional(),
-  cvv: z.string().optional(),
-  billingAddress: z.string().min(1, 'Billing address is required'),
-  shippingAddress: z.string().min(1, 'Shipping address is required'),
+  cardNumber: z.string().regex(/^[\d ]{12,23}$/, 'Invalid card number').optional(),
+  expiryDate: z.string().regex(/^(0[1-9]|1[0-2])\/\d{2}$/, 'Expiry date must be MM/YY').optional(),
+  cvv: z.string().regex(/^\d{3,4}$/, 'Invalid CVV').optional(),
+  shippingAddressId: z.string().min(1).optional(),
+  shipTo: AddressInputSchema.optional(),
+  shippingAddress: z.string().trim().min(1).max(500, 'Shipping address is too long').optional(),
+  billingAddressId: z.string().min(1).optional(),
+  billTo: AddressInputSchema.optional(),
+  billingAddress: z.string().trim().min(1).max(500, 'Billing address is too long').optional(),
   notes: z.string().optional(),
-});
+}).refine(
+  payment => !isCardPaymentMethod(payment.method) || Boolean(payment.cardNumber && payment.expiryDate && payment.cvv),
+  'Card number, expiry date and CVV are required for card payments'
+);
 
 const OrderItemInputSchema = z.object({
   productId: z.string().uuid('Invalid product ID'),
@@ -30,8 +70,54 @@ const OrderItemInputSchema = z.object({
 const CreateOrderInputSchema = z.object({
   items: z.array(OrderItemInputSchema).min(1, 'At least one item is required'),
   payment: PaymentInputSchema,
+  couponCode: z.string().trim().min(1).max(50).optional(),
+  shipping: z.array(z.object({
+    sellerId: z.string().min(1, 'Seller ID is required'),
+    methodId: z.string().min(1).optional(),
+  })).optional(),
+});
+
+const RefundOrderInputSchema = z.object({
+  orderId: z.string().min(1, 'Order ID is required'),
+  items: z.array(z.object({
+    orderItemId: z.string().min(1, 'Order item ID is required'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+  })).optional(),
+  amount: z.number().positive('Refund amount must be positive').optional(),
+  reason: z.string().min(1, 'Refund reason is required').max(500, 'Refund reason is too long'),
+  restock: z.boolean().optional(),
+});
+
+// myOrders is always newest first
+const MY_ORDERS_SORT = 'createdAt:DESC';
+
+const DateStringSchema = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+const SellerOrderFilterSchema = z.object({
+  status: z.string().optional(),
+  dateRange: z.object({
+    from: DateStringSchema.optional(),
+    to: DateStringSchema.optional(),
+  }).optional(),
+});
+
+const OrderExportInputSchema = z.object({
+  format: z.enum(['CSV', 'JSONL']),
+  dateRange: z.object({
+    from: DateStringSchema.optional(),
+    to: DateStringSchema.optional(),
+  }).optional(),
+  statuses: z.array(z.string()).max(5).optional(),
+  sellerId: z.string().min(1).optional(),
+});
+
+const ShipFulfillmentInputSchema = z.object({
+  trackingNumber: z.string().trim().min(1, 'Tracking number is required').max(100, 'Tracking number is too long'),
+  carrier: z.string().trim().min(1, 'Carrier is required').max(50, 'Carrier is too long'),
 });
 
+const FulfillmentNoteSchema = z.string().trim().min(1, 'Note is required').max(2000, 'Note is too long');
+
 const CursorInputSchema = z.object({
   first: z.number().positive().max(100).optional(),
   after: z.string().optional(),
@@ -44,6 +130,10 @@ function transformOrder(order: Order): any {
   return {
     id: order.id,
     status: order.status.toUpperCase(),
+    subtotal: order.subtotal_amount ?? order.total_amount,
+    discountAmount: order.discount_amount || 0,
+    taxAmount: order.tax_amount || 0,
+    shippingAmount: order.shipping_amount || 0,
     totalAmount: order.total_amount,
     shippingAddress: order.shipping_address,
     billingAddress: order.billing_address,
@@ -51,22 +141,151 @@ function transformOrder(order: Order): any {
     paymentStatus: order.payment_status.toUpperCase(),
     trackingNumber: order.tracking_number,
     notes: order.notes,
+    confirmedAt: order.confirmed_at,
+    shippedAt: order.shipped_at,
+    deliveredAt: order.delivered_at,
+    cancelledAt: order.cancelled_at,
     createdAt: order.created_at,
     updatedAt: order.updated_at,
   };
 }
 
+// A snapshot that cannot be read shows no attributes rather than hiding the item
+function parseSnapshotAttributes(item: OrderItem): any[] {
+  try {
+    return JSON.parse(item.product_attributes || '[]');
+  } catch (error) {
+    logger.error({ error, orderItemId: item.id }, 'Failed to parse order item attributes');
+    return [];
+  }
+}
+
 function transformOrderItem(item: OrderItem): any {
   return {
     id: item.id,
+    order_id: item.order_id,
+    product_id: item.product_id,
     quantity: item.quantity,
     unitPrice: item.unit_price,
     totalPrice: item.total_price,
+    discountAmount: item.discount_amount || 0,
+    taxRate: item.tax_rate || 0,
+    taxAmount: item.tax_amount || 0,
+    snapshot: item.product_name ? {
+      name: item.product_name,
+      sku: item.product_sku,
+      category: item.product_category,
+      imageUrl: item.product_image_url,
+      attributes: parseSnapshotAttributes(item),
+      seller_id: item.seller_id,
+    } : null,
     createdAt: item.created_at,
   };
 }
 
-// Cursor-based pagination helpers
+function transformFulfillment(fulfillment: Fulfillment): any {
+  return {
+    id: fulfillment.id,
+    orderId: fulfillment.order_id,
+    order_id: fulfillment.order_id,
+    seller_id: fulfillment.seller_id,
+    status: fulfillment.status.toUpperCase(),
+    subtotal: fulfillment.subtotal,
+    discountAmount: fulfillment.discount_amount || 0,
+    taxAmount: fulfillment.tax_amount || 0,
+    shippingMethod: fulfillment.shipping_method,
+    shippingAmount: fulfillment.shipping_amount || 0,
+    estimatedDeliveryFrom: fulfillment.estimated_delivery_from,
+    estimatedDeliveryTo: fulfillment.estimated_delivery_to,
+    trackingNumber: fulfillment.tracking_number,
+    carrier: fulfillment.carrier,
+    cancelReason: fulfillment.cancel_reason,
+    confirmedAt: fulfillment.confirmed_at,
+    shippedAt: fulfillment.shipped_at,
+    deliveredAt: fulfillment.delivered_at,
+    cancelledAt: fulfillment.cancelled_at,
+    createdAt: fulfillment.created_at,
+    updatedAt: fulfillment.updated_at,
+  };
+}
+
+function transformFulfillmentNote(note: FulfillmentNote): any {
+  return {
+    id: note.id,
+    author_id: note.author_id,
+    note: note.note,
+    createdAt: note.created_at,
+  };
+}
+
+function transformOrderStatusEvent(event: OrderStatusEvent): any {
+  return {
+    id: event.id,
+    fulfillmentId: event.fulfillment_id,
+    type: event.event_type.toUpperCase(),
+    fromStatus: event.from_status ? event.from_status.toUpperCase() : null,
+    toStatus: event.to_status.toUpperCase(),
+    actor_id: event.actor_id,
+    actorRole: event.actor_role ? event.actor_role.toUpperCase() : null,
+    reason: event.reason,
+    createdAt: event.created_at,
+  };
+}
+
+function transformPaymentIntent(intent: PaymentIntent): any {
+  return {
+    id: intent.id,
+    provider: intent.provider,
+    method: intent.method,
+    status: intent.status.toUpperCase(),
+    amount: intent.amount,
+    capturedAmount: intent.captured_amount,
+    refundedAmount: intent.refunded_amount,
+    cardBrand: intent.card_brand,
+    cardLast4: intent.card_last4,
+    failureCode: intent.failure_code,
+    failureMessage: intent.failure_message,
+    createdAt: intent.created_at,
+    updatedAt: intent.updated_at,
+  };
+}
+
+function transformRefund(refund: Refund & { items: RefundItem[] }): any {
+  return {
+    id: refund.id,
+    amount: refund.amount,
+    reason: refund.reason,
+    restocked: Boolean(refund.restocked),
+    actor_id: refund.actor_id,
+    items: refund.items.map(item => ({
+      orderItemId: item.order_item_id,
+      quantity: item.quantity,
+    })),
+    createdAt: refund.created_at,
+  };
+}
+
+// Keeps the ids the CartItem field resolvers load the user and product from
+function transformReorderCartItem(cartItem: CartItem): any {
+  return {
+    id: cartItem.id,
+    user_id: cartItem.user_id,
+    product_id: cartItem.product_id,
+    quantity: cartItem.quantity,
+    createdAt: cartItem.created_at,
+    updatedAt: cartItem.updated_at,
+  };
+}
+
+function transformActor(user: any): any {
+  return {
+    id: user.id,
+    firstName: user.first_name,
+    lastName: user.last_name,
+  };
+}
+
+// Offset cursors, still used by sellerOrders
 function encodeCursor(id: string): string {
   return Buffer.from(id).toString('base64');
 }
@@ -75,6 +294,241 @@ function decodeCursor(cursor: string): string {
   return Buffer.from(cursor, 'base64').toString('utf-8');
 }
 
+// Works out where an order ships and bills to. Saved and structured addresses
+// are copied onto the order; free text is kept as given. Without a shipping
+// address the default one is used, and billing defaults to shipping.
+async function resolveOrderAddresses(userId: string, payment: z.infer<typeof PaymentInputSchema>): Promise<{
+  shipping: AddressFields | null;
+  billing: AddressFields | null;
+  shippingText: string;
+  billingText: string;
+}> {
+  const shipping = await addressService.resolve(userId, {
+    addressId: payment.shippingAddressId,
+    address: payment.shipTo && toAddressFields(payment.shipTo),
+  }) ?? (payment.shippingAddress ? null : await addressService.findDefault(userId));
+
+  const shippingText = shipping ? formatAddress(shipping) : payment.shippingAddress;
+  if (!shippingText) {
+    throw new Error('Shipping address is required');
+  }
+
+  const billing = await addressService.resolve(userId, {
+    addressId: payment.billingAddressId,
+    address: payment.billTo && toAddressFields(payment.billTo),
+  }) ?? (payment.billingAddress ? null : shipping);
+
+  return {
+    shipping,
+    billing,
+    shippingText,
+    billingText: billing ? formatAddress(billing) : payment.billingAddress ?? shippingText,
+  };
+}
+
+// Checkout: validates the cart against locked stock, authorizes the payment
+// and writes the order in one transaction
+async function placeOrder(input: any, context: GraphQLContext): Promise<any> {
+  // Set once the provider holds funds, so a failed checkout can release them
+  let authorization: PaymentProviderResult | undefined;
+  let orderCommitted = false;
+
+  try {
+    const user = requireAuth(context);
+    const validatedInput = CreateOrderInputSchema.parse(input);
+
+    // Merge repeated lines so stock is checked against the total requested
+    const requestedQuantities = new Map<string, number>();
+    for (const item of validatedInput.items) {
+      requestedQuantities.set(
+        item.productId,
+        (requestedQuantities.get(item.productId) || 0) + item.quantity
+      );
+    }
+
+    const orderId = uuidv4();
+    const { payment } = validatedInput;
+    const addresses = await resolveOrderAddresses(user.userId, payment);
+    const destination = await addressService.destination(user.userId, addresses.shipping);
+
+    // Stock check, payment authorization, order write, stock decrement and
+    // cart clearing all commit together or not at all
+    const { order } = await databaseService.executeTransaction(async (connection) => {
+      const products = await productDAO.findByIdsForUpdate(
+        [...requestedQuantities.keys()],
+        connection
+      );
+
+      // Validate products and calculate totals against the locked rows
+      const lines = toOrderLines(requestedQuantities, products, { checkStock: true });
+      const snapshots = await snapshotProducts(products);
+
+      // Tax and shipping follow the shipping address. An invalid coupon or
+      // shipping pick fails the checkout rather than being dropped.
+      const pricing = await priceOrder(lines, {
+        userId: user.userId,
+        destination,
+        couponCode: validatedInput.couponCode,
+        shipping: validatedInput.shipping,
+        connection,
+      });
+      const totalAmount = pricing.total;
+
+      // One fulfillment per seller, each shipped and tracked on its own
+      const fulfillments = new Map<string, NewFulfillment>();
+      for (const { sellerId, option } of pricing.shipping) {
+        const estimate = estimateDelivery(option);
+        fulfillments.set(sellerId, {
+          id: uuidv4(),
+          seller_id: sellerId,
+          subtotal: 0,
+          discount_amount: 0,
+          tax_amount: 0,
+          shipping_method_id: option.method_id,
+          shipping_method: option.name,
+          shipping_amount: option.amount,
+          estimated_delivery_from: estimate.from,
+          estimated_delivery_to: estimate.to,
+          items: [],
+        });
+      }
+
+      for (const line of pricing.lines) {
+        const fulfillment = fulfillments.get(line.seller_id)!;
+        fulfillment.subtotal = roundAmount(fulfillment.subtotal + line.total_price);
+        fulfillment.discount_amount = roundAmount(fulfillment.discount_amount + line.discount_amount);
+        fulfillment.tax_amount = roundAmount(fulfillment.tax_amount + line.tax_amount);
+        fulfillment.items.push({
+          product_id: line.product_id,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          total_price: line.total_price,
+          discount_amount: line.discount_amount,
+          tax_rate: line.tax_rate,
+          tax_amount: line.tax_amount,
+          ...snapshots.get(line.product_id)!,
+        });
+      }
+
+      // Card data goes to the provider and no further
+      authorization = await paymentService.authorize({
+        orderId,
+        amount: totalAmount,
+        currency: process.env.PAYMENT_CURRENCY || 'BRL',
+        method: payment.method,
+        ...(payment.cardNumber && payment.expiryDate && payment.cvv && {
+          card: { number: payment.cardNumber, expiryDate: payment.expiryDate, cvv: payment.cvv },
+        }),
+      });
+
+      if (authorization.status === 'failed') {
+        throw new PaymentDeclinedError(
+          authorization.failureCode || 'declined',
+          authorization.failureMessage
+        );
+      }
+
+      const created = await orderDAO.createOrderWithItems(
+        {
+          id: orderId,
+          user_id: user.userId,
+          status: 'pending',
+          subtotal_amount: pricing.subtotal,
+          discount_amount: pricing.discountAmount,
+          tax_amount: pricing.taxAmount,
+          shipping_amount: pricing.shippingAmount,
+          total_amount: totalAmount,
+          shipping_address: addresses.shippingText,
+          billing_address: addresses.billingText,
+          payment_method: payment.method,
+          payment_status: toOrderPaymentStatus(authorization.status),
+          ...(payment.notes && { notes: payment.notes }),
+        },
+        [...fulfillments.values()],
+        connection
+      );
+
+      for (const item of lines) {
+        const decremented = await productDAO.decrementStock(item.product_id, item.quantity, connection);
+        if (!decremented) {
+          const product = products.find(p => p.id === item.product_id);
+          throw new Error(`Insufficient stock for product: ${product?.name ?? item.product_id}`);
+        }
+      }
+
+      await promotionService.redeem(orderId, pricing.promotions, connection);
+
+      await addressDAO.createOrderAddresses(
+        orderId,
+        [
+          ...(addresses.shipping ? [{ address_type: 'shipping' as const, address: addresses.shipping }] : []),
+          ...(addresses.billing ? [{ address_type: 'billing' as const, address: addresses.billing }] : []),
+        ],
+        connection
+      );
+
+      await orderDAO.createStatusEvent(
+        {
+          order_id: orderId,
+          event_type: 'status',
+          to_status: 'pending',
+          actor_id: user.userId,
+          actor_role: 'buyer',
+        },
+        connection
+      );
+
+      await paymentService.recordIntent(orderId, payment.method, authorization, connection);
+
+      if (created.order.payment_status !== 'pending') {
+        await orderDAO.createStatusEvent(
+          {
+            order_id: orderId,
+            event_type: 'payment_status',
+            from_status: 'pending',
+            to_status: created.order.payment_status,
+            actor_role: 'system',
+          },
+          connection
+        );
+      }
+
+      await userDAO.clearCart(user.userId, connection);
+
+      return created;
+    });
+
+    orderCommitted = true;
+
+    return transformOrder(order);
+  } catch (error) {
+    if (authorization && !orderCommitted) {
+      await paymentService.voidAuthorization(authorization);
+    }
+
+    // Never log the raw input: it carries the card number and CVV
+    logger.error({ error, userId: context.user?.userId, items: input?.items }, 'Failed to create order');
+    if (error instanceof z.ZodError) {
+      throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+    }
+    throw error;
+  }
+}
+
+// Seller-only actions act on the caller's own fulfillment, even for admins
+async function requireFulfillmentSeller(id: string, user: JWTPayload): Promise<Fulfillment> {
+  const fulfillment = await orderDAO.findFulfillmentById(id);
+  if (!fulfillment) {
+    throw new Error('Fulfillment not found');
+  }
+
+  if (fulfillment.seller_id !== user.userId) {
+    throw new Error('Access denied: only the seller can manage this fulfillment');
+  }
+
+  return fulfillment;
+}
+
 export const orderResolvers = {
   Query: {
     order: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
@@ -103,39 +557,67 @@ export const orderResolvers = {
         const user = requireAuth(context);
         const validatedPagination = CursorInputSchema.parse(pagination);
 
-        // Determine pagination parameters
+        // Newest first
+        const page = toKeysetPage(MY_ORDERS_SORT, validatedPagination);
+        const { totalCount, ...result } = await orderDAO.findByUser(user.userId, page);
+
+        return {
+          ...toConnection(MY_ORDERS_SORT, page, result, transformOrder),
+          totalCount,
+        };
+      } catch (error) {
+        logger.error({ error, pagination }, 'Failed to get user orders');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    // The caller's fulfillments, i.e. their part of each order
+    sellerOrders: async (
+      _: any,
+      { filter = {}, pagination = {} }: { filter?: any; pagination?: any },
+      context: GraphQLContext
+    ) => {
+      try {
+        const user = requireAuth(context);
+        const validatedFilter = SellerOrderFilterSchema.parse(filter);
+        const validatedPagination = CursorInputSchema.parse(pagination);
+
         const limit = Math.min(validatedPagination.first || validatedPagination.last || 20, 100);
         const offset = validatedPagination.after 
           ? parseInt(decodeCursor(validatedPagination.after)) 
           : 0;
 
-        // Get orders
-        const { orders, totalCount } = await orderDAO.findByUser(user.userId, { limit, offset });
+        const { from, to } = validatedFilter.dateRange ?? {};
+        const { fulfillments, totalCount } = await orderDAO.findFulfillmentsBySeller(
+          user.userId,
+          {
+            ...(validatedFilter.status && { status: validatedFilter.status.toLowerCase() }),
+            ...(from && { from: new Date(from) }),
+            ...(to && { to: new Date(to) }),
+          },
+          { limit, offset }
+        );
 
-        // Create edges
-        const edges = orders.map((order, index) => ({
-          node: transformOrder(order),
+        const edges = fulfillments.map((fulfillment, index) => ({
+          node: transformFulfillment(fulfillment),
           cursor: encodeCursor((offset + index).toString()),
         }));
 
-        // Determine page info
-        const hasNextPage = offset + limit < totalCount;
-        const hasPreviousPage = offset > 0;
-        const startCursor = edges.length > 0 ? edges[0]?.cursor : null;
-        const endCursor = edges.length > 0 ? edges[edges.length - 1]?.cursor : null;
-
         return {
           edges,
           pageInfo: {
-            hasNextPage,
-            hasPreviousPage,
-            startCursor,
-            endCursor,
+            hasNextPage: offset + limit < totalCount,
+            hasPreviousPage: offset > 0,
+            startCursor: edges.length > 0 ? edges[0]?.cursor : null,
+            endCursor: edges.length > 0 ? edges[edges.length - 1]?.cursor : null,
           },
           totalCount,
         };
       } catch (error) {
-        logger.error({ error, pagination }, 'Failed to get user orders');
+        logger.error({ error, filter, pagination }, 'Failed to get seller orders');
         if (error instanceof z.ZodError) {
           throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
         }
@@ -146,152 +628,256 @@ export const orderResolvers = {
 
   Mutation: {
     createOrder: async (_: any, { input }: { input: any }, context: GraphQLContext) => {
+      // A repeated checkout (double click, client retry) gets the first order
+      // back. The fingerprint covers the whole checkout, coupon, shipping
+      // picks and addresses included, but leaves card data out.
+      const { clientMutationId, ...request } = input ?? {};
+      const validated = CreateOrderInputSchema.safeParse(request);
+      const { payment: { cardNumber, expiryDate, cvv, ...payment } = {}, ...checkout } =
+        validated.success ? validated.data : request;
+
+      return withIdempotency(
+        context,
+        'createOrder',
+        { clientMutationId, ...checkout, payment },
+        () => placeOrder(input, context)
+      );
+    },
+
+    updateOrderStatus: async (
+      _: any,
+      { id, status, reason }: { id: string; status: string; reason?: string },
+      context: GraphQLContext
+    ) => {
       try {
         const user = requireAuth(context);
-        const validatedInput = CreateOrderInputSchema.parse(input);
-
-        // Validate products and calculate totals
-        const orderItems = [];
-        let totalAmount = 0;
-
-        for (const item of validatedInput.items) {
-          const product = await productDAO.findById(item.productId);
-          if (!product) {
-            throw new Error(`Product not found: ${item.productId}`);
-          }
-
-          if (!product.is_active) {
-            throw new Error(`Product is not available: ${product.name}`);
-          }
-
-          if (product.stock_quantity < item.quantity) {
-            throw new Error(`Insufficient stock for product: ${product.name}`);
-          }
-
-          const unitPrice = product.price;
-          const totalPrice = unitPrice * item.quantity;
-          totalAmount += totalPrice;
-
-          orderItems.push({
-            product_id: item.productId,
-            quantity: item.quantity,
-            unit_price: unitPrice,
-            total_price: totalPrice,
-          });
+
+        // Validate status
+        const targetStatus = status.toLowerCase();
+        if (!isOrderStatus(targetStatus)) {
+          throw new Error('Invalid order status');
         }
 
-        // Create order
-        const orderId = uuidv4();
-        const order = await orderDAO.create({
-          id: orderId,
-          user_id: user.userId,
-          status: 'pending',
-          total_amount: totalAmount,
-          shipping_address: validatedInput.payment.shippingAddress,
-          billing_address: validatedInput.payment.billingAddress,
-          payment_method: validatedInput.payment.method,
-          payment_status: 'pending',
-          ...(validatedInput.payment.notes && { notes: validatedInput.payment.notes }),
+        // Transition rules and role checks live in the order lifecycle
+        const updatedOrder = await transitionOrder(id, targetStatus, user, {
+          ...(reason && { reason }),
         });
 
-        // Create order items
-        const createdItems = [];
-        for (const item of orderItems) {
-          const orderItem = await orderDAO.createOrderItem({
-            order_id: orderId,
-            ...item,
-          });
-          createdItems.push(orderItem);
-        }
-
-        // TODO: Process payment
-        // TODO: Update product stock quantities
-        // TODO: Clear user's cart
+        await publishOrderStatusChanged(updatedOrder);
 
-        return transformOrder(order);
+        return transformOrder(updatedOrder);
       } catch (error) {
-        logger.error({ error, input }, 'Failed to create order');
-        if (error instanceof z.ZodError) {
-          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
-        }
+        logger.error({ error, id, status }, 'Failed to update order status');
         throw error;
       }
     },
 
-    updateOrderStatus: async (_: any, { id, status }: { id: string; status: string }, context: GraphQLContext) => {
+    cancelOrder: async (
+      _: any,
+      { id, reason, clientMutationId }: { id: string; reason?: string; clientMutationId?: string },
+      context: GraphQLContext
+    ) => {
       try {
         const user = requireAuth(context);
 
-        // Check if order exists
-        const order = await orderDAO.findById(id);
-        if (!order) {
-          throw new Error('Order not found');
-        }
+        // Cancelling releases the payment, so a retry must not act twice
+        return await withIdempotency(context, 'cancelOrder', { id, reason, clientMutationId }, async () => {
+          // Restocking happens as a side effect of entering CANCELLED
+          const updatedOrder = await transitionOrder(id, 'cancelled', user, {
+            ...(reason && { reason }),
+          });
 
-        // Check permissions (admin or order owner)
-        if (!user.isAdmin && order.user_id !== user.userId) {
-          throw new Error('Access denied');
-        }
+          await publishOrderStatusChanged(updatedOrder);
 
-        // Validate status
-        const validStatuses = ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'];
-        if (!validStatuses.includes(status.toLowerCase())) {
+          return transformOrder(updatedOrder);
+        });
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to cancel order');
+        throw error;
+      }
+    },
+
+    updateFulfillmentStatus: async (
+      _: any,
+      { id, status, reason }: { id: string; status: string; reason?: string },
+      context: GraphQLContext
+    ) => {
+      try {
+        const user = requireAuth(context);
+
+        const targetStatus = status.toLowerCase();
+        if (!isOrderStatus(targetStatus)) {
           throw new Error('Invalid order status');
         }
 
-        const updatedOrder = await orderDAO.update(id, {
-          status: status.toLowerCase(),
+        // Only this seller's part moves; the order status follows
+        const { order, fulfillment } = await transitionFulfillment(id, targetStatus, user, {
+          ...(reason && { reason }),
         });
 
-        if (!updatedOrder) {
-          throw new Error('Failed to update order status');
-        }
+        await publishOrderStatusChanged(order);
 
-        return transformOrder(updatedOrder);
+        return transformFulfillment(fulfillment);
       } catch (error) {
-        logger.error({ error, id, status }, 'Failed to update order status');
+        logger.error({ error, id, status }, 'Failed to update fulfillment status');
         throw error;
       }
     },
 
-    cancelOrder: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
+    confirmFulfillment: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
       try {
         const user = requireAuth(context);
+        await requireFulfillmentSeller(id, user);
 
-        // Check if order exists
-        const order = await orderDAO.findById(id);
-        if (!order) {
-          throw new Error('Order not found');
+        const { order, fulfillment } = await transitionFulfillment(id, 'confirmed', user);
+
+        await publishOrderStatusChanged(order);
+
+        return transformFulfillment(fulfillment);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to confirm fulfillment');
+        throw error;
+      }
+    },
+
+    shipFulfillment: async (
+      _: any,
+      { id, ...args }: { id: string; trackingNumber: string; carrier: string },
+      context: GraphQLContext
+    ) => {
+      try {
+        const user = requireAuth(context);
+        const tracking = ShipFulfillmentInputSchema.parse(args);
+        await requireFulfillmentSeller(id, user);
+
+        const { order, fulfillment } = await transitionFulfillment(id, 'shipped', user, { tracking });
+
+        await publishOrderStatusChanged(order);
+
+        return transformFulfillment(fulfillment);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to ship fulfillment');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
         }
+        throw error;
+      }
+    },
 
-        // Check permissions
-        requireOwnership(context, order.user_id);
+    addFulfillmentNote: async (_: any, { id, note }: { id: string; note: string }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const validatedNote = FulfillmentNoteSchema.parse(note);
+        await requireFulfillmentSeller(id, user);
+
+        const created = await orderDAO.createFulfillmentNote({
+          fulfillment_id: id,
+          author_id: user.userId,
+          note: validatedNote,
+        });
 
-        // Check if order can be cancelled
-        if (order.status === 'cancelled') {
-          throw new Error('Order is already cancelled');
+        return transformFulfillmentNote(created);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to add fulfillment note');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
         }
+        throw error;
+      }
+    },
+
+    refundOrder: async (_: any, args: any, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const { orderId, items, amount, reason, restock } = RefundOrderInputSchema.parse(args);
+
+        // A retried refund gets the first result instead of refunding twice
+        return await withIdempotency(context, 'refundOrder', args, async () => {
+          // Role, item and amount checks live in refundOrder
+          const { order: updatedOrder } = await refundOrder(orderId, user, {
+            reason,
+            ...(items && { items }),
+            ...(amount !== undefined && { amount }),
+            ...(restock !== undefined && { restock }),
+          });
 
-        if (order.status === 'delivered') {
-          throw new Error('Cannot cancel delivered order');
+          await publishOrderStatusChanged(updatedOrder);
+
+          return transformOrder(updatedOrder);
+        });
+      } catch (error) {
+        logger.error({ error, orderId: args?.orderId }, 'Failed to refund order');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
         }
+        throw error;
+      }
+    },
 
-        const updatedOrder = await orderDAO.update(id, {
-          status: 'cancelled',
+    requestOrderExport: async (_: any, { input }: { input: any }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const validatedInput = OrderExportInputSchema.parse(input);
+
+        const { from, to } = validatedInput.dateRange ?? {};
+        const format = validatedInput.format === 'CSV' ? 'csv' : 'jsonl';
+        const link = createExportLink(user, {
+          format,
+          filters: {
+            ...(from && { from: new Date(from).toISOString() }),
+            ...(to && { to: new Date(to).toISOString() }),
+            ...(validatedInput.statuses && { statuses: validatedInput.statuses.map(status => status.toLowerCase()) }),
+            ...(validatedInput.sellerId && { sellerId: validatedInput.sellerId }),
+          },
         });
 
-        if (!updatedOrder) {
-          throw new Error('Failed to cancel order');
+        logger.info({ userId: user.userId, format }, 'Order export requested');
+
+        return {
+          url: link.url,
+          format: validatedInput.format,
+          expiresAt: link.expiresAt.toISOString(),
+        };
+      } catch (error) {
+        logger.error({ error }, 'Failed to request order export');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
         }
+        throw error;
+      }
+    },
 
-        return transformOrder(updatedOrder);
+    reorder: async (_: any, { orderId }: { orderId: string }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const result = await reorder(orderId, user);
+
+        return {
+          added: result.added.map(item => ({
+            ...item,
+            priceChanged: roundAmount(item.currentPrice) !== roundAmount(item.previousPrice),
+          })),
+          skipped: result.skipped.map(item => ({ ...item, reason: item.reason.toUpperCase() })),
+          cart: result.cart.map(transformReorderCartItem),
+        };
       } catch (error) {
-        logger.error({ error, id }, 'Failed to cancel order');
+        logger.error({ error, orderId }, 'Failed to reorder');
         throw error;
       }
     },
   },
 
+  Subscription: {
+    orderStatusChanged: {
+      subscribe: (_: any, { userId }: { userId: string }, context: SubscriptionContext) => {
+        // Users may only follow their own orders
+        requireOwnership(context, userId);
+        return pubSubService.asyncIterator<Order>(pubSubChannels.orderStatusChanged(userId));
+      },
+      resolve: (order: Order) => transformOrder(order),
+    },
+  },
+
   Order: {
     user: async (parent: any, __: any, context: GraphQLContext) => {
       try {
@@ -327,6 +913,154 @@ export const orderResolvers = {
         return [];
       }
     },
+
+    fulfillments: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const fulfillments = await context.loaders.fulfillmentsByOrder.load(parent.id);
+        return fulfillments.map(transformFulfillment);
+      } catch (error) {
+        logger.error({ error, orderId: parent.id }, 'Failed to load order fulfillments');
+        return [];
+      }
+    },
+
+    history: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const events = await context.loaders.orderStatusEventsByOrder.load(parent.id);
+        return events.map(transformOrderStatusEvent);
+      } catch (error) {
+        logger.error({ error, orderId: parent.id }, 'Failed to load order history');
+        return [];
+      }
+    },
+
+    payments: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const intents = await context.loaders.paymentIntentsByOrder.load(parent.id);
+        return intents.map(transformPaymentIntent);
+      } catch (error) {
+        logger.error({ error, orderId: parent.id }, 'Failed to load order payments');
+        return [];
+      }
+    },
+
+    refunds: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const refunds = await context.loaders.refundsByOrder.load(parent.id);
+        return refunds.map(transformRefund);
+      } catch (error) {
+        logger.error({ error, orderId: parent.id }, 'Failed to load order refunds');
+        return [];
+      }
+    },
+  },
+
+  OrderStatusEvent: {
+    actor: async (parent: any, __: any, context: GraphQLContext) => {
+      if (!parent.actor_id) {
+        return null;
+      }
+
+      try {
+        const user = await context.loaders.userById.load(parent.actor_id);
+        return user ? transformActor(user) : null;
+      } catch (error) {
+        logger.error({ error, eventId: parent.id }, 'Failed to load order status event actor');
+        return null;
+      }
+    },
+  },
+
+  Fulfillment: {
+    // Other sellers' items, the buyer and the payments stay hidden from sellers
+    order: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const order = await orderDAO.findById(parent.order_id);
+        if (!order || !context.user || (!context.user.isAdmin && context.user.userId !== order.user_id)) {
+          return null;
+        }
+
+        return transformOrder(order);
+      } catch (error) {
+        logger.error({ error, fulfillmentId: parent.id }, 'Failed to load fulfillment order');
+        return null;
+      }
+    },
+
+    shippingAddress: async (parent: any) => {
+      try {
+        const order = await orderDAO.findById(parent.order_id);
+        return order ? order.shipping_address : null;
+      } catch (error) {
+        logger.error({ error, fulfillmentId: parent.id }, 'Failed to load fulfillment shipping address');
+        return null;
+      }
+    },
+
+    seller: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const user = await context.loaders.userById.load(parent.seller_id);
+        return user ? transformActor(user) : null;
+      } catch (error) {
+        logger.error({ error, fulfillmentId: parent.id }, 'Failed to load fulfillment seller');
+        return null;
+      }
+    },
+
+    items: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const items = await context.loaders.orderItemsByOrder.load(parent.order_id);
+        return items
+          .filter((item: OrderItem) => item.fulfillment_id === parent.id)
+          .map(transformOrderItem);
+      } catch (error) {
+        logger.error({ error, fulfillmentId: parent.id }, 'Failed to load fulfillment items');
+        return [];
+      }
+    },
+
+    // Internal to the seller and admins; buyers get none
+    notes: async (parent: any, __: any, context: GraphQLContext) => {
+      if (!context.user || (!context.user.isAdmin && context.user.userId !== parent.seller_id)) {
+        return [];
+      }
+
+      try {
+        const notes = await context.loaders.notesByFulfillment.load(parent.id);
+        return notes.map(transformFulfillmentNote);
+      } catch (error) {
+        logger.error({ error, fulfillmentId: parent.id }, 'Failed to load fulfillment notes');
+        return [];
+      }
+    },
+  },
+
+  FulfillmentNote: {
+    author: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const user = await context.loaders.userById.load(parent.author_id);
+        return user ? transformActor(user) : null;
+      } catch (error) {
+        logger.error({ error, noteId: parent.id }, 'Failed to load fulfillment note author');
+        return null;
+      }
+    },
+  },
+
+  Refund: {
+    actor: async (parent: any, __: any, context: GraphQLContext) => {
+      if (!parent.actor_id) {
+        return null;
+      }
+
+      try {
+        const user = await context.loaders.userById.load(parent.actor_id);
+        return user ? transformActor(user) : null;
+      } catch (error) {
+        logger.error({ error, refundId: parent.id }, 'Failed to load refund actor');
+        return null;
+      }
+    },
   },
 
   OrderItem: {
@@ -340,9 +1074,25 @@ export const orderResolvers = {
       }
     },
 
+    // Falls back to the snapshot when the product has been deleted
     product: async (parent: any, __: any, context: GraphQLContext) => {
       try {
         const product = await context.loaders.productsByIds.load(parent.product_id);
+        if (!product && parent.snapshot) {
+          return {
+            id: parent.product_id,
+            name: parent.snapshot.name,
+            price: parent.unitPrice,
+            category: parent.snapshot.category,
+            sku: parent.snapshot.sku,
+            stockQuantity: 0,
+            isActive: false,
+            seller_id: parent.snapshot.seller_id,
+            createdAt: parent.createdAt,
+            updatedAt: parent.createdAt,
+          };
+        }
+
         return product ? {
           id: product.id,
           name: product.name,
@@ -362,4 +1112,20 @@ export const orderResolvers = {
       }
     },
   },
+
+  OrderItemSnapshot: {
+    seller: async (parent: any, __: any, context: GraphQLContext) => {
+      if (!parent.seller_id) {
+        return null;
+      }
+
+      try {
+        const user = await context.loaders.userById.load(parent.seller_id);
+        return user ? transformActor(user) : null;
+      } catch (error) {
+        logger.error({ error, sellerId: parent.seller_id }, 'Failed to load order item seller');
+        return null;
+      }
+    },
+  },
 };
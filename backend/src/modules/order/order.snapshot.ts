@@ -0,0 +1,45 @@
+import { ProductDAO, Product, ProductImage } from '../product/product.dao';
+
+const productDAO = new ProductDAO();
+
+// The product as the buyer saw it at checkout, kept on the order item so past
+// orders survive renames and deleted products
+export interface ProductSnapshot {
+  product_name: string;
+  product_sku: string | null;
+  product_category: string;
+  product_image_url: string | null;
+  // JSON array of { name, value }
+  product_attributes: string;
+  seller_id: string;
+}
+
+// The primary image, or the first one when none is marked primary. Images
+// come sorted by sort order.
+function primaryImage(images: ProductImage[]): ProductImage | undefined {
+  return images.find(image => image.is_primary) ?? images[0];
+}
+
+export async function snapshotProducts(products: Product[]): Promise<Map<string, ProductSnapshot>> {
+  const productIds = products.map(product => product.id);
+  const [attributes, images] = await Promise.all([
+    productDAO.findAttributesByProducts(productIds),
+    productDAO.findImagesByProducts(productIds),
+  ]);
+
+  return new Map(products.map(product => [
+    product.id,
+    {
+      product_name: product.name,
+      product_sku: product.sku ?? null,
+      product_category: product.category,
+      product_image_url: primaryImage(images.filter(image => image.product_id === product.id))?.image_url ?? null,
+      product_attributes: JSON.stringify(
+        attributes
+          .filter(attribute => attribute.product_id === product.id)
+          .map(attribute => ({ name: attribute.attribute_name, value: attribute.attribute_value }))
+      ),
+      seller_id: product.seller_id,
+    },
+  ]));
+}
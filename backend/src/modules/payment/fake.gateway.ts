@@ -0,0 +1,109 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AuthorizeRequest,
+  PaymentProvider,
+  PaymentProviderResult,
+  isCardPaymentMethod,
+} from './payment.provider';
+
+// Test cards with a fixed outcome, in the style of real gateway sandboxes.
+// Any other card that passes the Luhn check is approved.
+const DECLINED_CARDS: Record<string, { code: string; message: string }> = {
+  '4000000000000002': { code: 'card_declined', message: 'The card was declined' },
+  '4000000000009995': { code: 'insufficient_funds', message: 'The card has insufficient funds' },
+  '4000000000000069': { code: 'expired_card', message: 'The card has expired' },
+};
+
+function passesLuhn(cardNumber: string): boolean {
+  let sum = 0;
+  let double = false;
+
+  for (let i = cardNumber.length - 1; i >= 0; i--) {
+    let digit = Number(cardNumber[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+function detectCardBrand(cardNumber: string): string {
+  if (/^4/.test(cardNumber)) return 'visa';
+  if (/^(5[1-5]|2[2-7])/.test(cardNumber)) return 'mastercard';
+  if (/^3[47]/.test(cardNumber)) return 'amex';
+  if (/^(4011|4312|4389|5041|5066|5090|6277|6362|6363|6504|6505|6516)/.test(cardNumber)) return 'elo';
+  return 'unknown';
+}
+
+// Deterministic in-process gateway for development and tests. It keeps no
+// state: payment references are derived from the order and refund references
+// are random, so outcomes only depend on the inputs and hold across restarts
+// and API instances.
+export class FakePaymentGateway implements PaymentProvider {
+  readonly name = 'fake';
+
+  async authorize(request: AuthorizeRequest): Promise<PaymentProviderResult> {
+    const reference = `fake_pi_${request.orderId}`;
+
+    // Non-card methods (pix, boleto, bank transfer) wait for the customer
+    if (!isCardPaymentMethod(request.method)) {
+      return { status: 'pending', reference, amount: request.amount };
+    }
+
+    const cardNumber = (request.card?.number || '').replace(/\D/g, '');
+    if (cardNumber.length < 12 || !passesLuhn(cardNumber)) {
+      return {
+        status: 'failed',
+        reference,
+        amount: request.amount,
+        failureCode: 'invalid_card',
+        failureMessage: 'The card number is invalid',
+      };
+    }
+
+    const cardDetails = {
+      cardBrand: detectCardBrand(cardNumber),
+      cardLast4: cardNumber.slice(-4),
+    };
+
+    const decline = DECLINED_CARDS[cardNumber];
+    if (decline) {
+      return {
+        status: 'failed',
+        reference,
+        amount: request.amount,
+        ...cardDetails,
+        failureCode: decline.code,
+        failureMessage: decline.message,
+      };
+    }
+
+    return { status: 'authorized', reference, amount: request.amount, ...cardDetails };
+  }
+
+  async capture(reference: string, amount: number): Promise<PaymentProviderResult> {
+    return { status: 'captured', reference, amount };
+  }
+
+  async void(reference: string): Promise<PaymentProviderResult> {
+    return { status: 'voided', reference, amount: 0 };
+  }
+
+  async refund(reference: string, amount: number): Promise<PaymentProviderResult> {
+    return {
+      status: 'refunded',
+      reference: `${reference.replace('fake_pi_', 'fake_re_')}_${uuidv4()}`,
+      amount,
+    };
+  }
+
+  // Card payments are settled at authorization, so only non-card payments are
+  // ever looked up; the sandbox customer has always paid them by then
+  async retrieve(reference: string): Promise<PaymentProviderResult> {
+    return { status: 'authorized', reference, amount: 0 };
+  }
+}
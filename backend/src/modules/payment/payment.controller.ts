@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import { PaymentDAO } from './payment.dao';
+import { paymentService, toOrderPaymentStatus } from './payment.service';
+import { publishOrderStatusChanged, settlePayment } from '../order/order.lifecycle';
+import { logger } from '../../lib/logger';
+
+const paymentDAO = new PaymentDAO();
+
+export class PaymentController {
+  // POST /payments/webhook
+  // The provider's notification only names the payment; its status is looked
+  // up with the provider, so a forged call cannot mark an order paid
+  async webhook(req: Request, res: Response): Promise<void> {
+    const reference = typeof req.body?.reference === 'string' ? req.body.reference : null;
+    if (!reference) {
+      res.status(400).json({ error: 'Payment reference is required' });
+      return;
+    }
+
+    try {
+      const intent = await paymentDAO.findByReference(paymentService.providerName, reference);
+      if (!intent) {
+        res.status(404).json({ error: 'Payment not found' });
+        return;
+      }
+
+      const order = await settlePayment(intent.order_id, { reason: 'Payment provider notification' });
+      if (order.payment_status !== toOrderPaymentStatus(intent.status, intent.refunded_amount)) {
+        await publishOrderStatusChanged(order);
+      }
+
+      res.status(200).json({ received: true });
+    } catch (error) {
+      logger.error({ error, reference }, 'Failed to process payment notification');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import oracledb from 'oracledb';
+import { databaseService } from '@/lib/database';
+import { logger } from '@/lib/logger';
+
+export type PaymentIntentStatus = 'pending' | 'authorized' | 'captured' | 'voided' | 'refunded' | 'failed';
+
+// One row per payment attempt with the provider. Only the card brand and last
+// four digits are kept; the card number and CVV never reach the database.
+export interface PaymentIntent {
+  id: string;
+  order_id: string;
+  provider: string;
+  provider_reference: string;
+  method: string;
+  status: PaymentIntentStatus;
+  amount: number;
+  captured_amount: number;
+  refunded_amount: number;
+  card_brand?: string | null;
+  card_last4?: string | null;
+  failure_code?: string | null;
+  failure_message?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Refund {
+  id: string;
+  order_id: string;
+  payment_intent_id: string;
+  provider_reference: string;
+  amount: number;
+  reason: string;
+  restocked: number;
+  actor_id?: string | null;
+  created_at: string;
+}
+
+export interface RefundItem {
+  id: string;
+  refund_id: string;
+  order_item_id: string;
+  quantity: number;
+}
+
+export class PaymentDAO {
+  // Most recent intent for the order, locked for the rest of the transaction
+  async findLatestByOrderForUpdate(orderId: string, connection: oracledb.Connection): Promise<PaymentIntent | null> {
+    try {
+      const result = await databaseService.executeOn<PaymentIntent>(
+        connection,
+        `SELECT * FROM payment_intents
+         WHERE order_id = :orderId
+         ORDER BY created_at DESC
+         FETCH FIRST 1 ROWS ONLY
+         FOR UPDATE`,
+        { orderId }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to lock payment intent by order');
+      throw error;
+    }
+  }
+
+  async findByReference(provider: string, reference: string): Promise<PaymentIntent | null> {
+    try {
+      const result = await databaseService.executeQuery<PaymentIntent>(
+        'SELECT * FROM payment_intents WHERE provider = :provider AND provider_reference = :reference',
+        { provider, reference }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, provider, reference }, 'Failed to find payment intent by reference');
+      throw error;
+    }
+  }
+
+  async findByOrders(orderIds: string[]): Promise<PaymentIntent[]> {
+    if (orderIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<PaymentIntent>(
+        'SELECT * FROM payment_intents WHERE order_id IN (:orderIds) ORDER BY created_at ASC',
+        { orderIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, orderIds }, 'Failed to find payment intents by orders');
+      throw error;
+    }
+  }
+
+  async create(
+    intentData: Omit<PaymentIntent, 'id' | 'captured_amount' | 'refunded_amount' | 'created_at' | 'updated_at'>,
+    connection?: oracledb.Connection
+  ): Promise<PaymentIntent> {
+    try {
+      const result = await databaseService.executeOn<PaymentIntent>(
+        connection,
+        `INSERT INTO payment_intents (
+          id, order_id, provider, provider_reference, method, status, amount,
+          card_brand, card_last4, failure_code, failure_message
+        ) VALUES (
+          SYS_GUID(), :order_id, :provider, :provider_reference, :method, :status, :amount,
+          :card_brand, :card_last4, :failure_code, :failure_message
+        ) RETURNING *`,
+        {
+          card_brand: null,
+          card_last4: null,
+          failure_code: null,
+          failure_message: null,
+          ...intentData,
+        }
+      );
+
+      return result.rows?.[0]!;
+    } catch (error) {
+      logger.error({ error, orderId: intentData.order_id }, 'Failed to create payment intent');
+      throw error;
+    }
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<PaymentIntent, 'status' | 'captured_amount' | 'refunded_amount' | 'failure_code' | 'failure_message'>>,
+    connection?: oracledb.Connection
+  ): Promise<PaymentIntent | null> {
+    try {
+      const setClause = Object.keys(updates)
+        .map(key => `${key} = :${key}`)
+        .join(', ');
+
+      const result = await databaseService.executeOn<PaymentIntent>(
+        connection,
+        `UPDATE payment_intents SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = :id RETURNING *`,
+        { ...updates, id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id, updates }, 'Failed to update payment intent');
+      throw error;
+    }
+  }
+
+  // Refunds
+  async createRefund(
+    refundData: Omit<Refund, 'id' | 'created_at'>,
+    items: Omit<RefundItem, 'id' | 'refund_id'>[],
+    connection?: oracledb.Connection
+  ): Promise<Refund & { items: RefundItem[] }> {
+    try {
+      const result = await databaseService.executeOn<Refund>(
+        connection,
+        `INSERT INTO refunds (
+          id, order_id, payment_intent_id, provider_reference, amount, reason, restocked, actor_id
+        ) VALUES (
+          SYS_GUID(), :order_id, :payment_intent_id, :provider_reference, :amount, :reason, :restocked, :actor_id
+        ) RETURNING *`,
+        { actor_id: null, ...refundData }
+      );
+
+      const refund = result.rows?.[0]!;
+
+      const createdItems: RefundItem[] = [];
+      for (const item of items) {
+        const itemResult = await databaseService.executeOn<RefundItem>(
+          connection,
+          `INSERT INTO refund_items (id, refund_id, order_item_id, quantity)
+           VALUES (SYS_GUID(), :refund_id, :order_item_id, :quantity) RETURNING *`,
+          { ...item, refund_id: refund.id }
+        );
+        createdItems.push(itemResult.rows?.[0]!);
+      }
+
+      return { ...refund, items: createdItems };
+    } catch (error) {
+      logger.error({ error, orderId: refundData.order_id }, 'Failed to create refund');
+      throw error;
+    }
+  }
+
+  // Quantity already refunded per order item, optionally only what went back
+  // into stock
+  async findRefundedQuantities(
+    orderId: string,
+    connection?: oracledb.Connection,
+    restockedOnly = false
+  ): Promise<Map<string, number>> {
+    try {
+      const result = await databaseService.executeOn<{ order_item_id: string; quantity: number }>(
+        connection,
+        `SELECT ri.order_item_id, SUM(ri.quantity) AS quantity
+         FROM refund_items ri
+         JOIN refunds r ON r.id = ri.refund_id
+         WHERE r.order_id = :orderId${restockedOnly ? ' AND r.restocked = 1' : ''}
+         GROUP BY ri.order_item_id`,
+        { orderId }
+      );
+
+      return new Map((result.rows || []).map(row => [row.order_item_id, Number(row.quantity)]));
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to find refunded quantities');
+      throw error;
+    }
+  }
+
+  async findRefundsByOrders(orderIds: string[]): Promise<(Refund & { items: RefundItem[] })[]> {
+    if (orderIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<Refund>(
+        'SELECT * FROM refunds WHERE order_id IN (:orderIds) ORDER BY created_at ASC',
+        { orderIds }
+      );
+
+      const refunds = result.rows || [];
+      if (refunds.length === 0) return [];
+
+      const itemsResult = await databaseService.executeQuery<RefundItem>(
+        'SELECT * FROM refund_items WHERE refund_id IN (:refundIds)',
+        { refundIds: refunds.map(refund => refund.id) }
+      );
+
+      const items = itemsResult.rows || [];
+      return refunds.map(refund => ({
+        ...refund,
+        items: items.filter(item => item.refund_id === refund.id),
+      }));
+    } catch (error) {
+      logger.error({ error, orderIds }, 'Failed to find refunds by orders');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// Status reported by a provider for a payment or refund
+export type PaymentProviderStatus =
+  | 'pending'
+  | 'authorized'
+  | 'captured'
+  | 'voided'
+  | 'refunded'
+  | 'failed';
+
+// Raw card data. Handed to the provider and never stored or logged.
+export interface PaymentCard {
+  number: string;
+  expiryDate: string;
+  cvv: string;
+}
+
+export interface AuthorizeRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  method: string;
+  card?: PaymentCard;
+}
+
+export interface PaymentProviderResult {
+  status: PaymentProviderStatus;
+  // Provider's ID for the payment (or for the refund, on refund calls)
+  reference: string;
+  amount: number;
+  cardBrand?: string;
+  cardLast4?: string;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<PaymentProviderResult>;
+  capture(reference: string, amount: number): Promise<PaymentProviderResult>;
+  void(reference: string): Promise<PaymentProviderResult>;
+  refund(reference: string, amount: number): Promise<PaymentProviderResult>;
+  // Where the payment stands now, e.g. once a pix or boleto has been paid
+  retrieve(reference: string): Promise<PaymentProviderResult>;
+}
+
+export const CARD_PAYMENT_METHODS = ['credit_card', 'debit_card'];
+
+export function isCardPaymentMethod(method: string): boolean {
+  return CARD_PAYMENT_METHODS.includes(method.toLowerCase());
+}
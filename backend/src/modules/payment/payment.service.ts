@@ -0,0 +1,270 @@
+import oracledb from 'oracledb';
+import { PaymentDAO, PaymentIntent, PaymentIntentStatus, Refund, RefundItem } from './payment.dao';
+import { AuthorizeRequest, PaymentProvider, PaymentProviderResult } from './payment.provider';
+import { FakePaymentGateway } from './fake.gateway';
+import { InvalidRefundError, PaymentNotCompletedError } from '../../lib/errors';
+import { logger } from '../../lib/logger';
+
+const paymentDAO = new PaymentDAO();
+
+// Order payment_status for each intent status
+const ORDER_PAYMENT_STATUS: Record<PaymentIntentStatus, string> = {
+  pending: 'pending',
+  authorized: 'authorized',
+  captured: 'paid',
+  voided: 'voided',
+  refunded: 'refunded',
+  failed: 'failed',
+};
+
+// A captured payment with some money given back is partially refunded
+export function toOrderPaymentStatus(status: PaymentIntentStatus, refundedAmount = 0): string {
+  if (status === 'captured' && refundedAmount > 0) {
+    return 'partially_refunded';
+  }
+  return ORDER_PAYMENT_STATUS[status];
+}
+
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export interface RefundDetails {
+  reason: string;
+  items?: Omit<RefundItem, 'id' | 'refund_id'>[];
+  restocked?: boolean;
+  actorId?: string;
+}
+
+// Picks the provider from PAYMENT_PROVIDER. Only the in-process fake gateway
+// ships with the API; real gateways plug in here.
+export function createPaymentProvider(name = process.env.PAYMENT_PROVIDER || 'fake'): PaymentProvider {
+  switch (name) {
+    case 'fake':
+      return new FakePaymentGateway();
+    default:
+      logger.warn({ provider: name }, 'Unknown payment provider, using fake gateway');
+      return new FakePaymentGateway();
+  }
+}
+
+// Talks to the payment provider and keeps payment_intents in step with it.
+// Callers own the transaction and apply the returned intent status to the
+// order, so the order history records every change.
+export class PaymentService {
+  constructor(private provider: PaymentProvider = createPaymentProvider()) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<PaymentProviderResult> {
+    const result = await this.provider.authorize(request);
+
+    logger.info(
+      { orderId: request.orderId, provider: this.provider.name, status: result.status, failureCode: result.failureCode },
+      'Payment authorization processed'
+    );
+
+    return result;
+  }
+
+  async recordIntent(
+    orderId: string,
+    method: string,
+    result: PaymentProviderResult,
+    connection?: oracledb.Connection
+  ): Promise<PaymentIntent> {
+    return paymentDAO.create(
+      {
+        order_id: orderId,
+        provider: this.provider.name,
+        provider_reference: result.reference,
+        method,
+        status: result.status,
+        amount: result.amount,
+        card_brand: result.cardBrand ?? null,
+        card_last4: result.cardLast4 ?? null,
+        failure_code: result.failureCode ?? null,
+        failure_message: result.failureMessage ?? null,
+      },
+      connection
+    );
+  }
+
+  // Asks the provider about a payment still pending, for when its
+  // notification is late or lost. Returns the intent as it now stands, or null
+  // when the order has none.
+  async refresh(orderId: string, connection: oracledb.Connection): Promise<PaymentIntent | null> {
+    const intent = await paymentDAO.findLatestByOrderForUpdate(orderId, connection);
+    if (!intent || intent.status !== 'pending') {
+      return intent;
+    }
+
+    return this.refreshIntent(intent, connection);
+  }
+
+  // Captures the authorized amount, or less of it when part of the order was
+  // cancelled first. A pending payment is looked up first in case it has been
+  // paid since. Returns null when the order has nothing to capture (no intent,
+  // or already captured).
+  async capture(orderId: string, connection: oracledb.Connection, amount?: number): Promise<PaymentIntent | null> {
+    let intent = await paymentDAO.findLatestByOrderForUpdate(orderId, connection);
+    if (!intent || intent.status === 'captured') {
+      return null;
+    }
+
+    if (intent.status === 'pending') {
+      intent = await this.refreshIntent(intent, connection);
+      // Some methods are captured as soon as they are paid
+      if (intent.status === 'captured') {
+        return intent;
+      }
+    }
+
+    if (intent.status !== 'authorized') {
+      throw new PaymentNotCompletedError(orderId, intent.status);
+    }
+
+    const captureAmount = roundAmount(Math.min(amount ?? intent.amount, intent.amount));
+    const result = await this.provider.capture(intent.provider_reference, captureAmount);
+    return this.applyResult(intent, result, connection, { captured_amount: result.amount });
+  }
+
+  // Refunds part of the captured amount and records the refund. Fails when
+  // the amount exceeds what is left after earlier refunds.
+  async refund(
+    orderId: string,
+    amount: number,
+    details: RefundDetails,
+    connection: oracledb.Connection
+  ): Promise<{ intent: PaymentIntent; refund: Refund & { items: RefundItem[] } }> {
+    const intent = await paymentDAO.findLatestByOrderForUpdate(orderId, connection);
+    if (!intent || intent.status !== 'captured') {
+      throw new InvalidRefundError('Order has no captured payment to refund');
+    }
+
+    const refundable = roundAmount(intent.captured_amount - intent.refunded_amount);
+    const refundAmount = roundAmount(amount);
+    if (refundAmount <= 0) {
+      throw new InvalidRefundError('Refund amount must be positive');
+    }
+    if (refundAmount > refundable) {
+      throw new InvalidRefundError(`Refund amount exceeds the refundable balance of ${refundable.toFixed(2)}`);
+    }
+
+    const result = await this.provider.refund(intent.provider_reference, refundAmount);
+    const refundedAmount = roundAmount(intent.refunded_amount + refundAmount);
+    const updated = await this.applyResult(intent, result, connection, {
+      refunded_amount: refundedAmount,
+      // The intent stays captured until nothing is left to give back
+      status: refundedAmount >= intent.captured_amount ? 'refunded' : 'captured',
+    });
+
+    const refund = await paymentDAO.createRefund(
+      {
+        order_id: orderId,
+        payment_intent_id: intent.id,
+        provider_reference: result.reference,
+        amount: refundAmount,
+        reason: details.reason,
+        restocked: details.restocked ? 1 : 0,
+        actor_id: details.actorId ?? null,
+      },
+      details.items ?? [],
+      connection
+    );
+
+    return { intent: updated, refund };
+  }
+
+  // Gives the money back when an order is cancelled: an uncaptured payment is
+  // voided, a captured one is refunded for whatever is left. Returns null when
+  // there is nothing to release.
+  async release(orderId: string, connection: oracledb.Connection, reason = 'Order cancelled'): Promise<PaymentIntent | null> {
+    const intent = await paymentDAO.findLatestByOrderForUpdate(orderId, connection);
+    if (!intent) {
+      return null;
+    }
+
+    if (intent.status === 'pending' || intent.status === 'authorized') {
+      const result = await this.provider.void(intent.provider_reference);
+      return this.applyResult(intent, result, connection);
+    }
+
+    if (intent.status === 'captured') {
+      const remaining = roundAmount(intent.captured_amount - intent.refunded_amount);
+      const { intent: refunded } = await this.refund(orderId, remaining, { reason }, connection);
+      return refunded;
+    }
+
+    return null;
+  }
+
+  // Best-effort void for an authorization whose order was never written
+  async voidAuthorization(result: PaymentProviderResult): Promise<void> {
+    if (result.status !== 'authorized' && result.status !== 'pending') {
+      return;
+    }
+
+    try {
+      await this.provider.void(result.reference);
+    } catch (error) {
+      logger.error({ error, reference: result.reference }, 'Failed to void payment authorization');
+    }
+  }
+
+  private async refreshIntent(intent: PaymentIntent, connection: oracledb.Connection): Promise<PaymentIntent> {
+    const result = await this.provider.retrieve(intent.provider_reference);
+    if (result.status === intent.status) {
+      return intent;
+    }
+
+    // A payment that never went through (an expired boleto, say) is recorded
+    // as failed rather than rolled back like a failed call
+    if (result.status === 'failed') {
+      const failed = await paymentDAO.update(
+        intent.id,
+        { status: 'failed', failure_code: result.failureCode ?? null, failure_message: result.failureMessage ?? null },
+        connection
+      );
+      if (!failed) {
+        throw new Error('Failed to update payment intent');
+      }
+      return failed;
+    }
+
+    return this.applyResult(
+      intent,
+      result,
+      connection,
+      result.status === 'captured' ? { captured_amount: intent.amount } : {}
+    );
+  }
+
+  private async applyResult(
+    intent: PaymentIntent,
+    result: PaymentProviderResult,
+    connection: oracledb.Connection,
+    overrides: Partial<Pick<PaymentIntent, 'status' | 'captured_amount' | 'refunded_amount'>> = {}
+  ): Promise<PaymentIntent> {
+    // The surrounding transaction rolls back, so the intent keeps its status
+    if (result.status === 'failed') {
+      throw new Error(`Payment provider error: ${result.failureMessage || result.failureCode || 'unknown error'}`);
+    }
+
+    const updated = await paymentDAO.update(intent.id, { status: result.status, ...overrides }, connection);
+    if (!updated) {
+      throw new Error('Failed to update payment intent');
+    }
+
+    logger.info(
+      { orderId: intent.order_id, provider: intent.provider, from: intent.status, to: updated.status },
+      'Payment intent updated'
+    );
+
+    return updated;
+  }
+}
+
+export const paymentService = new PaymentService();
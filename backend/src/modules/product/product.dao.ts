@@ -1,5 +1,17 @@
+import oracledb from 'oracledb';
 import { databaseService, escapeString, buildWhereClause } from '@/lib/database';
 import { logger } from '@/lib/logger';
+import {
+  KeysetColumn,
+  KeysetPage,
+  KeysetResult,
+  SortDirection,
+  buildKeysetQuery,
+  finishPage,
+  numberColumn,
+  textColumn,
+  timestampColumn,
+} from '@/lib/pagination';
 
 export interface Product {
   id: string;
@@ -10,6 +22,8 @@ export interface Product {
   brand?: string;
   sku?: string;
   stock_quantity: number;
+  // Shipping weight of one unit
+  weight_kg?: number | null;
   is_active: number;
   seller_id: string;
   created_at: string;
@@ -46,6 +60,162 @@ export interface Review {
   updated_at: string;
 }
 
+export type ProductSortField = 'name' | 'price' | 'createdAt' | 'averageRating' | 'popularity';
+
+export interface ProductSort {
+  field: ProductSortField;
+  direction: SortDirection;
+}
+
+// A product with its position in the sort it was listed by
+export type PagedProduct = Product & { cursor_key: string };
+
+export const DEFAULT_PRODUCT_SORT: ProductSort = { field: 'createdAt', direction: 'DESC' };
+
+// Average rating and units sold are joined in only when sorting by them
+const PRODUCT_SORT_JOINS: Partial<Record<ProductSortField, string>> = {
+  averageRating: `LEFT JOIN (SELECT product_id, AVG(rating) as average_rating
+                             FROM reviews GROUP BY product_id) r ON r.product_id = p.id`,
+  popularity: `LEFT JOIN (SELECT oi.product_id, SUM(oi.quantity) as units_sold
+                          FROM order_items oi JOIN orders o ON o.id = oi.order_id
+                          WHERE o.status <> 'cancelled'
+                          GROUP BY oi.product_id) s ON s.product_id = p.id`,
+};
+
+// Unrated products sort below 1 star going down and above 5 going up, so they
+// come last either way
+const PRODUCT_SORT_COLUMNS: Record<ProductSortField, (direction: SortDirection) => KeysetColumn> = {
+  name: () => textColumn('LOWER(p.name)'),
+  price: () => numberColumn('p.price'),
+  createdAt: () => timestampColumn('p.created_at'),
+  averageRating: direction => numberColumn(`COALESCE(r.average_rating, ${direction === 'ASC' ? 6 : 0})`),
+  popularity: () => numberColumn('COALESCE(s.units_sold, 0)'),
+};
+
+// Names the sort in cursors, which only work for the sort they came from
+export function productSortKey(sort: { field: string; direction: SortDirection }): string {
+  return `${sort.field}:${sort.direction}`;
+}
+
+// Ties are broken by id in the same direction, so every row has one place in
+// the order and pages neither repeat nor skip products
+export function productSortColumn(sort: ProductSort): { join: string; column: KeysetColumn } {
+  return {
+    join: PRODUCT_SORT_JOINS[sort.field] || '',
+    column: PRODUCT_SORT_COLUMNS[sort.field](sort.direction),
+  };
+}
+
+export interface ProductFilters {
+  category?: string;
+  brand?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Average review rating, 1 to 5
+  minRating?: number;
+  inStock?: boolean;
+  isActive?: boolean;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface PriceRangeCount {
+  min: number;
+  // Exclusive; null for the top range
+  max: number | null;
+  count: number;
+}
+
+export interface RatingCount {
+  // Products rated this or higher on average
+  minRating: number;
+  count: number;
+}
+
+export interface ProductFacets {
+  categories: FacetCount[];
+  brands: FacetCount[];
+  priceRanges: PriceRangeCount[];
+  ratings: RatingCount[];
+  inStock: number;
+}
+
+// Upper bounds of the price ranges; the last range has none
+export const PRICE_RANGE_BOUNDS = [50, 100, 250, 500, 1000];
+
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+const AVERAGE_RATINGS = `SELECT product_id, AVG(rating) as average_rating FROM reviews GROUP BY product_id`;
+
+// Products a search term matched, by id; null when there is no search term
+export type SearchMatches = string[] | null;
+
+// WHERE conditions for search matches and filters, on products aliased as p
+export function buildProductConditions(
+  matches: SearchMatches,
+  filters: ProductFilters
+): { conditions: string[]; binds: Record<string, any> } {
+  const conditions: string[] = [];
+  const binds: Record<string, any> = {};
+
+  // Search matches
+  if (matches && matches.length > 0) {
+    conditions.push('p.id IN (:searchIds)');
+    binds.searchIds = matches;
+  } else if (matches) {
+    conditions.push('1 = 0');
+  }
+
+  // Filters
+  if (filters.category) {
+    conditions.push('p.category = :category');
+    binds.category = escapeString(filters.category);
+  }
+
+  if (filters.brand) {
+    conditions.push('p.brand = :brand');
+    binds.brand = escapeString(filters.brand);
+  }
+
+  if (filters.minPrice !== undefined) {
+    conditions.push('p.price >= :minPrice');
+    binds.minPrice = filters.minPrice;
+  }
+
+  if (filters.maxPrice !== undefined) {
+    conditions.push('p.price <= :maxPrice');
+    binds.maxPrice = filters.maxPrice;
+  }
+
+  if (filters.minRating !== undefined) {
+    conditions.push(`p.id IN (SELECT product_id FROM reviews GROUP BY product_id HAVING AVG(rating) >= :minRating)`);
+    binds.minRating = filters.minRating;
+  }
+
+  if (filters.inStock) {
+    conditions.push('p.stock_quantity > 0');
+  }
+
+  if (filters.isActive !== undefined) {
+    conditions.push('p.is_active = :isActive');
+    binds.isActive = filters.isActive ? 1 : 0;
+  }
+
+  return { conditions, binds };
+}
+
+// Makes %, _ and \ in user text match literally in a LIKE ... ESCAPE pattern
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+function whereClauseOf(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
 export class ProductDAO {
   async findById(id: string): Promise<Product | null> {
     try {
@@ -77,109 +247,267 @@ export class ProductDAO {
     }
   }
 
-  async findBySellers(sellerIds: string[]): Promise<Product[]> {
-    if (sellerIds.length === 0) return [];
+  // Locks the rows for the rest of the caller's transaction. IDs are sorted so
+  // concurrent checkouts always acquire locks in the same order.
+  async findByIdsForUpdate(ids: string[], connection: oracledb.Connection): Promise<Product[]> {
+    if (ids.length === 0) return [];
 
     try {
-      const result = await databaseService.executeQuery<Product>(
-        'SELECT * FROM products WHERE seller_id IN (:sellerIds) AND is_active = 1 ORDER BY created_at DESC',
-        { sellerIds }
+      const result = await databaseService.executeOn<Product>(
+        connection,
+        'SELECT * FROM products WHERE id IN (:ids) ORDER BY id FOR UPDATE',
+        { ids: [...ids].sort() }
       );
 
       return result.rows || [];
     } catch (error) {
-      logger.error({ error, sellerIds }, 'Failed to find products by sellers');
+      logger.error({ error, ids }, 'Failed to lock products by IDs');
       throw error;
     }
   }
 
-  async searchProducts(
-    searchTerm: string,
-    filters: {
-      category?: string;
-      brand?: string;
-      minPrice?: number;
-      maxPrice?: number;
-      inStock?: boolean;
-      isActive?: boolean;
-    } = {},
-    pagination: {
-      limit: number;
-      offset: number;
+  async decrementStock(id: string, quantity: number, connection?: oracledb.Connection): Promise<boolean> {
+    try {
+      const result = await databaseService.executeOn(
+        connection,
+        `UPDATE products SET stock_quantity = stock_quantity - :quantity, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id AND stock_quantity >= :quantity`,
+        { id, quantity }
+      );
+
+      return (result.rowsAffected || 0) > 0;
+    } catch (error) {
+      logger.error({ error, id, quantity }, 'Failed to decrement product stock');
+      throw error;
     }
-  ): Promise<{ products: Product[]; totalCount: number }> {
+  }
+
+  async incrementStock(id: string, quantity: number, connection?: oracledb.Connection): Promise<boolean> {
     try {
-      let whereConditions: string[] = [];
-      const binds: any = {};
-
-      // Search term
-      if (searchTerm) {
-        whereConditions.push(`(LOWER(name) LIKE LOWER(:searchTerm) 
-                              OR LOWER(description) LIKE LOWER(:searchTerm)
-                              OR LOWER(brand) LIKE LOWER(:searchTerm))`);
-        binds.searchTerm = `%${escapeString(searchTerm)}%`;
-      }
+      const result = await databaseService.executeOn(
+        connection,
+        `UPDATE products SET stock_quantity = stock_quantity + :quantity, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id`,
+        { id, quantity }
+      );
 
-      // Filters
-      if (filters.category) {
-        whereConditions.push('category = :category');
-        binds.category = escapeString(filters.category);
-      }
+      return (result.rowsAffected || 0) > 0;
+    } catch (error) {
+      logger.error({ error, id, quantity }, 'Failed to increment product stock');
+      throw error;
+    }
+  }
 
-      if (filters.brand) {
-        whereConditions.push('brand = :brand');
-        binds.brand = escapeString(filters.brand);
-      }
+  // Whether the user has listed any product, active or not
+  async isSeller(userId: string): Promise<boolean> {
+    try {
+      const result = await databaseService.executeQuery<{ found: number }>(
+        'SELECT 1 AS found FROM products WHERE seller_id = :userId FETCH FIRST 1 ROWS ONLY',
+        { userId }
+      );
 
-      if (filters.minPrice !== undefined) {
-        whereConditions.push('price >= :minPrice');
-        binds.minPrice = filters.minPrice;
-      }
+      return (result.rows || []).length > 0;
+    } catch (error) {
+      logger.error({ error, userId }, 'Failed to check whether user is a seller');
+      throw error;
+    }
+  }
 
-      if (filters.maxPrice !== undefined) {
-        whereConditions.push('price <= :maxPrice');
-        binds.maxPrice = filters.maxPrice;
-      }
+  async findBySellers(sellerIds: string[]): Promise<Product[]> {
+    if (sellerIds.length === 0) return [];
 
-      if (filters.inStock) {
-        whereConditions.push('stock_quantity > 0');
-      }
+    try {
+      const result = await databaseService.executeQuery<Product>(
+        'SELECT * FROM products WHERE seller_id IN (:sellerIds) AND is_active = 1 ORDER BY created_at DESC',
+        { sellerIds }
+      );
 
-      if (filters.isActive !== undefined) {
-        whereConditions.push('is_active = :isActive');
-        binds.isActive = filters.isActive ? 1 : 0;
-      }
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, sellerIds }, 'Failed to find products by sellers');
+      throw error;
+    }
+  }
 
+  // Products of the search matches, or of the whole catalog without them,
+  // that pass the filters, in the requested sort
+  async searchProducts(
+    matches: SearchMatches,
+    filters: ProductFilters = {},
+    page: KeysetPage,
+    sort: ProductSort = DEFAULT_PRODUCT_SORT
+  ): Promise<KeysetResult<PagedProduct> & { totalCount: number }> {
+    try {
+      const { conditions: whereConditions, binds } = buildProductConditions(matches, filters);
       const whereClause = whereConditions.length > 0 
         ? `WHERE ${whereConditions.join(' AND ')}`
         : '';
 
       // Get total count
       const countResult = await databaseService.executeQuery<{ count: number }>(
-        `SELECT COUNT(*) as count FROM products ${whereClause}`,
+        `SELECT COUNT(*) as count FROM products p ${whereClause}`,
         binds
       );
 
       const totalCount = countResult.rows?.[0]?.count || 0;
 
-      // Get products with pagination
-      const productsResult = await databaseService.executeQuery<Product>(
-        `SELECT * FROM products ${whereClause} 
-         ORDER BY created_at DESC
-         OFFSET :offset ROWS FETCH NEXT :limit ROWS ONLY`,
-        {
-          ...binds,
-          offset: pagination.offset,
-          limit: pagination.limit,
-        }
+      // Get the page of products past the cursor
+      const { join, column } = productSortColumn(sort);
+      const keyset = buildKeysetQuery(column, 'p.id', sort.direction, page);
+      const pageConditions = keyset.condition ? [...whereConditions, keyset.condition] : whereConditions;
+      const productsResult = await databaseService.executeQuery<PagedProduct>(
+        `SELECT p.*, ${keyset.select} FROM products p ${join}
+         ${pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+         ${keyset.orderBy}
+         FETCH FIRST :limit ROWS ONLY`,
+        { ...binds, ...keyset.binds }
       );
 
       return {
-        products: productsResult.rows || [],
+        ...finishPage(productsResult.rows || [], page),
         totalCount,
       };
     } catch (error) {
-      logger.error({ error, searchTerm, filters, pagination }, 'Failed to search products');
+      logger.error({ error, matches: matches?.length, filters, page, sort }, 'Failed to search products');
+      throw error;
+    }
+  }
+
+  // The search matches that pass the filters, in no particular order
+  async filterMatches(matches: string[], filters: ProductFilters = {}): Promise<string[]> {
+    if (matches.length === 0) return [];
+
+    try {
+      const { conditions, binds } = buildProductConditions(matches, filters);
+      const result = await databaseService.executeQuery<{ id: string }>(
+        `SELECT p.id FROM products p ${whereClauseOf(conditions)}`,
+        binds
+      );
+
+      return (result.rows || []).map(row => row.id);
+    } catch (error) {
+      logger.error({ error, matches: matches.length, filters }, 'Failed to filter search matches');
+      throw error;
+    }
+  }
+
+  // Categories or brands of active products where the value, or one of its
+  // words, starts with the prefix; the most common first
+  async findValuesByPrefix(column: 'category' | 'brand', prefix: string, limit: number): Promise<FacetCount[]> {
+    try {
+      const pattern = escapeLike(prefix.toLowerCase());
+      const result = await databaseService.executeQuery<FacetCount>(
+        `SELECT p.${column} as value, COUNT(*) as count FROM products p
+         WHERE p.is_active = 1
+         AND (LOWER(p.${column}) LIKE :prefix ESCAPE '\\' OR LOWER(p.${column}) LIKE :wordPrefix ESCAPE '\\')
+         GROUP BY p.${column}
+         ORDER BY COUNT(*) DESC, p.${column}
+         FETCH FIRST :limit ROWS ONLY`,
+        { prefix: `${pattern}%`, wordPrefix: `% ${pattern}%`, limit }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, column, prefix }, 'Failed to find values by prefix');
+      throw error;
+    }
+  }
+
+  // Products in id order, a batch at a time, for loading the search index
+  async findBatchAfter(afterId: string | null, limit: number): Promise<Product[]> {
+    try {
+      const result = await databaseService.executeQuery<Product>(
+        `SELECT * FROM products
+         ${afterId ? 'WHERE id > :afterId' : ''}
+         ORDER BY id
+         FETCH FIRST :limit ROWS ONLY`,
+        { ...(afterId && { afterId }), limit }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, afterId, limit }, 'Failed to find product batch');
+      throw error;
+    }
+  }
+
+  // Counts for each filter value among the products the search matches. Each
+  // facet ignores its own filter, so picking a category still shows how many
+  // products the other categories have.
+  async getProductFacets(matches: SearchMatches, filters: ProductFilters = {}): Promise<ProductFacets> {
+    const without = (...keys: (keyof ProductFilters)[]) => {
+      const rest = { ...filters };
+      keys.forEach(key => delete rest[key]);
+      return buildProductConditions(matches, rest);
+    };
+
+    try {
+      const byCategory = without('category');
+      const byBrand = without('brand');
+      const byPrice = without('minPrice', 'maxPrice');
+      const byRating = without('minRating');
+      const byStock = without('inStock');
+
+      const priceRangeCases = PRICE_RANGE_BOUNDS
+        .map((bound, index) => `WHEN p.price < ${bound} THEN ${index}`)
+        .join(' ');
+      const ratingSums = RATING_THRESHOLDS
+        .map(threshold => `SUM(CASE WHEN r.average_rating >= ${threshold} THEN 1 ELSE 0 END) as rating_${threshold}`)
+        .join(', ');
+
+      const [categories, brands, priceRanges, ratings, inStock] = await Promise.all([
+        databaseService.executeQuery<FacetCount>(
+          `SELECT p.category as value, COUNT(*) as count FROM products p
+           ${whereClauseOf(byCategory.conditions)}
+           GROUP BY p.category
+           ORDER BY COUNT(*) DESC, p.category`,
+          byCategory.binds
+        ),
+        databaseService.executeQuery<FacetCount>(
+          `SELECT p.brand as value, COUNT(*) as count FROM products p
+           ${whereClauseOf([...byBrand.conditions, 'p.brand IS NOT NULL'])}
+           GROUP BY p.brand
+           ORDER BY COUNT(*) DESC, p.brand`,
+          byBrand.binds
+        ),
+        databaseService.executeQuery<{ bucket: number; count: number }>(
+          `SELECT bucket, COUNT(*) as count FROM (
+             SELECT CASE ${priceRangeCases} ELSE ${PRICE_RANGE_BOUNDS.length} END as bucket
+             FROM products p ${whereClauseOf(byPrice.conditions)}
+           ) GROUP BY bucket
+           ORDER BY bucket`,
+          byPrice.binds
+        ),
+        databaseService.executeQuery<Record<string, number | null>>(
+          `SELECT ${ratingSums} FROM products p
+           JOIN (${AVERAGE_RATINGS}) r ON r.product_id = p.id
+           ${whereClauseOf(byRating.conditions)}`,
+          byRating.binds
+        ),
+        databaseService.executeQuery<{ count: number }>(
+          `SELECT COUNT(*) as count FROM products p
+           ${whereClauseOf([...byStock.conditions, 'p.stock_quantity > 0'])}`,
+          byStock.binds
+        ),
+      ]);
+
+      const ratingRow = ratings.rows?.[0] || {};
+
+      return {
+        categories: categories.rows || [],
+        brands: brands.rows || [],
+        priceRanges: (priceRanges.rows || []).map(row => ({
+          min: row.bucket === 0 ? 0 : PRICE_RANGE_BOUNDS[row.bucket - 1]!,
+          max: PRICE_RANGE_BOUNDS[row.bucket] ?? null,
+          count: row.count,
+        })),
+        ratings: RATING_THRESHOLDS
+          .map(threshold => ({ minRating: threshold, count: ratingRow[`rating_${threshold}`] || 0 }))
+          .filter(rating => rating.count > 0),
+        inStock: inStock.rows?.[0]?.count || 0,
+      };
+    } catch (error) {
+      logger.error({ error, matches: matches?.length, filters }, 'Failed to get product facets');
       throw error;
     }
   }
@@ -189,12 +517,12 @@ export class ProductDAO {
       const result = await databaseService.executeQuery<Product>(
         `INSERT INTO products (
           id, name, description, price, category, brand, sku, 
-          stock_quantity, is_active, seller_id
+          stock_quantity, weight_kg, is_active, seller_id
         ) VALUES (
           :id, :name, :description, :price, :category, :brand, :sku,
-          :stock_quantity, :is_active, :seller_id
+          :stock_quantity, :weight_kg, :is_active, :seller_id
         ) RETURNING *`,
-        productData
+        { weight_kg: null, ...productData }
       );
 
       return result.rows?.[0]!;
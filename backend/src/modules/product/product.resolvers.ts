@@ -1,10 +1,28 @@
 import { GraphQLResolveInfo } from 'graphql';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
-import { ProductDAO, Product, ProductAttribute, ProductImage, Review } from './product.dao';
+import {
+  ProductDAO,
+  Product,
+  ProductAttribute,
+  ProductFilters,
+  ProductImage,
+  Review,
+  DEFAULT_PRODUCT_SORT,
+  productSortKey,
+} from './product.dao';
+import {
+  ProductSearchResult,
+  ProductSearchSort,
+  RELEVANCE_SORT,
+  findProducts,
+  getSearchSuggestions,
+} from './product.search';
 import { UserDAO } from '../user/user.dao';
+import { searchService } from '../search/search.service';
 import { GraphQLContext, requireAuth, requireOwnership } from '../../lib/context';
 import { logger } from '../../lib/logger';
+import { KeysetPage, toConnection, toKeysetPage } from '../../lib/pagination';
 
 const productDAO = new ProductDAO();
 const userDAO = new UserDAO();
@@ -15,10 +33,25 @@ const ProductFilterSchema = z.object({
   brand: z.string().optional(),
   minPrice: z.number().positive().optional(),
   maxPrice: z.number().positive().optional(),
+  minRating: z.number().int().min(1).max(5, 'Rating must be between 1 and 5').optional(),
   inStock: z.boolean().optional(),
   isActive: z.boolean().optional(),
 });
 
+const PRODUCT_SORT_FIELDS = {
+  NAME: 'name',
+  PRICE: 'price',
+  CREATED_AT: 'createdAt',
+  AVERAGE_RATING: 'averageRating',
+  POPULARITY: 'popularity',
+  RELEVANCE: 'relevance',
+} as const;
+
+const ProductSortSchema = z.object({
+  field: z.enum(['NAME', 'PRICE', 'CREATED_AT', 'AVERAGE_RATING', 'POPULARITY', 'RELEVANCE']),
+  direction: z.enum(['ASC', 'DESC']).default('ASC'),
+});
+
 const CursorInputSchema = z.object({
   first: z.number().positive().max(100).optional(),
   after: z.string().optional(),
@@ -26,6 +59,11 @@ const CursorInputSchema = z.object({
   before: z.string().optional(),
 });
 
+const SearchSuggestionsSchema = z.object({
+  prefix: z.string().max(100, 'Prefix must be at most 100 characters'),
+  limit: z.number().int().min(1).max(10, 'Limit must be between 1 and 10').default(5),
+});
+
 const CreateProductInputSchema = z.object({
   name: z.string().min(1, 'Product name is required'),
   description: z.string().optional(),
@@ -34,6 +72,7 @@ const CreateProductInputSchema = z.object({
   brand: z.string().optional(),
   sku: z.string().optional(),
   stockQuantity: z.number().int().min(0, 'Stock quantity must be non-negative'),
+  weightKg: z.number().positive('Weight must be positive').optional(),
   attributes: z.array(z.object({
     name: z.string().min(1),
     value: z.string().min(1),
@@ -68,6 +107,7 @@ function transformProduct(product: Product): any {
     brand: product.brand,
     sku: product.sku,
     stockQuantity: product.stock_quantity,
+    weightKg: product.weight_kg,
     isActive: Boolean(product.is_active),
     createdAt: product.created_at,
     updatedAt: product.updated_at,
@@ -106,13 +146,52 @@ function transformReview(review: Review): any {
   };
 }
 
-// Cursor-based pagination helpers
-function encodeCursor(id: string): string {
-  return Buffer.from(id).toString('base64');
+function toProductFilters(filter: unknown): ProductFilters {
+  const validatedFilter = ProductFilterSchema.parse(filter);
+
+  return {
+    ...(validatedFilter.category && { category: validatedFilter.category }),
+    ...(validatedFilter.brand && { brand: validatedFilter.brand }),
+    ...(validatedFilter.minPrice && { minPrice: validatedFilter.minPrice }),
+    ...(validatedFilter.maxPrice && { maxPrice: validatedFilter.maxPrice }),
+    ...(validatedFilter.minRating && { minRating: validatedFilter.minRating }),
+    ...(validatedFilter.inStock !== undefined && { inStock: validatedFilter.inStock }),
+    ...(validatedFilter.isActive !== undefined && { isActive: validatedFilter.isActive }),
+  };
 }
 
-function decodeCursor(cursor: string): string {
-  return Buffer.from(cursor, 'base64').toString('utf-8');
+// Searches default to the best matches first. Without a search term there is
+// nothing to rank by, so relevance falls back to the newest products.
+function toProductSort(sort: unknown, searchTerm: string): ProductSearchSort {
+  if (!sort) {
+    return searchTerm.trim() ? RELEVANCE_SORT : DEFAULT_PRODUCT_SORT;
+  }
+
+  const validatedSort = ProductSortSchema.parse(sort);
+  const field = PRODUCT_SORT_FIELDS[validatedSort.field];
+  if (field === 'relevance' && !searchTerm.trim()) {
+    return DEFAULT_PRODUCT_SORT;
+  }
+
+  return { field, direction: validatedSort.direction };
+}
+
+// Connection for a product listing. Edges carry the search score, and the
+// search is kept for the facets resolver.
+function toProductConnection(
+  sortKey: string,
+  page: KeysetPage,
+  { totalCount, matches, scores, ...result }: ProductSearchResult,
+  filters: ProductFilters
+) {
+  const connection = toConnection(sortKey, page, result, transformProduct);
+
+  return {
+    ...connection,
+    edges: connection.edges.map(edge => ({ ...edge, score: scores.get(edge.node.id) ?? null })),
+    totalCount,
+    search: { matches, filters },
+  };
 }
 
 export const productResolvers = {
@@ -129,58 +208,24 @@ export const productResolvers = {
 
     products: async (
       _: any,
-      { filter = {}, pagination = {} }: { filter?: any; pagination?: any },
+      { filter = {}, sort, pagination = {} }: { filter?: any; sort?: any; pagination?: any },
       context: GraphQLContext
     ) => {
       try {
         // Validate inputs
-        const validatedFilter = ProductFilterSchema.parse(filter);
+        const filters = toProductFilters(filter);
+        const productSort = toProductSort(sort, '');
         const validatedPagination = CursorInputSchema.parse(pagination);
 
-        // Determine pagination parameters
-        const limit = Math.min(validatedPagination.first || validatedPagination.last || 20, 100);
-        const offset = validatedPagination.after 
-          ? parseInt(decodeCursor(validatedPagination.after)) 
-          : 0;
+        const sortKey = productSortKey(productSort);
+        const page = toKeysetPage(sortKey, validatedPagination);
 
-        // Search products
-        const { products, totalCount } = await productDAO.searchProducts(
-          '', // No search term for general products query
-          {
-            ...(validatedFilter.category && { category: validatedFilter.category }),
-            ...(validatedFilter.brand && { brand: validatedFilter.brand }),
-            ...(validatedFilter.minPrice && { minPrice: validatedFilter.minPrice }),
-            ...(validatedFilter.maxPrice && { maxPrice: validatedFilter.maxPrice }),
-            ...(validatedFilter.inStock !== undefined && { inStock: validatedFilter.inStock }),
-            ...(validatedFilter.isActive !== undefined && { isActive: validatedFilter.isActive }),
-          },
-          { limit, offset }
-        );
-
-        // Create edges
-        const edges = products.map((product, index) => ({
-          node: transformProduct(product),
-          cursor: encodeCursor((offset + index).toString()),
-        }));
-
-        // Determine page info
-        const hasNextPage = offset + limit < totalCount;
-        const hasPreviousPage = offset > 0;
-        const startCursor = edges.length > 0 ? edges[0]?.cursor : null;
-        const endCursor = edges.length > 0 ? edges[edges.length - 1]?.cursor : null;
-
-        return {
-          edges,
-          pageInfo: {
-            hasNextPage,
-            hasPreviousPage,
-            startCursor,
-            endCursor,
-          },
-          totalCount,
-        };
+        // No search term for general products query
+        const result = await findProducts('', filters, page, productSort);
+
+        return toProductConnection(sortKey, page, result, filters);
       } catch (error) {
-        logger.error({ error, filter, pagination }, 'Failed to get products');
+        logger.error({ error, filter, sort, pagination }, 'Failed to get products');
         if (error instanceof z.ZodError) {
           throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
         }
@@ -190,58 +235,41 @@ export const productResolvers = {
 
     searchProducts: async (
       _: any,
-      { q, filter = {}, pagination = {} }: { q: string; filter?: any; pagination?: any },
+      { q, filter = {}, sort, pagination = {} }: { q: string; filter?: any; sort?: any; pagination?: any },
       context: GraphQLContext
     ) => {
       try {
         // Validate inputs
-        const validatedFilter = ProductFilterSchema.parse(filter);
+        const filters = toProductFilters(filter);
+        const productSort = toProductSort(sort, q);
         const validatedPagination = CursorInputSchema.parse(pagination);
 
-        // Determine pagination parameters
-        const limit = Math.min(validatedPagination.first || validatedPagination.last || 20, 100);
-        const offset = validatedPagination.after 
-          ? parseInt(decodeCursor(validatedPagination.after)) 
-          : 0;
+        const sortKey = productSortKey(productSort);
+        const page = toKeysetPage(sortKey, validatedPagination);
 
         // Search products
-        const { products, totalCount } = await productDAO.searchProducts(
-          q,
-          {
-            ...(validatedFilter.category && { category: validatedFilter.category }),
-            ...(validatedFilter.brand && { brand: validatedFilter.brand }),
-            ...(validatedFilter.minPrice && { minPrice: validatedFilter.minPrice }),
-            ...(validatedFilter.maxPrice && { maxPrice: validatedFilter.maxPrice }),
-            ...(validatedFilter.inStock !== undefined && { inStock: validatedFilter.inStock }),
-            ...(validatedFilter.isActive !== undefined && { isActive: validatedFilter.isActive }),
-          },
-          { limit, offset }
-        );
-
-        // Create edges
-        const edges = products.map((product, index) => ({
-          node: transformProduct(product),
-          cursor: encodeCursor((offset + index).toString()),
-        }));
-
-        // Determine page info
-        const hasNextPage = offset + limit < totalCount;
-        const hasPreviousPage = offset > 0;
-        const startCursor = edges.length > 0 ? edges[0]?.cursor : null;
-        const endCursor = edges.length > 0 ? edges[edges.length - 1]?.cursor : null;
-
-        return {
-          edges,
-          pageInfo: {
-            hasNextPage,
-            hasPreviousPage,
-            startCursor,
-            endCursor,
-          },
-          totalCount,
-        };
+        const result = await findProducts(q, filters, page, productSort);
+
+        return toProductConnection(sortKey, page, result, filters);
+      } catch (error) {
+        logger.error({ error, q, filter, sort, pagination }, 'Failed to search products');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    searchSuggestions: async (
+      _: any,
+      args: { prefix: string; limit?: number },
+      context: GraphQLContext
+    ) => {
+      try {
+        const { prefix, limit } = SearchSuggestionsSchema.parse(args);
+        return await getSearchSuggestions(prefix, limit);
       } catch (error) {
-        logger.error({ error, q, filter, pagination }, 'Failed to search products');
+        logger.error({ error, args }, 'Failed to get search suggestions');
         if (error instanceof z.ZodError) {
           throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
         }
@@ -267,6 +295,7 @@ export const productResolvers = {
           ...(validatedInput.brand && { brand: validatedInput.brand }),
           ...(validatedInput.sku && { sku: validatedInput.sku }),
           stock_quantity: validatedInput.stockQuantity,
+          ...(validatedInput.weightKg !== undefined && { weight_kg: validatedInput.weightKg }),
           is_active: 1,
           seller_id: user.userId,
         });
@@ -295,6 +324,8 @@ export const productResolvers = {
           }
         }
 
+        await searchService.indexProduct(product);
+
         return transformProduct(product);
       } catch (error) {
         logger.error({ error, input }, 'Failed to create product');
@@ -327,6 +358,7 @@ export const productResolvers = {
         if (validatedInput.brand !== undefined) updateData.brand = validatedInput.brand;
         if (validatedInput.sku !== undefined) updateData.sku = validatedInput.sku;
         if (validatedInput.stockQuantity !== undefined) updateData.stock_quantity = validatedInput.stockQuantity;
+        if (validatedInput.weightKg !== undefined) updateData.weight_kg = validatedInput.weightKg;
         if (validatedInput.isActive !== undefined) updateData.is_active = validatedInput.isActive ? 1 : 0;
 
         const updatedProduct = await productDAO.update(id, updateData);
@@ -334,6 +366,8 @@ export const productResolvers = {
           throw new Error('Failed to update product');
         }
 
+        await searchService.indexProduct(updatedProduct);
+
         return transformProduct(updatedProduct);
       } catch (error) {
         logger.error({ error, id, input }, 'Failed to update product');
@@ -357,6 +391,9 @@ export const productResolvers = {
         requireOwnership(context, existingProduct.seller_id);
 
         const success = await productDAO.delete(id);
+        if (success) {
+          await searchService.removeProduct(id);
+        }
         return success;
       } catch (error) {
         logger.error({ error, id }, 'Failed to delete product');
@@ -533,6 +570,18 @@ export const productResolvers = {
     },
   },
 
+  ProductConnection: {
+    // Worked out only when asked for, from the search the connection came from
+    facets: async (parent: any) => {
+      try {
+        return await productDAO.getProductFacets(parent.search.matches, parent.search.filters);
+      } catch (error) {
+        logger.error({ error, filters: parent.search.filters }, 'Failed to get product facets');
+        throw new Error('Failed to get product facets');
+      }
+    },
+  },
+
   Review: {
     product: async (parent: any, __: any, context: GraphQLContext) => {
       try {
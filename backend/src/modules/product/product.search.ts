@@ -0,0 +1,151 @@
+import {
+  DEFAULT_PRODUCT_SORT,
+  FacetCount,
+  PagedProduct,
+  ProductDAO,
+  ProductFilters,
+  ProductSort,
+  SearchMatches,
+} from './product.dao';
+import { SearchHit } from '../search/search.engine';
+import { searchService } from '../search/search.service';
+import { cacheKeys, cacheService } from '../../lib/cache';
+import { KeysetPage, KeysetResult, SortDirection, finishPage } from '../../lib/pagination';
+
+const productDAO = new ProductDAO();
+
+// Relevance is worked out by the search engine rather than the database, so
+// it is only a sort for searches
+export type ProductSearchSort = ProductSort | { field: 'relevance'; direction: SortDirection };
+
+export const RELEVANCE_SORT: ProductSearchSort = { field: 'relevance', direction: 'DESC' };
+
+// Shortest prefix worth suggesting for
+export const MIN_SUGGESTION_PREFIX = 2;
+
+// Suggestions are cached briefly: the same prefixes come in from every
+// keystroke of every shopper, and a minute-old suggestion is still useful
+const SUGGESTIONS_TTL_SECONDS = 60;
+
+export interface SearchSuggestions {
+  products: { id: string; name: string }[];
+  categories: FacetCount[];
+  brands: FacetCount[];
+  didYouMean: string | null;
+}
+
+export interface ProductSearchResult extends KeysetResult<PagedProduct> {
+  totalCount: number;
+  matches: SearchMatches;
+  // How well each matched product fits the search term
+  scores: Map<string, number>;
+}
+
+// Keyset paging over hits held in memory, by score and then id. The cursor
+// key is the score as text.
+export function pageHits(hits: SearchHit[], direction: SortDirection, page: KeysetPage): KeysetResult<SearchHit> {
+  const sign = direction === 'ASC' ? 1 : -1;
+  const compare = (a: SearchHit, b: SearchHit) =>
+    sign * (a.score - b.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const ordered = [...hits].sort(compare);
+  const cursor = page.cursor && { id: page.cursor.id, score: Number(page.cursor.key) };
+  const read = page.backward
+    ? ordered.filter(hit => !cursor || compare(hit, cursor) < 0).reverse()
+    : ordered.filter(hit => !cursor || compare(hit, cursor) > 0);
+
+  return finishPage(read.slice(0, page.limit + 1), page);
+}
+
+// Lists products for a search term, or the whole catalog without one. The
+// search engine decides which products match; filters, counts and every sort
+// but relevance then run in the database over those matches.
+export async function findProducts(
+  searchTerm: string,
+  filters: ProductFilters,
+  page: KeysetPage,
+  sort: ProductSearchSort
+): Promise<ProductSearchResult> {
+  if (!searchTerm.trim()) {
+    const result = await productDAO.searchProducts(
+      null,
+      filters,
+      page,
+      sort.field === 'relevance' ? DEFAULT_PRODUCT_SORT : sort
+    );
+    return { ...result, matches: null, scores: new Map() };
+  }
+
+  const hits = await searchService.search(searchTerm);
+  const matches = hits.map(hit => hit.id);
+  const scores = new Map(hits.map(hit => [hit.id, hit.score]));
+
+  if (hits.length === 0) {
+    return { rows: [], hasMore: false, totalCount: 0, matches, scores };
+  }
+
+  if (sort.field !== 'relevance') {
+    const result = await productDAO.searchProducts(matches, filters, page, sort);
+    return { ...result, matches, scores };
+  }
+
+  const passing = new Set(await productDAO.filterMatches(matches, filters));
+  const ranked = hits.filter(hit => passing.has(hit.id));
+  const { rows: pageRows, hasMore } = pageHits(ranked, sort.direction, page);
+
+  const products = new Map(
+    (await productDAO.findByIds(pageRows.map(hit => hit.id))).map(product => [product.id, product])
+  );
+
+  return {
+    rows: pageRows
+      .filter(hit => products.has(hit.id))
+      .map(hit => ({ ...products.get(hit.id)!, cursor_key: String(hit.score) })),
+    hasMore,
+    totalCount: ranked.length,
+    matches,
+    scores,
+  };
+}
+
+// Completions for a search box as the shopper types: products the prefix
+// already finds, categories and brands starting with it, and the prefix with
+// its typos corrected
+export async function getSearchSuggestions(prefix: string, limit: number): Promise<SearchSuggestions> {
+  const trimmed = prefix.trim();
+  if (trimmed.length < MIN_SUGGESTION_PREFIX) {
+    return { products: [], categories: [], brands: [], didYouMean: null };
+  }
+
+  const cacheKey = cacheKeys.searchSuggestions(trimmed.toLowerCase(), limit);
+  const cached = await cacheService.get(cacheKey);
+  if (cached) {
+    return JSON.parse(cached);
+  }
+
+  // Extra hits make up for inactive products, which are not suggested
+  const [hits, categories, brands, didYouMean] = await Promise.all([
+    searchService.complete(trimmed, limit * 2),
+    productDAO.findValuesByPrefix('category', trimmed, limit),
+    productDAO.findValuesByPrefix('brand', trimmed, limit),
+    searchService.correct(trimmed),
+  ]);
+
+  const products = new Map(
+    (await productDAO.findByIds(hits.map(hit => hit.id))).map(product => [product.id, product])
+  );
+
+  const suggestions: SearchSuggestions = {
+    products: hits
+      .map(hit => products.get(hit.id))
+      .filter(product => product && product.is_active)
+      .slice(0, limit)
+      .map(product => ({ id: product!.id, name: product!.name })),
+    categories,
+    brands,
+    didYouMean,
+  };
+
+  await cacheService.set(cacheKey, JSON.stringify(suggestions), SUGGESTIONS_TTL_SECONDS);
+  return suggestions;
+}
@@ -0,0 +1,239 @@
+import oracledb from 'oracledb';
+import { databaseService } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+export type DiscountType = 'percent' | 'fixed';
+
+// A coupon when it has a code, otherwise applied automatically at checkout.
+// category and seller_id narrow it to matching items.
+export interface Promotion {
+  id: string;
+  code?: string | null;
+  name: string;
+  description?: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  category?: string | null;
+  seller_id?: string | null;
+  min_spend?: number | null;
+  max_discount?: number | null;
+  usage_limit?: number | null;
+  per_user_limit?: number | null;
+  times_used: number;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  is_active: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewPromotion = Omit<Promotion, 'id' | 'times_used' | 'starts_at' | 'ends_at' | 'created_at' | 'updated_at'> & {
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+};
+
+// A discount line on an order, kept so totals can be audited later
+export interface OrderDiscount {
+  id: string;
+  order_id: string;
+  promotion_id: string;
+  code?: string | null;
+  description: string;
+  amount: number;
+  created_at: string;
+}
+
+export class PromotionDAO {
+  async findById(id: string): Promise<Promotion | null> {
+    try {
+      const result = await databaseService.executeQuery<Promotion>(
+        'SELECT * FROM promotions WHERE id = :id',
+        { id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to find promotion by ID');
+      throw error;
+    }
+  }
+
+  // Codes are matched case-insensitively
+  async findByCode(code: string, connection?: oracledb.Connection): Promise<Promotion | null> {
+    try {
+      const result = await databaseService.executeOn<Promotion>(
+        connection,
+        'SELECT * FROM promotions WHERE code = UPPER(:code)',
+        { code }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, code }, 'Failed to find promotion by code');
+      throw error;
+    }
+  }
+
+  // Promotions without a code that are running now, oldest first
+  async findAutomatic(connection?: oracledb.Connection): Promise<Promotion[]> {
+    try {
+      const result = await databaseService.executeOn<Promotion>(
+        connection,
+        `SELECT * FROM promotions
+         WHERE code IS NULL AND is_active = 1
+           AND (starts_at IS NULL OR starts_at <= CURRENT_TIMESTAMP)
+           AND (ends_at IS NULL OR ends_at > CURRENT_TIMESTAMP)
+         ORDER BY created_at ASC`,
+        {}
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error }, 'Failed to find automatic promotions');
+      throw error;
+    }
+  }
+
+  // Every promotion, or only one seller's
+  async findAll(sellerId?: string): Promise<Promotion[]> {
+    try {
+      const result = await databaseService.executeQuery<Promotion>(
+        sellerId
+          ? 'SELECT * FROM promotions WHERE seller_id = :sellerId ORDER BY created_at DESC'
+          : 'SELECT * FROM promotions ORDER BY created_at DESC',
+        sellerId ? { sellerId } : {}
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, sellerId }, 'Failed to find promotions');
+      throw error;
+    }
+  }
+
+  async create(promotionData: NewPromotion): Promise<Promotion> {
+    try {
+      const result = await databaseService.executeQuery<Promotion>(
+        `INSERT INTO promotions (
+          id, code, name, description, discount_type, discount_value, category, seller_id,
+          min_spend, max_discount, usage_limit, per_user_limit, starts_at, ends_at, is_active, created_by
+        ) VALUES (
+          SYS_GUID(), UPPER(:code), :name, :description, :discount_type, :discount_value, :category, :seller_id,
+          :min_spend, :max_discount, :usage_limit, :per_user_limit, :starts_at, :ends_at, :is_active, :created_by
+        ) RETURNING *`,
+        {
+          code: null,
+          description: null,
+          category: null,
+          seller_id: null,
+          min_spend: null,
+          max_discount: null,
+          usage_limit: null,
+          per_user_limit: null,
+          starts_at: null,
+          ends_at: null,
+          ...promotionData,
+        }
+      );
+
+      return result.rows?.[0]!;
+    } catch (error) {
+      logger.error({ error, code: promotionData.code }, 'Failed to create promotion');
+      throw error;
+    }
+  }
+
+  async setActive(id: string, isActive: boolean): Promise<Promotion | null> {
+    try {
+      const result = await databaseService.executeQuery<Promotion>(
+        `UPDATE promotions SET is_active = :isActive, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { id, isActive: isActive ? 1 : 0 }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to update promotion');
+      throw error;
+    }
+  }
+
+  // Counts one use. Returns false when the usage limit was reached in the
+  // meantime.
+  async incrementUsage(id: string, connection?: oracledb.Connection): Promise<boolean> {
+    try {
+      const result = await databaseService.executeOn(
+        connection,
+        `UPDATE promotions SET times_used = times_used + 1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id AND (usage_limit IS NULL OR times_used < usage_limit)`,
+        { id }
+      );
+
+      return (result.rowsAffected || 0) > 0;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to count promotion use');
+      throw error;
+    }
+  }
+
+  // Uses by one buyer, not counting cancelled orders
+  async countUserRedemptions(promotionId: string, userId: string, connection?: oracledb.Connection): Promise<number> {
+    try {
+      const result = await databaseService.executeOn<{ count: number }>(
+        connection,
+        `SELECT COUNT(*) as count FROM order_discounts d
+         JOIN orders o ON o.id = d.order_id
+         WHERE d.promotion_id = :promotionId AND o.user_id = :userId AND o.status != 'cancelled'`,
+        { promotionId, userId }
+      );
+
+      return result.rows?.[0]?.count || 0;
+    } catch (error) {
+      logger.error({ error, promotionId, userId }, 'Failed to count promotion uses');
+      throw error;
+    }
+  }
+
+  async createOrderDiscounts(
+    orderId: string,
+    discounts: Omit<OrderDiscount, 'id' | 'order_id' | 'created_at'>[],
+    connection?: oracledb.Connection
+  ): Promise<OrderDiscount[]> {
+    try {
+      const created: OrderDiscount[] = [];
+      for (const discount of discounts) {
+        const result = await databaseService.executeOn<OrderDiscount>(
+          connection,
+          `INSERT INTO order_discounts (id, order_id, promotion_id, code, description, amount)
+           VALUES (SYS_GUID(), :order_id, :promotion_id, :code, :description, :amount)
+           RETURNING *`,
+          { code: null, ...discount, order_id: orderId }
+        );
+
+        created.push(result.rows?.[0]!);
+      }
+
+      return created;
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to create order discounts');
+      throw error;
+    }
+  }
+
+  async findDiscountsByOrders(orderIds: string[]): Promise<OrderDiscount[]> {
+    if (orderIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<OrderDiscount>(
+        'SELECT * FROM order_discounts WHERE order_id IN (:orderIds) ORDER BY created_at ASC',
+        { orderIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, orderIds }, 'Failed to find order discounts');
+      throw error;
+    }
+  }
+}
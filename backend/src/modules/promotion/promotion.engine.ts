@@ -0,0 +1,119 @@
+import { Promotion } from './promotion.dao';
+import { roundAmount } from '../payment/payment.service';
+
+// A cart or order line as the engine sees it
+export interface DiscountableLine {
+  product_id: string;
+  seller_id: string;
+  category: string;
+  quantity: number;
+  total_price: number;
+}
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  amount: number;
+}
+
+export interface DiscountResult {
+  subtotal: number;
+  discountAmount: number;
+  total: number;
+  applied: AppliedPromotion[];
+  // Discount on each line, in the order the lines were given
+  lineDiscounts: number[];
+}
+
+function isEligible(promotion: Promotion, line: DiscountableLine): boolean {
+  return (!promotion.category || promotion.category === line.category)
+    && (!promotion.seller_id || promotion.seller_id === line.seller_id);
+}
+
+// Why a promotion does not apply to these lines, or null when it does.
+// Per-user limits need the database and are checked by the caller.
+export function checkPromotion(promotion: Promotion, lines: DiscountableLine[], now = new Date()): string | null {
+  if (!promotion.is_active) {
+    return 'This promotion is no longer active';
+  }
+
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) {
+    return 'This promotion has not started yet';
+  }
+
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) {
+    return 'This promotion has ended';
+  }
+
+  if (promotion.usage_limit != null && promotion.times_used >= promotion.usage_limit) {
+    return 'This promotion has reached its usage limit';
+  }
+
+  const eligible = lines.filter(line => isEligible(promotion, line));
+  if (eligible.length === 0) {
+    return 'No items in the order qualify for this promotion';
+  }
+
+  const eligibleSubtotal = roundAmount(eligible.reduce((sum, line) => sum + line.total_price, 0));
+  if (promotion.min_spend != null && eligibleSubtotal < promotion.min_spend) {
+    return `Spend at least ${promotion.min_spend.toFixed(2)} on qualifying items to use this promotion`;
+  }
+
+  return null;
+}
+
+// Applies the promotions in the given order, each on what is left of its
+// qualifying lines after the ones before it, so the total never drops below
+// zero. Each discount is spread over its lines in proportion to their value;
+// refunds and partial captures later use the discounted line amounts.
+// Promotions that do not apply are skipped.
+export function calculateDiscounts(
+  lines: DiscountableLine[],
+  promotions: Promotion[],
+  now = new Date()
+): DiscountResult {
+  const subtotal = roundAmount(lines.reduce((sum, line) => sum + line.total_price, 0));
+  const lineDiscounts = lines.map(() => 0);
+  const applied: AppliedPromotion[] = [];
+
+  for (const promotion of promotions) {
+    if (checkPromotion(promotion, lines, now)) continue;
+
+    const eligible = lines
+      .map((line, index) => ({ index, remaining: roundAmount(line.total_price - lineDiscounts[index]!) }))
+      .filter(({ index, remaining }) => isEligible(promotion, lines[index]!) && remaining > 0);
+
+    const base = roundAmount(eligible.reduce((sum, { remaining }) => sum + remaining, 0));
+    if (base <= 0) continue;
+
+    let amount = promotion.discount_type === 'percent'
+      ? roundAmount(base * promotion.discount_value / 100)
+      : promotion.discount_value;
+    if (promotion.max_discount != null) {
+      amount = Math.min(amount, promotion.max_discount);
+    }
+    amount = roundAmount(Math.min(amount, base));
+    if (amount <= 0) continue;
+
+    // The last line takes the rounding remainder
+    let allocated = 0;
+    eligible.forEach(({ index, remaining }, position) => {
+      const share = position === eligible.length - 1
+        ? roundAmount(amount - allocated)
+        : roundAmount(amount * remaining / base);
+      lineDiscounts[index] = roundAmount(lineDiscounts[index]! + share);
+      allocated = roundAmount(allocated + share);
+    });
+
+    applied.push({ promotion, amount });
+  }
+
+  const discountAmount = roundAmount(applied.reduce((sum, { amount }) => sum + amount, 0));
+
+  return {
+    subtotal,
+    discountAmount,
+    total: roundAmount(subtotal - discountAmount),
+    applied,
+    lineDiscounts,
+  };
+}
@@ -0,0 +1,328 @@
+import { z } from 'zod';
+import { PromotionDAO, Promotion, OrderDiscount } from './promotion.dao';
+import { priceOrder, toOrderLines } from '../order/order.pricing';
+import { ProductDAO } from '../product/product.dao';
+import { ShippingSelection } from '../shipping/shipping.service';
+import { addressService } from '../address/address.service';
+import { GraphQLContext, requireAuth } from '../../lib/context';
+import { logger } from '../../lib/logger';
+
+const promotionDAO = new PromotionDAO();
+const productDAO = new ProductDAO();
+
+// Validation schemas
+const PreviewItemsSchema = z.array(z.object({
+  productId: z.string().uuid('Invalid product ID'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+})).min(1, 'At least one item is required');
+
+const CouponCodeSchema = z.string().trim().min(1, 'Coupon code is required').max(50, 'Coupon code is too long');
+
+const PreviewOrderInputSchema = z.object({
+  items: PreviewItemsSchema,
+  couponCode: CouponCodeSchema.optional(),
+  shipping: z.array(z.object({
+    sellerId: z.string().min(1, 'Seller ID is required'),
+    methodId: z.string().min(1).optional(),
+  })).optional(),
+  shippingAddressId: z.string().min(1).optional(),
+});
+
+const dateString = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+const CreatePromotionInputSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,50}$/, 'Codes are 3 to 50 letters, digits, dashes or underscores').optional(),
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  description: z.string().max(500, 'Description is too long').optional(),
+  discountType: z.enum(['PERCENT', 'FIXED']),
+  discountValue: z.number().positive('Discount must be positive'),
+  category: z.string().min(1).optional(),
+  sellerId: z.string().uuid('Invalid seller ID').optional(),
+  minSpend: z.number().nonnegative('Minimum spend cannot be negative').optional(),
+  maxDiscount: z.number().positive('Maximum discount must be positive').optional(),
+  usageLimit: z.number().int().positive('Usage limit must be positive').optional(),
+  perUserLimit: z.number().int().positive('Per-user limit must be positive').optional(),
+  startsAt: dateString.optional(),
+  endsAt: dateString.optional(),
+}).refine(
+  input => input.discountType !== 'PERCENT' || input.discountValue <= 100,
+  'A percent discount cannot exceed 100'
+).refine(
+  input => !input.startsAt || !input.endsAt || Date.parse(input.startsAt) < Date.parse(input.endsAt),
+  'A promotion must start before it ends'
+);
+
+// Helper functions to transform database objects to GraphQL objects
+function transformPromotion(promotion: Promotion): any {
+  return {
+    id: promotion.id,
+    code: promotion.code,
+    name: promotion.name,
+    description: promotion.description,
+    discountType: promotion.discount_type.toUpperCase(),
+    discountValue: promotion.discount_value,
+    category: promotion.category,
+    seller_id: promotion.seller_id,
+    minSpend: promotion.min_spend,
+    maxDiscount: promotion.max_discount,
+    usageLimit: promotion.usage_limit,
+    perUserLimit: promotion.per_user_limit,
+    timesUsed: promotion.times_used,
+    startsAt: promotion.starts_at,
+    endsAt: promotion.ends_at,
+    isActive: Boolean(promotion.is_active),
+    createdAt: promotion.created_at,
+    updatedAt: promotion.updated_at,
+  };
+}
+
+function transformOrderDiscount(discount: OrderDiscount): any {
+  return {
+    id: discount.id,
+    promotionId: discount.promotion_id,
+    code: discount.code,
+    description: discount.description,
+    amount: discount.amount,
+    createdAt: discount.created_at,
+  };
+}
+
+// Prices the items the way checkout would, tax and shipping included, without
+// locking or reserving anything. Addresses default to the buyer's default one.
+async function previewOrder(
+  items: { productId: string; quantity: number }[],
+  userId: string,
+  couponCode?: string,
+  shipping?: ShippingSelection[],
+  shippingAddressId?: string
+): Promise<any> {
+  const quantities = new Map<string, number>();
+  for (const item of items) {
+    quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+  }
+
+  const products = await productDAO.findByIds([...quantities.keys()]);
+  const lines = toOrderLines(quantities, products, { checkStock: false });
+
+  const address = await addressService.resolve(userId, { addressId: shippingAddressId })
+    ?? await addressService.findDefault(userId);
+  const pricing = await priceOrder(lines, {
+    userId,
+    destination: await addressService.destination(userId, address),
+    couponCode,
+    shipping,
+  });
+
+  return {
+    items: pricing.lines.map(line => ({
+      product_id: line.product_id,
+      quantity: line.quantity,
+      unitPrice: line.unit_price,
+      totalPrice: line.total_price,
+      discountAmount: line.discount_amount,
+      taxAmount: line.tax_amount,
+    })),
+    subtotalAmount: pricing.subtotal,
+    discountAmount: pricing.discountAmount,
+    taxAmount: pricing.taxAmount,
+    shippingAmount: pricing.shippingAmount,
+    totalAmount: pricing.total,
+    discounts: pricing.promotions.applied.map(({ promotion, amount }) => ({
+      promotionId: promotion.id,
+      code: promotion.code,
+      description: promotion.description || promotion.name,
+      amount,
+    })),
+    shipping: pricing.shipping.map(({ sellerId, option }) => ({
+      sellerId,
+      methodId: option.method_id,
+      name: option.name,
+      amount: option.amount,
+    })),
+  };
+}
+
+export const promotionResolvers = {
+  Query: {
+    previewOrder: async (_: any, { input }: { input: any }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const validatedInput = PreviewOrderInputSchema.parse(input);
+
+        return await previewOrder(
+          validatedInput.items,
+          user.userId,
+          validatedInput.couponCode,
+          validatedInput.shipping,
+          validatedInput.shippingAddressId
+        );
+      } catch (error) {
+        logger.error({ error }, 'Failed to preview order');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    applyCoupon: async (_: any, { code, items }: { code: string; items: any[] }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const validatedCode = CouponCodeSchema.parse(code);
+        const validatedItems = PreviewItemsSchema.parse(items);
+
+        return await previewOrder(validatedItems, user.userId, validatedCode);
+      } catch (error) {
+        logger.error({ error, code }, 'Failed to apply coupon');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    promotions: async (_: any, __: any, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+
+        const promotions = await promotionDAO.findAll(user.isAdmin ? undefined : user.userId);
+        return promotions.map(transformPromotion);
+      } catch (error) {
+        logger.error({ error }, 'Failed to get promotions');
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    createPromotion: async (_: any, { input }: { input: any }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        if (!user.isAdmin && !(await productDAO.isSeller(user.userId))) {
+          throw new Error('Access denied: only admins and sellers can create promotions');
+        }
+
+        const validatedInput = CreatePromotionInputSchema.parse(input);
+
+        // A seller's promotion can only discount their own products
+        const sellerId = user.isAdmin ? validatedInput.sellerId : user.userId;
+
+        if (validatedInput.code && (await promotionDAO.findByCode(validatedInput.code))) {
+          throw new Error('A promotion with this code already exists');
+        }
+
+        const promotion = await promotionDAO.create({
+          name: validatedInput.name,
+          discount_type: validatedInput.discountType === 'PERCENT' ? 'percent' : 'fixed',
+          discount_value: validatedInput.discountValue,
+          is_active: 1,
+          created_by: user.userId,
+          ...(validatedInput.code && { code: validatedInput.code }),
+          ...(validatedInput.description && { description: validatedInput.description }),
+          ...(validatedInput.category && { category: validatedInput.category }),
+          ...(sellerId && { seller_id: sellerId }),
+          ...(validatedInput.minSpend !== undefined && { min_spend: validatedInput.minSpend }),
+          ...(validatedInput.maxDiscount !== undefined && { max_discount: validatedInput.maxDiscount }),
+          ...(validatedInput.usageLimit !== undefined && { usage_limit: validatedInput.usageLimit }),
+          ...(validatedInput.perUserLimit !== undefined && { per_user_limit: validatedInput.perUserLimit }),
+          ...(validatedInput.startsAt && { starts_at: new Date(validatedInput.startsAt) }),
+          ...(validatedInput.endsAt && { ends_at: new Date(validatedInput.endsAt) }),
+        });
+
+        logger.info({ promotionId: promotion.id, code: promotion.code, userId: user.userId }, 'Promotion created');
+
+        return transformPromotion(promotion);
+      } catch (error) {
+        logger.error({ error }, 'Failed to create promotion');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    setPromotionActive: async (
+      _: any,
+      { id, isActive }: { id: string; isActive: boolean },
+      context: GraphQLContext
+    ) => {
+      try {
+        const user = requireAuth(context);
+
+        const promotion = await promotionDAO.findById(id);
+        if (!promotion) {
+          throw new Error('Promotion not found');
+        }
+
+        if (!user.isAdmin && promotion.seller_id !== user.userId) {
+          throw new Error('Access denied');
+        }
+
+        const updated = await promotionDAO.setActive(id, isActive);
+        return transformPromotion(updated!);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to update promotion');
+        throw error;
+      }
+    },
+  },
+
+  Order: {
+    discounts: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const discounts = await context.loaders.discountsByOrder.load(parent.id);
+        return discounts.map(transformOrderDiscount);
+      } catch (error) {
+        logger.error({ error, orderId: parent.id }, 'Failed to load order discounts');
+        return [];
+      }
+    },
+  },
+
+  Promotion: {
+    seller: async (parent: any, __: any, context: GraphQLContext) => {
+      if (!parent.seller_id) return null;
+
+      try {
+        const seller = await context.loaders.userById.load(parent.seller_id);
+        return seller ? {
+          id: seller.id,
+          email: seller.email,
+          firstName: seller.first_name,
+          lastName: seller.last_name,
+          isAdmin: Boolean(seller.is_admin),
+          isActive: Boolean(seller.is_active),
+          createdAt: seller.created_at,
+          updatedAt: seller.updated_at,
+        } : null;
+      } catch (error) {
+        logger.error({ error, promotionId: parent.id }, 'Failed to load promotion seller');
+        return null;
+      }
+    },
+  },
+
+  OrderPreviewItem: {
+    product: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const product = await context.loaders.productsByIds.load(parent.product_id);
+        return product ? {
+          id: product.id,
+          name: product.name,
+          description: product.description,
+          price: product.price,
+          category: product.category,
+          brand: product.brand,
+          sku: product.sku,
+          stockQuantity: product.stock_quantity,
+          isActive: Boolean(product.is_active),
+          createdAt: product.created_at,
+          updatedAt: product.updated_at,
+        } : null;
+      } catch (error) {
+        logger.error({ error, productId: parent.product_id }, 'Failed to load preview item product');
+        return null;
+      }
+    },
+  },
+};
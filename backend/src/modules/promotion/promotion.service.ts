@@ -0,0 +1,111 @@
+import oracledb from 'oracledb';
+import { PromotionDAO, Promotion, OrderDiscount } from './promotion.dao';
+import { DiscountableLine, DiscountResult, calculateDiscounts, checkPromotion } from './promotion.engine';
+import { InvalidCouponError } from '../../lib/errors';
+import { logger } from '../../lib/logger';
+
+const promotionDAO = new PromotionDAO();
+
+export interface PricingOptions {
+  userId: string;
+  couponCode?: string | undefined;
+  connection?: oracledb.Connection | undefined;
+}
+
+// Automatic promotions apply first, in the order they were created, and the
+// coupon last on whatever is left.
+export class PromotionService {
+  async price(lines: DiscountableLine[], options: PricingOptions): Promise<DiscountResult> {
+    const { userId, couponCode, connection } = options;
+    const promotions: Promotion[] = [];
+
+    for (const promotion of await promotionDAO.findAutomatic(connection)) {
+      if (await this.withinUserLimit(promotion, userId, connection)) {
+        promotions.push(promotion);
+      }
+    }
+
+    const coupon = couponCode ? await this.findCoupon(couponCode, lines, userId, connection) : null;
+    if (coupon) {
+      promotions.push(coupon);
+    }
+
+    const result = calculateDiscounts(lines, promotions);
+
+    if (coupon && !result.applied.some(({ promotion }) => promotion.id === coupon.id)) {
+      throw new InvalidCouponError(couponCode!, 'This coupon does not lower the order total');
+    }
+
+    return result;
+  }
+
+  // Counts each applied promotion once and records the discount lines. Runs
+  // in the checkout transaction, so a limit reached since pricing rolls the
+  // order back.
+  async redeem(orderId: string, result: DiscountResult, connection: oracledb.Connection): Promise<OrderDiscount[]> {
+    for (const { promotion } of result.applied) {
+      if (!(await promotionDAO.incrementUsage(promotion.id, connection))) {
+        if (promotion.code) {
+          throw new InvalidCouponError(promotion.code, 'This coupon has reached its usage limit');
+        }
+        throw new Error(`Promotion "${promotion.name}" is no longer available; review the order and try again`);
+      }
+    }
+
+    const discounts = await promotionDAO.createOrderDiscounts(
+      orderId,
+      result.applied.map(({ promotion, amount }) => ({
+        promotion_id: promotion.id,
+        code: promotion.code ?? null,
+        description: promotion.description || promotion.name,
+        amount,
+      })),
+      connection
+    );
+
+    if (discounts.length > 0) {
+      logger.info(
+        { orderId, promotions: result.applied.map(({ promotion }) => promotion.id), discount: result.discountAmount },
+        'Promotions redeemed'
+      );
+    }
+
+    return discounts;
+  }
+
+  private async findCoupon(
+    code: string,
+    lines: DiscountableLine[],
+    userId: string,
+    connection?: oracledb.Connection
+  ): Promise<Promotion> {
+    const coupon = await promotionDAO.findByCode(code.trim(), connection);
+    if (!coupon) {
+      throw new InvalidCouponError(code, 'This coupon does not exist');
+    }
+
+    const reason = checkPromotion(coupon, lines);
+    if (reason) {
+      throw new InvalidCouponError(code, reason);
+    }
+
+    if (!(await this.withinUserLimit(coupon, userId, connection))) {
+      throw new InvalidCouponError(code, 'You have already used this coupon');
+    }
+
+    return coupon;
+  }
+
+  private async withinUserLimit(
+    promotion: Promotion,
+    userId: string,
+    connection?: oracledb.Connection
+  ): Promise<boolean> {
+    if (promotion.per_user_limit == null) return true;
+
+    const used = await promotionDAO.countUserRedemptions(promotion.id, userId, connection);
+    return used < promotion.per_user_limit;
+  }
+}
+
+export const promotionService = new PromotionService();
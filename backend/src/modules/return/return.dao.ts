@@ -0,0 +1,179 @@
+import oracledb from 'oracledb';
+import { databaseService } from '@/lib/database';
+import { logger } from '@/lib/logger';
+
+export interface ReturnRequest {
+  id: string;
+  order_id: string;
+  user_id: string;
+  status: string;
+  reason: string;
+  resolution_note?: string | null;
+  refund_id?: string | null;
+  restocked: number;
+  approved_at?: string | null;
+  rejected_at?: string | null;
+  received_at?: string | null;
+  inspected_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReturnItem {
+  id: string;
+  return_id: string;
+  order_item_id: string;
+  quantity: number;
+}
+
+export type ReturnWithItems = ReturnRequest & { items: ReturnItem[] };
+
+export class ReturnDAO {
+  async findById(id: string): Promise<ReturnWithItems | null> {
+    try {
+      const result = await databaseService.executeQuery<ReturnRequest>(
+        'SELECT * FROM return_requests WHERE id = :id',
+        { id }
+      );
+
+      const returnRequest = result.rows?.[0];
+      if (!returnRequest) return null;
+
+      return { ...returnRequest, items: await this.findItems([id]) };
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to find return request by ID');
+      throw error;
+    }
+  }
+
+  async findByIdForUpdate(id: string, connection: oracledb.Connection): Promise<ReturnWithItems | null> {
+    try {
+      const result = await databaseService.executeOn<ReturnRequest>(
+        connection,
+        'SELECT * FROM return_requests WHERE id = :id FOR UPDATE',
+        { id }
+      );
+
+      const returnRequest = result.rows?.[0];
+      if (!returnRequest) return null;
+
+      return { ...returnRequest, items: await this.findItems([id], connection) };
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to lock return request by ID');
+      throw error;
+    }
+  }
+
+  async findByOrders(orderIds: string[]): Promise<ReturnWithItems[]> {
+    if (orderIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<ReturnRequest>(
+        'SELECT * FROM return_requests WHERE order_id IN (:orderIds) ORDER BY created_at ASC',
+        { orderIds }
+      );
+
+      const returns = result.rows || [];
+      if (returns.length === 0) return [];
+
+      const items = await this.findItems(returns.map(returnRequest => returnRequest.id));
+      return returns.map(returnRequest => ({
+        ...returnRequest,
+        items: items.filter(item => item.return_id === returnRequest.id),
+      }));
+    } catch (error) {
+      logger.error({ error, orderIds }, 'Failed to find return requests by orders');
+      throw error;
+    }
+  }
+
+  // Quantity per order item held by returns that were not rejected
+  async findReturnedQuantities(orderId: string, connection?: oracledb.Connection): Promise<Map<string, number>> {
+    try {
+      const result = await databaseService.executeOn<{ order_item_id: string; quantity: number }>(
+        connection,
+        `SELECT ri.order_item_id, SUM(ri.quantity) AS quantity
+         FROM return_items ri
+         JOIN return_requests r ON r.id = ri.return_id
+         WHERE r.order_id = :orderId AND r.status != 'rejected'
+         GROUP BY ri.order_item_id`,
+        { orderId }
+      );
+
+      return new Map((result.rows || []).map(row => [row.order_item_id, Number(row.quantity)]));
+    } catch (error) {
+      logger.error({ error, orderId }, 'Failed to find returned quantities');
+      throw error;
+    }
+  }
+
+  async create(
+    returnData: Pick<ReturnRequest, 'order_id' | 'user_id' | 'reason'>,
+    items: Omit<ReturnItem, 'id' | 'return_id'>[],
+    connection?: oracledb.Connection
+  ): Promise<ReturnWithItems> {
+    try {
+      const result = await databaseService.executeOn<ReturnRequest>(
+        connection,
+        `INSERT INTO return_requests (id, order_id, user_id, status, reason)
+         VALUES (SYS_GUID(), :order_id, :user_id, 'requested', :reason) RETURNING *`,
+        returnData
+      );
+
+      const returnRequest = result.rows?.[0]!;
+
+      const createdItems: ReturnItem[] = [];
+      for (const item of items) {
+        const itemResult = await databaseService.executeOn<ReturnItem>(
+          connection,
+          `INSERT INTO return_items (id, return_id, order_item_id, quantity)
+           VALUES (SYS_GUID(), :return_id, :order_item_id, :quantity) RETURNING *`,
+          { ...item, return_id: returnRequest.id }
+        );
+        createdItems.push(itemResult.rows?.[0]!);
+      }
+
+      return { ...returnRequest, items: createdItems };
+    } catch (error) {
+      logger.error({ error, orderId: returnData.order_id }, 'Failed to create return request');
+      throw error;
+    }
+  }
+
+  async updateStatus(
+    id: string,
+    status: string,
+    timestampColumn: keyof ReturnRequest | null,
+    updates: Partial<Pick<ReturnRequest, 'resolution_note' | 'refund_id' | 'restocked'>>,
+    connection?: oracledb.Connection
+  ): Promise<ReturnRequest | null> {
+    try {
+      const setClause = ['status = :status', ...Object.keys(updates).map(key => `${key} = :${key}`)];
+      if (timestampColumn) {
+        setClause.push(`${timestampColumn} = CURRENT_TIMESTAMP`);
+      }
+
+      const result = await databaseService.executeOn<ReturnRequest>(
+        connection,
+        `UPDATE return_requests SET ${setClause.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { ...updates, status, id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id, status }, 'Failed to update return request status');
+      throw error;
+    }
+  }
+
+  private async findItems(returnIds: string[], connection?: oracledb.Connection): Promise<ReturnItem[]> {
+    const result = await databaseService.executeOn<ReturnItem>(
+      connection,
+      'SELECT * FROM return_items WHERE return_id IN (:returnIds)',
+      { returnIds }
+    );
+
+    return result.rows || [];
+  }
+}
@@ -0,0 +1,223 @@
+import oracledb from 'oracledb';
+import { ReturnDAO, ReturnRequest, ReturnWithItems } from './return.dao';
+import { OrderDAO } from '../order/order.dao';
+import { OrderActorRole } from '../order/order.lifecycle';
+import { refundOrder } from '../order/order.refunds';
+import { JWTPayload } from '../../lib/auth';
+import { databaseService } from '../../lib/database';
+import { InvalidReturnError, InvalidReturnTransitionError } from '../../lib/errors';
+import { logger } from '../../lib/logger';
+
+const returnDAO = new ReturnDAO();
+const orderDAO = new OrderDAO();
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'inspected';
+
+// Buyers open a return; the seller or an admin moves it along from there.
+// Inspection is the last step and issues the refund.
+export const RETURN_LIFECYCLE: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received'],
+  received: ['inspected'],
+  rejected: [],
+  inspected: [],
+};
+
+// Column stamped when a return enters a status
+const STATUS_TIMESTAMPS: Partial<Record<ReturnStatus, keyof ReturnRequest>> = {
+  approved: 'approved_at',
+  rejected: 'rejected_at',
+  received: 'received_at',
+  inspected: 'inspected_at',
+};
+
+export function getReturnWindowDays(): number {
+  return parseInt(process.env.RETURN_WINDOW_DAYS || '30');
+}
+
+export function isReturnStatus(status: string): status is ReturnStatus {
+  return Object.prototype.hasOwnProperty.call(RETURN_LIFECYCLE, status);
+}
+
+// Admins manage any return; a seller only returns made up entirely of their
+// own products
+export async function resolveReturnRole(
+  returnRequest: ReturnWithItems,
+  user: JWTPayload,
+  connection?: oracledb.Connection
+): Promise<OrderActorRole | null> {
+  if (user.isAdmin) {
+    return 'admin';
+  }
+
+  // Sellers come from the items' snapshots, which outlive deleted products
+  const orderItems = await orderDAO.findItemsByOrder(returnRequest.order_id, connection);
+  const returnedItems = returnRequest.items
+    .map(item => orderItems.find(orderItem => orderItem.id === item.order_item_id));
+  const ownsEveryItem = returnedItems.length > 0
+    && returnedItems.every(orderItem => orderItem?.seller_id === user.userId);
+
+  return ownsEveryItem ? 'seller' : null;
+}
+
+export interface ReturnItemRequest {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface ReturnOptions {
+  connection?: oracledb.Connection;
+}
+
+// Items can be returned once the parcel holding them was delivered, within
+// the return window
+function assertReturnable(delivery: { status: string; delivered_at?: string | null; updated_at: string }): void {
+  if (delivery.status !== 'delivered') {
+    throw new InvalidReturnError('Only delivered items can be returned');
+  }
+
+  const windowDays = getReturnWindowDays();
+  const deliveredAt = new Date(delivery.delivered_at ?? delivery.updated_at).getTime();
+  if (Date.now() > deliveredAt + windowDays * 24 * 60 * 60 * 1000) {
+    throw new InvalidReturnError(`Returns must be requested within ${windowDays} days of delivery`);
+  }
+}
+
+// Opens a return for delivered items of an order, within the return window.
+// Each seller's fulfillment is delivered on its own, so items can be returned
+// while another seller's part of the order is still on its way.
+export async function requestReturn(
+  orderId: string,
+  user: JWTPayload,
+  request: { items: ReturnItemRequest[]; reason: string },
+  options: ReturnOptions = {}
+): Promise<ReturnWithItems> {
+  const { connection } = options;
+  if (!connection) {
+    return databaseService.executeTransaction((conn) =>
+      requestReturn(orderId, user, request, { connection: conn })
+    );
+  }
+
+  const order = await orderDAO.findByIdForUpdate(orderId, connection);
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (order.user_id !== user.userId) {
+    throw new Error('Access denied');
+  }
+
+  const requestedItems = new Map<string, number>();
+  for (const item of request.items) {
+    requestedItems.set(item.orderItemId, (requestedItems.get(item.orderItemId) || 0) + item.quantity);
+  }
+
+  const orderItems = await orderDAO.findItemsByOrder(orderId, connection);
+  const fulfillments = await orderDAO.findFulfillmentsByOrder(orderId, connection);
+  const returnedQuantities = await returnDAO.findReturnedQuantities(orderId, connection);
+
+  const returnItems = [];
+  for (const [orderItemId, quantity] of requestedItems) {
+    const orderItem = orderItems.find(item => item.id === orderItemId);
+    if (!orderItem) {
+      throw new InvalidReturnError(`Item ${orderItemId} is not part of this order`);
+    }
+
+    // Items from before orders were split by seller follow the order
+    assertReturnable(fulfillments.find(fulfillment => fulfillment.id === orderItem.fulfillment_id) ?? order);
+
+    const remaining = orderItem.quantity - (returnedQuantities.get(orderItemId) || 0);
+    if (quantity > remaining) {
+      throw new InvalidReturnError(`Only ${remaining} of item ${orderItemId} can still be returned`);
+    }
+
+    returnItems.push({ order_item_id: orderItemId, quantity });
+  }
+
+  const returnRequest = await returnDAO.create(
+    { order_id: orderId, user_id: user.userId, reason: request.reason },
+    returnItems,
+    connection
+  );
+
+  logger.info({ orderId, returnId: returnRequest.id, userId: user.userId }, 'Return requested');
+
+  return returnRequest;
+}
+
+export interface ReturnTransitionOptions extends ReturnOptions {
+  note?: string;
+  // Inspection only: whether the items go back into stock, and an amount
+  // below their value when they came back damaged
+  restock?: boolean;
+  refundAmount?: number;
+}
+
+export async function transitionReturn(
+  returnId: string,
+  to: ReturnStatus,
+  user: JWTPayload,
+  options: ReturnTransitionOptions = {}
+): Promise<ReturnWithItems> {
+  const { connection } = options;
+  if (!connection) {
+    return databaseService.executeTransaction((conn) =>
+      transitionReturn(returnId, to, user, { ...options, connection: conn })
+    );
+  }
+
+  const returnRequest = await returnDAO.findByIdForUpdate(returnId, connection);
+  if (!returnRequest) {
+    throw new Error('Return request not found');
+  }
+
+  const role = await resolveReturnRole(returnRequest, user, connection);
+  if (!role) {
+    throw new Error('Access denied: only the seller or an admin can manage this return');
+  }
+
+  const from = returnRequest.status as ReturnStatus;
+  if (!isReturnStatus(from) || !RETURN_LIFECYCLE[from].includes(to)) {
+    throw new InvalidReturnTransitionError(from, to);
+  }
+
+  const updates: Partial<Pick<ReturnRequest, 'resolution_note' | 'refund_id' | 'restocked'>> = {};
+  if (options.note) {
+    updates.resolution_note = options.note;
+  }
+
+  // Inspection refunds the returned items and puts them back into stock
+  if (to === 'inspected') {
+    const { refund } = await refundOrder(
+      returnRequest.order_id,
+      user,
+      {
+        items: returnRequest.items.map(item => ({ orderItemId: item.order_item_id, quantity: item.quantity })),
+        reason: `Return: ${returnRequest.reason}`,
+        ...(options.refundAmount !== undefined && { amount: options.refundAmount }),
+        ...(options.restock !== undefined && { restock: options.restock }),
+      },
+      { connection }
+    );
+
+    updates.refund_id = refund.id;
+    updates.restocked = options.restock ? 1 : 0;
+  }
+
+  const updated = await returnDAO.updateStatus(
+    returnId,
+    to,
+    STATUS_TIMESTAMPS[to] ?? null,
+    updates,
+    connection
+  );
+
+  if (!updated) {
+    throw new Error('Failed to update return status');
+  }
+
+  logger.info({ returnId, orderId: returnRequest.order_id, from, to, userId: user.userId, role }, 'Return status changed');
+
+  return { ...updated, items: returnRequest.items };
+}
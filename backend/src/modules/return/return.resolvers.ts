@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import { ReturnDAO, ReturnWithItems } from './return.dao';
+import { ReturnStatus, requestReturn, resolveReturnRole, transitionReturn } from './return.lifecycle';
+import { GraphQLContext, requireAuth } from '../../lib/context';
+import { withIdempotency } from '../../lib/idempotency';
+import { logger } from '../../lib/logger';
+
+const returnDAO = new ReturnDAO();
+
+// Validation schemas
+const RequestReturnInputSchema = z.object({
+  orderId: z.string().min(1, 'Order ID is required'),
+  items: z.array(z.object({
+    orderItemId: z.string().min(1, 'Order item ID is required'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+  })).min(1, 'At least one item is required'),
+  reason: z.string().min(1, 'Return reason is required').max(500, 'Return reason is too long'),
+});
+
+const NoteSchema = z.string().max(500, 'Note is too long').optional();
+
+// Helper functions to transform database objects to GraphQL objects
+function transformReturnRequest(returnRequest: ReturnWithItems): any {
+  return {
+    id: returnRequest.id,
+    orderId: returnRequest.order_id,
+    status: returnRequest.status.toUpperCase(),
+    reason: returnRequest.reason,
+    resolutionNote: returnRequest.resolution_note,
+    items: returnRequest.items.map(item => ({
+      orderItemId: item.order_item_id,
+      quantity: item.quantity,
+    })),
+    restocked: Boolean(returnRequest.restocked),
+    refund_id: returnRequest.refund_id,
+    approvedAt: returnRequest.approved_at,
+    rejectedAt: returnRequest.rejected_at,
+    receivedAt: returnRequest.received_at,
+    inspectedAt: returnRequest.inspected_at,
+    createdAt: returnRequest.created_at,
+    updatedAt: returnRequest.updated_at,
+  };
+}
+
+async function changeReturnStatus(
+  id: string,
+  status: ReturnStatus,
+  context: GraphQLContext,
+  options: { note?: string | undefined; restock?: boolean; refundAmount?: number | undefined } = {}
+): Promise<any> {
+  const user = requireAuth(context);
+  const note = NoteSchema.parse(options.note);
+
+  const returnRequest = await transitionReturn(id, status, user, {
+    ...(note && { note }),
+    ...(options.restock !== undefined && { restock: options.restock }),
+    ...(options.refundAmount !== undefined && { refundAmount: options.refundAmount }),
+  });
+
+  return transformReturnRequest(returnRequest);
+}
+
+export const returnResolvers = {
+  Query: {
+    returnRequest: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+
+        const returnRequest = await returnDAO.findById(id);
+        if (!returnRequest) {
+          return null;
+        }
+
+        // The buyer, the seller of the items or an admin
+        if (returnRequest.user_id !== user.userId && !(await resolveReturnRole(returnRequest, user))) {
+          throw new Error('Access denied');
+        }
+
+        return transformReturnRequest(returnRequest);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to get return request');
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    requestReturn: async (_: any, { input }: { input: any }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const { orderId, items, reason } = RequestReturnInputSchema.parse(input);
+
+        const returnRequest = await requestReturn(orderId, user, { items, reason });
+
+        return transformReturnRequest(returnRequest);
+      } catch (error) {
+        logger.error({ error, orderId: input?.orderId }, 'Failed to request return');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    approveReturn: async (_: any, { id, note }: { id: string; note?: string }, context: GraphQLContext) => {
+      try {
+        return await changeReturnStatus(id, 'approved', context, { note });
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to approve return');
+        throw error;
+      }
+    },
+
+    rejectReturn: async (_: any, { id, note }: { id: string; note: string }, context: GraphQLContext) => {
+      try {
+        return await changeReturnStatus(id, 'rejected', context, { note });
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to reject return');
+        throw error;
+      }
+    },
+
+    markReturnReceived: async (_: any, { id, note }: { id: string; note?: string }, context: GraphQLContext) => {
+      try {
+        return await changeReturnStatus(id, 'received', context, { note });
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to mark return received');
+        throw error;
+      }
+    },
+
+    inspectReturn: async (_: any, args: any, context: GraphQLContext) => {
+      const { id, restock, refundAmount, note } = args;
+
+      try {
+        // Inspection issues the refund, so a retry must not act twice
+        return await withIdempotency(context, 'inspectReturn', args, () =>
+          changeReturnStatus(id, 'inspected', context, { note, restock, refundAmount })
+        );
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to inspect return');
+        throw error;
+      }
+    },
+  },
+
+  Order: {
+    returns: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const returns = await context.loaders.returnsByOrder.load(parent.id);
+        return returns.map(transformReturnRequest);
+      } catch (error) {
+        logger.error({ error, orderId: parent.id }, 'Failed to load order returns');
+        return [];
+      }
+    },
+  },
+
+  ReturnRequest: {
+    refund: async (parent: any, __: any, context: GraphQLContext) => {
+      if (!parent.refund_id) {
+        return null;
+      }
+
+      try {
+        const refunds = await context.loaders.refundsByOrder.load(parent.orderId);
+        const refund = refunds.find((candidate: any) => candidate.id === parent.refund_id);
+        return refund ? {
+          id: refund.id,
+          amount: refund.amount,
+          reason: refund.reason,
+          restocked: Boolean(refund.restocked),
+          actor_id: refund.actor_id,
+          items: refund.items.map((item: any) => ({
+            orderItemId: item.order_item_id,
+            quantity: item.quantity,
+          })),
+          createdAt: refund.created_at,
+        } : null;
+      } catch (error) {
+        logger.error({ error, returnId: parent.id }, 'Failed to load return refund');
+        return null;
+      }
+    },
+  },
+};
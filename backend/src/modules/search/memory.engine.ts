@@ -0,0 +1,197 @@
+import {
+  FIELD_BOOSTS,
+  SEARCH_FIELDS,
+  SearchDocument,
+  SearchEngine,
+  SearchField,
+  SearchHit,
+  editDistance,
+  maxEdits,
+  splitWords,
+  stem,
+  tokenize,
+} from './search.engine';
+
+// How much a query term is worth when it matches an indexed term exactly, as
+// the start of a longer one ("phon" in "phone") or with a typo
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const FUZZY_MATCH = 0.5;
+
+type FieldCounts = Partial<Record<SearchField, number>>;
+
+// How well a query term matches an indexed term, 0 for not at all. Prefix
+// matches are worth more the more of the term they cover.
+function matchWeight(queryTerm: string, term: string): number {
+  if (term === queryTerm) return EXACT_MATCH;
+
+  if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+    return PREFIX_MATCH * (queryTerm.length / term.length);
+  }
+
+  const edits = maxEdits(queryTerm);
+  if (edits > 0 && Math.abs(term.length - queryTerm.length) <= edits && editDistance(queryTerm, term) <= edits) {
+    return FUZZY_MATCH;
+  }
+
+  return 0;
+}
+
+// Boosted occurrences of a term in a product, with repeats counting less
+// than the first
+function fieldScore(counts: FieldCounts): number {
+  return SEARCH_FIELDS.reduce((score, field) => {
+    const count = counts[field] || 0;
+    return count > 0 ? score + FIELD_BOOSTS[field] * (1 + Math.log(count)) : score;
+  }, 0);
+}
+
+// Inverted index held in process memory, for development and tests. It
+// starts empty and only sees the writes of its own process, so each API
+// instance has to load the products table when it starts.
+export class InMemorySearchEngine implements SearchEngine {
+  readonly name = 'memory';
+  readonly persistent = false;
+
+  // Term, then product id, then occurrences per field
+  private postings = new Map<string, Map<string, FieldCounts>>();
+  // Terms of each product, to take it out of the index again
+  private documentTerms = new Map<string, Set<string>>();
+
+  async index(documents: SearchDocument[]): Promise<void> {
+    for (const document of documents) {
+      this.removeDocument(document.id);
+
+      const terms = new Set<string>();
+      for (const field of SEARCH_FIELDS) {
+        for (const term of tokenize(document[field])) {
+          let documentsWithTerm = this.postings.get(term);
+          if (!documentsWithTerm) {
+            documentsWithTerm = new Map();
+            this.postings.set(term, documentsWithTerm);
+          }
+
+          const counts = documentsWithTerm.get(document.id) || {};
+          counts[field] = (counts[field] || 0) + 1;
+          documentsWithTerm.set(document.id, counts);
+          terms.add(term);
+        }
+      }
+
+      this.documentTerms.set(document.id, terms);
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach(id => this.removeDocument(id));
+  }
+
+  // Products must match every query term. Each term adds the score of its
+  // best match in the product, weighted by how rare the matched term is.
+  async search(query: string, limit: number): Promise<SearchHit[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const queryTerm of queryTerms) {
+      const termScores = this.scoreTerm(queryTerm);
+
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        for (const [id, score] of scores) {
+          const termScore = termScores.get(id);
+          if (termScore === undefined) {
+            scores.delete(id);
+          } else {
+            scores.set(id, score + termScore);
+          }
+        }
+      }
+    }
+
+    return [...scores!]
+      .map(([id, score]) => ({ id, score: Math.round(score * 1000) / 1000 }))
+      .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : 1))
+      .slice(0, limit);
+  }
+
+  async correct(query: string): Promise<string | null> {
+    const words = splitWords(query);
+    let corrected = false;
+
+    const correctedWords = words.map((word, index) => {
+      const term = stem(word);
+      const isLast = index === words.length - 1;
+      if (this.postings.has(term) || (isLast && this.hasTermStartingWith(term))) {
+        return word;
+      }
+
+      const correction = this.closestTerm(word);
+      if (correction) corrected = true;
+      return correction || word;
+    });
+
+    return corrected ? correctedWords.join(' ') : null;
+  }
+
+  private hasTermStartingWith(prefix: string): boolean {
+    for (const term of this.postings.keys()) {
+      if (term.startsWith(prefix)) return true;
+    }
+    return false;
+  }
+
+  // Fewest edits away from the word as typed, then in the most products
+  private closestTerm(word: string): string | null {
+    const edits = maxEdits(word);
+    let best: { term: string; distance: number; documents: number } | null = null;
+
+    for (const [term, documentsWithTerm] of this.postings) {
+      if (edits === 0 || Math.abs(term.length - word.length) > edits) continue;
+
+      const distance = editDistance(word, term);
+      if (distance > edits) continue;
+
+      if (!best || distance < best.distance || (distance === best.distance && documentsWithTerm.size > best.documents)) {
+        best = { term, distance, documents: documentsWithTerm.size };
+      }
+    }
+
+    return best?.term ?? null;
+  }
+
+  private scoreTerm(queryTerm: string): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    for (const [term, documentsWithTerm] of this.postings) {
+      const weight = matchWeight(queryTerm, term);
+      if (weight === 0) continue;
+
+      const rarity = Math.log(1 + this.documentTerms.size / documentsWithTerm.size);
+      for (const [id, counts] of documentsWithTerm) {
+        const score = weight * rarity * fieldScore(counts);
+        if (score > (scores.get(id) || 0)) {
+          scores.set(id, score);
+        }
+      }
+    }
+
+    return scores;
+  }
+
+  private removeDocument(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const documentsWithTerm = this.postings.get(term);
+      documentsWithTerm?.delete(id);
+      if (documentsWithTerm?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documentTerms.delete(id);
+  }
+}
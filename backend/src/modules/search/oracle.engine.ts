@@ -0,0 +1,146 @@
+import { databaseService } from '../../lib/database';
+import { logger } from '../../lib/logger';
+import {
+  FIELD_BOOSTS,
+  SEARCH_FIELDS,
+  SearchDocument,
+  SearchEngine,
+  SearchHit,
+  maxEdits,
+  splitWords,
+  tokenize,
+} from './search.engine';
+
+// Oracle Text operators. As query terms they are escaped with braces, which
+// also turns off wildcards, so they only match exactly.
+const RESERVED_WORDS = new Set([
+  'about', 'accum', 'and', 'bt', 'btg', 'bti', 'btp', 'equiv', 'fuzzy', 'haspath', 'inpath',
+  'minus', 'near', 'not', 'nt', 'ntg', 'nti', 'ntp', 'or', 'pt', 'rt', 'sqe', 'syn', 'tr',
+  'trsyn', 'tt', 'within',
+]);
+
+// Exact, prefix and (for longer terms) fuzzy matches of one query term, with
+// exact matches worth the most
+function termExpression(term: string): string {
+  if (RESERVED_WORDS.has(term)) {
+    return `{${term}}`;
+  }
+
+  const expressions = [term];
+  if (term.length >= 2) {
+    expressions.push(`(${term}%)*0.7`);
+  }
+  if (maxEdits(term) > 0) {
+    expressions.push(`(?${term})*0.5`);
+  }
+
+  return expressions.join(' ACCUM ');
+}
+
+// CONTAINS query that needs every term somewhere in the product, scored by
+// the field it was found in. Terms come from the tokenizer, so they are plain
+// letters and digits and cannot carry operators of their own.
+export function buildContainsQuery(terms: string[]): string {
+  return terms
+    .map(term => {
+      const expression = termExpression(term);
+      const sections = SEARCH_FIELDS.map(field => `((${expression}) WITHIN ${field})*${FIELD_BOOSTS[field]}`);
+      return `(${sections.join(' ACCUM ')})`;
+    })
+    .join(' AND ');
+}
+
+// Searches the CONTEXT index on products (see db/init.sql), which syncs when
+// product writes commit. Inserts and deletes need nothing more.
+export class OracleTextSearchEngine implements SearchEngine {
+  readonly name = 'oracle_text';
+  readonly persistent = true;
+
+  // The index only notices updates to the column it is on, so a change to
+  // the brand or description alone is marked by touching the name
+  async index(documents: SearchDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    const ids = documents.map(document => document.id);
+    try {
+      await databaseService.executeQuery('UPDATE products SET name = name WHERE id IN (:ids)', { ids });
+    } catch (error) {
+      logger.error({ error, ids }, 'Failed to mark products for Oracle Text sync');
+      throw error;
+    }
+  }
+
+  async remove(): Promise<void> {}
+
+  // Looks words up in the index's token table, where they are stored in
+  // uppercase, without accents and unstemmed. Any word that starts a stored
+  // one counts as known, as "phone" does for PHONES.
+  async correct(query: string): Promise<string | null> {
+    const words = splitWords(query);
+    let corrected = false;
+
+    try {
+      const correctedWords = [];
+      for (const word of words) {
+        const known = await databaseService.executeQuery<{ count: number }>(
+          `SELECT COUNT(*) as count FROM DR$IDX_PRODUCTS_SEARCH$I
+           WHERE token_type = 0 AND token_text LIKE :prefix`,
+          { prefix: `${word.toUpperCase()}%` }
+        );
+        const edits = maxEdits(word);
+        if ((known.rows?.[0]?.count || 0) > 0 || edits === 0) {
+          correctedWords.push(word);
+          continue;
+        }
+
+        // Typos rarely change the first letter, which keeps the scan short
+        const closest = await databaseService.executeQuery<{ token: string }>(
+          `SELECT token_text as token FROM DR$IDX_PRODUCTS_SEARCH$I
+           WHERE token_type = 0
+           AND token_text LIKE :firstLetter
+           AND LENGTH(token_text) BETWEEN :minLength AND :maxLength
+           AND UTL_MATCH.EDIT_DISTANCE(token_text, :term) <= :edits
+           GROUP BY token_text
+           ORDER BY MIN(UTL_MATCH.EDIT_DISTANCE(token_text, :term)), SUM(token_count) DESC
+           FETCH FIRST 1 ROWS ONLY`,
+          {
+            firstLetter: `${word[0]!.toUpperCase()}%`,
+            minLength: word.length - edits,
+            maxLength: word.length + edits,
+            term: word.toUpperCase(),
+            edits,
+          }
+        );
+
+        const correction = closest.rows?.[0]?.token?.toLowerCase();
+        if (correction) corrected = true;
+        correctedWords.push(correction || word);
+      }
+
+      return corrected ? correctedWords.join(' ') : null;
+    } catch (error) {
+      logger.error({ error, query }, 'Oracle Text correction failed');
+      throw error;
+    }
+  }
+
+  async search(query: string, limit: number): Promise<SearchHit[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<{ id: string; score: number }>(
+        `SELECT id, SCORE(1) as score FROM products
+         WHERE CONTAINS(name, :query, 1) > 0
+         ORDER BY SCORE(1) DESC, id
+         FETCH FIRST :limit ROWS ONLY`,
+        { query: buildContainsQuery(terms), limit }
+      );
+
+      return (result.rows || []).map(row => ({ id: row.id, score: row.score }));
+    } catch (error) {
+      logger.error({ error, query }, 'Oracle Text search failed');
+      throw error;
+    }
+  }
+}
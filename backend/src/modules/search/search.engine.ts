@@ -0,0 +1,106 @@
+// Product text the search engine indexes
+export interface SearchDocument {
+  id: string;
+  name: string;
+  brand?: string | null | undefined;
+  description?: string | null | undefined;
+}
+
+export type SearchField = 'name' | 'brand' | 'description';
+
+export const SEARCH_FIELDS: SearchField[] = ['name', 'brand', 'description'];
+
+// A term found in the name counts three times as much as one in the description
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  name: 3,
+  brand: 2,
+  description: 1,
+};
+
+export interface SearchHit {
+  id: string;
+  // Only comparable with other hits of the same search
+  score: number;
+}
+
+// Finds the products that match every term of a query, best first. index
+// and remove are called after product writes.
+export interface SearchEngine {
+  readonly name: string;
+  // Keeps its index across restarts; other engines are loaded from the
+  // products table when the API starts
+  readonly persistent: boolean;
+  // Adds products, replacing any already indexed under the same id
+  index(documents: SearchDocument[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  search(query: string, limit: number): Promise<SearchHit[]>;
+  // The query's words with each unknown one replaced by the closest indexed
+  // term, or null when every word is known. The last word counts as known
+  // when an indexed term starts with it, since it may still be being typed.
+  correct(query: string): Promise<string | null>;
+}
+
+// Lowercase and without accents, so "Café" and "cafe" are the same term
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Light plural stemming for English and Portuguese: "phones" and "phone",
+// "boxes" and "box", "luzes" and "luz" index as the same term
+export function stem(term: string): string {
+  if (term.length <= 3 || /\d/.test(term)) return term;
+  if (term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (/(x|z|ch|sh)es$/.test(term)) return term.slice(0, -2);
+  if (term.endsWith('s') && !/(ss|us|is)$/.test(term)) return term.slice(0, -1);
+  return term;
+}
+
+// Words as typed, only normalized
+export function splitWords(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0);
+}
+
+export function tokenize(text: string | null | undefined): string[] {
+  return splitWords(text).map(stem);
+}
+
+// Typos tolerated in a term: none in short terms, where one letter changes
+// the word, and up to two in long ones
+export function maxEdits(term: string): number {
+  if (term.length >= 9) return 2;
+  if (term.length >= 5) return 1;
+  return 0;
+}
+
+// Edits (insertions, deletions, substitutions and swaps of neighbouring
+// letters) that turn one term into the other
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+  }
+  for (let j = 0; j <= b.length; j++) {
+    rows[0]![j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        rows[i - 1]![j]! + 1,
+        rows[i]![j - 1]! + 1,
+        rows[i - 1]![j - 1]! + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, rows[i - 2]![j - 2]! + 1);
+      }
+      rows[i]![j] = distance;
+    }
+  }
+
+  return rows[a.length]![b.length]!;
+}
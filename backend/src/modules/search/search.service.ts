@@ -0,0 +1,108 @@
+import { SearchDocument, SearchEngine, SearchHit } from './search.engine';
+import { InMemorySearchEngine } from './memory.engine';
+import { OracleTextSearchEngine } from './oracle.engine';
+import { Product, ProductDAO } from '../product/product.dao';
+import { logger } from '../../lib/logger';
+
+const productDAO = new ProductDAO();
+
+// Most hits a search returns. Listings filter and sort within them, and the
+// ids go into an IN list, which Oracle caps at 1000 items.
+export const MAX_SEARCH_HITS = 1000;
+
+const REINDEX_BATCH_SIZE = 500;
+
+// Picks the search engine from SEARCH_ENGINE. The in-process index is for
+// development and tests; oracle_text uses the CONTEXT index in the database.
+export function createSearchEngine(name = process.env.SEARCH_ENGINE || 'memory'): SearchEngine {
+  switch (name) {
+    case 'memory':
+      return new InMemorySearchEngine();
+    case 'oracle_text':
+      return new OracleTextSearchEngine();
+    default:
+      logger.warn({ engine: name }, 'Unknown search engine, using in-memory index');
+      return new InMemorySearchEngine();
+  }
+}
+
+function toSearchDocument(product: Product): SearchDocument {
+  return {
+    id: product.id,
+    name: product.name,
+    brand: product.brand,
+    description: product.description,
+  };
+}
+
+// Ranks products for a search term and keeps the engine in step with product
+// writes. A failed index write is logged rather than failing the product write;
+// the product is picked up again on the next reindex.
+export class SearchService {
+  constructor(private readonly engine: SearchEngine = createSearchEngine()) {}
+
+  // Products matching every term of the query, best first
+  async search(query: string): Promise<SearchHit[]> {
+    return this.engine.search(query, MAX_SEARCH_HITS);
+  }
+
+  // Best matches for a query that is still being typed
+  async complete(prefix: string, limit: number): Promise<SearchHit[]> {
+    return this.engine.search(prefix, limit);
+  }
+
+  // The query with its misspelt terms corrected, or null when none are
+  async correct(query: string): Promise<string | null> {
+    return this.engine.correct(query);
+  }
+
+  async indexProduct(product: Product): Promise<void> {
+    try {
+      await this.engine.index([toSearchDocument(product)]);
+    } catch (error) {
+      logger.error({ error, engine: this.engine.name, productId: product.id }, 'Failed to index product');
+    }
+  }
+
+  async removeProduct(id: string): Promise<void> {
+    try {
+      await this.engine.remove([id]);
+    } catch (error) {
+      logger.error({ error, engine: this.engine.name, productId: id }, 'Failed to remove product from search index');
+    }
+  }
+
+  // Loads every product into the index. Returns how many were indexed.
+  async reindex(): Promise<number> {
+    let indexed = 0;
+    let afterId: string | null = null;
+
+    for (;;) {
+      const products: Product[] = await productDAO.findBatchAfter(afterId, REINDEX_BATCH_SIZE);
+      if (products.length === 0) break;
+
+      await this.engine.index(products.map(toSearchDocument));
+      indexed += products.length;
+      afterId = products[products.length - 1]!.id;
+
+      if (products.length < REINDEX_BATCH_SIZE) break;
+    }
+
+    logger.info({ engine: this.engine.name, indexed }, 'Search index loaded');
+    return indexed;
+  }
+
+  // In-process indexes start empty and are loaded from the products table;
+  // persistent ones already hold every product
+  async start(): Promise<void> {
+    if (this.engine.persistent) return;
+
+    try {
+      await this.reindex();
+    } catch (error) {
+      logger.error({ error, engine: this.engine.name }, 'Failed to load search index');
+    }
+  }
+}
+
+export const searchService = new SearchService();
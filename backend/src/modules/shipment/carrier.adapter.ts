@@ -0,0 +1,35 @@
+// Status of a parcel as reported by the carrier
+export type TrackingStatus =
+  | 'info_received'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception';
+
+export const TRACKING_STATUSES: TrackingStatus[] = [
+  'info_received',
+  'in_transit',
+  'out_for_delivery',
+  'delivered',
+  'exception',
+];
+
+export interface CarrierTrackingEvent {
+  status: TrackingStatus;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+}
+
+export interface TrackingRequest {
+  carrier: string;
+  trackingNumber: string;
+  shippedAt: Date;
+}
+
+// Fetches a parcel's tracking history from the carrier, oldest first. The
+// adapter may return events that were already ingested.
+export interface CarrierAdapter {
+  readonly name: string;
+  track(request: TrackingRequest): Promise<CarrierTrackingEvent[]>;
+}
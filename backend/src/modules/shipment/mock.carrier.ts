@@ -0,0 +1,51 @@
+import { CarrierAdapter, CarrierTrackingEvent, TrackingRequest, TrackingStatus } from './carrier.adapter';
+
+const HOUR = 60 * 60 * 1000;
+
+// Scripted journey, in hours after the parcel was shipped
+const JOURNEY: { after: number; status: TrackingStatus; description: string; location: string }[] = [
+  { after: 0, status: 'info_received', description: 'Shipping label created', location: 'Origin facility' },
+  { after: 2, status: 'in_transit', description: 'Picked up by carrier', location: 'Origin facility' },
+  { after: 12, status: 'in_transit', description: 'Arrived at sorting hub', location: 'Regional hub' },
+  { after: 24, status: 'out_for_delivery', description: 'Out for delivery', location: 'Destination depot' },
+  { after: 28, status: 'delivered', description: 'Delivered', location: 'Destination' },
+];
+
+// Deterministic in-process carrier for development and tests. It keeps no
+// state: a parcel moves along a fixed journey as time passes since it was
+// shipped. Tracking numbers starting with "EXC" stop with an exception at the
+// sorting hub.
+export class MockCarrierAdapter implements CarrierAdapter {
+  readonly name = 'mock';
+
+  async track(request: TrackingRequest): Promise<CarrierTrackingEvent[]> {
+    const shippedAt = request.shippedAt.getTime();
+    const now = Date.now();
+    const failing = request.trackingNumber.toUpperCase().startsWith('EXC');
+
+    const events: CarrierTrackingEvent[] = [];
+    for (const step of JOURNEY) {
+      const occurredAt = shippedAt + step.after * HOUR;
+      if (occurredAt > now) break;
+
+      if (failing && step.status === 'out_for_delivery') {
+        events.push({
+          status: 'exception',
+          description: 'Address could not be verified',
+          location: 'Regional hub',
+          occurredAt: new Date(occurredAt),
+        });
+        break;
+      }
+
+      events.push({
+        status: step.status,
+        description: step.description,
+        location: step.location,
+        occurredAt: new Date(occurredAt),
+      });
+    }
+
+    return events;
+  }
+}
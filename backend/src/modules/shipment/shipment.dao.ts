@@ -0,0 +1,173 @@
+import oracledb from 'oracledb';
+import { databaseService } from '@/lib/database';
+import { logger } from '@/lib/logger';
+import { TrackingStatus } from './carrier.adapter';
+
+// A parcel handed to a carrier for one seller's fulfillment
+export interface Shipment {
+  id: string;
+  order_id: string;
+  fulfillment_id: string;
+  carrier: string;
+  tracking_number: string;
+  // Status of the latest tracking event
+  status: TrackingStatus;
+  shipped_at: string;
+  delivered_at?: string | null;
+  last_synced_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TrackingEvent {
+  id: string;
+  shipment_id: string;
+  status: TrackingStatus;
+  description: string;
+  location?: string | null;
+  occurred_at: string;
+  created_at: string;
+}
+
+export class ShipmentDAO {
+  async findById(id: string): Promise<Shipment | null> {
+    try {
+      const result = await databaseService.executeQuery<Shipment>(
+        'SELECT * FROM shipments WHERE id = :id',
+        { id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to find shipment by ID');
+      throw error;
+    }
+  }
+
+  async findByIdForUpdate(id: string, connection: oracledb.Connection): Promise<Shipment | null> {
+    try {
+      const result = await databaseService.executeOn<Shipment>(
+        connection,
+        'SELECT * FROM shipments WHERE id = :id FOR UPDATE',
+        { id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to lock shipment by ID');
+      throw error;
+    }
+  }
+
+  async findByOrders(orderIds: string[]): Promise<Shipment[]> {
+    if (orderIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<Shipment>(
+        'SELECT * FROM shipments WHERE order_id IN (:orderIds) ORDER BY created_at ASC',
+        { orderIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, orderIds }, 'Failed to find shipments by orders');
+      throw error;
+    }
+  }
+
+  async create(
+    shipmentData: Pick<Shipment, 'order_id' | 'fulfillment_id' | 'carrier' | 'tracking_number'>,
+    connection?: oracledb.Connection
+  ): Promise<Shipment> {
+    try {
+      const result = await databaseService.executeOn<Shipment>(
+        connection,
+        `INSERT INTO shipments (id, order_id, fulfillment_id, carrier, tracking_number, status, shipped_at)
+         VALUES (SYS_GUID(), :order_id, :fulfillment_id, :carrier, :tracking_number, 'info_received', CURRENT_TIMESTAMP)
+         RETURNING *`,
+        shipmentData
+      );
+
+      return result.rows?.[0]!;
+    } catch (error) {
+      logger.error({ error, shipmentData }, 'Failed to create shipment');
+      throw error;
+    }
+  }
+
+  async update(
+    id: string,
+    updates: { status?: TrackingStatus; delivered_at?: Date; last_synced_at?: Date },
+    connection?: oracledb.Connection
+  ): Promise<Shipment | null> {
+    try {
+      const setClause = Object.keys(updates)
+        .map(key => `${key} = :${key}`)
+        .join(', ');
+
+      const result = await databaseService.executeOn<Shipment>(
+        connection,
+        `UPDATE shipments SET ${setClause}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { ...updates, id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id, updates }, 'Failed to update shipment');
+      throw error;
+    }
+  }
+
+  // Tracking events, oldest first
+  async findEvents(shipmentId: string, connection?: oracledb.Connection): Promise<TrackingEvent[]> {
+    try {
+      const result = await databaseService.executeOn<TrackingEvent>(
+        connection,
+        'SELECT * FROM shipment_tracking_events WHERE shipment_id = :shipmentId ORDER BY occurred_at ASC',
+        { shipmentId }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, shipmentId }, 'Failed to find tracking events');
+      throw error;
+    }
+  }
+
+  async findEventsByShipments(shipmentIds: string[]): Promise<TrackingEvent[]> {
+    if (shipmentIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeQuery<TrackingEvent>(
+        'SELECT * FROM shipment_tracking_events WHERE shipment_id IN (:shipmentIds) ORDER BY occurred_at ASC',
+        { shipmentIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, shipmentIds }, 'Failed to find tracking events by shipments');
+      throw error;
+    }
+  }
+
+  async createEvent(
+    eventData: Omit<TrackingEvent, 'id' | 'occurred_at' | 'created_at'> & { occurred_at: Date },
+    connection?: oracledb.Connection
+  ): Promise<TrackingEvent> {
+    try {
+      const result = await databaseService.executeOn<TrackingEvent>(
+        connection,
+        `INSERT INTO shipment_tracking_events (id, shipment_id, status, description, location, occurred_at)
+         VALUES (SYS_GUID(), :shipment_id, :status, :description, :location, :occurred_at)
+         RETURNING *`,
+        { location: null, ...eventData }
+      );
+
+      return result.rows?.[0]!;
+    } catch (error) {
+      logger.error({ error, shipmentId: eventData.shipment_id }, 'Failed to create tracking event');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { ShipmentDAO, Shipment, TrackingEvent } from './shipment.dao';
+import { TRACKING_STATUSES, TrackingStatus } from './carrier.adapter';
+import { IngestResult, shipmentService } from './shipment.service';
+import { OrderDAO } from '../order/order.dao';
+import { publishOrderStatusChanged } from '../order/order.lifecycle';
+import { JWTPayload } from '../../lib/auth';
+import { GraphQLContext, requireAdmin, requireAuth } from '../../lib/context';
+import { logger } from '../../lib/logger';
+
+const shipmentDAO = new ShipmentDAO();
+const orderDAO = new OrderDAO();
+
+// Validation schemas
+const TrackingEventInputSchema = z.object({
+  status: z.string().transform(status => status.toLowerCase()).refine(
+    (status): status is TrackingStatus => TRACKING_STATUSES.includes(status as TrackingStatus),
+    'Invalid tracking status'
+  ),
+  description: z.string().trim().min(1, 'Description is required').max(255, 'Description is too long'),
+  location: z.string().max(255, 'Location is too long').optional(),
+  occurredAt: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid event date'),
+});
+
+const IngestTrackingEventsInputSchema = z.array(TrackingEventInputSchema)
+  .min(1, 'At least one event is required')
+  .max(100, 'Too many events');
+
+// Helper functions to transform database objects to GraphQL objects
+function transformShipment(shipment: Shipment): any {
+  return {
+    id: shipment.id,
+    orderId: shipment.order_id,
+    fulfillmentId: shipment.fulfillment_id,
+    carrier: shipment.carrier,
+    trackingNumber: shipment.tracking_number,
+    status: shipment.status.toUpperCase(),
+    shippedAt: shipment.shipped_at,
+    deliveredAt: shipment.delivered_at,
+    lastSyncedAt: shipment.last_synced_at,
+    createdAt: shipment.created_at,
+    updatedAt: shipment.updated_at,
+  };
+}
+
+function transformTrackingEvent(event: TrackingEvent): any {
+  return {
+    id: event.id,
+    status: event.status.toUpperCase(),
+    description: event.description,
+    location: event.location,
+    occurredAt: event.occurred_at,
+  };
+}
+
+// The buyer, the seller shipping the parcel or an admin
+async function canAccessShipment(shipment: Shipment, user: JWTPayload): Promise<boolean> {
+  if (user.isAdmin) {
+    return true;
+  }
+
+  const [order, fulfillment] = await Promise.all([
+    orderDAO.findById(shipment.order_id),
+    orderDAO.findFulfillmentById(shipment.fulfillment_id),
+  ]);
+
+  return order?.user_id === user.userId || fulfillment?.seller_id === user.userId;
+}
+
+async function publishDelivery({ order }: IngestResult): Promise<void> {
+  if (order) {
+    await publishOrderStatusChanged(order);
+  }
+}
+
+export const shipmentResolvers = {
+  Query: {
+    shipment: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+
+        const shipment = await shipmentDAO.findById(id);
+        if (!shipment) {
+          return null;
+        }
+
+        if (!(await canAccessShipment(shipment, user))) {
+          throw new Error('Access denied');
+        }
+
+        return transformShipment(shipment);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to get shipment');
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    syncShipmentTracking: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+
+        const shipment = await shipmentDAO.findById(id);
+        if (!shipment) {
+          throw new Error('Shipment not found');
+        }
+
+        if (!(await canAccessShipment(shipment, user))) {
+          throw new Error('Access denied');
+        }
+
+        const result = await shipmentService.sync(id);
+        await publishDelivery(result);
+
+        return transformShipment(result.shipment);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to sync shipment tracking');
+        throw error;
+      }
+    },
+
+    ingestTrackingEvents: async (
+      _: any,
+      { shipmentId, events }: { shipmentId: string; events: any[] },
+      context: GraphQLContext
+    ) => {
+      try {
+        requireAdmin(context);
+        const validatedEvents = IngestTrackingEventsInputSchema.parse(events);
+
+        const result = await shipmentService.ingest(
+          shipmentId,
+          validatedEvents.map(event => ({
+            status: event.status,
+            description: event.description,
+            occurredAt: new Date(event.occurredAt),
+            ...(event.location && { location: event.location }),
+          }))
+        );
+        await publishDelivery(result);
+
+        return transformShipment(result.shipment);
+      } catch (error) {
+        logger.error({ error, shipmentId }, 'Failed to ingest tracking events');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+  },
+
+  Order: {
+    shipments: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const shipments = await context.loaders.shipmentsByOrder.load(parent.id);
+        return shipments.map(transformShipment);
+      } catch (error) {
+        logger.error({ error, orderId: parent.id }, 'Failed to load order shipments');
+        return [];
+      }
+    },
+  },
+
+  Fulfillment: {
+    shipments: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const shipments = await context.loaders.shipmentsByOrder.load(parent.order_id);
+        return shipments
+          .filter((shipment: Shipment) => shipment.fulfillment_id === parent.id)
+          .map(transformShipment);
+      } catch (error) {
+        logger.error({ error, fulfillmentId: parent.id }, 'Failed to load fulfillment shipments');
+        return [];
+      }
+    },
+  },
+
+  Shipment: {
+    events: async (parent: any, __: any, context: GraphQLContext) => {
+      try {
+        const events = await context.loaders.trackingEventsByShipment.load(parent.id);
+        return events.map(transformTrackingEvent);
+      } catch (error) {
+        logger.error({ error, shipmentId: parent.id }, 'Failed to load tracking events');
+        return [];
+      }
+    },
+  },
+};
@@ -0,0 +1,140 @@
+import oracledb from 'oracledb';
+import { ShipmentDAO, Shipment, TrackingEvent } from './shipment.dao';
+import { CarrierAdapter, CarrierTrackingEvent, TrackingStatus } from './carrier.adapter';
+import { MockCarrierAdapter } from './mock.carrier';
+import { Order, OrderDAO } from '../order/order.dao';
+import { transitionFulfillment } from '../order/order.lifecycle';
+import { databaseService } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+const shipmentDAO = new ShipmentDAO();
+const orderDAO = new OrderDAO();
+
+// Picks the carrier integration from CARRIER_ADAPTER. Only the in-process
+// mock ships with the API; real carriers or tracking aggregators plug in here.
+export function createCarrierAdapter(name = process.env.CARRIER_ADAPTER || 'mock'): CarrierAdapter {
+  switch (name) {
+    case 'mock':
+      return new MockCarrierAdapter();
+    default:
+      logger.warn({ adapter: name }, 'Unknown carrier adapter, using mock carrier');
+      return new MockCarrierAdapter();
+  }
+}
+
+export interface IngestOptions {
+  // Set when the events come from a pull, to stamp last_synced_at
+  synced?: boolean;
+  connection?: oracledb.Connection;
+}
+
+export interface IngestResult {
+  shipment: Shipment;
+  // Set when a delivery moved the order along
+  order: Order | null;
+}
+
+// Events are matched on status and time, so a carrier can resend its whole
+// history without duplicating it
+function eventKey(status: TrackingStatus, occurredAt: Date | string): string {
+  return `${status}@${new Date(occurredAt).getTime()}`;
+}
+
+// Keeps shipments in step with the carrier. A delivered event marks the
+// fulfillment delivered on the platform's behalf.
+export class ShipmentService {
+  constructor(private adapter: CarrierAdapter = createCarrierAdapter()) {}
+
+  // Pulls the carrier's tracking history and ingests what is new
+  async sync(shipmentId: string): Promise<IngestResult> {
+    const shipment = await shipmentDAO.findById(shipmentId);
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+
+    const events = await this.adapter.track({
+      carrier: shipment.carrier,
+      trackingNumber: shipment.tracking_number,
+      shippedAt: new Date(shipment.shipped_at),
+    });
+
+    return this.ingest(shipmentId, events, { synced: true });
+  }
+
+  async ingest(shipmentId: string, events: CarrierTrackingEvent[], options: IngestOptions = {}): Promise<IngestResult> {
+    const { connection } = options;
+    if (!connection) {
+      return databaseService.executeTransaction((conn) =>
+        this.ingest(shipmentId, events, { ...options, connection: conn })
+      );
+    }
+
+    const shipment = await shipmentDAO.findByIdForUpdate(shipmentId, connection);
+    if (!shipment) {
+      throw new Error('Shipment not found');
+    }
+
+    const existing = await shipmentDAO.findEvents(shipmentId, connection);
+    const seen = new Set(existing.map(event => eventKey(event.status, event.occurred_at)));
+
+    const added: TrackingEvent[] = [];
+    const incoming = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+    for (const event of incoming) {
+      const key = eventKey(event.status, event.occurredAt);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      added.push(await shipmentDAO.createEvent(
+        {
+          shipment_id: shipmentId,
+          status: event.status,
+          description: event.description,
+          location: event.location ?? null,
+          occurred_at: event.occurredAt,
+        },
+        connection
+      ));
+    }
+
+    const history = [...existing, ...added]
+      .sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+    const latest = history[history.length - 1];
+    const delivery = shipment.delivered_at ? undefined : history.find(event => event.status === 'delivered');
+
+    const updates: { status?: TrackingStatus; delivered_at?: Date; last_synced_at?: Date } = {};
+    if (latest && latest.status !== shipment.status) {
+      updates.status = latest.status;
+    }
+    if (delivery) {
+      updates.delivered_at = new Date(delivery.occurred_at);
+    }
+    if (options.synced) {
+      updates.last_synced_at = new Date();
+    }
+
+    let updatedShipment = shipment;
+    if (Object.keys(updates).length > 0) {
+      updatedShipment = (await shipmentDAO.update(shipmentId, updates, connection)) ?? shipment;
+    }
+
+    let order: Order | null = null;
+    if (delivery) {
+      const fulfillment = await orderDAO.findFulfillmentById(shipment.fulfillment_id);
+      if (fulfillment?.status === 'shipped') {
+        ({ order } = await transitionFulfillment(fulfillment.id, 'delivered', null, {
+          reason: `Delivered by ${shipment.carrier}`,
+          connection,
+        }));
+      }
+    }
+
+    logger.info(
+      { shipmentId, orderId: shipment.order_id, added: added.length, status: updatedShipment.status },
+      'Tracking events ingested'
+    );
+
+    return { shipment: updatedShipment, order };
+  }
+}
+
+export const shipmentService = new ShipmentService();
@@ -0,0 +1,170 @@
+import oracledb from 'oracledb';
+import { databaseService } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+// 'flat' charges base_rate per parcel; 'weight' adds rate_per_kg for the
+// parcel's weight
+export type ShippingRateType = 'flat' | 'weight';
+
+// A delivery option a seller offers. Without zones it ships anywhere at its
+// own rates; with zones it ships only to them, at the zone's rates.
+export interface ShippingMethod {
+  id: string;
+  seller_id: string;
+  name: string;
+  carrier?: string | null;
+  rate_type: ShippingRateType;
+  base_rate: number;
+  rate_per_kg: number;
+  // Free when the seller's part of the order reaches this amount
+  free_over?: number | null;
+  min_days: number;
+  max_days: number;
+  is_active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A country, or one state in it. Rates and days left null fall back to the
+// method's.
+export interface ShippingZone {
+  id: string;
+  method_id: string;
+  country: string;
+  state?: string | null;
+  base_rate?: number | null;
+  rate_per_kg?: number | null;
+  min_days?: number | null;
+  max_days?: number | null;
+  created_at: string;
+}
+
+export type NewShippingMethod = Omit<ShippingMethod, 'id' | 'is_active' | 'created_at' | 'updated_at'>;
+export type NewShippingZone = Omit<ShippingZone, 'id' | 'method_id' | 'created_at'>;
+
+export class ShippingDAO {
+  async findById(id: string): Promise<ShippingMethod | null> {
+    try {
+      const result = await databaseService.executeQuery<ShippingMethod>(
+        'SELECT * FROM shipping_methods WHERE id = :id',
+        { id }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to find shipping method by ID');
+      throw error;
+    }
+  }
+
+  async findBySeller(sellerId: string): Promise<ShippingMethod[]> {
+    try {
+      const result = await databaseService.executeQuery<ShippingMethod>(
+        'SELECT * FROM shipping_methods WHERE seller_id = :sellerId ORDER BY created_at ASC',
+        { sellerId }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, sellerId }, 'Failed to find shipping methods');
+      throw error;
+    }
+  }
+
+  async findActiveBySellers(sellerIds: string[], connection?: oracledb.Connection): Promise<ShippingMethod[]> {
+    if (sellerIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeOn<ShippingMethod>(
+        connection,
+        `SELECT * FROM shipping_methods
+         WHERE seller_id IN (:sellerIds) AND is_active = 1
+         ORDER BY created_at ASC`,
+        { sellerIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, sellerIds }, 'Failed to find shipping methods by sellers');
+      throw error;
+    }
+  }
+
+  async findZonesByMethods(methodIds: string[], connection?: oracledb.Connection): Promise<ShippingZone[]> {
+    if (methodIds.length === 0) return [];
+
+    try {
+      const result = await databaseService.executeOn<ShippingZone>(
+        connection,
+        'SELECT * FROM shipping_zones WHERE method_id IN (:methodIds) ORDER BY created_at ASC',
+        { methodIds }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, methodIds }, 'Failed to find shipping zones');
+      throw error;
+    }
+  }
+
+  // Writes the method and its zones together
+  async create(
+    methodData: NewShippingMethod,
+    zones: NewShippingZone[]
+  ): Promise<{ method: ShippingMethod; zones: ShippingZone[] }> {
+    try {
+      return await databaseService.executeTransaction(async (connection) => {
+        const methodResult = await connection.execute<ShippingMethod>(
+          `INSERT INTO shipping_methods (
+            id, seller_id, name, carrier, rate_type, base_rate, rate_per_kg, free_over, min_days, max_days
+          ) VALUES (
+            SYS_GUID(), :seller_id, :name, :carrier, :rate_type, :base_rate, :rate_per_kg, :free_over, :min_days, :max_days
+          ) RETURNING *`,
+          { carrier: null, free_over: null, ...methodData }
+        );
+
+        const method = methodResult.rows?.[0]!;
+
+        const createdZones: ShippingZone[] = [];
+        for (const zone of zones) {
+          const zoneResult = await connection.execute<ShippingZone>(
+            `INSERT INTO shipping_zones (id, method_id, country, state, base_rate, rate_per_kg, min_days, max_days)
+             VALUES (SYS_GUID(), :method_id, UPPER(:country), UPPER(:state), :base_rate, :rate_per_kg, :min_days, :max_days)
+             RETURNING *`,
+            {
+              state: null,
+              base_rate: null,
+              rate_per_kg: null,
+              min_days: null,
+              max_days: null,
+              ...zone,
+              method_id: method.id,
+            }
+          );
+
+          createdZones.push(zoneResult.rows?.[0]!);
+        }
+
+        return { method, zones: createdZones };
+      });
+    } catch (error) {
+      logger.error({ error, sellerId: methodData.seller_id }, 'Failed to create shipping method');
+      throw error;
+    }
+  }
+
+  async setActive(id: string, isActive: boolean): Promise<ShippingMethod | null> {
+    try {
+      const result = await databaseService.executeQuery<ShippingMethod>(
+        `UPDATE shipping_methods SET is_active = :isActive, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { id, isActive: isActive ? 1 : 0 }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to update shipping method');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { ShippingMethod, ShippingZone } from './shipping.dao';
+import { roundAmount } from '../payment/payment.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface ShippingDestination {
+  country?: string | null | undefined;
+  state?: string | null | undefined;
+}
+
+// One seller's part of an order, as shipped in a single parcel
+export interface Parcel {
+  weightKg: number;
+  // What the buyer pays for the items, after discounts
+  amount: number;
+}
+
+export interface ShippingQuote {
+  // Null for the standard shipping of sellers without methods of their own
+  method_id: string | null;
+  name: string;
+  carrier?: string | null;
+  amount: number;
+  min_days: number;
+  max_days: number;
+}
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a || '').trim().toUpperCase() === (b || '').trim().toUpperCase();
+}
+
+// A zone for the destination's state wins over one for its whole country
+export function matchZone(zones: ShippingZone[], destination: ShippingDestination): ShippingZone | null {
+  const inCountry = zones.filter(zone => sameText(zone.country, destination.country));
+
+  return inCountry.find(zone => zone.state && sameText(zone.state, destination.state))
+    ?? inCountry.find(zone => !zone.state)
+    ?? null;
+}
+
+// What the method charges for the parcel, or null when it does not ship to
+// the destination
+export function quoteMethod(
+  method: ShippingMethod,
+  zones: ShippingZone[],
+  parcel: Parcel,
+  destination: ShippingDestination
+): ShippingQuote | null {
+  const zone = zones.length > 0 ? matchZone(zones, destination) : null;
+  if (zones.length > 0 && !zone) {
+    return null;
+  }
+
+  const baseRate = zone?.base_rate ?? method.base_rate;
+  const ratePerKg = zone?.rate_per_kg ?? method.rate_per_kg;
+
+  let amount = method.rate_type === 'weight' ? baseRate + ratePerKg * parcel.weightKg : baseRate;
+  if (method.free_over != null && parcel.amount >= method.free_over) {
+    amount = 0;
+  }
+
+  return {
+    method_id: method.id,
+    name: method.name,
+    carrier: method.carrier ?? null,
+    amount: roundAmount(amount),
+    min_days: zone?.min_days ?? method.min_days,
+    max_days: zone?.max_days ?? method.max_days,
+  };
+}
+
+// Offered for sellers who set up no shipping methods
+export function standardShipping(): ShippingQuote {
+  return {
+    method_id: null,
+    name: 'Standard shipping',
+    carrier: null,
+    amount: roundAmount(parseFloat(process.env.DEFAULT_SHIPPING_RATE || '0')),
+    min_days: 3,
+    max_days: 7,
+  };
+}
+
+// Calendar days from the given time
+export function estimateDelivery(quote: ShippingQuote, from = new Date()): { from: Date; to: Date } {
+  return {
+    from: new Date(from.getTime() + quote.min_days * DAY),
+    to: new Date(from.getTime() + quote.max_days * DAY),
+  };
+}
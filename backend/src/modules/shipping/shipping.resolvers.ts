@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import { ShippingDAO, ShippingMethod, ShippingZone } from './shipping.dao';
+import { ShippingQuote, estimateDelivery } from './shipping.rates';
+import { shippingService } from './shipping.service';
+import { toOrderLines } from '../order/order.pricing';
+import { promotionService } from '../promotion/promotion.service';
+import { roundAmount } from '../payment/payment.service';
+import { ProductDAO } from '../product/product.dao';
+import { UserDAO } from '../user/user.dao';
+import { addressService } from '../address/address.service';
+import { GraphQLContext, requireAuth } from '../../lib/context';
+import { logger } from '../../lib/logger';
+
+const shippingDAO = new ShippingDAO();
+const productDAO = new ProductDAO();
+const userDAO = new UserDAO();
+
+// Validation schemas
+const ShippingItemsSchema = z.array(z.object({
+  productId: z.string().uuid('Invalid product ID'),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+})).min(1, 'At least one item is required');
+
+const ShippingDestinationSchema = z.object({
+  country: z.string().trim().min(2, 'Country is required').max(100, 'Country is too long'),
+  state: z.string().trim().min(1).max(100, 'State is too long').optional(),
+});
+
+const rate = z.number().nonnegative('Rates cannot be negative');
+const days = z.number().int().nonnegative('Delivery days cannot be negative');
+
+const ShippingZoneInputSchema = z.object({
+  country: z.string().trim().min(2, 'Country is required').max(100, 'Country is too long'),
+  state: z.string().trim().min(1).max(100, 'State is too long').optional(),
+  baseRate: rate.optional(),
+  ratePerKg: rate.optional(),
+  minDays: days.optional(),
+  maxDays: days.optional(),
+});
+
+const CreateShippingMethodInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  carrier: z.string().trim().min(1).max(100, 'Carrier is too long').optional(),
+  rateType: z.enum(['FLAT', 'WEIGHT']),
+  baseRate: rate,
+  ratePerKg: rate.optional(),
+  freeOver: z.number().nonnegative('Free shipping threshold cannot be negative').optional(),
+  minDays: days,
+  maxDays: days,
+  zones: z.array(ShippingZoneInputSchema).optional(),
+  sellerId: z.string().uuid('Invalid seller ID').optional(),
+}).refine(
+  input => input.minDays <= input.maxDays,
+  'Minimum delivery days cannot exceed maximum delivery days'
+);
+
+// Helper functions to transform database objects to GraphQL objects
+function transformShippingZone(zone: ShippingZone): any {
+  return {
+    id: zone.id,
+    country: zone.country,
+    state: zone.state,
+    baseRate: zone.base_rate,
+    ratePerKg: zone.rate_per_kg,
+    minDays: zone.min_days,
+    maxDays: zone.max_days,
+  };
+}
+
+function transformShippingMethod(method: ShippingMethod, zones: ShippingZone[]): any {
+  return {
+    id: method.id,
+    seller_id: method.seller_id,
+    name: method.name,
+    carrier: method.carrier,
+    rateType: method.rate_type.toUpperCase(),
+    baseRate: method.base_rate,
+    ratePerKg: method.rate_per_kg,
+    freeOver: method.free_over,
+    minDays: method.min_days,
+    maxDays: method.max_days,
+    zones: zones.filter(zone => zone.method_id === method.id).map(transformShippingZone),
+    isActive: Boolean(method.is_active),
+    createdAt: method.created_at,
+    updatedAt: method.updated_at,
+  };
+}
+
+function transformShippingOption(quote: ShippingQuote, now: Date): any {
+  const delivery = estimateDelivery(quote, now);
+
+  return {
+    methodId: quote.method_id,
+    name: quote.name,
+    carrier: quote.carrier,
+    amount: quote.amount,
+    minDays: quote.min_days,
+    maxDays: quote.max_days,
+    estimatedDeliveryFrom: delivery.from.toISOString(),
+    estimatedDeliveryTo: delivery.to.toISOString(),
+  };
+}
+
+async function loadSeller(sellerId: string, context: GraphQLContext): Promise<any> {
+  try {
+    const seller = await context.loaders.userById.load(sellerId);
+    return seller ? {
+      id: seller.id,
+      email: seller.email,
+      firstName: seller.first_name,
+      lastName: seller.last_name,
+      isAdmin: Boolean(seller.is_admin),
+      isActive: Boolean(seller.is_active),
+      createdAt: seller.created_at,
+      updatedAt: seller.updated_at,
+    } : null;
+  } catch (error) {
+    logger.error({ error, sellerId }, 'Failed to load shipping seller');
+    return null;
+  }
+}
+
+export const shippingResolvers = {
+  Query: {
+    // Free-shipping thresholds count automatic promotions but not coupons,
+    // so checkout may still charge for an option quoted free here
+    shippingOptions: async (
+      _: any,
+      { items, address, addressId }: { items?: any[]; address?: any; addressId?: string },
+      context: GraphQLContext
+    ) => {
+      try {
+        const user = requireAuth(context);
+
+        const requested = items
+          ? ShippingItemsSchema.parse(items)
+          : (await userDAO.getCartItems(user.userId)).map(item => ({
+            productId: item.product_id,
+            quantity: item.quantity,
+          }));
+
+        if (requested.length === 0) {
+          return [];
+        }
+
+        const destination = address
+          ? ShippingDestinationSchema.parse(address)
+          : await addressService.destination(
+            user.userId,
+            await addressService.resolve(user.userId, { addressId }) ?? await addressService.findDefault(user.userId)
+          );
+
+        const quantities = new Map<string, number>();
+        for (const item of requested) {
+          quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+        }
+
+        const products = await productDAO.findByIds([...quantities.keys()]);
+        const lines = toOrderLines(quantities, products, { checkStock: false });
+        const promotions = await promotionService.price(lines, { userId: user.userId });
+
+        const quotes = await shippingService.quote(
+          lines.map((line, index) => ({
+            seller_id: line.seller_id,
+            quantity: line.quantity,
+            weight_kg: line.weight_kg,
+            amount: roundAmount(line.total_price - promotions.lineDiscounts[index]!),
+          })),
+          destination
+        );
+
+        const now = new Date();
+        return quotes.map(({ sellerId, options }) => ({
+          sellerId,
+          options: options.map(option => transformShippingOption(option, now)),
+        }));
+      } catch (error) {
+        logger.error({ error }, 'Failed to get shipping options');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    myShippingMethods: async (_: any, __: any, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+
+        const methods = await shippingDAO.findBySeller(user.userId);
+        const zones = await shippingDAO.findZonesByMethods(methods.map(method => method.id));
+
+        return methods.map(method => transformShippingMethod(method, zones));
+      } catch (error) {
+        logger.error({ error }, 'Failed to get shipping methods');
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    createShippingMethod: async (_: any, { input }: { input: any }, context: GraphQLContext) => {
+      try {
+        const user = requireAuth(context);
+        const validatedInput = CreateShippingMethodInputSchema.parse(input);
+
+        // Sellers set up their own methods; admins may do it for any seller
+        const sellerId = user.isAdmin && validatedInput.sellerId ? validatedInput.sellerId : user.userId;
+
+        const { method, zones } = await shippingDAO.create(
+          {
+            seller_id: sellerId,
+            name: validatedInput.name,
+            rate_type: validatedInput.rateType === 'WEIGHT' ? 'weight' : 'flat',
+            base_rate: validatedInput.baseRate,
+            rate_per_kg: validatedInput.ratePerKg ?? 0,
+            min_days: validatedInput.minDays,
+            max_days: validatedInput.maxDays,
+            ...(validatedInput.carrier && { carrier: validatedInput.carrier }),
+            ...(validatedInput.freeOver !== undefined && { free_over: validatedInput.freeOver }),
+          },
+          (validatedInput.zones || []).map(zone => ({
+            country: zone.country,
+            ...(zone.state && { state: zone.state }),
+            ...(zone.baseRate !== undefined && { base_rate: zone.baseRate }),
+            ...(zone.ratePerKg !== undefined && { rate_per_kg: zone.ratePerKg }),
+            ...(zone.minDays !== undefined && { min_days: zone.minDays }),
+            ...(zone.maxDays !== undefined && { max_days: zone.maxDays }),
+          }))
+        );
+
+        logger.info({ shippingMethodId: method.id, sellerId, userId: user.userId }, 'Shipping method created');
+
+        return transformShippingMethod(method, zones);
+      } catch (error) {
+        logger.error({ error }, 'Failed to create shipping method');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    setShippingMethodActive: async (
+      _: any,
+      { id, isActive }: { id: string; isActive: boolean },
+      context: GraphQLContext
+    ) => {
+      try {
+        const user = requireAuth(context);
+
+        const method = await shippingDAO.findById(id);
+        if (!method) {
+          throw new Error('Shipping method not found');
+        }
+
+        if (!user.isAdmin && method.seller_id !== user.userId) {
+          throw new Error('Access denied');
+        }
+
+        const updated = await shippingDAO.setActive(id, isActive);
+        const zones = await shippingDAO.findZonesByMethods([id]);
+
+        return transformShippingMethod(updated!, zones);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to update shipping method');
+        throw error;
+      }
+    },
+  },
+
+  ShippingMethod: {
+    seller: async (parent: any, __: any, context: GraphQLContext) => {
+      return loadSeller(parent.seller_id, context);
+    },
+  },
+
+  SellerShippingOptions: {
+    seller: async (parent: any, __: any, context: GraphQLContext) => {
+      return loadSeller(parent.sellerId, context);
+    },
+  },
+
+  ShippingChoice: {
+    seller: async (parent: any, __: any, context: GraphQLContext) => {
+      return loadSeller(parent.sellerId, context);
+    },
+  },
+};
@@ -0,0 +1,93 @@
+import oracledb from 'oracledb';
+import { ShippingDAO } from './shipping.dao';
+import { ShippingDestination, ShippingQuote, quoteMethod, standardShipping } from './shipping.rates';
+import { roundAmount } from '../payment/payment.service';
+import { InvalidShippingMethodError } from '../../lib/errors';
+
+const shippingDAO = new ShippingDAO();
+
+export interface ShippableLine {
+  seller_id: string;
+  quantity: number;
+  // Per unit; items without a weight ship as weightless
+  weight_kg?: number | null | undefined;
+  // What the buyer pays for the line, after discounts
+  amount: number;
+}
+
+export interface SellerShippingQuotes {
+  sellerId: string;
+  // Cheapest first; empty when none of the seller's methods ships there
+  options: ShippingQuote[];
+}
+
+// The buyer's pick for one seller. Without a method the cheapest option is
+// used.
+export interface ShippingSelection {
+  sellerId: string;
+  methodId?: string | null | undefined;
+}
+
+export interface SellerShipping {
+  sellerId: string;
+  option: ShippingQuote;
+}
+
+export class ShippingService {
+  // Every seller's options for shipping their part of the order
+  async quote(
+    lines: ShippableLine[],
+    destination: ShippingDestination,
+    connection?: oracledb.Connection
+  ): Promise<SellerShippingQuotes[]> {
+    const sellerIds = [...new Set(lines.map(line => line.seller_id))];
+    const methods = await shippingDAO.findActiveBySellers(sellerIds, connection);
+    const zones = await shippingDAO.findZonesByMethods(methods.map(method => method.id), connection);
+
+    return sellerIds.map(sellerId => {
+      const sellerLines = lines.filter(line => line.seller_id === sellerId);
+      const parcel = {
+        weightKg: sellerLines.reduce((sum, line) => sum + (line.weight_kg || 0) * line.quantity, 0),
+        amount: roundAmount(sellerLines.reduce((sum, line) => sum + line.amount, 0)),
+      };
+
+      const sellerMethods = methods.filter(method => method.seller_id === sellerId);
+      if (sellerMethods.length === 0) {
+        return { sellerId, options: [standardShipping()] };
+      }
+
+      const options = sellerMethods
+        .map(method => quoteMethod(method, zones.filter(zone => zone.method_id === method.id), parcel, destination))
+        .filter((quote): quote is ShippingQuote => quote !== null)
+        .sort((a, b) => a.amount - b.amount || a.max_days - b.max_days);
+
+      return { sellerId, options };
+    });
+  }
+
+  // Applies the buyer's picks. Fails when a pick is not among the seller's
+  // options or a seller cannot ship to the destination at all.
+  choose(quotes: SellerShippingQuotes[], selections: ShippingSelection[] = []): SellerShipping[] {
+    for (const selection of selections) {
+      if (!quotes.some(({ sellerId }) => sellerId === selection.sellerId)) {
+        throw new InvalidShippingMethodError(`No items in the order are sold by seller ${selection.sellerId}`);
+      }
+    }
+
+    return quotes.map(({ sellerId, options }) => {
+      if (options.length === 0) {
+        throw new InvalidShippingMethodError('A seller in this order does not ship to this address', sellerId);
+      }
+
+      const methodId = selections.find(selection => selection.sellerId === sellerId)?.methodId;
+      const option = methodId ? options.find(quote => quote.method_id === methodId) : options[0];
+      if (!option) {
+        throw new InvalidShippingMethodError('This shipping method is not available for this order', sellerId);
+      }
+
+      return { sellerId, option };
+    });
+  }
+}
+
+export const shippingService = new ShippingService();
@@ -0,0 +1,50 @@
+import { TaxDAO, TaxRule } from './tax.dao';
+import { TaxDestination, TaxLineResult, TaxProvider, TaxRequest } from './tax.provider';
+import { roundAmount } from '../payment/payment.service';
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a || '').trim().toUpperCase() === (b || '').trim().toUpperCase();
+}
+
+// The most specific rule for a line wins: a state rule over a country-wide
+// one, and a category rule over one for every category. Rules do not add up.
+export function matchTaxRule(rules: TaxRule[], destination: TaxDestination, category: string): TaxRule | null {
+  let best: TaxRule | null = null;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    if (!sameText(rule.country, destination.country)) continue;
+    if (rule.state && !sameText(rule.state, destination.state)) continue;
+    if (rule.category && !sameText(rule.category, category)) continue;
+
+    const score = (rule.state ? 2 : 0) + (rule.category ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Built-in provider backed by the tax_rules table. Destinations without a
+// country, or without a matching rule, are not taxed.
+export class RulesTaxProvider implements TaxProvider {
+  readonly name = 'rules';
+
+  constructor(private readonly taxDAO = new TaxDAO()) {}
+
+  async calculate(request: TaxRequest): Promise<TaxLineResult[]> {
+    const { destination, lines } = request;
+    const rules = destination.country ? await this.taxDAO.findByCountry(destination.country.trim()) : [];
+
+    return lines.map(line => {
+      const rule = matchTaxRule(rules, destination, line.category);
+      if (!rule || line.amount <= 0) {
+        return { rate: 0, amount: 0 };
+      }
+
+      return { rate: rule.rate, amount: roundAmount(line.amount * rule.rate / 100) };
+    });
+  }
+}
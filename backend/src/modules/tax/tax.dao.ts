@@ -0,0 +1,79 @@
+import { databaseService } from '../../lib/database';
+import { logger } from '../../lib/logger';
+
+// A tax rate for a country, optionally narrowed to one state and/or one
+// product category
+export interface TaxRule {
+  id: string;
+  country: string;
+  state?: string | null;
+  category?: string | null;
+  name: string;
+  // Percent, e.g. 18 for 18%
+  rate: number;
+  is_active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export class TaxDAO {
+  // Active rules for a country; countries are stored upper-case
+  async findByCountry(country: string): Promise<TaxRule[]> {
+    try {
+      const result = await databaseService.executeQuery<TaxRule>(
+        'SELECT * FROM tax_rules WHERE country = UPPER(:country) AND is_active = 1',
+        { country }
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error, country }, 'Failed to find tax rules');
+      throw error;
+    }
+  }
+
+  async findAll(): Promise<TaxRule[]> {
+    try {
+      const result = await databaseService.executeQuery<TaxRule>(
+        'SELECT * FROM tax_rules ORDER BY country, state NULLS FIRST, category NULLS FIRST',
+        {}
+      );
+
+      return result.rows || [];
+    } catch (error) {
+      logger.error({ error }, 'Failed to find tax rules');
+      throw error;
+    }
+  }
+
+  async create(ruleData: Omit<TaxRule, 'id' | 'is_active' | 'created_at' | 'updated_at'>): Promise<TaxRule> {
+    try {
+      const result = await databaseService.executeQuery<TaxRule>(
+        `INSERT INTO tax_rules (id, country, state, category, name, rate)
+         VALUES (SYS_GUID(), UPPER(:country), UPPER(:state), :category, :name, :rate)
+         RETURNING *`,
+        { state: null, category: null, ...ruleData }
+      );
+
+      return result.rows?.[0]!;
+    } catch (error) {
+      logger.error({ error, country: ruleData.country, state: ruleData.state }, 'Failed to create tax rule');
+      throw error;
+    }
+  }
+
+  async setActive(id: string, isActive: boolean): Promise<TaxRule | null> {
+    try {
+      const result = await databaseService.executeQuery<TaxRule>(
+        `UPDATE tax_rules SET is_active = :isActive, updated_at = CURRENT_TIMESTAMP
+         WHERE id = :id RETURNING *`,
+        { id, isActive: isActive ? 1 : 0 }
+      );
+
+      return result.rows?.[0] || null;
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to update tax rule');
+      throw error;
+    }
+  }
+}
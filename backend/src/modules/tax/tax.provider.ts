@@ -0,0 +1,31 @@
+// Where the goods are delivered; tax follows the destination
+export interface TaxDestination {
+  country?: string | null | undefined;
+  state?: string | null | undefined;
+}
+
+export interface TaxLineRequest {
+  category: string;
+  // Amount the buyer pays for the line, after discounts
+  amount: number;
+}
+
+export interface TaxRequest {
+  destination: TaxDestination;
+  currency: string;
+  lines: TaxLineRequest[];
+}
+
+export interface TaxLineResult {
+  // Percent applied to the line
+  rate: number;
+  amount: number;
+}
+
+// Works out the tax on each line, in the order the lines were given. The
+// built-in provider reads the tax_rules table; an external tax service can
+// implement the same interface.
+export interface TaxProvider {
+  readonly name: string;
+  calculate(request: TaxRequest): Promise<TaxLineResult[]>;
+}
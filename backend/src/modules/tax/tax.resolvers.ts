@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { TaxDAO, TaxRule } from './tax.dao';
+import { GraphQLContext, requireAdmin } from '../../lib/context';
+import { logger } from '../../lib/logger';
+
+const taxDAO = new TaxDAO();
+
+// Validation schemas
+const CreateTaxRuleInputSchema = z.object({
+  country: z.string().trim().min(2, 'Country is required').max(100, 'Country is too long'),
+  state: z.string().trim().min(1).max(100, 'State is too long').optional(),
+  category: z.string().trim().min(1).max(100, 'Category is too long').optional(),
+  name: z.string().trim().min(1, 'Name is required').max(255, 'Name is too long'),
+  rate: z.number().min(0, 'Rate cannot be negative').max(100, 'Rate cannot exceed 100'),
+});
+
+// Helper functions to transform database objects to GraphQL objects
+function transformTaxRule(rule: TaxRule): any {
+  return {
+    id: rule.id,
+    country: rule.country,
+    state: rule.state,
+    category: rule.category,
+    name: rule.name,
+    rate: rule.rate,
+    isActive: Boolean(rule.is_active),
+    createdAt: rule.created_at,
+    updatedAt: rule.updated_at,
+  };
+}
+
+export const taxResolvers = {
+  Query: {
+    taxRules: async (_: any, __: any, context: GraphQLContext) => {
+      try {
+        requireAdmin(context);
+
+        const rules = await taxDAO.findAll();
+        return rules.map(transformTaxRule);
+      } catch (error) {
+        logger.error({ error }, 'Failed to get tax rules');
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    createTaxRule: async (_: any, { input }: { input: any }, context: GraphQLContext) => {
+      try {
+        const user = requireAdmin(context);
+        const validatedInput = CreateTaxRuleInputSchema.parse(input);
+
+        const rule = await taxDAO.create({
+          country: validatedInput.country,
+          name: validatedInput.name,
+          rate: validatedInput.rate,
+          ...(validatedInput.state && { state: validatedInput.state }),
+          ...(validatedInput.category && { category: validatedInput.category }),
+        });
+
+        logger.info({ taxRuleId: rule.id, country: rule.country, state: rule.state, userId: user.userId }, 'Tax rule created');
+
+        return transformTaxRule(rule);
+      } catch (error) {
+        logger.error({ error }, 'Failed to create tax rule');
+        if (error instanceof z.ZodError) {
+          throw new Error(`Validation error: ${error.errors.map(e => e.message).join(', ')}`);
+        }
+        throw error;
+      }
+    },
+
+    setTaxRuleActive: async (
+      _: any,
+      { id, isActive }: { id: string; isActive: boolean },
+      context: GraphQLContext
+    ) => {
+      try {
+        requireAdmin(context);
+
+        const rule = await taxDAO.setActive(id, isActive);
+        if (!rule) {
+          throw new Error('Tax rule not found');
+        }
+
+        return transformTaxRule(rule);
+      } catch (error) {
+        logger.error({ error, id }, 'Failed to update tax rule');
+        throw error;
+      }
+    },
+  },
+};
@@ -0,0 +1,41 @@
+import { TaxDestination, TaxLineRequest, TaxLineResult, TaxProvider } from './tax.provider';
+import { RulesTaxProvider } from './rules.provider';
+import { roundAmount } from '../payment/payment.service';
+import { logger } from '../../lib/logger';
+
+// Picks the tax provider from TAX_PROVIDER. Only the rules table ships with
+// the API; an external tax service plugs in here.
+export function createTaxProvider(name = process.env.TAX_PROVIDER || 'rules'): TaxProvider {
+  switch (name) {
+    case 'rules':
+      return new RulesTaxProvider();
+    default:
+      logger.warn({ provider: name }, 'Unknown tax provider, using tax rules');
+      return new RulesTaxProvider();
+  }
+}
+
+export class TaxService {
+  constructor(private readonly provider: TaxProvider = createTaxProvider()) {}
+
+  // Tax on each line, in the order given. Amounts are rounded per line so the
+  // order's tax is the sum of its lines.
+  async calculate(destination: TaxDestination, lines: TaxLineRequest[]): Promise<TaxLineResult[]> {
+    if (lines.length === 0) return [];
+
+    const results = await this.provider.calculate({
+      destination,
+      currency: process.env.PAYMENT_CURRENCY || 'BRL',
+      lines,
+    });
+
+    if (results.length !== lines.length) {
+      logger.error({ provider: this.provider.name, lines: lines.length, results: results.length }, 'Tax provider returned the wrong number of lines');
+      throw new Error('Tax calculation failed');
+    }
+
+    return results.map(({ rate, amount }) => ({ rate, amount: roundAmount(Math.max(amount, 0)) }));
+  }
+}
+
+export const taxService = new TaxService();
@@ -1,3 +1,4 @@
+import oracledb from 'oracledb';
 import { databaseService, escapeString } from '@/lib/database';
 import { logger } from '@/lib/logger';
 
@@ -278,6 +279,32 @@ export class UserDAO {
     }
   }
 
+  // Adds each quantity to the product's cart line, creating the line when the
+  // product is not in the cart yet
+  async mergeCartItems(
+    userId: string,
+    items: { product_id: string; quantity: number }[],
+    connection?: oracledb.Connection
+  ): Promise<void> {
+    try {
+      for (const item of items) {
+        await databaseService.executeOn(
+          connection,
+          `MERGE INTO cart_items c
+           USING (SELECT :userId AS user_id, :productId AS product_id FROM dual) s
+           ON (c.user_id = s.user_id AND c.product_id = s.product_id)
+           WHEN MATCHED THEN UPDATE SET c.quantity = c.quantity + :quantity, c.updated_at = CURRENT_TIMESTAMP
+           WHEN NOT MATCHED THEN INSERT (id, user_id, product_id, quantity)
+             VALUES (SYS_GUID(), s.user_id, s.product_id, :quantity)`,
+          { userId, productId: item.product_id, quantity: item.quantity }
+        );
+      }
+    } catch (error) {
+      logger.error({ error, userId, items }, 'Failed to merge cart items');
+      throw error;
+    }
+  }
+
   async updateCartItem(cartItemId: string, quantity: number): Promise<CartItem | null> {
     try {
       const result = await databaseService.executeQuery<CartItem>(
@@ -306,9 +333,10 @@ export class UserDAO {
     }
   }
 
-  async clearCart(userId: string): Promise<boolean> {
+  async clearCart(userId: string, connection?: oracledb.Connection): Promise<boolean> {
     try {
-      const result = await databaseService.executeQuery(
+      const result = await databaseService.executeOn(
+        connection,
         'DELETE FROM cart_items WHERE user_id = :userId',
         { userId }
       );
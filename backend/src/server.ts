@@ -1,22 +1,39 @@
 import express from 'express';
+import { createServer } from 'http';
 import { ApolloServer } from 'apollo-server-express';
 import { buildSchema } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/lib/use/ws';
 import helmet from 'helmet';
 import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import rateLimit from 'express-rate-limit';
-import { createContext } from './lib/context';
+import { acceptSubscriptionConnection, createContext, createSubscriptionContext } from './lib/context';
 import { validationRules } from './lib/validationRules';
 import { apqManager } from './lib/persistedQueries';
 import { cacheService } from './lib/cache';
 import { databaseService } from './lib/database';
+import { pubSubService } from './lib/pubsub';
 import { logger } from './lib/logger';
+import { jobRunner } from './lib/jobs';
 import { AuthController } from './modules/auth/auth.controller';
+import { InvoiceController } from './modules/invoice/invoice.controller';
+import { OrderController } from './modules/order/order.controller';
+import { PaymentController } from './modules/payment/payment.controller';
 
 // Import resolvers
 import { userResolvers } from './modules/user/user.resolvers';
 import { productResolvers } from './modules/product/product.resolvers';
 import { orderResolvers } from './modules/order/order.resolvers';
+import { returnResolvers } from './modules/return/return.resolvers';
+import { shipmentResolvers } from './modules/shipment/shipment.resolvers';
+import { promotionResolvers } from './modules/promotion/promotion.resolvers';
+import { taxResolvers } from './modules/tax/tax.resolvers';
+import { shippingResolvers } from './modules/shipping/shipping.resolvers';
+import { addressResolvers } from './modules/address/address.resolvers';
+import { cancelStaleOrdersJob } from './modules/order/order.jobs';
+import { searchService } from './modules/search/search.service';
 
 // Import schemas
 import { readFileSync } from 'fs';
@@ -25,9 +42,18 @@ import { join } from 'path';
 const userSchema = readFileSync(join(__dirname, 'modules/user/user.schema.graphql'), 'utf8');
 const productSchema = readFileSync(join(__dirname, 'modules/product/product.schema.graphql'), 'utf8');
 const orderSchema = readFileSync(join(__dirname, 'modules/order/order.schema.graphql'), 'utf8');
+const returnSchema = readFileSync(join(__dirname, 'modules/return/return.schema.graphql'), 'utf8');
+const shipmentSchema = readFileSync(join(__dirname, 'modules/shipment/shipment.schema.graphql'), 'utf8');
+const promotionSchema = readFileSync(join(__dirname, 'modules/promotion/promotion.schema.graphql'), 'utf8');
+const taxSchema = readFileSync(join(__dirname, 'modules/tax/tax.schema.graphql'), 'utf8');
+const shippingSchema = readFileSync(join(__dirname, 'modules/shipping/shipping.schema.graphql'), 'utf8');
+const addressSchema = readFileSync(join(__dirname, 'modules/address/address.schema.graphql'), 'utf8');
 
 const app = express();
 const authController = new AuthController();
+const invoiceController = new InvoiceController();
+const orderController = new OrderController();
+const paymentController = new PaymentController();
 
 // Security middleware
 app.use(helmet({
@@ -40,7 +66,9 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
+  // Lets the browser read the invoice file name
+  exposedHeaders: ['Content-Disposition'],
 }));
 
 // Rate limiting
@@ -54,6 +82,8 @@ const limiter = rateLimit({
 
 app.use('/graphql', limiter);
 app.use('/auth', limiter);
+app.use('/orders', limiter);
+app.use('/payments', limiter);
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
@@ -88,6 +118,7 @@ app.get('/healthz', (req, res) => {
     memory: process.memoryUsage(),
     database: databaseService.isHealthy(),
     cache: cacheService.isHealthy(),
+    pubsub: pubSubService.isHealthy(),
   };
   
   res.json(health);
@@ -118,6 +149,13 @@ app.get('/auth/me', (req, res) => authController.me(req, res));
 app.post('/auth/verify-token', (req, res) => authController.verifyToken(req, res));
 app.get('/auth/csrf-token', (req, res) => authController.getCSRFToken(req, res));
 
+// Order REST endpoints
+app.get('/orders/export', (req, res) => orderController.exportOrders(req, res));
+app.get('/orders/:id/invoice', (req, res) => invoiceController.download(req, res));
+
+// Payment provider notifications
+app.post('/payments/webhook', (req, res) => paymentController.webhook(req, res));
+
 // GraphQL schema
 const baseSchema = readFileSync(join(__dirname, 'schema.graphql'), 'utf8');
 const typeDefs = `
@@ -125,6 +163,12 @@ const typeDefs = `
   ${userSchema}
   ${productSchema}
   ${orderSchema}
+  ${returnSchema}
+  ${shipmentSchema}
+  ${promotionSchema}
+  ${taxSchema}
+  ${shippingSchema}
+  ${addressSchema}
 `;
 
 // Merge all resolvers
@@ -133,29 +177,100 @@ const resolvers = {
     ...userResolvers.Query,
     ...productResolvers.Query,
     ...orderResolvers.Query,
+    ...returnResolvers.Query,
+    ...shipmentResolvers.Query,
+    ...promotionResolvers.Query,
+    ...taxResolvers.Query,
+    ...shippingResolvers.Query,
+    ...addressResolvers.Query,
   },
   Mutation: {
     ...userResolvers.Mutation,
     ...productResolvers.Mutation,
     ...orderResolvers.Mutation,
+    ...returnResolvers.Mutation,
+    ...shipmentResolvers.Mutation,
+    ...promotionResolvers.Mutation,
+    ...taxResolvers.Mutation,
+    ...shippingResolvers.Mutation,
+    ...addressResolvers.Mutation,
+  },
+  Subscription: {
+    ...orderResolvers.Subscription,
+  },
+  User: {
+    ...userResolvers.User,
+    ...addressResolvers.User,
   },
-  User: userResolvers.User,
   CartItem: userResolvers.CartItem,
   Product: productResolvers.Product,
+  ProductConnection: productResolvers.ProductConnection,
   // ProductAttribute and ProductImage resolvers are handled in the Product resolver
   Review: productResolvers.Review,
-  Order: orderResolvers.Order,
+  Order: {
+    ...orderResolvers.Order,
+    ...returnResolvers.Order,
+    ...shipmentResolvers.Order,
+    ...promotionResolvers.Order,
+    ...addressResolvers.Order,
+  },
   OrderItem: orderResolvers.OrderItem,
+  OrderItemSnapshot: orderResolvers.OrderItemSnapshot,
+  Fulfillment: {
+    ...orderResolvers.Fulfillment,
+    ...shipmentResolvers.Fulfillment,
+  },
+  FulfillmentNote: orderResolvers.FulfillmentNote,
+  OrderStatusEvent: orderResolvers.OrderStatusEvent,
+  Refund: orderResolvers.Refund,
+  ReturnRequest: returnResolvers.ReturnRequest,
+  Shipment: shipmentResolvers.Shipment,
+  Promotion: promotionResolvers.Promotion,
+  OrderPreviewItem: promotionResolvers.OrderPreviewItem,
+  ShippingMethod: shippingResolvers.ShippingMethod,
+  SellerShippingOptions: shippingResolvers.SellerShippingOptions,
+  ShippingChoice: shippingResolvers.ShippingChoice,
 };
 
+const schema = makeExecutableSchema({ typeDefs, resolvers });
+
+// HTTP server shared by Express and the GraphQL-over-WebSocket endpoint
+const httpServer = createServer(app);
+
+const wsServer = new WebSocketServer({
+  server: httpServer,
+  path: '/graphql',
+});
+
+const wsServerCleanup = useServer(
+  {
+    schema,
+    onConnect: (ctx) => acceptSubscriptionConnection(ctx.connectionParams),
+    context: (ctx) => createSubscriptionContext(ctx.connectionParams),
+    onError: (_ctx, _message, errors) => {
+      logger.error({ errors }, 'GraphQL subscription errors encountered');
+    },
+  },
+  wsServer
+);
+
 // Create Apollo Server
 const server = new ApolloServer({
-  typeDefs,
-  resolvers,
+  schema,
   context: createContext,
   validationRules,
   introspection: process.env.NODE_ENV !== 'production',
   plugins: [
+    {
+      // Close open WebSocket subscriptions when Apollo stops
+      async serverWillStart() {
+        return {
+          async drainServer() {
+            await wsServerCleanup.dispose();
+          },
+        };
+      },
+    },
     {
       requestDidStart() {
         return {
@@ -211,6 +326,18 @@ async function startServer() {
     
     await cacheService.connect();
     logger.info('Cache connected');
+
+    await pubSubService.connect();
+    logger.info('Pub/sub connected');
+
+    await searchService.start();
+    logger.info('Search ready');
+
+    jobRunner.register(cancelStaleOrdersJob);
+    if (process.env.JOBS_ENABLED !== 'false') {
+      await jobRunner.connect();
+      jobRunner.start();
+    }
     
     // Start Apollo Server
     await server.start();
@@ -221,11 +348,12 @@ async function startServer() {
     });
     
     const port = process.env.PORT || 4000;
-    app.listen(port, () => {
+    httpServer.listen(port, () => {
       logger.info({
         port,
         environment: process.env.NODE_ENV || 'development',
         graphqlPath: server.graphqlPath,
+        subscriptionsPath: wsServer.options.path,
       }, 'Server started successfully');
     });
     
@@ -241,8 +369,10 @@ process.on('SIGTERM', async () => {
   
   try {
     await server.stop();
+    await jobRunner.stop();
     await databaseService.disconnect();
     await cacheService.disconnect();
+    await pubSubService.disconnect();
     process.exit(0);
   } catch (error) {
     logger.error({ error }, 'Error during shutdown');
@@ -255,8 +385,10 @@ process.on('SIGINT', async () => {
   
   try {
     await server.stop();
+    await jobRunner.stop();
     await databaseService.disconnect();
     await cacheService.disconnect();
+    await pubSubService.disconnect();
     process.exit(0);
   } catch (error) {
     logger.error({ error }, 'Error during shutdown');
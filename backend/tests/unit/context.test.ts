@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import { acceptSubscriptionConnection, getSubscriptionUser } from '../../src/lib/context';
+
+const mockVerify = jwt.verify as unknown as jest.Mock<any>;
+
+const payload = { userId: 'user-id', email: 'user@example.com', isAdmin: false };
+
+describe('Subscription authentication', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockVerify.mockReturnValue(payload);
+  });
+
+  describe('getSubscriptionUser', () => {
+    it('should read the user from the connection_init authorization param', () => {
+      expect(getSubscriptionUser({ authorization: 'Bearer valid-token' })).toEqual(payload);
+      expect(getSubscriptionUser({ Authorization: 'Bearer valid-token' })).toEqual(payload);
+      expect(mockVerify).toHaveBeenCalledWith('valid-token', 'test-secret', expect.any(Object));
+    });
+
+    it('should return null without connection params or a token', () => {
+      expect(getSubscriptionUser(undefined)).toBeNull();
+      expect(getSubscriptionUser({})).toBeNull();
+      expect(getSubscriptionUser({ authorization: 42 })).toBeNull();
+      expect(getSubscriptionUser({ authorization: 'valid-token' })).toBeNull();
+      expect(mockVerify).not.toHaveBeenCalled();
+    });
+
+    it('should return null for an invalid or expired token', () => {
+      mockVerify.mockImplementation(() => {
+        throw new Error('jwt expired');
+      });
+
+      expect(getSubscriptionUser({ authorization: 'Bearer expired-token' })).toBeNull();
+    });
+  });
+
+  describe('acceptSubscriptionConnection', () => {
+    it('should accept a connection with a valid token', () => {
+      expect(acceptSubscriptionConnection({ authorization: 'Bearer valid-token' })).toBe(true);
+    });
+
+    it('should reject a connection without a token', () => {
+      expect(acceptSubscriptionConnection(undefined)).toBe(false);
+      expect(acceptSubscriptionConnection({})).toBe(false);
+    });
+
+    it('should reject a connection with an invalid token', () => {
+      mockVerify.mockImplementation(() => {
+        throw new Error('invalid signature');
+      });
+
+      expect(acceptSubscriptionConnection({ authorization: 'Bearer forged-token' })).toBe(false);
+    });
+  });
+});
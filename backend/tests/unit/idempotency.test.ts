@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { withIdempotency } from '../../src/lib/idempotency';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/lib/database');
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const user = { userId: 'user-id', email: 'user@example.com', isAdmin: false };
+
+function contextWithKey(key?: string): any {
+  return { user, req: { headers: key ? { 'idempotency-key': key } : {} } };
+}
+
+describe('withIdempotency', () => {
+  // In-memory stand-in for the idempotency_keys table
+  let rows: Map<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rows = new Map();
+
+    mockDatabaseService.executeQuery.mockImplementation(async (sql: string, binds: any) => {
+      const id = `${binds.userId}:${binds.key}`;
+
+      if (sql.includes('INSERT INTO idempotency_keys')) {
+        if (rows.has(id)) {
+          throw Object.assign(new Error('ORA-00001: unique constraint violated'), { errorNum: 1 });
+        }
+        rows.set(id, {
+          user_id: binds.userId,
+          idempotency_key: binds.key,
+          operation: binds.operation,
+          request_hash: binds.requestHash,
+          status: 'in_progress',
+        });
+      } else if (sql.includes('SELECT * FROM idempotency_keys')) {
+        return { rows: rows.has(id) ? [rows.get(id)] : [] } as any;
+      } else if (sql.includes('UPDATE idempotency_keys')) {
+        rows.set(id, { ...rows.get(id), status: 'completed', response: binds.response });
+      } else if (sql.includes('DELETE FROM idempotency_keys') && !sql.includes('expires_at')) {
+        rows.delete(id);
+      }
+
+      return { rows: [] } as any;
+    });
+  });
+
+  it('should run the mutation directly without a key', async () => {
+    const execute = jest.fn(async () => ({ id: 'order-id' }));
+
+    await expect(withIdempotency(contextWithKey(), 'createOrder', {}, execute)).resolves.toEqual({ id: 'order-id' });
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(mockDatabaseService.executeQuery).not.toHaveBeenCalled();
+  });
+
+  it('should replay the first result for a repeated key', async () => {
+    const execute = jest.fn(async () => ({ id: 'order-id', status: 'PENDING' }));
+    const context = contextWithKey('checkout-1');
+
+    const first = await withIdempotency(context, 'createOrder', { items: [{ productId: 'p1', quantity: 1 }] }, execute);
+    const second = await withIdempotency(context, 'createOrder', { items: [{ quantity: 1, productId: 'p1' }] }, execute);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+  });
+
+  it('should accept the key as clientMutationId', async () => {
+    const execute = jest.fn(async () => ({ id: 'order-id' }));
+
+    await withIdempotency(contextWithKey(), 'refundOrder', { orderId: 'order-id', clientMutationId: 'refund-1' }, execute);
+    await withIdempotency(contextWithKey(), 'refundOrder', { orderId: 'order-id', clientMutationId: 'refund-1' }, execute);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject the same key with different arguments', async () => {
+    const context = contextWithKey('refund-1');
+    await withIdempotency(context, 'refundOrder', { orderId: 'order-id', amount: 10 }, async () => ({}));
+
+    await expect(
+      withIdempotency(context, 'refundOrder', { orderId: 'order-id', amount: 20 }, async () => ({}))
+    ).rejects.toMatchObject({
+      extensions: expect.objectContaining({ code: 'IDEMPOTENCY_KEY_CONFLICT' }),
+    });
+  });
+
+  it('should reject a repeat while the first call is still running', async () => {
+    const context = contextWithKey('checkout-1');
+    let finish: () => void = () => {};
+    const first = withIdempotency(context, 'createOrder', {}, () => new Promise<any>(resolve => {
+      finish = () => resolve({ id: 'order-id' });
+    }));
+
+    await expect(withIdempotency(context, 'createOrder', {}, async () => ({}))).rejects.toMatchObject({
+      extensions: expect.objectContaining({ code: 'IDEMPOTENCY_KEY_IN_PROGRESS' }),
+    });
+
+    finish();
+    await first;
+  });
+
+  it('should release the key when the mutation fails', async () => {
+    const context = contextWithKey('checkout-1');
+    const execute = jest.fn<() => Promise<any>>()
+      .mockRejectedValueOnce(new Error('Insufficient stock'))
+      .mockResolvedValueOnce({ id: 'order-id' });
+
+    await expect(withIdempotency(context, 'createOrder', {}, execute)).rejects.toThrow('Insufficient stock');
+    await expect(withIdempotency(context, 'createOrder', {}, execute)).resolves.toEqual({ id: 'order-id' });
+
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+});
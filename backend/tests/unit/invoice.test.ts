@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { invoiceService } from '../../src/modules/invoice/invoice.service';
+import { formatMoney, renderInvoiceHtml, renderInvoicePdf } from '../../src/modules/invoice/invoice.render';
+import { OrderDAO } from '../../src/modules/order/order.dao';
+import { PaymentDAO } from '../../src/modules/payment/payment.dao';
+import { PromotionDAO } from '../../src/modules/promotion/promotion.dao';
+import { AddressDAO } from '../../src/modules/address/address.dao';
+import { ProductDAO } from '../../src/modules/product/product.dao';
+import { UserDAO } from '../../src/modules/user/user.dao';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/modules/invoice/invoice.dao');
+jest.mock('../../src/modules/order/order.dao');
+jest.mock('../../src/modules/payment/payment.dao');
+jest.mock('../../src/modules/promotion/promotion.dao');
+jest.mock('../../src/modules/address/address.dao');
+jest.mock('../../src/modules/product/product.dao');
+jest.mock('../../src/modules/user/user.dao');
+jest.mock('../../src/lib/database');
+
+const mockOrderDAO = OrderDAO as jest.MockedClass<typeof OrderDAO>;
+const mockPaymentDAO = PaymentDAO as jest.MockedClass<typeof PaymentDAO>;
+const mockPromotionDAO = PromotionDAO as jest.MockedClass<typeof PromotionDAO>;
+const mockAddressDAO = AddressDAO as jest.MockedClass<typeof AddressDAO>;
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+const mockUserDAO = UserDAO as jest.MockedClass<typeof UserDAO>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const order: any = {
+  id: 'order-id',
+  user_id: 'buyer-id',
+  status: 'confirmed',
+  subtotal_amount: 150,
+  discount_amount: 15,
+  tax_amount: 13.5,
+  shipping_amount: 10,
+  total_amount: 158.5,
+  shipping_address: 'Rua A, 1, Sao Paulo',
+  billing_address: 'Rua A, 1, Sao Paulo',
+  payment_method: 'credit_card',
+  payment_status: 'paid',
+  created_at: '2024-01-01T10:00:00Z',
+};
+
+const invoice: any = {
+  id: 'invoice-id',
+  order_id: 'order-id',
+  invoice_number: 'INV-2024-000007',
+  invoice_year: 2024,
+  sequence_number: 7,
+  issued_at: '2024-01-02T10:00:00Z',
+};
+
+function mockItem(id: string, fulfillmentId: string, overrides: any = {}): any {
+  return {
+    id,
+    order_id: 'order-id',
+    fulfillment_id: fulfillmentId,
+    product_id: `product-${id}`,
+    quantity: 1,
+    unit_price: 50,
+    total_price: 50,
+    discount_amount: 5,
+    tax_rate: 10,
+    tax_amount: 4.5,
+    product_name: `Product ${id}`,
+    ...overrides,
+  };
+}
+
+describe('Invoices', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+      mockItem('item-1', 'fulfillment-1', { quantity: 2, total_price: 100, discount_amount: 10, tax_amount: 9 }),
+      mockItem('item-2', 'fulfillment-2', { product_name: null }),
+    ]);
+    mockOrderDAO.prototype.findFulfillmentsByOrder.mockResolvedValue([
+      { id: 'fulfillment-1', seller_id: 'seller-1', shipping_amount: 10, shipping_method: 'Express' } as any,
+      { id: 'fulfillment-2', seller_id: 'seller-2', shipping_amount: 0, shipping_method: null } as any,
+    ]);
+    mockPaymentDAO.prototype.findRefundsByOrders.mockResolvedValue([
+      { id: 'refund-1', amount: 54.5, reason: 'Damaged', created_at: '2024-01-05T00:00:00Z', items: [{ order_item_id: 'item-1' }] } as any,
+      { id: 'refund-2', amount: 5, reason: 'Goodwill', created_at: '2024-01-06T00:00:00Z', items: [] } as any,
+    ]);
+    mockPromotionDAO.prototype.findDiscountsByOrders.mockResolvedValue([
+      { description: '10% off', amount: 15 } as any,
+    ]);
+    mockAddressDAO.prototype.findByOrders.mockResolvedValue([]);
+    mockProductDAO.prototype.findByIds.mockResolvedValue([{ id: 'product-item-2', name: 'Live name' } as any]);
+    mockUserDAO.prototype.findByIds.mockImplementation(async (ids: string[]) =>
+      ids.map(id => ({ id, first_name: id, last_name: 'User', email: `${id}@example.com`, city: 'Sao Paulo' } as any))
+    );
+  });
+
+  describe('build', () => {
+    it('should list every seller\'s items, discounts and refunds for the buyer', async () => {
+      const document = await invoiceService.build(order, invoice);
+
+      expect(document.number).toBe('INV-2024-000007');
+      expect(document.sections.map(section => section.seller.email)).toEqual([
+        'seller-1@example.com',
+        'seller-2@example.com',
+      ]);
+      expect(document.sections[0]).toMatchObject({ subtotal: 100, discount: 10, tax: 9, shipping: 10, total: 109 });
+      expect(document.sections[1]!.lines[0]!.description).toBe('Live name');
+      expect(document.discounts).toEqual([{ description: '10% off', amount: 15 }]);
+      expect(document.totals).toMatchObject({ total: 158.5, refunded: 59.5, net: 99 });
+    });
+
+    it('should only show a seller their own part of the order', async () => {
+      const document = await invoiceService.build(order, invoice, 'seller-1');
+
+      expect(document.sections).toHaveLength(1);
+      expect(document.discounts).toEqual([]);
+      expect(document.refunds).toEqual([{ date: '2024-01-05T00:00:00Z', reason: 'Damaged', amount: 54.5 }]);
+      expect(document.totals).toEqual({
+        subtotal: 100,
+        discount: 10,
+        tax: 9,
+        shipping: 10,
+        total: 109,
+        refunded: 54.5,
+        net: 54.5,
+      });
+    });
+  });
+
+  describe('issue', () => {
+    it('should not invoice a cancelled order that was never paid', async () => {
+      await expect(invoiceService.issue({ ...order, status: 'cancelled', payment_status: 'voided' })).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'INVOICE_NOT_AVAILABLE' }),
+      });
+      expect(mockDatabaseService.executeTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should not take a number before the payment is captured', async () => {
+      for (const paymentStatus of ['pending', 'authorized']) {
+        await expect(invoiceService.issue({ ...order, status: 'pending', payment_status: paymentStatus })).rejects.toMatchObject({
+          extensions: expect.objectContaining({ code: 'INVOICE_NOT_AVAILABLE' }),
+        });
+      }
+      expect(mockDatabaseService.executeTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rendering', () => {
+    it('should escape HTML and produce a well-formed PDF', async () => {
+      mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+        mockItem('item-1', 'fulfillment-1', { product_name: '<b>Mug</b> (large)' }),
+      ]);
+      const document = await invoiceService.build(order, invoice);
+
+      const html = renderInvoiceHtml(document);
+      expect(html).toContain('&lt;b&gt;Mug&lt;/b&gt;');
+      expect(html).not.toContain('<b>Mug</b>');
+
+      const pdf = renderInvoicePdf(document).toString('latin1');
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Invoice INV-2024-000007) Tj');
+      expect(pdf).toContain('\\(large\\)');
+
+      const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+      expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    });
+
+    it('should format amounts with the currency and thousands separators', () => {
+      expect(formatMoney(1234567.5, 'BRL')).toBe('BRL 1,234,567.50');
+      expect(formatMoney(-15, 'BRL')).toBe('-BRL 15.00');
+    });
+  });
+});
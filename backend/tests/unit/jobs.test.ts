@@ -0,0 +1,58 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { JobRunner, matchesSchedule, parseSchedule } from '../../src/lib/jobs';
+
+describe('Job runner', () => {
+  describe('parseSchedule', () => {
+    it('should expand wildcards, ranges, steps and lists', () => {
+      const [minutes, hours, days, months, weekdays] = parseSchedule('*/15 9-17 1,15 * 1-5/2');
+
+      expect([...minutes!]).toEqual([0, 15, 30, 45]);
+      expect([...hours!]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+      expect([...days!]).toEqual([1, 15]);
+      expect(months!.size).toBe(12);
+      expect([...weekdays!]).toEqual([1, 3, 5]);
+    });
+
+    it('should reject malformed or out-of-range expressions', () => {
+      expect(() => parseSchedule('* * * *')).toThrow('expected 5 fields');
+      expect(() => parseSchedule('60 * * * *')).toThrow('out of range');
+      expect(() => parseSchedule('a * * * *')).toThrow('bad field');
+    });
+  });
+
+  describe('matchesSchedule', () => {
+    it('should match the minute in UTC', () => {
+      const schedule = parseSchedule('30 2 * * *');
+
+      expect(matchesSchedule(schedule, new Date('2024-03-10T02:30:45Z'))).toBe(true);
+      expect(matchesSchedule(schedule, new Date('2024-03-10T02:31:00Z'))).toBe(false);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should skip a run while the previous one still holds the lock', async () => {
+      const runner = new JobRunner();
+      let finish: () => void = () => undefined;
+      const finished = new Promise<void>(resolve => { finish = resolve; });
+      const run = jest.fn(() => finished);
+      runner.register({ name: 'slow', schedule: '* * * * *', run });
+
+      const first = runner.runJob('slow');
+      await expect(runner.runJob('slow')).resolves.toBe(false);
+
+      finish();
+      await expect(first).resolves.toBe(true);
+      await expect(runner.runJob('slow')).resolves.toBe(true);
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should release the lock when a job fails', async () => {
+      const runner = new JobRunner();
+      const run = jest.fn(async () => { throw new Error('boom'); });
+      runner.register({ name: 'failing', schedule: '* * * * *', run });
+
+      await expect(runner.runJob('failing')).resolves.toBe(true);
+      await expect(runner.runJob('failing')).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  buildExportQuery,
+  createExportLink,
+  exportOrders,
+  toCsvLine,
+} from '../../src/modules/order/order.export';
+import jwt from 'jsonwebtoken';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/lib/database');
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const seller = { userId: 'seller-id', email: 'seller@example.com', isAdmin: false };
+const admin = { userId: 'admin-id', email: 'admin@example.com', isAdmin: true };
+
+function mockRow(overrides: any = {}): any {
+  return {
+    order_id: 'order-id',
+    order_date: new Date('2024-01-01T10:00:00Z'),
+    order_status: 'confirmed',
+    payment_status: 'paid',
+    payment_method: 'credit_card',
+    buyer_id: 'buyer-id',
+    order_total: 118,
+    seller_id: 'seller-id',
+    fulfillment_id: 'fulfillment-id',
+    fulfillment_status: 'confirmed',
+    item_id: 'item-id',
+    product_id: 'product-id',
+    product_name: 'Mug, large',
+    product_sku: null,
+    quantity: 2,
+    unit_price: 50,
+    total_price: 100,
+    discount_amount: 10,
+    tax_amount: 9,
+    ...overrides,
+  };
+}
+
+function mockRows(rows: any[]) {
+  mockDatabaseService.streamQuery.mockImplementation(async function* () {
+    yield* rows;
+  } as any);
+}
+
+const mockSign = jwt.sign as jest.Mock;
+
+// The scope signed into the most recent link
+function signedScope(): any {
+  return (mockSign.mock.calls[mockSign.mock.calls.length - 1]![0] as any).scope;
+}
+
+async function collect(chunks: AsyncGenerator<string>): Promise<string> {
+  let output = '';
+  for await (const chunk of chunks) output += chunk;
+  return output;
+}
+
+describe('Order export', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createExportLink', () => {
+    it('should limit a seller to their own items', () => {
+      const link = createExportLink(seller, { format: 'csv', filters: { statuses: ['shipped'] } });
+
+      expect(link.url).toBe('/orders/export?token=mock-jwt-token');
+      expect(signedScope()).toEqual({ format: 'csv', filters: { statuses: ['shipped'], sellerId: 'seller-id' } });
+      expect(() => createExportLink(seller, { format: 'csv', filters: { sellerId: 'other-seller' } })).toThrow('Access denied');
+    });
+
+    it('should let admins export everything or one seller', () => {
+      createExportLink(admin, { format: 'jsonl', filters: {} });
+      expect(signedScope().filters).toEqual({});
+
+      createExportLink(admin, { format: 'jsonl', filters: { sellerId: 'seller-id' } });
+      expect(signedScope().filters).toEqual({ sellerId: 'seller-id' });
+    });
+
+    it('should sign links that cannot be used as access tokens', () => {
+      createExportLink(seller, { format: 'csv', filters: {} });
+
+      expect(mockSign.mock.calls[0]![2]).toMatchObject({ audience: 'marketplace-download', expiresIn: '15m' });
+    });
+  });
+
+  describe('buildExportQuery', () => {
+    it('should only bind the filters that are set', () => {
+      const { sql, binds } = buildExportQuery({ from: '2024-01-01T00:00:00.000Z', sellerId: 'seller-id' });
+
+      expect(binds).toEqual({ sellerId: 'seller-id', fromDate: new Date('2024-01-01T00:00:00.000Z') });
+      expect(sql).toContain('COALESCE(f.seller_id, oi.seller_id) = :sellerId');
+      expect(sql).not.toContain(':toDate');
+      expect(sql).not.toContain(':statuses');
+    });
+  });
+
+  describe('toCsvLine', () => {
+    it('should quote separators and defuse spreadsheet formulas', () => {
+      expect(toCsvLine(['a,b', 'say "hi"', null, -5, '=SUM(A1)'])).toBe('"a,b","say ""hi""",,-5,\'=SUM(A1)\r\n');
+    });
+  });
+
+  describe('exportOrders', () => {
+    it('should write a CSV header and one line per item', async () => {
+      mockRows([mockRow(), mockRow({ item_id: 'item-2', product_name: 'Plate' })]);
+
+      const lines = (await collect(exportOrders({ format: 'csv', filters: {} }))).trim().split('\r\n');
+
+      expect(lines).toHaveLength(3);
+      expect(lines[0]!.startsWith('orderId,orderDate,orderStatus')).toBe(true);
+      expect(lines[1]).toBe(
+        'order-id,2024-01-01T10:00:00.000Z,confirmed,paid,credit_card,buyer-id,118,seller-id,fulfillment-id,' +
+        'confirmed,item-id,product-id,"Mug, large",,2,50,100,10,9,99'
+      );
+    });
+
+    it('should write JSON lines', async () => {
+      mockRows([mockRow()]);
+
+      const output = await collect(exportOrders({ format: 'jsonl', filters: {} }));
+
+      expect(JSON.parse(output.trim())).toMatchObject({ orderId: 'order-id', productName: 'Mug, large', total: 99 });
+    });
+
+    it('should fail before writing anything when the query fails', async () => {
+      mockDatabaseService.streamQuery.mockImplementation(async function* () {
+        throw new Error('ORA-00942');
+      } as any);
+
+      const chunks = exportOrders({ format: 'csv', filters: {} });
+
+      await expect(chunks.next()).rejects.toThrow('ORA-00942');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { cancelStaleOrders } from '../../src/modules/order/order.jobs';
+import { OrderDAO } from '../../src/modules/order/order.dao';
+import { publishOrderStatusChanged, settlePayment, transitionOrder } from '../../src/modules/order/order.lifecycle';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/modules/order/order.dao');
+jest.mock('../../src/modules/order/order.lifecycle');
+jest.mock('../../src/lib/database');
+
+const mockOrderDAO = OrderDAO as jest.MockedClass<typeof OrderDAO>;
+const mockTransitionOrder = transitionOrder as jest.MockedFunction<typeof transitionOrder>;
+const mockPublish = publishOrderStatusChanged as jest.MockedFunction<typeof publishOrderStatusChanged>;
+const mockSettlePayment = settlePayment as jest.MockedFunction<typeof settlePayment>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+function mockOrder(id: string, overrides: any = {}): any {
+  return { id, user_id: 'buyer-id', status: 'pending', payment_status: 'pending', ...overrides };
+}
+
+describe('Stale order job', () => {
+  const mockConnection: any = { execute: jest.fn() };
+  const now = new Date('2024-01-01T12:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockDatabaseService.executeTransaction.mockImplementation(
+      async (callback: any) => callback(mockConnection)
+    );
+    mockOrderDAO.prototype.findByIdForUpdate.mockImplementation(async (id: string) => mockOrder(id));
+    mockSettlePayment.mockImplementation(async (id: string) => mockOrder(id));
+    mockTransitionOrder.mockImplementation(async (id: string) => mockOrder(id, { status: 'cancelled' }));
+  });
+
+  it('should cancel orders unpaid past the timeout as the system', async () => {
+    mockOrderDAO.prototype.findUnpaidBefore.mockResolvedValue([mockOrder('order-1'), mockOrder('order-2')]);
+
+    await expect(cancelStaleOrders(now)).resolves.toBe(2);
+
+    expect(mockOrderDAO.prototype.findUnpaidBefore).toHaveBeenCalledWith(new Date('2024-01-01T11:00:00Z'), 100);
+    expect(mockTransitionOrder).toHaveBeenCalledWith('order-1', 'cancelled', null, {
+      reason: 'Payment not received in time',
+      connection: mockConnection,
+    });
+    expect(mockPublish).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip orders paid since the lookup and carry on after failures', async () => {
+    mockOrderDAO.prototype.findUnpaidBefore.mockResolvedValue([
+      mockOrder('paid'),
+      mockOrder('failing'),
+      mockOrder('stale'),
+    ]);
+    mockOrderDAO.prototype.findByIdForUpdate.mockImplementation(async (id: string) =>
+      mockOrder(id, id === 'paid' ? { payment_status: 'paid' } : {})
+    );
+    mockTransitionOrder.mockImplementation(async (id: string) => {
+      if (id === 'failing') throw new Error('Order not found');
+      return mockOrder(id, { status: 'cancelled' });
+    });
+
+    await expect(cancelStaleOrders(now)).resolves.toBe(1);
+
+    expect(mockTransitionOrder).not.toHaveBeenCalledWith('paid', expect.anything(), expect.anything(), expect.anything());
+    expect(mockPublish).toHaveBeenCalledWith(expect.objectContaining({ id: 'stale' }));
+  });
+
+  it('should keep orders the provider reports as paid and cancel failed payments', async () => {
+    mockOrderDAO.prototype.findUnpaidBefore.mockResolvedValue([mockOrder('paid-late'), mockOrder('expired')]);
+    mockSettlePayment.mockImplementation(async (id: string) =>
+      mockOrder(id, { payment_status: id === 'paid-late' ? 'authorized' : 'failed' })
+    );
+
+    await expect(cancelStaleOrders(now)).resolves.toBe(1);
+
+    expect(mockSettlePayment).toHaveBeenCalledWith('paid-late', { connection: mockConnection });
+    expect(mockTransitionOrder).toHaveBeenCalledTimes(1);
+    expect(mockTransitionOrder).toHaveBeenCalledWith('expired', 'cancelled', null, expect.anything());
+  });
+});
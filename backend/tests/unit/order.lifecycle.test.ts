@@ -0,0 +1,408 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import {
+  canTransition,
+  deriveOrderStatus,
+  transitionFulfillment,
+  transitionOrder,
+} from '../../src/modules/order/order.lifecycle';
+import { OrderDAO } from '../../src/modules/order/order.dao';
+import { ProductDAO } from '../../src/modules/product/product.dao';
+import { PaymentDAO } from '../../src/modules/payment/payment.dao';
+import { ShipmentDAO } from '../../src/modules/shipment/shipment.dao';
+import { FakePaymentGateway } from '../../src/modules/payment/fake.gateway';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/modules/order/order.dao');
+jest.mock('../../src/modules/product/product.dao');
+jest.mock('../../src/modules/payment/payment.dao');
+jest.mock('../../src/modules/shipment/shipment.dao');
+jest.mock('../../src/lib/database');
+
+const mockOrderDAO = OrderDAO as jest.MockedClass<typeof OrderDAO>;
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+const mockPaymentDAO = PaymentDAO as jest.MockedClass<typeof PaymentDAO>;
+const mockShipmentDAO = ShipmentDAO as jest.MockedClass<typeof ShipmentDAO>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const buyer = { userId: 'buyer-id', email: 'buyer@example.com', isAdmin: false };
+const seller = { userId: 'seller-id', email: 'seller@example.com', isAdmin: false };
+const admin = { userId: 'admin-id', email: 'admin@example.com', isAdmin: true };
+
+function mockIntent(status: string): any {
+  return {
+    id: 'intent-id',
+    order_id: 'order-id',
+    provider: 'fake',
+    provider_reference: 'fake_pi_order-id',
+    method: 'credit_card',
+    status,
+    amount: 100,
+    captured_amount: status === 'captured' ? 100 : 0,
+    refunded_amount: 0,
+  };
+}
+
+function mockOrder(status: string): any {
+  return {
+    id: 'order-id',
+    user_id: 'buyer-id',
+    status,
+    total_amount: 100,
+    payment_status: 'pending',
+    created_at: '2023-01-01T00:00:00Z',
+    updated_at: '2023-01-01T00:00:00Z',
+  };
+}
+
+function mockFulfillment(status: string, id = 'fulfillment-id', sellerId = 'seller-id'): any {
+  return { id, order_id: 'order-id', seller_id: sellerId, status, subtotal: 100 };
+}
+
+// An order with one fulfillment per given status, the first one the seller's
+function givenOrder(status: string, fulfillments: any[] = [mockFulfillment(status)], paymentStatus = 'pending') {
+  mockOrderDAO.prototype.findByIdForUpdate.mockResolvedValue({ ...mockOrder(status), payment_status: paymentStatus });
+  mockOrderDAO.prototype.findFulfillmentsByOrder.mockResolvedValue(fulfillments);
+  mockOrderDAO.prototype.findFulfillmentById.mockImplementation(
+    async (id: string) => fulfillments.find(fulfillment => fulfillment.id === id) ?? null
+  );
+}
+
+describe('Order lifecycle', () => {
+  const mockConnection: any = { execute: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockDatabaseService.executeTransaction.mockImplementation(
+      async (callback: any) => callback(mockConnection)
+    );
+    mockOrderDAO.prototype.findSellerIds.mockResolvedValue(['seller-id']);
+    mockOrderDAO.prototype.updateStatus.mockImplementation(
+      async (id: string, status: string) => ({ ...mockOrder(status), id })
+    );
+    mockOrderDAO.prototype.updatePaymentStatus.mockImplementation(
+      async (id: string, paymentStatus: string) => ({ ...mockOrder('pending'), id, payment_status: paymentStatus })
+    );
+    mockPaymentDAO.prototype.findLatestByOrderForUpdate.mockResolvedValue(null);
+    mockPaymentDAO.prototype.findRefundedQuantities.mockResolvedValue(new Map());
+    mockPaymentDAO.prototype.update.mockImplementation(
+      async (id: string, updates: any) => ({ ...mockIntent('authorized'), id, ...updates })
+    );
+    mockOrderDAO.prototype.updateFulfillmentStatus.mockImplementation(
+      async (id: string, status: string) => ({ ...mockFulfillment(status), id })
+    );
+    mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+      {
+        id: 'item-id',
+        order_id: 'order-id',
+        fulfillment_id: 'fulfillment-id',
+        product_id: 'product-id',
+        quantity: 2,
+        unit_price: 50,
+        total_price: 100,
+        discount_amount: 0,
+      } as any,
+    ]);
+  });
+
+  describe('canTransition', () => {
+    it('should follow PENDING -> CONFIRMED -> SHIPPED -> DELIVERED', () => {
+      expect(canTransition('pending', 'confirmed')).toBe(true);
+      expect(canTransition('confirmed', 'shipped')).toBe(true);
+      expect(canTransition('shipped', 'delivered')).toBe(true);
+    });
+
+    it('should reject skipping or leaving terminal states', () => {
+      expect(canTransition('pending', 'delivered')).toBe(false);
+      expect(canTransition('delivered', 'cancelled')).toBe(false);
+      expect(canTransition('cancelled', 'pending')).toBe(false);
+    });
+  });
+
+  describe('deriveOrderStatus', () => {
+    it('should follow the least advanced live fulfillment', () => {
+      expect(deriveOrderStatus(['shipped', 'confirmed'])).toBe('confirmed');
+      expect(deriveOrderStatus(['delivered', 'cancelled'])).toBe('delivered');
+      expect(deriveOrderStatus(['cancelled', 'cancelled'])).toBe('cancelled');
+    });
+  });
+
+  describe('transitionOrder', () => {
+    it('should not let the buyer mark their own order delivered', async () => {
+      givenOrder('shipped');
+
+      await expect(transitionOrder('order-id', 'delivered', buyer)).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'ORDER_TRANSITION_FORBIDDEN' }),
+      });
+      expect(mockOrderDAO.prototype.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should let the seller confirm and stamp confirmed_at', async () => {
+      givenOrder('pending');
+
+      const order = await transitionOrder('order-id', 'confirmed', seller);
+
+      expect(order.status).toBe('confirmed');
+      expect(mockOrderDAO.prototype.updateFulfillmentStatus).toHaveBeenCalledWith(
+        'fulfillment-id',
+        'confirmed',
+        'confirmed_at',
+        {},
+        mockConnection
+      );
+      expect(mockOrderDAO.prototype.updateStatus).toHaveBeenCalledWith(
+        'order-id',
+        'confirmed',
+        'confirmed_at',
+        mockConnection
+      );
+    });
+
+    it('should store the tracking number and carrier when shipping', async () => {
+      givenOrder('confirmed');
+
+      await transitionFulfillment('fulfillment-id', 'shipped', seller, {
+        tracking: { trackingNumber: '1Z999AA10123456784', carrier: 'UPS' },
+      });
+
+      expect(mockOrderDAO.prototype.updateFulfillmentStatus).toHaveBeenCalledWith(
+        'fulfillment-id',
+        'shipped',
+        'shipped_at',
+        { tracking_number: '1Z999AA10123456784', carrier: 'UPS' },
+        mockConnection
+      );
+      expect(mockShipmentDAO.prototype.create).toHaveBeenCalledWith(
+        { order_id: 'order-id', fulfillment_id: 'fulfillment-id', carrier: 'UPS', tracking_number: '1Z999AA10123456784' },
+        mockConnection
+      );
+    });
+
+    it('should let the platform mark a shipped fulfillment delivered', async () => {
+      givenOrder('shipped');
+
+      const { order } = await transitionFulfillment('fulfillment-id', 'delivered', null, { reason: 'Delivered by UPS' });
+
+      expect(order.status).toBe('delivered');
+      expect(mockOrderDAO.prototype.findSellerIds).not.toHaveBeenCalled();
+      expect(mockOrderDAO.prototype.createStatusEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ to_status: 'delivered', actor_id: null, actor_role: 'system' }),
+        mockConnection
+      );
+    });
+
+    it('should not let the platform cancel a fulfillment', async () => {
+      givenOrder('shipped');
+
+      await expect(transitionFulfillment('fulfillment-id', 'cancelled', null)).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'ORDER_TRANSITION_FORBIDDEN' }),
+      });
+    });
+
+    it('should let the platform cancel a pending order', async () => {
+      givenOrder('pending');
+
+      const order = await transitionOrder('order-id', 'cancelled', null, { reason: 'Payment not received in time' });
+
+      expect(order.status).toBe('cancelled');
+      expect(mockProductDAO.prototype.incrementStock).toHaveBeenCalledWith('product-id', 2, mockConnection);
+      expect(mockOrderDAO.prototype.createStatusEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ to_status: 'cancelled', actor_id: null, actor_role: 'system' }),
+        mockConnection
+      );
+    });
+
+    it('should record who changed the status and why', async () => {
+      givenOrder('confirmed');
+
+      await transitionOrder('order-id', 'cancelled', buyer, { reason: 'Changed my mind' });
+
+      expect(mockOrderDAO.prototype.createStatusEvent).toHaveBeenCalledWith(
+        {
+          order_id: 'order-id',
+          event_type: 'status',
+          from_status: 'confirmed',
+          to_status: 'cancelled',
+          actor_id: 'buyer-id',
+          actor_role: 'buyer',
+          reason: 'Changed my mind',
+        },
+        mockConnection
+      );
+    });
+
+    it('should return a typed error for invalid transitions', async () => {
+      givenOrder('pending');
+
+      await expect(transitionOrder('order-id', 'delivered', admin)).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'INVALID_ORDER_TRANSITION' }),
+      });
+    });
+
+    it('should restock items when an order is cancelled', async () => {
+      givenOrder('confirmed');
+
+      await transitionOrder('order-id', 'cancelled', buyer);
+
+      expect(mockProductDAO.prototype.incrementStock).toHaveBeenCalledWith('product-id', 2, mockConnection);
+    });
+
+    it('should capture the authorized payment when the order is confirmed', async () => {
+      givenOrder('pending');
+      mockPaymentDAO.prototype.findLatestByOrderForUpdate.mockResolvedValue(mockIntent('authorized'));
+
+      await transitionOrder('order-id', 'confirmed', seller);
+
+      expect(mockPaymentDAO.prototype.update).toHaveBeenCalledWith(
+        'intent-id',
+        { status: 'captured', captured_amount: 100 },
+        mockConnection
+      );
+      expect(mockOrderDAO.prototype.updatePaymentStatus).toHaveBeenCalledWith('order-id', 'paid', mockConnection);
+      expect(mockOrderDAO.prototype.createStatusEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event_type: 'payment_status', to_status: 'paid', actor_role: 'system' }),
+        mockConnection
+      );
+    });
+
+    it('should not confirm an order whose payment is still pending', async () => {
+      givenOrder('pending');
+      mockPaymentDAO.prototype.findLatestByOrderForUpdate.mockResolvedValue(mockIntent('pending'));
+      const retrieve = jest.spyOn(FakePaymentGateway.prototype, 'retrieve').mockResolvedValue({
+        status: 'pending',
+        reference: 'fake_pi_order-id',
+        amount: 100,
+      });
+
+      await expect(transitionOrder('order-id', 'confirmed', seller)).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'PAYMENT_NOT_COMPLETED' }),
+      });
+      expect(retrieve).toHaveBeenCalledWith('fake_pi_order-id');
+
+      retrieve.mockRestore();
+    });
+
+    it('should capture a pending payment the provider reports as paid', async () => {
+      givenOrder('pending');
+      mockPaymentDAO.prototype.findLatestByOrderForUpdate.mockResolvedValue(mockIntent('pending'));
+
+      await transitionOrder('order-id', 'confirmed', seller);
+
+      expect(mockPaymentDAO.prototype.update).toHaveBeenCalledWith('intent-id', { status: 'authorized' }, mockConnection);
+      expect(mockPaymentDAO.prototype.update).toHaveBeenCalledWith(
+        'intent-id',
+        { status: 'captured', captured_amount: 100 },
+        mockConnection
+      );
+      expect(mockOrderDAO.prototype.updatePaymentStatus).toHaveBeenCalledWith('order-id', 'paid', mockConnection);
+    });
+
+    it('should refund a captured payment when the order is cancelled', async () => {
+      givenOrder('confirmed', [mockFulfillment('confirmed')], 'paid');
+      mockPaymentDAO.prototype.findLatestByOrderForUpdate
+        .mockResolvedValueOnce(mockIntent('captured'))
+        .mockResolvedValue({ ...mockIntent('refunded'), refunded_amount: 100 });
+
+      const order = await transitionOrder('order-id', 'cancelled', buyer, { reason: 'Changed my mind' });
+
+      expect(mockPaymentDAO.prototype.update).toHaveBeenCalledWith(
+        'intent-id',
+        { status: 'refunded', refunded_amount: 100 },
+        mockConnection
+      );
+      expect(mockPaymentDAO.prototype.createRefund).toHaveBeenCalledTimes(1);
+      expect(mockPaymentDAO.prototype.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 100, reason: 'Changed my mind', restocked: 1 }),
+        [{ order_item_id: 'item-id', quantity: 2 }],
+        mockConnection
+      );
+      expect(mockOrderDAO.prototype.updatePaymentStatus).toHaveBeenCalledWith('order-id', 'refunded', mockConnection);
+      expect(order.status).toBe('cancelled');
+    });
+
+    it('should not restock items a refund already put back', async () => {
+      givenOrder('confirmed');
+      mockPaymentDAO.prototype.findRefundedQuantities.mockResolvedValue(new Map([['item-id', 1]]));
+
+      await transitionOrder('order-id', 'cancelled', buyer);
+
+      expect(mockPaymentDAO.prototype.findRefundedQuantities).toHaveBeenCalledWith('order-id', mockConnection, true);
+      expect(mockProductDAO.prototype.incrementStock).toHaveBeenCalledWith('product-id', 1, mockConnection);
+    });
+
+    it('should deny users with no role on the order', async () => {
+      givenOrder('pending');
+
+      await expect(
+        transitionOrder('order-id', 'cancelled', { userId: 'other', email: 'o@example.com', isAdmin: false })
+      ).rejects.toThrow('Access denied');
+    });
+  });
+
+  describe('with several sellers', () => {
+    const otherSeller = { userId: 'other-seller-id', email: 'other@example.com', isAdmin: false };
+
+    beforeEach(() => {
+      mockOrderDAO.prototype.findSellerIds.mockResolvedValue(['seller-id', 'other-seller-id']);
+    });
+
+    it('should only move the calling seller\'s fulfillment', async () => {
+      givenOrder('pending', [
+        mockFulfillment('pending'),
+        mockFulfillment('pending', 'other-fulfillment-id', 'other-seller-id'),
+      ]);
+
+      const order = await transitionOrder('order-id', 'confirmed', otherSeller);
+
+      expect(mockOrderDAO.prototype.updateFulfillmentStatus).toHaveBeenCalledTimes(1);
+      expect(mockOrderDAO.prototype.updateFulfillmentStatus).toHaveBeenCalledWith(
+        'other-fulfillment-id',
+        'confirmed',
+        'confirmed_at',
+        {},
+        mockConnection
+      );
+      expect(mockOrderDAO.prototype.createStatusEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ fulfillment_id: 'other-fulfillment-id', to_status: 'confirmed' }),
+        mockConnection
+      );
+      // The other seller has not confirmed yet
+      expect(mockOrderDAO.prototype.updateStatus).not.toHaveBeenCalled();
+      expect(order.status).toBe('pending');
+    });
+
+    it('should capture only the live fulfillments when one was cancelled first', async () => {
+      givenOrder('pending', [
+        mockFulfillment('pending'),
+        mockFulfillment('cancelled', 'other-fulfillment-id', 'other-seller-id'),
+      ]);
+      mockPaymentDAO.prototype.findLatestByOrderForUpdate.mockResolvedValue({ ...mockIntent('authorized'), amount: 200 });
+
+      await transitionFulfillment('fulfillment-id', 'confirmed', seller);
+
+      expect(mockPaymentDAO.prototype.update).toHaveBeenCalledWith(
+        'intent-id',
+        { status: 'captured', captured_amount: 100 },
+        mockConnection
+      );
+      expect(mockOrderDAO.prototype.updateStatus).toHaveBeenCalledWith(
+        'order-id',
+        'confirmed',
+        'confirmed_at',
+        mockConnection
+      );
+    });
+
+    it('should not let a seller move another seller\'s fulfillment', async () => {
+      givenOrder('pending', [
+        mockFulfillment('pending'),
+        mockFulfillment('pending', 'other-fulfillment-id', 'other-seller-id'),
+      ]);
+
+      await expect(transitionFulfillment('fulfillment-id', 'confirmed', otherSeller)).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'ORDER_TRANSITION_FORBIDDEN' }),
+      });
+    });
+  });
+});
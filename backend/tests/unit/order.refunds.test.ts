@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { refundOrder } from '../../src/modules/order/order.refunds';
+import { OrderDAO } from '../../src/modules/order/order.dao';
+import { ProductDAO } from '../../src/modules/product/product.dao';
+import { PaymentDAO } from '../../src/modules/payment/payment.dao';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/modules/order/order.dao');
+jest.mock('../../src/modules/product/product.dao');
+jest.mock('../../src/modules/payment/payment.dao');
+jest.mock('../../src/lib/database');
+
+const mockOrderDAO = OrderDAO as jest.MockedClass<typeof OrderDAO>;
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+const mockPaymentDAO = PaymentDAO as jest.MockedClass<typeof PaymentDAO>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const buyer = { userId: 'buyer-id', email: 'buyer@example.com', isAdmin: false };
+const seller = { userId: 'seller-id', email: 'seller@example.com', isAdmin: false };
+const admin = { userId: 'admin-id', email: 'admin@example.com', isAdmin: true };
+
+const paidOrder: any = {
+  id: 'order-id',
+  user_id: 'buyer-id',
+  status: 'delivered',
+  total_amount: 150,
+  payment_status: 'paid',
+};
+
+const capturedIntent: any = {
+  id: 'intent-id',
+  order_id: 'order-id',
+  provider: 'fake',
+  provider_reference: 'fake_pi_order-id',
+  status: 'captured',
+  amount: 150,
+  captured_amount: 150,
+  refunded_amount: 0,
+};
+
+describe('Order refunds', () => {
+  const mockConnection: any = { execute: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockDatabaseService.executeTransaction.mockImplementation(
+      async (callback: any) => callback(mockConnection)
+    );
+    mockOrderDAO.prototype.findByIdForUpdate.mockResolvedValue(paidOrder);
+    mockOrderDAO.prototype.findSellerIds.mockResolvedValue(['seller-id']);
+    mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+      { id: 'item-1', order_id: 'order-id', product_id: 'product-1', seller_id: 'seller-id', quantity: 2, unit_price: 50, total_price: 100, discount_amount: 0 } as any,
+      { id: 'item-2', order_id: 'order-id', product_id: 'product-2', seller_id: 'other-seller-id', quantity: 1, unit_price: 50, total_price: 50, discount_amount: 0 } as any,
+    ]);
+    mockOrderDAO.prototype.updatePaymentStatus.mockImplementation(
+      async (id: string, paymentStatus: string) => ({ ...paidOrder, id, payment_status: paymentStatus })
+    );
+    mockPaymentDAO.prototype.findLatestByOrderForUpdate.mockResolvedValue(capturedIntent);
+    mockPaymentDAO.prototype.findRefundedQuantities.mockResolvedValue(new Map());
+    mockPaymentDAO.prototype.update.mockImplementation(
+      async (id: string, updates: any) => ({ ...capturedIntent, id, ...updates })
+    );
+    mockPaymentDAO.prototype.createRefund.mockImplementation(
+      async (refundData: any, items: any) => ({ ...refundData, id: 'refund-id', items })
+    );
+  });
+
+  it('should refund listed items at the price paid and mark the order partially refunded', async () => {
+    const { order } = await refundOrder('order-id', seller, {
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+      reason: 'Damaged',
+      restock: true,
+    });
+
+    expect(mockPaymentDAO.prototype.createRefund).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 50, reason: 'Damaged', restocked: 1, actor_id: 'seller-id' }),
+      [{ order_item_id: 'item-1', quantity: 1 }],
+      mockConnection
+    );
+    expect(mockProductDAO.prototype.incrementStock).toHaveBeenCalledWith('product-1', 1, mockConnection);
+    expect(order.payment_status).toBe('partially_refunded');
+  });
+
+  it('should refund discounted items at their share of the discount', async () => {
+    mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+      { id: 'item-1', order_id: 'order-id', product_id: 'product-1', quantity: 2, unit_price: 50, total_price: 100, discount_amount: 20 } as any,
+    ]);
+
+    await refundOrder('order-id', admin, {
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+      reason: 'Damaged',
+    });
+
+    expect(mockPaymentDAO.prototype.createRefund).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 40 }),
+      [{ order_item_id: 'item-1', quantity: 1 }],
+      mockConnection
+    );
+  });
+
+  it('should mark the order refunded once the whole capture is returned', async () => {
+    const { order } = await refundOrder('order-id', admin, { amount: 150, reason: 'Goodwill' });
+
+    expect(mockPaymentDAO.prototype.update).toHaveBeenCalledWith(
+      'intent-id',
+      expect.objectContaining({ status: 'refunded', refunded_amount: 150 }),
+      mockConnection
+    );
+    expect(order.payment_status).toBe('refunded');
+    expect(mockProductDAO.prototype.incrementStock).not.toHaveBeenCalled();
+  });
+
+  it('should not refund more than is left of the capture', async () => {
+    mockPaymentDAO.prototype.findLatestByOrderForUpdate.mockResolvedValue({ ...capturedIntent, refunded_amount: 120 });
+
+    await expect(refundOrder('order-id', admin, { amount: 50, reason: 'Goodwill' })).rejects.toMatchObject({
+      extensions: expect.objectContaining({ code: 'INVALID_REFUND' }),
+    });
+    expect(mockPaymentDAO.prototype.createRefund).not.toHaveBeenCalled();
+  });
+
+  it('should not refund items twice', async () => {
+    mockPaymentDAO.prototype.findRefundedQuantities.mockResolvedValue(new Map([['item-2', 1]]));
+
+    await expect(
+      refundOrder('order-id', admin, { items: [{ orderItemId: 'item-2', quantity: 1 }], reason: 'Damaged' })
+    ).rejects.toThrow('Only 0 of item item-2 can still be refunded');
+  });
+
+  it('should keep sellers to their own items', async () => {
+    await expect(
+      refundOrder('order-id', seller, { items: [{ orderItemId: 'item-2', quantity: 1 }], reason: 'Damaged' })
+    ).rejects.toThrow('Access denied: sellers can only refund their own items');
+  });
+
+  it('should let the seller refund items of a product deleted since', async () => {
+    mockProductDAO.prototype.findByIds.mockResolvedValue([]);
+
+    const { refund } = await refundOrder('order-id', seller, {
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+      reason: 'Damaged',
+    });
+
+    expect(refund.amount).toBe(50);
+  });
+
+  it('should not let buyers refund their own orders', async () => {
+    await expect(refundOrder('order-id', buyer, { amount: 10, reason: 'Please' })).rejects.toThrow('Access denied');
+  });
+
+  it('should reject orders that were never paid', async () => {
+    mockOrderDAO.prototype.findByIdForUpdate.mockResolvedValue({ ...paidOrder, payment_status: 'authorized' });
+
+    await expect(refundOrder('order-id', admin, { amount: 10, reason: 'Goodwill' })).rejects.toMatchObject({
+      extensions: expect.objectContaining({ code: 'INVALID_REFUND' }),
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { reorder } from '../../src/modules/order/order.reorder';
+import { OrderDAO } from '../../src/modules/order/order.dao';
+import { ProductDAO } from '../../src/modules/product/product.dao';
+import { UserDAO } from '../../src/modules/user/user.dao';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/modules/order/order.dao');
+jest.mock('../../src/modules/product/product.dao');
+jest.mock('../../src/modules/user/user.dao');
+jest.mock('../../src/lib/database');
+
+const mockOrderDAO = OrderDAO as jest.MockedClass<typeof OrderDAO>;
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+const mockUserDAO = UserDAO as jest.MockedClass<typeof UserDAO>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const buyer: any = { userId: 'buyer-id', email: 'buyer@example.com', roles: ['buyer'], isAdmin: false };
+
+function mockItem(productId: string, quantity: number, unitPrice: number): any {
+  return { id: `item-${productId}-${quantity}`, order_id: 'order-id', product_id: productId, quantity, unit_price: unitPrice, product_name: `Ordered ${productId}` };
+}
+
+function mockProduct(id: string, overrides: any = {}): any {
+  return { id, name: `Product ${id}`, price: 10, stock_quantity: 100, is_active: 1, ...overrides };
+}
+
+describe('Reorder', () => {
+  const mockConnection: any = { execute: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockDatabaseService.executeTransaction.mockImplementation(
+      async (callback: any) => callback(mockConnection)
+    );
+    mockOrderDAO.prototype.findById.mockResolvedValue({ id: 'order-id', user_id: 'buyer-id' } as any);
+    mockUserDAO.prototype.getCartItems.mockResolvedValue([]);
+    mockUserDAO.prototype.mergeCartItems.mockResolvedValue(undefined);
+  });
+
+  it('should add available items to the cart and report price changes', async () => {
+    mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+      mockItem('p1', 2, 10),
+      mockItem('p2', 1, 20),
+      // Split across sellers' fulfillments, same product
+      mockItem('p1', 1, 10),
+    ]);
+    mockProductDAO.prototype.findByIds.mockResolvedValue([
+      mockProduct('p1'),
+      mockProduct('p2', { price: 25 }),
+    ]);
+
+    const result = await reorder('order-id', buyer);
+
+    expect(result.added).toEqual([
+      { productId: 'p1', name: 'Product p1', orderedQuantity: 3, quantity: 3, previousPrice: 10, currentPrice: 10 },
+      { productId: 'p2', name: 'Product p2', orderedQuantity: 1, quantity: 1, previousPrice: 20, currentPrice: 25 },
+    ]);
+    expect(result.skipped).toEqual([]);
+    expect(mockUserDAO.prototype.mergeCartItems).toHaveBeenCalledWith(
+      'buyer-id',
+      [{ product_id: 'p1', quantity: 3 }, { product_id: 'p2', quantity: 1 }],
+      mockConnection
+    );
+  });
+
+  it('should skip unavailable products and cap quantities at the stock left', async () => {
+    mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+      mockItem('deleted', 1, 5),
+      mockItem('inactive', 1, 5),
+      mockItem('sold-out', 1, 5),
+      mockItem('short', 5, 5),
+    ]);
+    mockProductDAO.prototype.findByIds.mockResolvedValue([
+      mockProduct('inactive', { is_active: 0 }),
+      mockProduct('sold-out', { stock_quantity: 2 }),
+      mockProduct('short', { stock_quantity: 4 }),
+    ]);
+    mockUserDAO.prototype.getCartItems.mockResolvedValue([
+      { id: 'cart-1', user_id: 'buyer-id', product_id: 'sold-out', quantity: 2 } as any,
+      { id: 'cart-2', user_id: 'buyer-id', product_id: 'short', quantity: 1 } as any,
+    ]);
+
+    const result = await reorder('order-id', buyer);
+
+    expect(result.skipped).toEqual([
+      { productId: 'deleted', name: 'Ordered deleted', quantity: 1, reason: 'product_unavailable' },
+      { productId: 'inactive', name: 'Product inactive', quantity: 1, reason: 'product_unavailable' },
+      { productId: 'sold-out', name: 'Product sold-out', quantity: 1, reason: 'out_of_stock' },
+    ]);
+    expect(result.added).toEqual([expect.objectContaining({ productId: 'short', orderedQuantity: 5, quantity: 3 })]);
+  });
+
+  it('should leave the cart alone when nothing can be added', async () => {
+    mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([mockItem('p1', 1, 10)]);
+    mockProductDAO.prototype.findByIds.mockResolvedValue([]);
+
+    const result = await reorder('order-id', buyer);
+
+    expect(result.added).toEqual([]);
+    expect(mockDatabaseService.executeTransaction).not.toHaveBeenCalled();
+    expect(mockUserDAO.prototype.getCartItems).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only let the buyer reorder', async () => {
+    const otherUser: any = { ...buyer, userId: 'other-id' };
+
+    await expect(reorder('order-id', otherUser)).rejects.toThrow('Access denied: insufficient permissions');
+    expect(mockUserDAO.prototype.mergeCartItems).not.toHaveBeenCalled();
+  });
+});
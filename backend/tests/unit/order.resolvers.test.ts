@@ -0,0 +1,807 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { orderResolvers } from '../../src/modules/order/order.resolvers';
+import { OrderDAO } from '../../src/modules/order/order.dao';
+import { ProductDAO } from '../../src/modules/product/product.dao';
+import { UserDAO } from '../../src/modules/user/user.dao';
+import { PaymentDAO } from '../../src/modules/payment/payment.dao';
+import { PromotionDAO } from '../../src/modules/promotion/promotion.dao';
+import { TaxDAO } from '../../src/modules/tax/tax.dao';
+import { ShippingDAO } from '../../src/modules/shipping/shipping.dao';
+import { AddressDAO } from '../../src/modules/address/address.dao';
+import { PaymentController } from '../../src/modules/payment/payment.controller';
+import { databaseService } from '../../src/lib/database';
+import { pubSubService, pubSubChannels } from '../../src/lib/pubsub';
+
+// Mock dependencies
+jest.mock('../../src/modules/user/user.dao');
+jest.mock('../../src/modules/product/product.dao');
+jest.mock('../../src/modules/order/order.dao');
+jest.mock('../../src/modules/payment/payment.dao');
+jest.mock('../../src/modules/promotion/promotion.dao');
+jest.mock('../../src/modules/tax/tax.dao');
+jest.mock('../../src/modules/shipping/shipping.dao');
+jest.mock('../../src/modules/address/address.dao');
+jest.mock('../../src/lib/database');
+
+const mockUserDAO = UserDAO as jest.MockedClass<typeof UserDAO>;
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+const mockOrderDAO = OrderDAO as jest.MockedClass<typeof OrderDAO>;
+const mockPaymentDAO = PaymentDAO as jest.MockedClass<typeof PaymentDAO>;
+const mockPromotionDAO = PromotionDAO as jest.MockedClass<typeof PromotionDAO>;
+const mockTaxDAO = TaxDAO as jest.MockedClass<typeof TaxDAO>;
+const mockShippingDAO = ShippingDAO as jest.MockedClass<typeof ShippingDAO>;
+const mockAddressDAO = AddressDAO as jest.MockedClass<typeof AddressDAO>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const productId = '660e8400-e29b-41d4-a716-446655440001';
+
+describe('Order Resolvers', () => {
+  let mockContext: any;
+  let mockConnection: any;
+
+  const input = {
+    items: [{ productId, quantity: 2 }],
+    payment: {
+      method: 'credit_card',
+      cardNumber: '4242424242424242',
+      expiryDate: '12/30',
+      cvv: '123',
+      billingAddress: '456 Main St',
+      shippingAddress: '456 Main St',
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockContext = {
+      user: {
+        userId: 'test-user-id',
+        email: 'test@example.com',
+        isAdmin: false,
+      },
+    };
+
+    mockConnection = { execute: jest.fn() };
+    mockDatabaseService.executeTransaction.mockImplementation(
+      async (callback: any) => callback(mockConnection)
+    );
+
+    mockProductDAO.prototype.findByIdsForUpdate.mockResolvedValue([
+      {
+        id: productId,
+        name: 'iPhone 15 Pro',
+        price: 999.99,
+        category: 'Electronics',
+        stock_quantity: 5,
+        is_active: 1,
+        seller_id: 'seller-id',
+        created_at: '2023-01-01T00:00:00Z',
+        updated_at: '2023-01-01T00:00:00Z',
+      },
+    ]);
+    mockProductDAO.prototype.decrementStock.mockResolvedValue(true);
+    mockProductDAO.prototype.findAttributesByProducts.mockResolvedValue([]);
+    mockProductDAO.prototype.findImagesByProducts.mockResolvedValue([]);
+    mockUserDAO.prototype.clearCart.mockResolvedValue(true);
+    mockUserDAO.prototype.findById.mockResolvedValue(null);
+    mockTaxDAO.prototype.findByCountry.mockResolvedValue([]);
+    mockShippingDAO.prototype.findActiveBySellers.mockResolvedValue([]);
+    mockShippingDAO.prototype.findZonesByMethods.mockResolvedValue([]);
+    mockAddressDAO.prototype.findDefault.mockResolvedValue(null);
+    mockAddressDAO.prototype.createOrderAddresses.mockResolvedValue([]);
+    mockPromotionDAO.prototype.findAutomatic.mockResolvedValue([]);
+    mockPromotionDAO.prototype.findByCode.mockResolvedValue(null);
+    mockPromotionDAO.prototype.incrementUsage.mockResolvedValue(true);
+    mockPromotionDAO.prototype.createOrderDiscounts.mockResolvedValue([]);
+    mockOrderDAO.prototype.createOrderWithItems.mockImplementation(async (orderData: any) => ({
+      order: {
+        ...orderData,
+        created_at: '2023-01-01T00:00:00Z',
+        updated_at: '2023-01-01T00:00:00Z',
+      },
+      items: [],
+    }));
+  });
+
+  describe('Mutation.createOrder', () => {
+    it('should write the order, decrement stock and clear the cart in one transaction', async () => {
+      const result = await orderResolvers.Mutation.createOrder(null, { input }, mockContext);
+
+      expect(mockDatabaseService.executeTransaction).toHaveBeenCalledTimes(1);
+      expect(mockProductDAO.prototype.findByIdsForUpdate).toHaveBeenCalledWith([productId], mockConnection);
+      expect(mockProductDAO.prototype.decrementStock).toHaveBeenCalledWith(productId, 2, mockConnection);
+      expect(mockUserDAO.prototype.clearCart).toHaveBeenCalledWith('test-user-id', mockConnection);
+      expect(result.totalAmount).toBeCloseTo(1999.98);
+      expect(result.status).toBe('PENDING');
+      expect(result.paymentStatus).toBe('AUTHORIZED');
+    });
+
+    it('should split the order into one fulfillment per seller', async () => {
+      const otherProductId = '660e8400-e29b-41d4-a716-446655440002';
+      mockProductDAO.prototype.findByIdsForUpdate.mockResolvedValue([
+        { id: productId, name: 'iPhone 15 Pro', price: 999.99, stock_quantity: 5, is_active: 1, seller_id: 'seller-id' },
+        { id: otherProductId, name: 'USB-C Cable', price: 19.99, stock_quantity: 5, is_active: 1, seller_id: 'other-seller-id' },
+      ] as any);
+
+      await orderResolvers.Mutation.createOrder(
+        null,
+        { input: { ...input, items: [...input.items, { productId: otherProductId, quantity: 1 }] } },
+        mockContext
+      );
+
+      const [, fulfillments] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(fulfillments).toHaveLength(2);
+      expect(fulfillments).toEqual(expect.arrayContaining([
+        expect.objectContaining({ seller_id: 'seller-id', subtotal: 1999.98 }),
+        expect.objectContaining({ seller_id: 'other-seller-id', subtotal: 19.99 }),
+      ]));
+    });
+
+    it('should round each seller\'s subtotal to cents', async () => {
+      const otherProductId = '660e8400-e29b-41d4-a716-446655440002';
+      mockProductDAO.prototype.findByIdsForUpdate.mockResolvedValue([
+        { id: productId, name: 'Sticker', price: 0.1, stock_quantity: 5, is_active: 1, seller_id: 'seller-id' },
+        { id: otherProductId, name: 'Pin', price: 0.2, stock_quantity: 5, is_active: 1, seller_id: 'seller-id' },
+      ] as any);
+
+      await orderResolvers.Mutation.createOrder(
+        null,
+        { input: { ...input, items: [{ productId, quantity: 1 }, { productId: otherProductId, quantity: 1 }] } },
+        mockContext
+      );
+
+      const [, fulfillments] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(fulfillments[0]!.subtotal).toBe(0.3);
+    });
+
+    it('should store only the card brand and last four digits', async () => {
+      await orderResolvers.Mutation.createOrder(null, { input }, mockContext);
+
+      const [intent, connection] = mockPaymentDAO.prototype.create.mock.calls[0]!;
+      expect(connection).toBe(mockConnection);
+      expect(intent).toMatchObject({ status: 'authorized', card_brand: 'visa', card_last4: '4242' });
+      expect(JSON.stringify(intent)).not.toContain('4242424242424242');
+      expect(JSON.stringify(intent)).not.toContain('123');
+    });
+
+    it('should reject a declined card without writing the order', async () => {
+      const declined = { ...input, payment: { ...input.payment, cardNumber: '4000000000000002' } };
+
+      await expect(
+        orderResolvers.Mutation.createOrder(null, { input: declined }, mockContext)
+      ).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'PAYMENT_DECLINED', reason: 'card_declined' }),
+      });
+
+      expect(mockOrderDAO.prototype.createOrderWithItems).not.toHaveBeenCalled();
+      expect(mockPaymentDAO.prototype.create).not.toHaveBeenCalled();
+    });
+
+    it('should leave non-card payments pending', async () => {
+      const pix = {
+        ...input,
+        payment: { method: 'pix', billingAddress: '456 Main St', shippingAddress: '456 Main St' },
+      };
+
+      const result = await orderResolvers.Mutation.createOrder(null, { input: pix }, mockContext);
+
+      expect(result.paymentStatus).toBe('PENDING');
+    });
+
+    it('should merge repeated lines before checking stock', async () => {
+      const repeated = {
+        ...input,
+        items: [
+          { productId, quantity: 3 },
+          { productId, quantity: 3 },
+        ],
+      };
+
+      await expect(
+        orderResolvers.Mutation.createOrder(null, { input: repeated }, mockContext)
+      ).rejects.toThrow('Insufficient stock for product: iPhone 15 Pro');
+
+      expect(mockOrderDAO.prototype.createOrderWithItems).not.toHaveBeenCalled();
+    });
+
+    it('should fail the transaction when the stock update loses a race', async () => {
+      mockProductDAO.prototype.decrementStock.mockResolvedValue(false);
+
+      await expect(
+        orderResolvers.Mutation.createOrder(null, { input }, mockContext)
+      ).rejects.toThrow('Insufficient stock');
+
+      expect(mockUserDAO.prototype.clearCart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Mutation.createOrder with an idempotency key', () => {
+    beforeEach(() => {
+      // In-memory stand-in for the idempotency_keys table
+      const rows = new Map<string, any>();
+      mockDatabaseService.executeQuery.mockImplementation(async (sql: string, binds: any) => {
+        if (sql.includes('INSERT INTO idempotency_keys')) {
+          if (rows.has(binds.key)) {
+            throw Object.assign(new Error('ORA-00001: unique constraint violated'), { errorNum: 1 });
+          }
+          rows.set(binds.key, { operation: binds.operation, request_hash: binds.requestHash, status: 'in_progress' });
+        } else if (sql.includes('SELECT * FROM idempotency_keys')) {
+          return { rows: rows.has(binds.key) ? [rows.get(binds.key)] : [] } as any;
+        } else if (sql.includes('UPDATE idempotency_keys')) {
+          rows.set(binds.key, { ...rows.get(binds.key), status: 'completed', response: binds.response });
+        }
+        return { rows: [] } as any;
+      });
+      mockPromotionDAO.prototype.findByCode.mockImplementation(async (code: string) => ({
+        id: `promotion-${code}`,
+        code,
+        name: code,
+        discount_type: 'percent',
+        discount_value: 10,
+        times_used: 0,
+        is_active: 1,
+      } as any));
+    });
+
+    it('should replay the order for a retry with a new card entry', async () => {
+      const context = { ...mockContext, req: { headers: { 'idempotency-key': 'checkout-1' } } };
+
+      const first = await orderResolvers.Mutation.createOrder(null, { input }, context);
+      const retried = await orderResolvers.Mutation.createOrder(
+        null,
+        { input: { ...input, payment: { ...input.payment, cardNumber: '4242 4242 4242 4242', cvv: '321' } } },
+        context
+      );
+
+      expect(retried).toEqual(JSON.parse(JSON.stringify(first)));
+      expect(mockOrderDAO.prototype.createOrderWithItems).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject the same key with a different coupon', async () => {
+      const context = { ...mockContext, req: { headers: { 'idempotency-key': 'checkout-1' } } };
+
+      await orderResolvers.Mutation.createOrder(null, { input: { ...input, couponCode: 'SAVE10' } }, context);
+
+      await expect(
+        orderResolvers.Mutation.createOrder(null, { input: { ...input, couponCode: 'SAVE20' } }, context)
+      ).rejects.toMatchObject({ extensions: expect.objectContaining({ code: 'IDEMPOTENCY_KEY_CONFLICT' }) });
+      expect(mockOrderDAO.prototype.createOrderWithItems).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Non-card payments', () => {
+    it('should take a pix order from checkout to confirmed once the provider reports it paid', async () => {
+      const fulfillment = { id: 'fulfillment-id', seller_id: 'seller-id', status: 'pending', subtotal: 1999.98 };
+      let order: any;
+      let intent: any;
+
+      // The DAOs keep the order and its payment between the calls
+      mockOrderDAO.prototype.createOrderWithItems.mockImplementation(async (orderData: any) => {
+        order = { ...orderData, created_at: '2023-01-01T00:00:00Z', updated_at: '2023-01-01T00:00:00Z' };
+        return { order, fulfillments: [{ ...fulfillment, order_id: order.id }], items: [] } as any;
+      });
+      mockOrderDAO.prototype.findByIdForUpdate.mockImplementation(async () => order);
+      mockOrderDAO.prototype.findFulfillmentsByOrder.mockImplementation(async () => [{ ...fulfillment, order_id: order.id }] as any);
+      mockOrderDAO.prototype.findSellerIds.mockResolvedValue(['seller-id']);
+      mockOrderDAO.prototype.updateFulfillmentStatus.mockImplementation(async (id: string, status: string) =>
+        ({ ...fulfillment, id, order_id: order.id, status }) as any
+      );
+      mockOrderDAO.prototype.updateStatus.mockImplementation(async (_id: string, status: string) => (order = { ...order, status }));
+      mockOrderDAO.prototype.updatePaymentStatus.mockImplementation(async (_id: string, paymentStatus: string) =>
+        (order = { ...order, payment_status: paymentStatus })
+      );
+      mockPaymentDAO.prototype.create.mockImplementation(async (intentData: any) =>
+        (intent = { id: 'intent-id', captured_amount: 0, refunded_amount: 0, ...intentData })
+      );
+      mockPaymentDAO.prototype.findByReference.mockImplementation(async () => intent);
+      mockPaymentDAO.prototype.findLatestByOrderForUpdate.mockImplementation(async () => intent);
+      mockPaymentDAO.prototype.update.mockImplementation(async (_id: string, updates: any) => (intent = { ...intent, ...updates }));
+
+      const pix = {
+        ...input,
+        payment: { method: 'pix', billingAddress: '456 Main St', shippingAddress: '456 Main St' },
+      };
+      const placed = await orderResolvers.Mutation.createOrder(null, { input: pix }, mockContext);
+      expect(placed.paymentStatus).toBe('PENDING');
+
+      const res: any = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+      await new PaymentController().webhook({ body: { reference: intent.provider_reference } } as any, res);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(order.payment_status).toBe('authorized');
+
+      const confirmed = await orderResolvers.Mutation.updateOrderStatus(
+        null,
+        { id: placed.id, status: 'CONFIRMED' },
+        { user: { userId: 'seller-id', email: 'seller@example.com', isAdmin: false } } as any
+      );
+
+      expect(confirmed.status).toBe('CONFIRMED');
+      expect(confirmed.paymentStatus).toBe('PAID');
+      expect(intent).toMatchObject({ status: 'captured', captured_amount: 1999.98 });
+    });
+  });
+
+  describe('Mutation.createOrder with promotions', () => {
+    const coupon: any = {
+      id: 'promotion-id',
+      code: 'SAVE10',
+      name: '10% off',
+      discount_type: 'percent',
+      discount_value: 10,
+      times_used: 0,
+      is_active: 1,
+    };
+
+    it('should charge the discounted total and record the discount', async () => {
+      mockPromotionDAO.prototype.findByCode.mockResolvedValue(coupon);
+
+      const result = await orderResolvers.Mutation.createOrder(
+        null,
+        { input: { ...input, couponCode: 'save10' } },
+        mockContext
+      );
+
+      const [orderData, fulfillments] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(orderData).toMatchObject({ subtotal_amount: 1999.98, discount_amount: 200, total_amount: 1799.98 });
+      expect(fulfillments[0]).toMatchObject({ subtotal: 1999.98, discount_amount: 200 });
+      expect(fulfillments[0]!.items[0]).toMatchObject({ total_price: 1999.98, discount_amount: 200 });
+      expect(mockPaymentDAO.prototype.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1799.98 }),
+        mockConnection
+      );
+      expect(mockPromotionDAO.prototype.incrementUsage).toHaveBeenCalledWith('promotion-id', mockConnection);
+      expect(mockPromotionDAO.prototype.createOrderDiscounts).toHaveBeenCalledWith(
+        expect.any(String),
+        [{ promotion_id: 'promotion-id', code: 'SAVE10', description: '10% off', amount: 200 }],
+        mockConnection
+      );
+      expect(result.totalAmount).toBeCloseTo(1799.98);
+    });
+
+    it('should tax the discounted price by the buyer\'s address', async () => {
+      mockPromotionDAO.prototype.findByCode.mockResolvedValue(coupon);
+      mockUserDAO.prototype.findById.mockResolvedValue({ id: 'test-user-id', country: 'BR', state: 'SP' } as any);
+      mockTaxDAO.prototype.findByCountry.mockResolvedValue([
+        { id: 'rule-id', country: 'BR', state: 'SP', category: 'Electronics', name: 'ICMS', rate: 10, is_active: 1 } as any,
+      ]);
+
+      const result = await orderResolvers.Mutation.createOrder(
+        null,
+        { input: { ...input, couponCode: 'SAVE10' } },
+        mockContext
+      );
+
+      const [orderData, fulfillments] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(orderData).toMatchObject({ subtotal_amount: 1999.98, discount_amount: 200, tax_amount: 180, total_amount: 1979.98 });
+      expect(fulfillments[0]).toMatchObject({ tax_amount: 180 });
+      expect(fulfillments[0]!.items[0]).toMatchObject({ tax_rate: 10, tax_amount: 180 });
+      expect(mockPaymentDAO.prototype.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1979.98 }),
+        mockConnection
+      );
+      expect(result).toMatchObject({ subtotal: 1999.98, discountAmount: 200, taxAmount: 180, shippingAmount: 0 });
+    });
+
+    it('should reject an unknown coupon before authorizing the payment', async () => {
+      await expect(
+        orderResolvers.Mutation.createOrder(null, { input: { ...input, couponCode: 'NOPE' } }, mockContext)
+      ).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'INVALID_COUPON', couponCode: 'NOPE' }),
+      });
+
+      expect(mockPaymentDAO.prototype.create).not.toHaveBeenCalled();
+      expect(mockOrderDAO.prototype.createOrderWithItems).not.toHaveBeenCalled();
+    });
+
+    it('should fail the checkout when the coupon runs out in the meantime', async () => {
+      mockPromotionDAO.prototype.findByCode.mockResolvedValue(coupon);
+      mockPromotionDAO.prototype.incrementUsage.mockResolvedValue(false);
+
+      await expect(
+        orderResolvers.Mutation.createOrder(null, { input: { ...input, couponCode: 'SAVE10' } }, mockContext)
+      ).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'INVALID_COUPON' }),
+      });
+
+      expect(mockUserDAO.prototype.clearCart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Mutation.createOrder with shipping', () => {
+    const methodId = '770e8400-e29b-41d4-a716-446655440001';
+
+    beforeEach(() => {
+      mockShippingDAO.prototype.findActiveBySellers.mockResolvedValue([
+        {
+          id: 'economy-id', seller_id: 'seller-id', name: 'Economy', rate_type: 'flat',
+          base_rate: 10, rate_per_kg: 0, min_days: 5, max_days: 10, is_active: 1,
+        } as any,
+        {
+          id: methodId, seller_id: 'seller-id', name: 'Express', carrier: 'DHL', rate_type: 'flat',
+          base_rate: 25, rate_per_kg: 0, min_days: 1, max_days: 2, is_active: 1,
+        } as any,
+      ]);
+    });
+
+    it('should default to the cheapest option and add it to the total', async () => {
+      await orderResolvers.Mutation.createOrder(null, { input }, mockContext);
+
+      const [orderData, fulfillments] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(orderData).toMatchObject({ shipping_amount: 10, total_amount: 2009.98 });
+      expect(fulfillments[0]).toMatchObject({
+        shipping_method_id: 'economy-id',
+        shipping_method: 'Economy',
+        shipping_amount: 10,
+      });
+    });
+
+    it('should persist the buyer\'s pick with its delivery estimate', async () => {
+      await orderResolvers.Mutation.createOrder(
+        null,
+        { input: { ...input, shipping: [{ sellerId: 'seller-id', methodId }] } },
+        mockContext
+      );
+
+      const [orderData, fulfillments] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(orderData).toMatchObject({ shipping_amount: 25, total_amount: 2024.98 });
+      expect(fulfillments[0]).toMatchObject({ shipping_method_id: methodId, shipping_method: 'Express', shipping_amount: 25 });
+      expect(fulfillments[0]!.estimated_delivery_to!.getTime())
+        .toBeGreaterThan(fulfillments[0]!.estimated_delivery_from!.getTime());
+    });
+
+    it('should reject a method the seller does not offer before authorizing the payment', async () => {
+      await expect(
+        orderResolvers.Mutation.createOrder(
+          null,
+          { input: { ...input, shipping: [{ sellerId: 'seller-id', methodId: 'unknown-method' }] } },
+          mockContext
+        )
+      ).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'INVALID_SHIPPING_METHOD', sellerId: 'seller-id' }),
+      });
+
+      expect(mockPaymentDAO.prototype.create).not.toHaveBeenCalled();
+      expect(mockOrderDAO.prototype.createOrderWithItems).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Mutation.createOrder with addresses', () => {
+    const savedAddress: any = {
+      id: 'address-id',
+      user_id: 'test-user-id',
+      label: 'Home',
+      recipient_name: 'Test User',
+      line1: 'Av. Paulista, 1000',
+      city: 'São Paulo',
+      state: 'SP',
+      postal_code: '01310-100',
+      country: 'BR',
+      is_default: 1,
+    };
+    const payment = { method: 'pix' };
+
+    beforeEach(() => {
+      mockTaxDAO.prototype.findByCountry.mockResolvedValue([
+        { id: 'rule-id', country: 'BR', state: 'SP', name: 'ICMS', rate: 10, is_active: 1 } as any,
+      ]);
+    });
+
+    it('should copy a saved address onto the order and tax by it', async () => {
+      mockAddressDAO.prototype.findById.mockResolvedValue(savedAddress);
+
+      await orderResolvers.Mutation.createOrder(
+        null,
+        { input: { items: input.items, payment: { ...payment, shippingAddressId: 'address-id' } } },
+        mockContext
+      );
+
+      const [orderData] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(orderData).toMatchObject({
+        shipping_address: 'Test User, Av. Paulista, 1000, São Paulo, SP 01310-100, BR',
+        billing_address: 'Test User, Av. Paulista, 1000, São Paulo, SP 01310-100, BR',
+        tax_amount: 200,
+      });
+
+      const [, addresses] = mockAddressDAO.prototype.createOrderAddresses.mock.calls[0]!;
+      expect(addresses.map(({ address_type }) => address_type)).toEqual(['shipping', 'billing']);
+      expect(addresses[0]!.address).not.toHaveProperty('id');
+      expect(addresses[0]!.address).toMatchObject({ line1: 'Av. Paulista, 1000', state: 'SP', country: 'BR' });
+    });
+
+    it('should not let a buyer ship to someone else\'s saved address', async () => {
+      mockAddressDAO.prototype.findById.mockResolvedValue({ ...savedAddress, user_id: 'other-user-id' });
+
+      await expect(
+        orderResolvers.Mutation.createOrder(
+          null,
+          { input: { items: input.items, payment: { ...payment, shippingAddressId: 'address-id' } } },
+          mockContext
+        )
+      ).rejects.toThrow('Address not found');
+
+      expect(mockOrderDAO.prototype.createOrderWithItems).not.toHaveBeenCalled();
+    });
+
+    it('should take a structured address and bill to the given one', async () => {
+      await orderResolvers.Mutation.createOrder(
+        null,
+        {
+          input: {
+            items: input.items,
+            payment: {
+              ...payment,
+              shipTo: { line1: '1 Main St', city: 'Springfield', state: 'IL', country: 'US' },
+              billingAddress: 'PO Box 1, Springfield',
+            },
+          },
+        },
+        mockContext
+      );
+
+      const [orderData] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(orderData).toMatchObject({
+        shipping_address: '1 Main St, Springfield, IL, US',
+        billing_address: 'PO Box 1, Springfield',
+        tax_amount: 0,
+      });
+
+      const [, addresses] = mockAddressDAO.prototype.createOrderAddresses.mock.calls[0]!;
+      expect(addresses.map(({ address_type }) => address_type)).toEqual(['shipping']);
+    });
+
+    it('should fall back to the default address', async () => {
+      mockAddressDAO.prototype.findDefault.mockResolvedValue(savedAddress);
+
+      await orderResolvers.Mutation.createOrder(null, { input: { items: input.items, payment } }, mockContext);
+
+      const [orderData] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      expect(orderData).toMatchObject({ tax_amount: 200 });
+      expect(orderData.shipping_address).toContain('Av. Paulista');
+    });
+
+    it('should require a shipping address', async () => {
+      await expect(
+        orderResolvers.Mutation.createOrder(null, { input: { items: input.items, payment } }, mockContext)
+      ).rejects.toThrow('Shipping address is required');
+    });
+  });
+
+  describe('Query.sellerOrders', () => {
+    it('should list only the caller\'s fulfillments with the given filters', async () => {
+      mockOrderDAO.prototype.findFulfillmentsBySeller.mockResolvedValue({
+        fulfillments: [
+          { id: 'fulfillment-id', order_id: 'order-id', seller_id: 'test-user-id', status: 'confirmed', subtotal: 50 },
+        ] as any,
+        totalCount: 1,
+      });
+
+      const result = await orderResolvers.Query.sellerOrders(
+        null,
+        { filter: { status: 'CONFIRMED', dateRange: { from: '2024-01-01', to: '2024-02-01' } } },
+        mockContext
+      );
+
+      expect(mockOrderDAO.prototype.findFulfillmentsBySeller).toHaveBeenCalledWith(
+        'test-user-id',
+        { status: 'confirmed', from: new Date('2024-01-01'), to: new Date('2024-02-01') },
+        { limit: 20, offset: 0 }
+      );
+      expect(result.totalCount).toBe(1);
+      expect(result.edges[0]?.node).toMatchObject({ id: 'fulfillment-id', status: 'CONFIRMED' });
+    });
+
+    it('should reject an invalid date range', async () => {
+      await expect(
+        orderResolvers.Query.sellerOrders(null, { filter: { dateRange: { from: 'yesterday' } } }, mockContext)
+      ).rejects.toThrow('Validation error: Invalid date');
+    });
+
+    it('should hide the rest of the order from another seller', async () => {
+      mockOrderDAO.prototype.findById.mockResolvedValue({
+        id: 'order-id', user_id: 'buyer-id', status: 'confirmed', payment_status: 'paid',
+        total_amount: 100, shipping_address: '456 Main St',
+      } as any);
+      const fulfillment = { id: 'fulfillment-id', order_id: 'order-id', seller_id: 'seller-a-id' };
+      const sellerB = { user: { userId: 'seller-b-id', email: 'b@example.com', isAdmin: false } };
+
+      await expect(orderResolvers.Fulfillment.order(fulfillment, null, sellerB as any)).resolves.toBeNull();
+      await expect(orderResolvers.Fulfillment.order(fulfillment, null, { user: null } as any)).resolves.toBeNull();
+    });
+
+    it('should resolve the whole order for the buyer and admins only', async () => {
+      mockOrderDAO.prototype.findById.mockResolvedValue({
+        id: 'order-id', user_id: 'buyer-id', status: 'confirmed', payment_status: 'paid',
+        total_amount: 100, shipping_address: '456 Main St',
+      } as any);
+      const fulfillment = { id: 'fulfillment-id', order_id: 'order-id', seller_id: 'seller-a-id' };
+      const buyer = { user: { userId: 'buyer-id', email: 'buyer@example.com', isAdmin: false } };
+      const admin = { user: { userId: 'admin-id', email: 'admin@example.com', isAdmin: true } };
+      const seller = { user: { userId: 'seller-a-id', email: 'a@example.com', isAdmin: false } };
+
+      await expect(orderResolvers.Fulfillment.order(fulfillment, null, buyer as any)).resolves.toMatchObject({ id: 'order-id' });
+      await expect(orderResolvers.Fulfillment.order(fulfillment, null, admin as any)).resolves.toMatchObject({ id: 'order-id' });
+      await expect(orderResolvers.Fulfillment.order(fulfillment, null, seller as any)).resolves.toBeNull();
+      await expect(orderResolvers.Fulfillment.shippingAddress(fulfillment)).resolves.toBe('456 Main St');
+    });
+  });
+
+  describe('Seller fulfillment actions', () => {
+    it('should not let anyone but the seller ship a fulfillment', async () => {
+      mockOrderDAO.prototype.findFulfillmentById.mockResolvedValue({
+        id: 'fulfillment-id',
+        order_id: 'order-id',
+        seller_id: 'other-seller-id',
+        status: 'confirmed',
+      } as any);
+
+      await expect(
+        orderResolvers.Mutation.shipFulfillment(
+          null,
+          { id: 'fulfillment-id', trackingNumber: '1Z999AA10123456784', carrier: 'UPS' },
+          mockContext
+        )
+      ).rejects.toThrow('Access denied');
+
+      expect(mockOrderDAO.prototype.updateFulfillmentStatus).not.toHaveBeenCalled();
+    });
+
+    it('should add a note to the seller\'s own fulfillment', async () => {
+      mockOrderDAO.prototype.findFulfillmentById.mockResolvedValue({
+        id: 'fulfillment-id',
+        order_id: 'order-id',
+        seller_id: 'test-user-id',
+        status: 'confirmed',
+      } as any);
+      mockOrderDAO.prototype.createFulfillmentNote.mockImplementation(async (noteData: any) => ({
+        id: 'note-id',
+        ...noteData,
+        created_at: '2024-01-01T00:00:00Z',
+      }));
+
+      const result = await orderResolvers.Mutation.addFulfillmentNote(
+        null,
+        { id: 'fulfillment-id', note: '  Packed in two boxes  ' },
+        mockContext
+      );
+
+      expect(mockOrderDAO.prototype.createFulfillmentNote).toHaveBeenCalledWith({
+        fulfillment_id: 'fulfillment-id',
+        author_id: 'test-user-id',
+        note: 'Packed in two boxes',
+      });
+      expect(result).toMatchObject({ id: 'note-id', note: 'Packed in two boxes' });
+    });
+  });
+
+
+  describe('Subscription.orderStatusChanged', () => {
+    const { subscribe } = orderResolvers.Subscription.orderStatusChanged;
+
+    it('should follow the caller\'s own orders', async () => {
+      const asyncIterator = jest.spyOn(pubSubService, 'asyncIterator');
+
+      const iterator = subscribe(null, { userId: 'test-user-id' }, mockContext);
+
+      expect(asyncIterator).toHaveBeenCalledWith(pubSubChannels.orderStatusChanged('test-user-id'));
+      await iterator.return!();
+      asyncIterator.mockRestore();
+    });
+
+    it('should reject anonymous subscribers', () => {
+      expect(() => subscribe(null, { userId: 'test-user-id' }, { user: null } as any))
+        .toThrow('Authentication required');
+    });
+
+    it('should reject subscribing to another user\'s orders', () => {
+      const asyncIterator = jest.spyOn(pubSubService, 'asyncIterator');
+
+      expect(() => subscribe(null, { userId: 'other-user-id' }, mockContext))
+        .toThrow('Access denied: insufficient permissions');
+      expect(asyncIterator).not.toHaveBeenCalled();
+      asyncIterator.mockRestore();
+    });
+
+    it('should let admins follow any user\'s orders', async () => {
+      const context = { user: { ...mockContext.user, isAdmin: true } };
+
+      const iterator = subscribe(null, { userId: 'other-user-id' }, context as any);
+
+      await iterator.return!();
+    });
+  });
+
+  describe('Order actors', () => {
+    it('should only expose the name of whoever acted on the order', async () => {
+      const context = {
+        ...mockContext,
+        loaders: {
+          userById: {
+            load: jest.fn<any>().mockResolvedValue({
+              id: 'seller-id',
+              email: 'seller@example.com',
+              first_name: 'Sam',
+              last_name: 'Seller',
+              is_admin: 1,
+              is_active: 1,
+            }),
+          },
+        },
+      };
+
+      const actor = await orderResolvers.OrderStatusEvent.actor({ id: 'event-id', actor_id: 'seller-id' }, null, context);
+      const seller = await orderResolvers.Fulfillment.seller({ id: 'fulfillment-id', seller_id: 'seller-id' }, null, context);
+
+      expect(actor).toEqual({ id: 'seller-id', firstName: 'Sam', lastName: 'Seller' });
+      expect(seller).toEqual({ id: 'seller-id', firstName: 'Sam', lastName: 'Seller' });
+    });
+  });
+  describe('Order item snapshots', () => {
+    it('should freeze the product on the item at checkout', async () => {
+      mockProductDAO.prototype.findByIdsForUpdate.mockResolvedValue([
+        {
+          id: productId, name: 'iPhone 15 Pro', sku: 'IP15P-256', price: 999.99, category: 'Electronics',
+          stock_quantity: 5, is_active: 1, seller_id: 'seller-id',
+        } as any,
+      ]);
+      mockProductDAO.prototype.findAttributesByProducts.mockResolvedValue([
+        { id: 'attribute-id', product_id: productId, attribute_name: 'Storage', attribute_value: '256GB' } as any,
+      ]);
+      mockProductDAO.prototype.findImagesByProducts.mockResolvedValue([
+        { id: 'side', product_id: productId, image_url: 'https://cdn.example.com/side.jpg', is_primary: 0, sort_order: 0 } as any,
+        { id: 'front', product_id: productId, image_url: 'https://cdn.example.com/front.jpg', is_primary: 1, sort_order: 1 } as any,
+      ]);
+
+      await orderResolvers.Mutation.createOrder(null, { input }, mockContext);
+
+      const [, fulfillments] = mockOrderDAO.prototype.createOrderWithItems.mock.calls[0]!;
+      const item = fulfillments[0]!.items[0]!;
+      expect(item).toMatchObject({
+        product_name: 'iPhone 15 Pro',
+        product_sku: 'IP15P-256',
+        product_category: 'Electronics',
+        product_image_url: 'https://cdn.example.com/front.jpg',
+        seller_id: 'seller-id',
+      });
+      expect(JSON.parse(item.product_attributes!)).toEqual([{ name: 'Storage', value: '256GB' }]);
+    });
+
+    it('should still list an item whose snapshot attributes cannot be parsed', async () => {
+      const item = {
+        id: 'item-id', order_id: 'order-id', product_id: productId, quantity: 1, unit_price: 999.99,
+        total_price: 999.99, product_name: 'iPhone 15 Pro', product_attributes: '[{"name":', seller_id: 'seller-id',
+      };
+      const context = { ...mockContext, loaders: { orderItemsByOrder: { load: jest.fn<any>().mockResolvedValue([item]) } } };
+
+      const items = await orderResolvers.Order.items({ id: 'order-id' }, null, context);
+
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ id: 'item-id', snapshot: { name: 'iPhone 15 Pro', attributes: [] } });
+    });
+
+    it('should fall back to the snapshot once the product is deleted', async () => {
+      const context = {
+        ...mockContext,
+        loaders: { productsByIds: { load: jest.fn<any>().mockResolvedValue(null) } },
+      };
+      const item = {
+        id: 'item-id',
+        product_id: productId,
+        unitPrice: 999.99,
+        snapshot: { name: 'iPhone 15 Pro', sku: 'IP15P-256', category: 'Electronics', seller_id: 'seller-id' },
+        createdAt: '2023-01-01T00:00:00Z',
+      };
+
+      const product = await orderResolvers.OrderItem.product(item, null, context);
+
+      expect(product).toMatchObject({
+        id: productId,
+        name: 'iPhone 15 Pro',
+        sku: 'IP15P-256',
+        price: 999.99,
+        isActive: false,
+        seller_id: 'seller-id',
+      });
+    });
+  });
+});
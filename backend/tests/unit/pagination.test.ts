@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildKeysetQuery,
+  decodeCursor,
+  encodeCursor,
+  finishPage,
+  timestampColumn,
+  toConnection,
+  toKeysetPage,
+} from '../../src/lib/pagination';
+import { InvalidCursorError } from '../../src/lib/errors';
+
+const SORT = 'createdAt:DESC';
+
+function row(id: string): { id: string; cursor_key: string } {
+  return { id, cursor_key: `2024-01-01 00:00:0${id}.000000` };
+}
+
+describe('Keyset pagination', () => {
+  it('should round-trip cursors for the sort they were made for', () => {
+    const cursor = encodeCursor(SORT, { key: '2024-01-01 10:00:00.123456', id: 'order-1' });
+
+    expect(decodeCursor(SORT, cursor)).toEqual({ key: '2024-01-01 10:00:00.123456', id: 'order-1' });
+    expect(() => decodeCursor('price:ASC', cursor)).toThrow(InvalidCursorError);
+    // Offset cursors from before keyset pagination
+    expect(() => decodeCursor(SORT, Buffer.from('20').toString('base64'))).toThrow('Invalid cursor');
+  });
+
+  it('should read pages forward from the cursor', () => {
+    const page = toKeysetPage(SORT, { first: 2, after: encodeCursor(SORT, { key: 'k', id: 'id-1' }) });
+    const query = buildKeysetQuery(timestampColumn('created_at'), 'id', 'DESC', page);
+
+    expect(page).toEqual({ limit: 2, cursor: { key: 'k', id: 'id-1' }, backward: false });
+    expect(query.condition).toContain('created_at < TO_TIMESTAMP(:cursorKey');
+    expect(query.condition).toContain('id < :cursorId');
+    expect(query.orderBy).toBe('ORDER BY created_at DESC, id DESC');
+    expect(query.binds).toEqual({ cursorKey: 'k', cursorId: 'id-1', limit: 3 });
+  });
+
+  it('should read backward pages in reverse and put them back in order', () => {
+    const page = toKeysetPage(SORT, { last: 2, before: encodeCursor(SORT, { key: 'k', id: 'id-5' }) });
+    const query = buildKeysetQuery(timestampColumn('created_at'), 'id', 'DESC', page);
+
+    expect(query.condition).toContain('created_at > TO_TIMESTAMP(:cursorKey');
+    expect(query.orderBy).toBe('ORDER BY created_at ASC, id ASC');
+
+    // Rows 4, 3 and one extra come back nearest the cursor first
+    const result = finishPage([row('4'), row('3'), row('2')], page);
+    expect(result).toEqual({ rows: [row('3'), row('4')], hasMore: true });
+
+    const connection = toConnection(SORT, page, result, r => r.id);
+    expect(connection.edges.map(edge => edge.node)).toEqual(['3', '4']);
+    expect(connection.pageInfo).toEqual(expect.objectContaining({ hasNextPage: true, hasPreviousPage: true }));
+    expect(decodeCursor(SORT, connection.pageInfo.endCursor!)).toEqual({ key: row('4').cursor_key, id: '4' });
+  });
+
+  it('should report no previous page for the first page', () => {
+    const page = toKeysetPage(SORT, { first: 2 });
+    const connection = toConnection(SORT, page, finishPage([row('1'), row('2')], page), r => r.id);
+
+    expect(buildKeysetQuery(timestampColumn('created_at'), 'id', 'DESC', page).condition).toBeNull();
+    expect(connection.pageInfo).toEqual(expect.objectContaining({ hasNextPage: false, hasPreviousPage: false }));
+  });
+
+  it('should reject mixing forward and backward arguments', () => {
+    expect(() => toKeysetPage(SORT, { first: 2, last: 2 })).toThrow('Use first/after or last/before, not both');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ProductDAO } from '../../src/modules/product/product.dao';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies; escapeString stays real
+jest.mock('../../src/lib/database', () => ({
+  ...jest.requireActual<object>('../../src/lib/database'),
+  databaseService: { executeQuery: jest.fn() },
+}));
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+// Answers each facet query by what it selects
+function mockFacetRows(sql: string): any[] {
+  if (sql.includes('p.category as value')) return [{ value: 'electronics', count: 42 }, { value: 'books', count: 3 }];
+  if (sql.includes('p.brand as value')) return [{ value: 'Acme', count: 5 }];
+  if (sql.includes('as bucket')) return [{ bucket: 0, count: 4 }, { bucket: 2, count: 7 }, { bucket: 5, count: 1 }];
+  if (sql.includes('rating_4')) return [{ rating_4: 6, rating_3: 9, rating_2: 9, rating_1: 0 }];
+  return [{ count: 30 }];
+}
+
+describe('Product facets', () => {
+  const productDAO = new ProductDAO();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockDatabaseService.executeQuery.mockImplementation(async (sql: string) => ({ rows: mockFacetRows(sql) } as any));
+  });
+
+  it('should count each facet among the matching products', async () => {
+    const facets = await productDAO.getProductFacets(['product-1', 'product-2'], {});
+
+    expect(facets).toEqual({
+      categories: [{ value: 'electronics', count: 42 }, { value: 'books', count: 3 }],
+      brands: [{ value: 'Acme', count: 5 }],
+      priceRanges: [
+        { min: 0, max: 50, count: 4 },
+        { min: 100, max: 250, count: 7 },
+        { min: 1000, max: null, count: 1 },
+      ],
+      ratings: [{ minRating: 4, count: 6 }, { minRating: 3, count: 9 }, { minRating: 2, count: 9 }],
+      inStock: 30,
+    });
+
+    for (const [, binds] of mockDatabaseService.executeQuery.mock.calls) {
+      expect(binds).toEqual(expect.objectContaining({ searchIds: ['product-1', 'product-2'] }));
+    }
+  });
+
+  it('should leave out each facet\'s own filter and keep the others', async () => {
+    await productDAO.getProductFacets(null, { category: 'electronics', brand: 'Acme', minPrice: 100, maxPrice: 249.99, minRating: 4, inStock: true });
+
+    const queryFor = (marker: string) => mockDatabaseService.executeQuery.mock.calls
+      .find(([sql]) => sql.includes(marker))!;
+
+    const [categorySql, categoryBinds] = queryFor('p.category as value');
+    expect(categorySql).not.toContain('p.category = :category');
+    expect(categoryBinds).toEqual({ brand: 'Acme', minPrice: 100, maxPrice: 249.99, minRating: 4 });
+
+    const [, priceBinds] = queryFor('as bucket');
+    expect(priceBinds).toEqual({ category: 'electronics', brand: 'Acme', minRating: 4 });
+
+    const [, ratingBinds] = queryFor('rating_4');
+    expect(ratingBinds).not.toHaveProperty('minRating');
+
+    const [stockSql, stockBinds] = queryFor('SELECT COUNT(*) as count');
+    expect(stockSql).toContain('p.stock_quantity > 0');
+    expect(stockBinds).toEqual(expect.objectContaining({ category: 'electronics', brand: 'Acme' }));
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { productResolvers } from '../../src/modules/product/product.resolvers';
+import { Product, ProductDAO } from '../../src/modules/product/product.dao';
+import { searchService } from '../../src/modules/search/search.service';
+
+// Mock dependencies; only the DAO class is mocked
+jest.mock('../../src/modules/product/product.dao', () => ({
+  ...jest.requireActual<object>('../../src/modules/product/product.dao'),
+  ProductDAO: jest.createMockFromModule<any>('../../src/modules/product/product.dao').ProductDAO,
+}));
+jest.mock('../../src/modules/user/user.dao');
+
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+
+function product(id: string, name: string, description = ''): Product {
+  return {
+    id,
+    name,
+    description,
+    price: 100,
+    category: 'electronics',
+    stock_quantity: 5,
+    is_active: 1,
+    seller_id: 'seller-1',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+}
+
+const PRODUCTS = [
+  product('p1', 'Phone Case', 'Fits any phone'),
+  product('p2', 'Phone Charger'),
+  product('p3', 'Wireless Earbuds', 'Pairs with your phone'),
+  product('p4', 'Desk Lamp'),
+];
+
+describe('Product search', () => {
+  const mockContext: any = { user: { userId: 'seller-1', email: 'seller@example.com', isAdmin: false } };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    // Start each test from the listed products only
+    await searchService.removeProduct('p5');
+    mockProductDAO.prototype.findBatchAfter.mockResolvedValueOnce(PRODUCTS);
+    await searchService.reindex();
+
+    mockProductDAO.prototype.filterMatches.mockImplementation(async matches => matches);
+    mockProductDAO.prototype.findByIds.mockImplementation(async ids =>
+      PRODUCTS.filter(p => ids.includes(p.id))
+    );
+  });
+
+  it('should list the best matches first with their scores', async () => {
+    const firstPage = await productResolvers.Query.searchProducts(null, { q: 'phone', pagination: { first: 2 } }, mockContext);
+
+    expect(firstPage.edges.map(edge => edge.node.id)).toEqual(['p1', 'p2']);
+    expect(firstPage.edges[0]!.score).toBeGreaterThan(firstPage.edges[1]!.score!);
+    expect(firstPage.totalCount).toBe(3);
+    expect(firstPage.pageInfo.hasNextPage).toBe(true);
+
+    const secondPage = await productResolvers.Query.searchProducts(
+      null,
+      { q: 'phone', pagination: { first: 2, after: firstPage.pageInfo.endCursor } },
+      mockContext
+    );
+
+    expect(secondPage.edges.map(edge => edge.node.id)).toEqual(['p3']);
+    expect(secondPage.pageInfo).toEqual(expect.objectContaining({ hasNextPage: false, hasPreviousPage: true }));
+  });
+
+  it('should rank only the matches that pass the filters', async () => {
+    mockProductDAO.prototype.filterMatches.mockResolvedValue(['p3']);
+
+    const result = await productResolvers.Query.searchProducts(
+      null,
+      { q: 'phone', filter: { inStock: true } },
+      mockContext
+    );
+
+    expect(mockProductDAO.prototype.filterMatches).toHaveBeenCalledWith(['p1', 'p2', 'p3'], { inStock: true });
+    expect(result.edges.map(edge => edge.node.id)).toEqual(['p3']);
+    expect(result.totalCount).toBe(1);
+  });
+
+  it('should suggest active products, categories, brands and corrections', async () => {
+    mockProductDAO.prototype.findByIds.mockResolvedValue([
+      { ...PRODUCTS[0]!, is_active: 0 },
+      PRODUCTS[1]!,
+      PRODUCTS[2]!,
+    ]);
+    mockProductDAO.prototype.findValuesByPrefix.mockImplementation(async column =>
+      column === 'brand' ? [{ value: 'Phonix', count: 2 }] : []
+    );
+
+    const suggestions = await productResolvers.Query.searchSuggestions(null, { prefix: 'phon', limit: 2 }, mockContext);
+
+    expect(suggestions).toEqual({
+      products: [{ id: 'p2', name: 'Phone Charger' }, { id: 'p3', name: 'Wireless Earbuds' }],
+      categories: [],
+      brands: [{ value: 'Phonix', count: 2 }],
+      didYouMean: null,
+    });
+    expect(mockProductDAO.prototype.findValuesByPrefix).toHaveBeenCalledWith('category', 'phon', 2);
+
+    const corrected = await productResolvers.Query.searchSuggestions(null, { prefix: 'wirelss earb' }, mockContext);
+    expect(corrected.didYouMean).toBe('wireless earb');
+
+    await expect(productResolvers.Query.searchSuggestions(null, { prefix: 'p' }, mockContext))
+      .resolves.toEqual({ products: [], categories: [], brands: [], didYouMean: null });
+  });
+
+  it('should keep the index in step with product writes', async () => {
+    mockProductDAO.prototype.create.mockResolvedValue(product('p5', 'Tablet Stand'));
+    mockProductDAO.prototype.findById.mockResolvedValue(product('p1', 'Phone Case'));
+    mockProductDAO.prototype.update.mockResolvedValue(product('p1', 'Tablet Sleeve'));
+    mockProductDAO.prototype.delete.mockResolvedValue(true);
+
+    await productResolvers.Mutation.createProduct(
+      null,
+      { input: { name: 'Tablet Stand', price: 20, category: 'electronics', stockQuantity: 3 } },
+      mockContext
+    );
+    await productResolvers.Mutation.updateProduct(null, { id: 'p1', input: { name: 'Tablet Sleeve' } }, mockContext);
+    await productResolvers.Mutation.deleteProduct(null, { id: 'p2' }, mockContext);
+
+    expect((await searchService.search('tablet')).map(hit => hit.id).sort()).toEqual(['p1', 'p5']);
+    expect((await searchService.search('phone')).map(hit => hit.id)).toEqual(['p3']);
+  });
+});
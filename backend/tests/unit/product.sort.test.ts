@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, beforeEach, jest } from '@jest/globals';
+import { productResolvers } from '../../src/modules/product/product.resolvers';
+import { ProductDAO, productSortColumn } from '../../src/modules/product/product.dao';
+import { searchService } from '../../src/modules/search/search.service';
+
+// Mock dependencies; the sort helpers stay real
+jest.mock('../../src/modules/product/product.dao', () => ({
+  ...jest.requireActual<object>('../../src/modules/product/product.dao'),
+  ProductDAO: jest.createMockFromModule<any>('../../src/modules/product/product.dao').ProductDAO,
+}));
+jest.mock('../../src/modules/user/user.dao');
+
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+
+const firstPage = (limit: number) => ({ limit, backward: false });
+
+describe('Product sorting', () => {
+  const mockContext: any = { user: null };
+
+  beforeAll(async () => {
+    await searchService.indexProduct({ id: 'product-1', name: 'Smartphone X' } as any);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockProductDAO.prototype.searchProducts.mockResolvedValue({ rows: [], hasMore: false, totalCount: 0 });
+  });
+
+  it('should sort by plain columns without joins', () => {
+    expect(productSortColumn({ field: 'price', direction: 'ASC' })).toEqual({
+      join: '',
+      column: expect.objectContaining({ expression: 'p.price', key: 'TO_CHAR(p.price)' }),
+    });
+    expect(productSortColumn({ field: 'name', direction: 'DESC' }).column.expression).toBe('LOWER(p.name)');
+  });
+
+  it('should join ratings and sales only when sorting by them, with unrated products last', () => {
+    const ratingUp = productSortColumn({ field: 'averageRating', direction: 'ASC' });
+    expect(ratingUp.join).toContain('FROM reviews');
+    expect(ratingUp.column.expression).toBe('COALESCE(r.average_rating, 6)');
+    expect(productSortColumn({ field: 'averageRating', direction: 'DESC' }).column.expression)
+      .toBe('COALESCE(r.average_rating, 0)');
+
+    const byPopularity = productSortColumn({ field: 'popularity', direction: 'DESC' });
+    expect(byPopularity.join).toContain("o.status <> 'cancelled'");
+    expect(byPopularity.column.expression).toBe('COALESCE(s.units_sold, 0)');
+  });
+
+  it('should pass the requested sort to the search', async () => {
+    await productResolvers.Query.products(
+      null,
+      { sort: { field: 'POPULARITY', direction: 'DESC' }, pagination: { first: 10 } },
+      mockContext
+    );
+    await productResolvers.Query.searchProducts(
+      null,
+      { q: 'smartphone', sort: { field: 'AVERAGE_RATING', direction: 'DESC' } },
+      mockContext
+    );
+
+    expect(mockProductDAO.prototype.searchProducts).toHaveBeenNthCalledWith(
+      1, null, {}, firstPage(10), { field: 'popularity', direction: 'DESC' }
+    );
+    expect(mockProductDAO.prototype.searchProducts).toHaveBeenNthCalledWith(
+      2, ['product-1'], {}, firstPage(20), { field: 'averageRating', direction: 'DESC' }
+    );
+  });
+
+  it('should list the newest products first without a sort', async () => {
+    await productResolvers.Query.products(null, {}, mockContext);
+
+    expect(mockProductDAO.prototype.searchProducts).toHaveBeenCalledWith(
+      null, {}, firstPage(20), { field: 'createdAt', direction: 'DESC' }
+    );
+  });
+
+  it('should reject unknown sort fields', async () => {
+    await expect(productResolvers.Query.products(
+      null,
+      { sort: { field: 'STOCK', direction: 'ASC' } },
+      mockContext
+    )).rejects.toThrow('Validation error');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateDiscounts, checkPromotion, DiscountableLine } from '../../src/modules/promotion/promotion.engine';
+
+const now = new Date('2024-06-15T12:00:00Z');
+
+function promotion(overrides: any = {}): any {
+  return {
+    id: 'promotion-id',
+    code: null,
+    name: 'Promotion',
+    discount_type: 'percent',
+    discount_value: 10,
+    times_used: 0,
+    is_active: 1,
+    ...overrides,
+  };
+}
+
+const lines: DiscountableLine[] = [
+  { product_id: 'phone', seller_id: 'seller-a', category: 'Electronics', quantity: 1, total_price: 300 },
+  { product_id: 'cable', seller_id: 'seller-a', category: 'Accessories', quantity: 2, total_price: 20 },
+  { product_id: 'book', seller_id: 'seller-b', category: 'Books', quantity: 1, total_price: 80 },
+];
+
+describe('Promotion engine', () => {
+  describe('checkPromotion', () => {
+    it('should reject promotions outside their date window', () => {
+      expect(checkPromotion(promotion({ starts_at: '2024-07-01T00:00:00Z' }), lines, now)).toBe('This promotion has not started yet');
+      expect(checkPromotion(promotion({ ends_at: '2024-06-01T00:00:00Z' }), lines, now)).toBe('This promotion has ended');
+    });
+
+    it('should reject a promotion that reached its usage limit', () => {
+      expect(checkPromotion(promotion({ usage_limit: 5, times_used: 5 }), lines, now))
+        .toBe('This promotion has reached its usage limit');
+    });
+
+    it('should apply the minimum spend to qualifying items only', () => {
+      const booksOver100 = promotion({ category: 'Books', min_spend: 100 });
+
+      expect(checkPromotion(booksOver100, lines, now)).toBe('Spend at least 100.00 on qualifying items to use this promotion');
+      expect(checkPromotion(promotion({ min_spend: 100 }), lines, now)).toBeNull();
+    });
+
+    it('should reject a promotion no item qualifies for', () => {
+      expect(checkPromotion(promotion({ seller_id: 'seller-c' }), lines, now))
+        .toBe('No items in the order qualify for this promotion');
+    });
+  });
+
+  describe('calculateDiscounts', () => {
+    it('should discount only the matching category', () => {
+      const result = calculateDiscounts(lines, [promotion({ category: 'Electronics', discount_value: 15 })], now);
+
+      expect(result).toMatchObject({ subtotal: 400, discountAmount: 45, total: 355 });
+      expect(result.lineDiscounts).toEqual([45, 0, 0]);
+    });
+
+    it('should spread a fixed discount over the seller\'s lines in proportion', () => {
+      const result = calculateDiscounts(lines, [promotion({ seller_id: 'seller-a', discount_type: 'fixed', discount_value: 32 })], now);
+
+      expect(result.discountAmount).toBe(32);
+      expect(result.lineDiscounts).toEqual([30, 2, 0]);
+    });
+
+    it('should cap a percent discount at its maximum', () => {
+      const result = calculateDiscounts(lines, [promotion({ discount_value: 50, max_discount: 25 })], now);
+
+      expect(result.discountAmount).toBe(25);
+      expect(result.lineDiscounts.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(25);
+    });
+
+    it('should stack promotions on what is left and never go below zero', () => {
+      const result = calculateDiscounts(
+        lines,
+        [
+          promotion({ id: 'half-off', discount_value: 50 }),
+          promotion({ id: 'big-coupon', code: 'BIG', discount_type: 'fixed', discount_value: 1000 }),
+        ],
+        now
+      );
+
+      expect(result.applied.map(({ promotion, amount }) => [promotion.id, amount])).toEqual([
+        ['half-off', 200],
+        ['big-coupon', 200],
+      ]);
+      expect(result.total).toBe(0);
+    });
+
+    it('should skip promotions that do not apply', () => {
+      const result = calculateDiscounts(lines, [promotion({ is_active: 0 })], now);
+
+      expect(result.applied).toEqual([]);
+      expect(result.total).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { promotionResolvers } from '../../src/modules/promotion/promotion.resolvers';
+import { PromotionDAO } from '../../src/modules/promotion/promotion.dao';
+import { ProductDAO } from '../../src/modules/product/product.dao';
+
+// Mock dependencies
+jest.mock('../../src/modules/promotion/promotion.dao');
+jest.mock('../../src/modules/product/product.dao');
+
+const mockPromotionDAO = PromotionDAO as jest.MockedClass<typeof PromotionDAO>;
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+
+const input = { code: 'SAVE10', name: 'Save 10%', discountType: 'PERCENT', discountValue: 10 };
+
+describe('Promotion Resolvers', () => {
+  const user = { userId: 'user-id', email: 'user@example.com', isAdmin: false };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockPromotionDAO.prototype.findByCode.mockResolvedValue(null);
+    mockPromotionDAO.prototype.create.mockImplementation(async (promotionData: any) => ({
+      id: 'promotion-id',
+      times_used: 0,
+      ...promotionData,
+    }));
+  });
+
+  describe('Mutation.createPromotion', () => {
+    it('should not let a buyer create a promotion', async () => {
+      mockProductDAO.prototype.isSeller.mockResolvedValue(false);
+
+      await expect(
+        promotionResolvers.Mutation.createPromotion(null, { input }, { user } as any)
+      ).rejects.toThrow('Access denied: only admins and sellers can create promotions');
+
+      expect(mockProductDAO.prototype.isSeller).toHaveBeenCalledWith('user-id');
+      expect(mockPromotionDAO.prototype.create).not.toHaveBeenCalled();
+    });
+
+    it('should limit a seller\'s promotion to their own products', async () => {
+      mockProductDAO.prototype.isSeller.mockResolvedValue(true);
+
+      const promotion = await promotionResolvers.Mutation.createPromotion(
+        null,
+        { input: { ...input, sellerId: '660e8400-e29b-41d4-a716-446655440009' } },
+        { user } as any
+      );
+
+      expect(mockPromotionDAO.prototype.create).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'SAVE10', seller_id: 'user-id', created_by: 'user-id' })
+      );
+      expect(promotion.code).toBe('SAVE10');
+    });
+
+    it('should let an admin create a promotion for the whole catalog', async () => {
+      await promotionResolvers.Mutation.createPromotion(
+        null,
+        { input },
+        { user: { ...user, isAdmin: true } } as any
+      );
+
+      expect(mockProductDAO.prototype.isSeller).not.toHaveBeenCalled();
+      expect(mockPromotionDAO.prototype.create).toHaveBeenCalledWith(
+        expect.not.objectContaining({ seller_id: expect.anything() })
+      );
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createClient } from 'redis';
+import { pubSubService, pubSubChannels } from '../../src/lib/pubsub';
+
+const mockCreateClient = createClient as unknown as jest.Mock<any>;
+
+const channel = pubSubChannels.orderStatusChanged('user-id');
+
+// Lets the fire-and-forget Redis subscribe call settle
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('PubSubService', () => {
+  afterEach(async () => {
+    await pubSubService.disconnect();
+  });
+
+  describe('in-memory mode', () => {
+    it('should queue events published before next() is called', async () => {
+      const iterator = pubSubService.asyncIterator<{ id: string }>(channel);
+
+      await pubSubService.publish(channel, { id: 'order-1' });
+      await pubSubService.publish(channel, { id: 'order-2' });
+
+      await expect(iterator.next()).resolves.toEqual({ value: { id: 'order-1' }, done: false });
+      await expect(iterator.next()).resolves.toEqual({ value: { id: 'order-2' }, done: false });
+    });
+
+    it('should resolve a waiting next() with the next event', async () => {
+      const iterator = pubSubService.asyncIterator<{ id: string }>(channel);
+
+      const pending = iterator.next();
+      await pubSubService.publish(channel, { id: 'order-1' });
+
+      await expect(pending).resolves.toEqual({ value: { id: 'order-1' }, done: false });
+    });
+
+    it('should only deliver events for the subscribed channel', async () => {
+      const iterator = pubSubService.asyncIterator<{ id: string }>(channel);
+
+      await pubSubService.publish(pubSubChannels.orderStatusChanged('other-user-id'), { id: 'order-1' });
+      await pubSubService.publish(channel, { id: 'order-2' });
+
+      await expect(iterator.next()).resolves.toEqual({ value: { id: 'order-2' }, done: false });
+    });
+
+    it('should finish pending and later calls once return() is called', async () => {
+      const iterator = pubSubService.asyncIterator<{ id: string }>(channel);
+
+      const pending = iterator.next();
+      await expect(iterator.return!()).resolves.toEqual({ value: undefined, done: true });
+      await expect(pending).resolves.toEqual({ value: undefined, done: true });
+
+      await pubSubService.publish(channel, { id: 'order-1' });
+      await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+    });
+
+    it('should stop listening and rethrow on throw()', async () => {
+      const iterator = pubSubService.asyncIterator<{ id: string }>(channel);
+      const error = new Error('client went away');
+
+      await expect(iterator.throw!(error)).rejects.toBe(error);
+      await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+    });
+  });
+
+  describe('Redis mode', () => {
+    let publisher: any;
+    let subscriber: any;
+    let onMessage: ((message: string) => void) | undefined;
+
+    beforeEach(async () => {
+      onMessage = undefined;
+      subscriber = {
+        connect: jest.fn<any>().mockResolvedValue(undefined),
+        disconnect: jest.fn<any>().mockResolvedValue(undefined),
+        subscribe: jest.fn<any>().mockImplementation(async (_channel: string, listener: any) => {
+          onMessage = listener;
+        }),
+        unsubscribe: jest.fn<any>().mockResolvedValue(undefined),
+        on: jest.fn(),
+        isOpen: true,
+      };
+      publisher = {
+        connect: jest.fn<any>().mockResolvedValue(undefined),
+        disconnect: jest.fn<any>().mockResolvedValue(undefined),
+        publish: jest.fn<any>().mockResolvedValue(1),
+        duplicate: jest.fn().mockReturnValue(subscriber),
+        on: jest.fn(),
+      };
+      mockCreateClient.mockReturnValueOnce(publisher);
+
+      await pubSubService.connect();
+    });
+
+    it('should publish events as JSON through Redis', async () => {
+      await pubSubService.publish(channel, { id: 'order-1' });
+
+      expect(publisher.publish).toHaveBeenCalledWith(channel, JSON.stringify({ id: 'order-1' }));
+    });
+
+    it('should subscribe to a channel once and fan messages out to every iterator', async () => {
+      const first = pubSubService.asyncIterator<{ id: string }>(channel);
+      const second = pubSubService.asyncIterator<{ id: string }>(channel);
+      await flushPromises();
+
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+      expect(subscriber.subscribe).toHaveBeenCalledWith(channel, expect.any(Function));
+
+      onMessage!(JSON.stringify({ id: 'order-1' }));
+
+      await expect(first.next()).resolves.toEqual({ value: { id: 'order-1' }, done: false });
+      await expect(second.next()).resolves.toEqual({ value: { id: 'order-1' }, done: false });
+    });
+
+    it('should skip messages that are not valid JSON', async () => {
+      const iterator = pubSubService.asyncIterator<{ id: string }>(channel);
+      await flushPromises();
+
+      onMessage!('not json');
+      onMessage!(JSON.stringify({ id: 'order-1' }));
+
+      await expect(iterator.next()).resolves.toEqual({ value: { id: 'order-1' }, done: false });
+    });
+
+    it('should release the Redis channel when its last iterator returns', async () => {
+      const first = pubSubService.asyncIterator(channel);
+      const second = pubSubService.asyncIterator(channel);
+      await flushPromises();
+
+      await first.return!();
+      expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+
+      await second.return!();
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith(channel);
+
+      // A new subscriber on the channel subscribes to Redis again
+      pubSubService.asyncIterator(channel);
+      await flushPromises();
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry the Redis subscription after a failed attempt', async () => {
+      subscriber.subscribe.mockRejectedValueOnce(new Error('Connection lost'));
+
+      const first = pubSubService.asyncIterator(channel);
+      await flushPromises();
+      const second = pubSubService.asyncIterator(channel);
+      await flushPromises();
+
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(2);
+
+      await first.return!();
+      await second.return!();
+    });
+  });
+});
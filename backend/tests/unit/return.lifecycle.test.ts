@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { requestReturn, transitionReturn } from '../../src/modules/return/return.lifecycle';
+import { ReturnDAO } from '../../src/modules/return/return.dao';
+import { OrderDAO } from '../../src/modules/order/order.dao';
+import { ProductDAO } from '../../src/modules/product/product.dao';
+import { refundOrder } from '../../src/modules/order/order.refunds';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/modules/return/return.dao');
+jest.mock('../../src/modules/order/order.dao');
+jest.mock('../../src/modules/product/product.dao');
+jest.mock('../../src/modules/order/order.refunds');
+jest.mock('../../src/lib/database');
+
+const mockReturnDAO = ReturnDAO as jest.MockedClass<typeof ReturnDAO>;
+const mockOrderDAO = OrderDAO as jest.MockedClass<typeof OrderDAO>;
+const mockProductDAO = ProductDAO as jest.MockedClass<typeof ProductDAO>;
+const mockRefundOrder = refundOrder as jest.MockedFunction<typeof refundOrder>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const buyer = { userId: 'buyer-id', email: 'buyer@example.com', isAdmin: false };
+const seller = { userId: 'seller-id', email: 'seller@example.com', isAdmin: false };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function mockOrder(status: string, deliveredDaysAgo = 2): any {
+  return {
+    id: 'order-id',
+    user_id: 'buyer-id',
+    status,
+    delivered_at: new Date(Date.now() - deliveredDaysAgo * DAY).toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function mockReturn(status: string): any {
+  return {
+    id: 'return-id',
+    order_id: 'order-id',
+    user_id: 'buyer-id',
+    status,
+    reason: 'Wrong size',
+    restocked: 0,
+    items: [{ id: 'return-item-id', return_id: 'return-id', order_item_id: 'item-id', quantity: 1 }],
+  };
+}
+
+describe('Return lifecycle', () => {
+  const mockConnection: any = { execute: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.RETURN_WINDOW_DAYS;
+
+    mockDatabaseService.executeTransaction.mockImplementation(
+      async (callback: any) => callback(mockConnection)
+    );
+    mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+      { id: 'item-id', order_id: 'order-id', product_id: 'product-id', seller_id: 'seller-id', quantity: 2, unit_price: 50, total_price: 100, discount_amount: 0 } as any,
+    ]);
+    mockOrderDAO.prototype.findFulfillmentsByOrder.mockResolvedValue([]);
+    mockReturnDAO.prototype.findReturnedQuantities.mockResolvedValue(new Map());
+    mockReturnDAO.prototype.create.mockImplementation(
+      async (returnData: any, items: any) => ({ ...mockReturn('requested'), ...returnData, items })
+    );
+    mockReturnDAO.prototype.updateStatus.mockImplementation(
+      async (id: string, status: string, _timestamp: any, updates: any) => ({ ...mockReturn(status), id, ...updates })
+    );
+  });
+
+  describe('requestReturn', () => {
+    it('should open a return for delivered items', async () => {
+      mockOrderDAO.prototype.findByIdForUpdate.mockResolvedValue(mockOrder('delivered'));
+
+      const returnRequest = await requestReturn('order-id', buyer, {
+        items: [{ orderItemId: 'item-id', quantity: 2 }],
+        reason: 'Wrong size',
+      });
+
+      expect(returnRequest.status).toBe('requested');
+      expect(mockReturnDAO.prototype.create).toHaveBeenCalledWith(
+        { order_id: 'order-id', user_id: 'buyer-id', reason: 'Wrong size' },
+        [{ order_item_id: 'item-id', quantity: 2 }],
+        mockConnection
+      );
+    });
+
+    it('should reject orders that were not delivered', async () => {
+      mockOrderDAO.prototype.findByIdForUpdate.mockResolvedValue(mockOrder('shipped'));
+
+      await expect(
+        requestReturn('order-id', buyer, { items: [{ orderItemId: 'item-id', quantity: 1 }], reason: 'Late' })
+      ).rejects.toMatchObject({ extensions: expect.objectContaining({ code: 'INVALID_RETURN' }) });
+    });
+
+    it('should go by the delivery of the fulfillment holding the items', async () => {
+      mockOrderDAO.prototype.findByIdForUpdate.mockResolvedValue(mockOrder('shipped'));
+      mockOrderDAO.prototype.findItemsByOrder.mockResolvedValue([
+        { id: 'item-id', order_id: 'order-id', fulfillment_id: 'delivered-id', product_id: 'product-id', quantity: 2 } as any,
+        { id: 'other-item-id', order_id: 'order-id', fulfillment_id: 'shipped-id', product_id: 'other-product-id', quantity: 1 } as any,
+      ]);
+      mockOrderDAO.prototype.findFulfillmentsByOrder.mockResolvedValue([
+        { id: 'delivered-id', status: 'delivered', delivered_at: new Date(Date.now() - 2 * DAY).toISOString() } as any,
+        { id: 'shipped-id', status: 'shipped' } as any,
+      ]);
+
+      await expect(
+        requestReturn('order-id', buyer, { items: [{ orderItemId: 'item-id', quantity: 1 }], reason: 'Wrong size' })
+      ).resolves.toMatchObject({ status: 'requested' });
+
+      await expect(
+        requestReturn('order-id', buyer, { items: [{ orderItemId: 'other-item-id', quantity: 1 }], reason: 'Late' })
+      ).rejects.toThrow('Only delivered items can be returned');
+    });
+
+    it('should close the window after the configured number of days', async () => {
+      process.env.RETURN_WINDOW_DAYS = '7';
+      mockOrderDAO.prototype.findByIdForUpdate.mockResolvedValue(mockOrder('delivered', 8));
+
+      await expect(
+        requestReturn('order-id', buyer, { items: [{ orderItemId: 'item-id', quantity: 1 }], reason: 'Wrong size' })
+      ).rejects.toThrow('Returns must be requested within 7 days of delivery');
+    });
+
+    it('should not return more than was ordered across returns', async () => {
+      mockOrderDAO.prototype.findByIdForUpdate.mockResolvedValue(mockOrder('delivered'));
+      mockReturnDAO.prototype.findReturnedQuantities.mockResolvedValue(new Map([['item-id', 2]]));
+
+      await expect(
+        requestReturn('order-id', buyer, { items: [{ orderItemId: 'item-id', quantity: 1 }], reason: 'Wrong size' })
+      ).rejects.toThrow('Only 0 of item item-id can still be returned');
+    });
+  });
+
+  describe('transitionReturn', () => {
+    it('should let the seller approve a requested return', async () => {
+      mockReturnDAO.prototype.findByIdForUpdate.mockResolvedValue(mockReturn('requested'));
+
+      const returnRequest = await transitionReturn('return-id', 'approved', seller, { note: 'Ship it back' });
+
+      expect(returnRequest.status).toBe('approved');
+      expect(mockReturnDAO.prototype.updateStatus).toHaveBeenCalledWith(
+        'return-id',
+        'approved',
+        'approved_at',
+        { resolution_note: 'Ship it back' },
+        mockConnection
+      );
+    });
+
+    it('should let the seller handle returns of a product deleted since', async () => {
+      mockReturnDAO.prototype.findByIdForUpdate.mockResolvedValue(mockReturn('requested'));
+      mockProductDAO.prototype.findByIds.mockResolvedValue([]);
+
+      const returnRequest = await transitionReturn('return-id', 'approved', seller);
+
+      expect(returnRequest.status).toBe('approved');
+    });
+
+    it('should not let the buyer approve their own return', async () => {
+      mockReturnDAO.prototype.findByIdForUpdate.mockResolvedValue(mockReturn('requested'));
+
+      await expect(transitionReturn('return-id', 'approved', buyer)).rejects.toThrow('Access denied');
+    });
+
+    it('should not skip receiving the items', async () => {
+      mockReturnDAO.prototype.findByIdForUpdate.mockResolvedValue(mockReturn('approved'));
+
+      await expect(transitionReturn('return-id', 'inspected', seller)).rejects.toMatchObject({
+        extensions: expect.objectContaining({ code: 'INVALID_RETURN_TRANSITION' }),
+      });
+    });
+
+    it('should refund and restock the returned items on inspection', async () => {
+      mockReturnDAO.prototype.findByIdForUpdate.mockResolvedValue(mockReturn('received'));
+      mockRefundOrder.mockResolvedValue({ order: {} as any, refund: { id: 'refund-id' } as any });
+
+      const returnRequest = await transitionReturn('return-id', 'inspected', seller, { restock: true });
+
+      expect(mockRefundOrder).toHaveBeenCalledWith(
+        'order-id',
+        seller,
+        {
+          items: [{ orderItemId: 'item-id', quantity: 1 }],
+          reason: 'Return: Wrong size',
+          restock: true,
+        },
+        { connection: mockConnection }
+      );
+      expect(returnRequest.refund_id).toBe('refund-id');
+      expect(returnRequest.restocked).toBe(1);
+    });
+  });
+});
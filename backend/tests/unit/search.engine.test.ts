@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { InMemorySearchEngine } from '../../src/modules/search/memory.engine';
+import { buildContainsQuery } from '../../src/modules/search/oracle.engine';
+import { editDistance, tokenize } from '../../src/modules/search/search.engine';
+
+const ids = (hits: { id: string }[]) => hits.map(hit => hit.id);
+
+describe('Search engine', () => {
+  let engine: InMemorySearchEngine;
+
+  beforeEach(async () => {
+    engine = new InMemorySearchEngine();
+    await engine.index([
+      { id: 'name', name: 'Samsung Galaxy Phone', brand: 'Samsung', description: 'Android smartphone' },
+      { id: 'brand', name: 'Wireless Charger', brand: 'Phone Co', description: 'Charges any device' },
+      { id: 'description', name: 'Silicone Case', brand: 'Generic', description: 'Fits most phone models' },
+      { id: 'other', name: 'Café Espresso Machine', brand: 'Nespresso', description: null },
+    ]);
+  });
+
+  it('should tokenize without case, accents or plurals', () => {
+    expect(tokenize('Cafés & Phones, 4K Tablets!')).toEqual(['cafe', 'phone', '4k', 'tablet']);
+    expect(editDistance('phnoe', 'phone')).toBe(1);
+  });
+
+  it('should rank name matches over brand over description', async () => {
+    const hits = await engine.search('phones', 10);
+
+    expect(ids(hits)).toEqual(['name', 'brand', 'description']);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  it('should match prefixes, typos and accents, and need every term', async () => {
+    expect(ids(await engine.search('galax', 10))).toEqual(['name']);
+    expect(ids(await engine.search('samsnug', 10))).toEqual(['name']);
+    expect(ids(await engine.search('cafe', 10))).toEqual(['other']);
+    expect(ids(await engine.search('phone charger', 10))).toEqual(['brand']);
+    expect(await engine.search('phone espresso', 10)).toEqual([]);
+  });
+
+  it('should follow updates and removals', async () => {
+    await engine.index([{ id: 'other', name: 'Phone Stand' }]);
+    await engine.remove(['name']);
+
+    expect(ids(await engine.search('phone', 10))).toEqual(['other', 'brand', 'description']);
+    expect(await engine.search('espresso', 10)).toEqual([]);
+  });
+
+  it('should correct misspelt terms but leave the one being typed', async () => {
+    expect(await engine.correct('wireles chargr')).toBe('wireless charger');
+    expect(await engine.correct('Samsung gala')).toBeNull();
+    expect(await engine.correct('xyzzy')).toBeNull();
+  });
+
+  it('should weight fields and escape operators in Oracle Text queries', () => {
+    const query = buildContainsQuery(tokenize('near phone'));
+
+    expect(query).toContain('(({near}) WITHIN name)*3');
+    expect(query).toContain('((phone ACCUM (phone%)*0.7 ACCUM (?phone)*0.5) WITHIN description)*1');
+    expect(query.split(' AND ')).toHaveLength(2);
+  });
+});
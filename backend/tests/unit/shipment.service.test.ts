@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ShipmentService } from '../../src/modules/shipment/shipment.service';
+import { MockCarrierAdapter } from '../../src/modules/shipment/mock.carrier';
+import { ShipmentDAO } from '../../src/modules/shipment/shipment.dao';
+import { OrderDAO } from '../../src/modules/order/order.dao';
+import { transitionFulfillment } from '../../src/modules/order/order.lifecycle';
+import { databaseService } from '../../src/lib/database';
+
+// Mock dependencies
+jest.mock('../../src/modules/shipment/shipment.dao');
+jest.mock('../../src/modules/order/order.dao');
+jest.mock('../../src/modules/order/order.lifecycle');
+jest.mock('../../src/lib/database');
+
+const mockShipmentDAO = ShipmentDAO as jest.MockedClass<typeof ShipmentDAO>;
+const mockOrderDAO = OrderDAO as jest.MockedClass<typeof OrderDAO>;
+const mockTransitionFulfillment = transitionFulfillment as jest.MockedFunction<typeof transitionFulfillment>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+const HOUR = 60 * 60 * 1000;
+
+function mockShipment(overrides: any = {}): any {
+  return {
+    id: 'shipment-id',
+    order_id: 'order-id',
+    fulfillment_id: 'fulfillment-id',
+    carrier: 'UPS',
+    tracking_number: '1Z999AA10123456784',
+    status: 'info_received',
+    shipped_at: new Date(Date.now() - 30 * HOUR).toISOString(),
+    delivered_at: null,
+    ...overrides,
+  };
+}
+
+describe('ShipmentService', () => {
+  const mockConnection: any = { execute: jest.fn() };
+  const service = new ShipmentService(new MockCarrierAdapter());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockDatabaseService.executeTransaction.mockImplementation(
+      async (callback: any) => callback(mockConnection)
+    );
+    mockShipmentDAO.prototype.findById.mockResolvedValue(mockShipment());
+    mockShipmentDAO.prototype.findByIdForUpdate.mockResolvedValue(mockShipment());
+    mockShipmentDAO.prototype.findEvents.mockResolvedValue([]);
+    mockShipmentDAO.prototype.createEvent.mockImplementation(async (eventData: any) => ({
+      id: `event-${eventData.status}`,
+      ...eventData,
+      occurred_at: eventData.occurred_at.toISOString(),
+    }));
+    mockShipmentDAO.prototype.update.mockImplementation(async (id: string, updates: any) => ({
+      ...mockShipment(),
+      id,
+      ...updates,
+    }));
+    mockOrderDAO.prototype.findFulfillmentById.mockResolvedValue({
+      id: 'fulfillment-id',
+      order_id: 'order-id',
+      status: 'shipped',
+    } as any);
+    mockTransitionFulfillment.mockResolvedValue({
+      order: { id: 'order-id', status: 'delivered' },
+      fulfillment: { id: 'fulfillment-id', status: 'delivered' },
+    } as any);
+  });
+
+  describe('ingest', () => {
+    it('should skip events that were already recorded', async () => {
+      const pickedUp = new Date('2024-01-01T10:00:00Z');
+      mockShipmentDAO.prototype.findEvents.mockResolvedValue([
+        { id: 'event-id', shipment_id: 'shipment-id', status: 'in_transit', occurred_at: pickedUp.toISOString() } as any,
+      ]);
+
+      const { shipment, order } = await service.ingest('shipment-id', [
+        { status: 'in_transit', description: 'Picked up by carrier', occurredAt: pickedUp },
+        { status: 'out_for_delivery', description: 'Out for delivery', occurredAt: new Date('2024-01-02T08:00:00Z') },
+      ]);
+
+      expect(mockShipmentDAO.prototype.createEvent).toHaveBeenCalledTimes(1);
+      expect(mockShipmentDAO.prototype.createEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'out_for_delivery' }),
+        mockConnection
+      );
+      expect(shipment.status).toBe('out_for_delivery');
+      expect(order).toBeNull();
+      expect(mockTransitionFulfillment).not.toHaveBeenCalled();
+    });
+
+    it('should mark the fulfillment delivered when a delivered event arrives', async () => {
+      const deliveredAt = new Date('2024-01-02T14:00:00Z');
+
+      const { order } = await service.ingest('shipment-id', [
+        { status: 'delivered', description: 'Delivered', occurredAt: deliveredAt },
+      ]);
+
+      expect(mockShipmentDAO.prototype.update).toHaveBeenCalledWith(
+        'shipment-id',
+        { status: 'delivered', delivered_at: deliveredAt },
+        mockConnection
+      );
+      expect(mockTransitionFulfillment).toHaveBeenCalledWith('fulfillment-id', 'delivered', null, {
+        reason: 'Delivered by UPS',
+        connection: mockConnection,
+      });
+      expect(order?.status).toBe('delivered');
+    });
+
+    it('should leave a fulfillment that is no longer shipped alone', async () => {
+      mockOrderDAO.prototype.findFulfillmentById.mockResolvedValue({ id: 'fulfillment-id', status: 'cancelled' } as any);
+
+      const { order } = await service.ingest('shipment-id', [
+        { status: 'delivered', description: 'Delivered', occurredAt: new Date() },
+      ]);
+
+      expect(mockTransitionFulfillment).not.toHaveBeenCalled();
+      expect(order).toBeNull();
+    });
+  });
+
+  describe('sync', () => {
+    it('should ingest the mock carrier\'s journey up to now', async () => {
+      await service.sync('shipment-id');
+
+      const statuses = mockShipmentDAO.prototype.createEvent.mock.calls.map(([event]) => event.status);
+      expect(statuses).toEqual(['info_received', 'in_transit', 'in_transit', 'out_for_delivery', 'delivered']);
+      expect(mockShipmentDAO.prototype.update).toHaveBeenCalledWith(
+        'shipment-id',
+        expect.objectContaining({ status: 'delivered', last_synced_at: expect.any(Date) }),
+        mockConnection
+      );
+      expect(mockTransitionFulfillment).toHaveBeenCalled();
+    });
+
+    it('should stop at an exception for EXC tracking numbers', async () => {
+      const failing = mockShipment({ tracking_number: 'EXC123' });
+      mockShipmentDAO.prototype.findById.mockResolvedValue(failing);
+      mockShipmentDAO.prototype.findByIdForUpdate.mockResolvedValue(failing);
+
+      const { shipment } = await service.sync('shipment-id');
+
+      expect(shipment.status).toBe('exception');
+      expect(mockTransitionFulfillment).not.toHaveBeenCalled();
+    });
+  });
+});
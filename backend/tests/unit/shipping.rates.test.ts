@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import { matchZone, quoteMethod } from '../../src/modules/shipping/shipping.rates';
+import { ShippingService } from '../../src/modules/shipping/shipping.service';
+
+function method(overrides: any = {}): any {
+  return {
+    id: 'method-id',
+    seller_id: 'seller-id',
+    name: 'Standard',
+    rate_type: 'flat',
+    base_rate: 10,
+    rate_per_kg: 0,
+    free_over: null,
+    min_days: 3,
+    max_days: 5,
+    is_active: 1,
+    ...overrides,
+  };
+}
+
+function zone(overrides: any = {}): any {
+  return { id: 'zone-id', method_id: 'method-id', country: 'BR', state: null, ...overrides };
+}
+
+const parcel = { weightKg: 2.5, amount: 150 };
+const saoPaulo = { country: 'br', state: 'SP' };
+
+describe('Shipping rates', () => {
+  describe('matchZone', () => {
+    it('should prefer the state zone over the country zone', () => {
+      const zones = [zone({ id: 'brazil' }), zone({ id: 'sao-paulo', state: 'SP' })];
+
+      expect(matchZone(zones, saoPaulo)?.id).toBe('sao-paulo');
+      expect(matchZone(zones, { country: 'BR', state: 'RJ' })?.id).toBe('brazil');
+      expect(matchZone(zones, { country: 'US' })).toBeNull();
+    });
+  });
+
+  describe('quoteMethod', () => {
+    it('should charge a flat rate whatever the weight', () => {
+      expect(quoteMethod(method(), [], parcel, saoPaulo)).toMatchObject({ method_id: 'method-id', amount: 10 });
+    });
+
+    it('should add the rate per kilogram for weight-based methods', () => {
+      const quote = quoteMethod(method({ rate_type: 'weight', base_rate: 5, rate_per_kg: 4 }), [], parcel, saoPaulo);
+
+      expect(quote?.amount).toBe(15);
+    });
+
+    it('should ship free once the parcel reaches the threshold', () => {
+      expect(quoteMethod(method({ free_over: 150 }), [], parcel, saoPaulo)?.amount).toBe(0);
+      expect(quoteMethod(method({ free_over: 200 }), [], parcel, saoPaulo)?.amount).toBe(10);
+    });
+
+    it('should use the zone\'s rates and days, falling back to the method\'s', () => {
+      const quote = quoteMethod(method(), [zone({ state: 'SP', base_rate: 7, max_days: 2 })], parcel, saoPaulo);
+
+      expect(quote).toMatchObject({ amount: 7, min_days: 3, max_days: 2 });
+    });
+
+    it('should not quote a method with no zone for the destination', () => {
+      expect(quoteMethod(method(), [zone({ country: 'US' })], parcel, saoPaulo)).toBeNull();
+    });
+  });
+
+  describe('ShippingService.choose', () => {
+    const service = new ShippingService();
+    const cheap = { method_id: 'cheap', name: 'Cheap', amount: 5, min_days: 5, max_days: 9 };
+    const fast = { method_id: 'fast', name: 'Fast', amount: 20, min_days: 1, max_days: 2 };
+
+    it('should default to the cheapest option and honor the buyer\'s pick', () => {
+      const quotes = [
+        { sellerId: 'seller-a', options: [cheap, fast] },
+        { sellerId: 'seller-b', options: [cheap, fast] },
+      ];
+
+      const choices = service.choose(quotes, [{ sellerId: 'seller-b', methodId: 'fast' }]);
+
+      expect(choices.map(({ sellerId, option }) => [sellerId, option.method_id])).toEqual([
+        ['seller-a', 'cheap'],
+        ['seller-b', 'fast'],
+      ]);
+    });
+
+    it('should reject sellers that do not ship to the address', () => {
+      expect(() => service.choose([{ sellerId: 'seller-a', options: [] }]))
+        .toThrow('A seller in this order does not ship to this address');
+    });
+
+    it('should reject picks for sellers not in the order', () => {
+      expect(() => service.choose([{ sellerId: 'seller-a', options: [cheap] }], [{ sellerId: 'seller-c' }]))
+        .toThrow('No items in the order are sold by seller seller-c');
+    });
+  });
+});
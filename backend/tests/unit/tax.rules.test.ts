@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { RulesTaxProvider, matchTaxRule } from '../../src/modules/tax/rules.provider';
+import { TaxDAO } from '../../src/modules/tax/tax.dao';
+
+// Mock dependencies
+jest.mock('../../src/modules/tax/tax.dao');
+
+const mockTaxDAO = TaxDAO as jest.MockedClass<typeof TaxDAO>;
+
+function rule(overrides: any = {}): any {
+  return { id: 'rule-id', country: 'BR', state: null, category: null, name: 'Tax', rate: 10, is_active: 1, ...overrides };
+}
+
+const rules = [
+  rule({ id: 'br', rate: 17 }),
+  rule({ id: 'br-books', category: 'Books', rate: 0 }),
+  rule({ id: 'sp', state: 'SP', rate: 18 }),
+  rule({ id: 'sp-electronics', state: 'SP', category: 'Electronics', rate: 25 }),
+];
+
+describe('Tax rules', () => {
+  describe('matchTaxRule', () => {
+    it('should prefer the most specific rule', () => {
+      const saoPaulo = { country: 'BR', state: 'sp' };
+
+      expect(matchTaxRule(rules, saoPaulo, 'Electronics')?.id).toBe('sp-electronics');
+      expect(matchTaxRule(rules, saoPaulo, 'Toys')?.id).toBe('sp');
+      expect(matchTaxRule(rules, saoPaulo, 'Books')?.id).toBe('sp');
+    });
+
+    it('should fall back to country-wide rules in other states', () => {
+      const rio = { country: 'br', state: 'RJ' };
+
+      expect(matchTaxRule(rules, rio, 'Electronics')?.id).toBe('br');
+      expect(matchTaxRule(rules, rio, 'books')?.id).toBe('br-books');
+    });
+
+    it('should not match another country', () => {
+      expect(matchTaxRule(rules, { country: 'US', state: 'SP' }, 'Electronics')).toBeNull();
+    });
+  });
+
+  describe('RulesTaxProvider', () => {
+    const provider = new RulesTaxProvider();
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockTaxDAO.prototype.findByCountry.mockResolvedValue(rules);
+    });
+
+    it('should tax each line at its rule\'s rate', async () => {
+      const result = await provider.calculate({
+        destination: { country: 'BR', state: 'SP' },
+        currency: 'BRL',
+        lines: [
+          { category: 'Electronics', amount: 199.99 },
+          { category: 'Toys', amount: 50 },
+        ],
+      });
+
+      expect(mockTaxDAO.prototype.findByCountry).toHaveBeenCalledWith('BR');
+      expect(result).toEqual([
+        { rate: 25, amount: 50 },
+        { rate: 18, amount: 9 },
+      ]);
+    });
+
+    it('should not tax a destination without a country', async () => {
+      const result = await provider.calculate({
+        destination: { country: null },
+        currency: 'BRL',
+        lines: [{ category: 'Electronics', amount: 100 }],
+      });
+
+      expect(mockTaxDAO.prototype.findByCountry).not.toHaveBeenCalled();
+      expect(result).toEqual([{ rate: 0, amount: 0 }]);
+    });
+  });
+});
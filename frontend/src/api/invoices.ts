@@ -0,0 +1,33 @@
+import { config } from '@/config/env';
+import { logger } from '@/utils/logger';
+
+// Baixa a fatura do pedido em PDF e dispara o download no navegador
+export const downloadInvoice = async (orderId: string): Promise<void> => {
+  const token = localStorage.getItem('accessToken');
+
+  const response = await fetch(`${config.restUrl}/orders/${encodeURIComponent(orderId)}/invoice?format=pdf`, {
+    credentials: 'include',
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    logger.error('Invoice download failed', 'Invoices', undefined, { orderId, status: response.status });
+    throw new Error(body?.error || 'Não foi possível baixar a fatura');
+  }
+
+  // O nome do arquivo traz o número da fatura
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] || `fatura-${orderId}.pdf`;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+
+  logger.info('Invoice downloaded', 'Invoices', { orderId, fileName });
+};
@@ -65,6 +65,7 @@ export const ORDER_FRAGMENT = gql`
     total
     shippingAddress
     paymentMethod
+    paymentStatus
     createdAt
     updatedAt
     items {
@@ -84,9 +85,32 @@ export const ME_QUERY = gql`
   ${USER_FRAGMENT}
 `;
 
+export const PRODUCT_FACETS_FRAGMENT = gql`
+  fragment ProductFacets on ProductFacets {
+    categories {
+      value
+      count
+    }
+    brands {
+      value
+      count
+    }
+    priceRanges {
+      min
+      max
+      count
+    }
+    ratings {
+      minRating
+      count
+    }
+    inStock
+  }
+`;
+
 export const PRODUCTS_QUERY = gql`
   query Products($first: Int, $after: String, $filter: ProductFilter, $sort: ProductSort) {
-    products(first: $first, after: $after, filter: $filter, sort: $sort) {
+    products(filter: $filter, sort: $sort, pagination: { first: $first, after: $after }) {
       edges {
         node {
           ...ProductCard
@@ -100,9 +124,13 @@ export const PRODUCTS_QUERY = gql`
         endCursor
       }
       totalCount
+      facets {
+        ...ProductFacets
+      }
     }
   }
   ${PRODUCT_CARD_FRAGMENT}
+  ${PRODUCT_FACETS_FRAGMENT}
 `;
 
 export const PRODUCT_QUERY = gql`
@@ -130,7 +158,7 @@ export const PRODUCT_QUERY = gql`
 
 export const SEARCH_PRODUCTS_QUERY = gql`
   query SearchProducts($query: String!, $first: Int, $after: String, $filter: ProductFilter, $sort: ProductSort) {
-    searchProducts(query: $query, first: $first, after: $after, filter: $filter, sort: $sort) {
+    searchProducts(q: $query, filter: $filter, sort: $sort, pagination: { first: $first, after: $after }) {
       edges {
         node {
           ...ProductCard
@@ -144,9 +172,33 @@ export const SEARCH_PRODUCTS_QUERY = gql`
         endCursor
       }
       totalCount
+      facets {
+        ...ProductFacets
+      }
     }
   }
   ${PRODUCT_CARD_FRAGMENT}
+  ${PRODUCT_FACETS_FRAGMENT}
+`;
+
+export const SEARCH_SUGGESTIONS_QUERY = gql`
+  query SearchSuggestions($prefix: String!, $limit: Int) {
+    searchSuggestions(prefix: $prefix, limit: $limit) {
+      products {
+        id
+        name
+      }
+      categories {
+        value
+        count
+      }
+      brands {
+        value
+        count
+      }
+      didYouMean
+    }
+  }
 `;
 
 export const CART_QUERY = gql`
@@ -158,13 +210,34 @@ export const CART_QUERY = gql`
   ${CART_ITEM_FRAGMENT}
 `;
 
+export const ORDER_HISTORY_FRAGMENT = gql`
+  fragment OrderHistory on Order {
+    history {
+      id
+      type
+      fromStatus
+      toStatus
+      actorRole
+      reason
+      actor {
+        id
+        firstName
+        lastName
+      }
+      createdAt
+    }
+  }
+`;
+
 export const ORDER_QUERY = gql`
   query Order($id: ID!) {
     order(id: $id) {
       ...OrderInfo
+      ...OrderHistory
     }
   }
   ${ORDER_FRAGMENT}
+  ${ORDER_HISTORY_FRAGMENT}
 `;
 
 export const ORDERS_QUERY = gql`
@@ -237,6 +310,32 @@ export const REMOVE_FROM_CART_MUTATION = gql`
   ${CART_ITEM_FRAGMENT}
 `;
 
+export const REORDER_MUTATION = gql`
+  mutation Reorder($orderId: ID!) {
+    reorder(orderId: $orderId) {
+      added {
+        productId
+        name
+        quantity
+        orderedQuantity
+        previousPrice
+        currentPrice
+        priceChanged
+      }
+      skipped {
+        productId
+        name
+        quantity
+        reason
+      }
+      cart {
+        ...CartItem
+      }
+    }
+  }
+  ${CART_ITEM_FRAGMENT}
+`;
+
 export const CREATE_ORDER_MUTATION = gql`
   mutation CreateOrder($input: CreateOrderInput!) {
     createOrder(input: $input) {
@@ -1,6 +1,8 @@
 // Configuração de ambiente
 export const config = {
   apiUrl: import.meta.env.VITE_API_URL || 'http://localhost:4000/graphql',
+  // Endpoints REST (ex.: faturas) ficam no mesmo servidor do GraphQL
+  restUrl: (import.meta.env.VITE_API_URL || 'http://localhost:4000/graphql').replace(/\/graphql\/?$/, ''),
   environment: import.meta.env.MODE || 'development',
   isDevelopment: import.meta.env.DEV,
   isProduction: import.meta.env.PROD,
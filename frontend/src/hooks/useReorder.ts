@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useMutation } from '@apollo/client/react';
+import { CART_QUERY, REORDER_MUTATION } from '@/api/queries';
+import { logger } from '@/utils/logger';
+
+interface ReorderedItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  orderedQuantity: number;
+  previousPrice: number;
+  currentPrice: number;
+  priceChanged: boolean;
+}
+
+interface SkippedReorderItem {
+  productId: string;
+  name: string;
+  quantity: number;
+  reason: 'PRODUCT_UNAVAILABLE' | 'OUT_OF_STOCK';
+}
+
+export interface ReorderSummary {
+  added: ReorderedItem[];
+  skipped: SkippedReorderItem[];
+}
+
+interface ReorderData {
+  reorder: ReorderSummary & { cart: unknown[] };
+}
+
+const formatPrice = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+/**
+ * Mensagens para o comprador sobre o que foi (ou não) para o carrinho
+ */
+export const describeReorder = ({ added, skipped }: ReorderSummary): string[] => {
+  const messages: string[] = [];
+
+  if (added.length > 0) {
+    const count = added.reduce((sum, item) => sum + item.quantity, 0);
+    messages.push(`${count} ${count === 1 ? 'item adicionado' : 'itens adicionados'} ao carrinho.`);
+  } else {
+    messages.push('Nenhum item deste pedido está disponível no momento.');
+  }
+
+  added
+    .filter(item => item.quantity < item.orderedQuantity)
+    .forEach(item => messages.push(`${item.name}: apenas ${item.quantity} de ${item.orderedQuantity} em estoque.`));
+
+  added
+    .filter(item => item.priceChanged)
+    .forEach(item => messages.push(
+      `${item.name}: preço mudou de ${formatPrice(item.previousPrice)} para ${formatPrice(item.currentPrice)}.`
+    ));
+
+  skipped.forEach(item => messages.push(
+    `${item.name}: ${item.reason === 'OUT_OF_STOCK' ? 'sem estoque' : 'não está mais à venda'}.`
+  ));
+
+  return messages;
+};
+
+/**
+ * Hook para "Comprar novamente": copia os itens de um pedido para o carrinho
+ *
+ * @example
+ * ```tsx
+ * const { reorder, reorderingId, summary } = useReorder();
+ *
+ * <Button loading={reorderingId === order.id} onClick={() => reorder(order.id)}>
+ *   Comprar novamente
+ * </Button>
+ * ```
+ */
+export const useReorder = () => {
+  const [reorderMutation] = useMutation<ReorderData, { orderId: string }>(REORDER_MUTATION);
+  const [reorderingId, setReorderingId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<{ orderId: string; messages: string[] } | null>(null);
+  const [error, setError] = useState<{ orderId: string; message: string } | null>(null);
+
+  const reorder = async (orderId: string) => {
+    setReorderingId(orderId);
+    setSummary(null);
+    setError(null);
+
+    try {
+      const { data } = await reorderMutation({
+        variables: { orderId },
+        update: (cache, { data }) => {
+          // O carrinho volta completo; o CartContext acompanha esta query
+          if (data?.reorder) {
+            cache.writeQuery({ query: CART_QUERY, data: { cart: data.reorder.cart } });
+          }
+        },
+      });
+
+      const result = data?.reorder;
+      if (result) {
+        setSummary({ orderId, messages: describeReorder(result) });
+        logger.info('Order items added to cart', 'Reorder', {
+          orderId,
+          added: result.added.length,
+          skipped: result.skipped.length,
+        });
+      }
+    } catch (err) {
+      setError({ orderId, message: (err as Error).message || 'Não foi possível adicionar os itens ao carrinho' });
+      logger.error('Reorder failed', 'Reorder', err as Error, { orderId });
+    } finally {
+      setReorderingId(null);
+    }
+  };
+
+  return { reorder, reorderingId, summary, error };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@apollo/client/react';
+import { SEARCH_SUGGESTIONS_QUERY } from '@/api/queries';
+
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchSuggestions {
+  products: Array<{ id: string; name: string }>;
+  categories: FacetCount[];
+  brands: FacetCount[];
+  didYouMean: string | null;
+}
+
+interface SearchSuggestionsData {
+  searchSuggestions: SearchSuggestions;
+}
+
+// O servidor não sugere nada para prefixos menores
+const MIN_PREFIX_LENGTH = 2;
+const DEBOUNCE_MS = 150;
+
+/**
+ * Sugestões para a caixa de busca, pedidas a cada pausa curta na digitação
+ */
+export const useSearchSuggestions = (prefix: string, limit = 5) => {
+  const [debouncedPrefix, setDebouncedPrefix] = useState(prefix.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedPrefix(prefix.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [prefix]);
+
+  const { data, loading } = useQuery<SearchSuggestionsData>(SEARCH_SUGGESTIONS_QUERY, {
+    variables: { prefix: debouncedPrefix, limit },
+    skip: debouncedPrefix.length < MIN_PREFIX_LENGTH,
+  });
+
+  const suggestions = debouncedPrefix.length >= MIN_PREFIX_LENGTH ? data?.searchSuggestions : undefined;
+
+  return { suggestions, loading };
+};
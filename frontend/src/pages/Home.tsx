@@ -10,7 +10,7 @@ export const Home: React.FC = () => {
   const { data, loading, error } = useQuery(PRODUCTS_QUERY, {
     variables: {
       first: 8,
-      sort: { field: 'createdAt', direction: 'DESC' },
+      sort: { field: 'CREATED_AT', direction: 'DESC' },
     },
   });
 
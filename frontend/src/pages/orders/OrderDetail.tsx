@@ -1,14 +1,33 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@apollo/client/react';
 import { ORDER_QUERY } from '@/api/queries';
+import { downloadInvoice } from '@/api/invoices';
+import { useReorder } from '@/hooks/useReorder';
 import { Card, Button } from '@/components/ui';
 import { logger } from '@/utils/logger';
 import './OrderDetail.scss';
 
+interface OrderStatusEvent {
+  id: string;
+  type: 'STATUS' | 'PAYMENT_STATUS';
+  fromStatus?: string | null;
+  toStatus: string;
+  actorRole?: string | null;
+  reason?: string | null;
+  actor?: { id: string; firstName: string; lastName: string } | null;
+  createdAt: string;
+}
+
+// The API only issues an invoice once the payment has been captured
+const INVOICEABLE_PAYMENT_STATUSES = ['PAID', 'PARTIALLY_REFUNDED', 'REFUNDED'];
+
 export const OrderDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false);
+  const [invoiceError, setInvoiceError] = useState<string | null>(null);
+  const { reorder, reorderingId, summary: reorderSummary, error: reorderError } = useReorder();
 
   const { data, loading, error } = useQuery(ORDER_QUERY, {
     variables: { id },
@@ -47,6 +66,7 @@ export const OrderDetail: React.FC = () => {
     switch (status.toLowerCase()) {
       case 'pending':
         return 'warning';
+      case 'confirmed':
       case 'processing':
         return 'info';
       case 'shipped':
@@ -64,6 +84,8 @@ export const OrderDetail: React.FC = () => {
     switch (status.toLowerCase()) {
       case 'pending':
         return 'Pendente';
+      case 'confirmed':
+        return 'Confirmado';
       case 'processing':
         return 'Processando';
       case 'shipped':
@@ -77,10 +99,57 @@ export const OrderDetail: React.FC = () => {
     }
   };
 
+  const getEventText = (event: OrderStatusEvent) => {
+    if (event.type === 'PAYMENT_STATUS') {
+      switch (event.toStatus.toLowerCase()) {
+        case 'pending':
+          return 'Pagamento pendente';
+        case 'paid':
+          return 'Pagamento confirmado';
+        case 'failed':
+          return 'Pagamento recusado';
+        case 'refunded':
+          return 'Pagamento reembolsado';
+        default:
+          return `Pagamento: ${event.toStatus}`;
+      }
+    }
+
+    return event.fromStatus ? getStatusText(event.toStatus) : 'Pedido realizado';
+  };
+
+  const getActorText = (event: OrderStatusEvent) => {
+    switch (event.actorRole?.toLowerCase()) {
+      case 'buyer':
+        return 'Comprador';
+      case 'seller':
+        return 'Vendedor';
+      case 'admin':
+        return 'Suporte';
+      case 'system':
+        return 'Sistema';
+      default:
+        return null;
+    }
+  };
+
   const handleBackClick = () => {
     navigate('/orders');
   };
 
+  const handleInvoiceDownload = async () => {
+    setDownloadingInvoice(true);
+    setInvoiceError(null);
+
+    try {
+      await downloadInvoice(order.id);
+    } catch (err) {
+      setInvoiceError((err as Error).message);
+    } finally {
+      setDownloadingInvoice(false);
+    }
+  };
+
   return (
     <div className="order-detail">
       <div className="container">
@@ -145,7 +214,70 @@ export const OrderDetail: React.FC = () => {
                   </span>
                 </div>
               </div>
+
+              <div className="order-detail__actions">
+                {INVOICEABLE_PAYMENT_STATUSES.includes(order.paymentStatus) && (
+                  <Button variant="outline" size="sm" loading={downloadingInvoice} onClick={handleInvoiceDownload}>
+                    Baixar fatura (PDF)
+                  </Button>
+                )}
+                <Button variant="primary" size="sm" loading={reorderingId === order.id} onClick={() => reorder(order.id)}>
+                  Comprar novamente
+                </Button>
+                {invoiceError && <p className="order-detail__actions-error">{invoiceError}</p>}
+                {reorderError && <p className="order-detail__actions-error">{reorderError.message}</p>}
+              </div>
+
+              {reorderSummary && (
+                <div className="order-detail__reorder">
+                  <ul className="order-detail__reorder-messages">
+                    {reorderSummary.messages.map((message, index) => (
+                      <li key={index}>{message}</li>
+                    ))}
+                  </ul>
+                  <Button variant="outline" size="sm" onClick={() => navigate('/cart')}>
+                    Ver carrinho
+                  </Button>
+                </div>
+              )}
             </Card>
+
+            {/* Histórico do Pedido */}
+            {order.history && order.history.length > 0 && (
+              <Card className="order-detail__timeline-card" variant="outlined" padding="lg">
+                <h2 className="order-detail__timeline-title">Histórico</h2>
+
+                <ol className="order-detail__timeline">
+                  {order.history.map((event: OrderStatusEvent) => (
+                    <li
+                      key={event.id}
+                      className={`order-detail__timeline-event order-detail__timeline-event--${getStatusColor(event.toStatus)}`}
+                    >
+                      <div className="order-detail__timeline-label">{getEventText(event)}</div>
+                      <div className="order-detail__timeline-meta">
+                        {new Date(event.createdAt).toLocaleDateString('pt-BR', {
+                          day: '2-digit',
+                          month: '2-digit',
+                          year: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                        {getActorText(event) && (
+                          <>
+                            {' · '}
+                            {getActorText(event)}
+                            {event.actor && ` (${event.actor.firstName} ${event.actor.lastName})`}
+                          </>
+                        )}
+                      </div>
+                      {event.reason && (
+                        <div className="order-detail__timeline-reason">{event.reason}</div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </Card>
+            )}
           </div>
 
           {/* Itens do Pedido */}
@@ -2,10 +2,12 @@ import React from 'react';
 import { useQuery } from '@apollo/client/react';
 import { ORDERS_QUERY } from '@/api/queries';
 import { Card, Button } from '@/components/ui';
+import { useReorder } from '@/hooks/useReorder';
 import { logger } from '@/utils/logger';
 import './OrdersList.scss';
 
 export const OrdersList: React.FC = () => {
+  const { reorder, reorderingId, summary: reorderSummary, error: reorderError } = useReorder();
   const { data, loading, error } = useQuery(ORDERS_QUERY, {
     variables: {
       first: 20,
@@ -45,6 +47,7 @@ export const OrdersList: React.FC = () => {
     switch (status.toLowerCase()) {
       case 'pending':
         return 'warning';
+      case 'confirmed':
       case 'processing':
         return 'info';
       case 'shipped':
@@ -62,6 +65,8 @@ export const OrdersList: React.FC = () => {
     switch (status.toLowerCase()) {
       case 'pending':
         return 'Pendente';
+      case 'confirmed':
+        return 'Confirmado';
       case 'processing':
         return 'Processando';
       case 'shipped':
@@ -172,8 +177,28 @@ export const OrdersList: React.FC = () => {
                   >
                     Ver Detalhes
                   </Button>
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    loading={reorderingId === order.id}
+                    disabled={reorderingId !== null && reorderingId !== order.id}
+                    onClick={() => reorder(order.id)}
+                  >
+                    Comprar novamente
+                  </Button>
                 </div>
               </div>
+
+              {reorderError && reorderError.orderId === order.id && (
+                <p className="orders-list__reorder-error">{reorderError.message}</p>
+              )}
+              {reorderSummary && reorderSummary.orderId === order.id && (
+                <ul className="orders-list__reorder-messages">
+                  {reorderSummary.messages.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              )}
             </Card>
           ))}
         </div>
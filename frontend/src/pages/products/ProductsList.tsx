@@ -1,28 +1,67 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@apollo/client/react';
 import { PRODUCTS_QUERY, SEARCH_PRODUCTS_QUERY } from '@/api/queries';
 import { Card, Button, Input } from '@/components/ui';
 import { useCart } from '@/contexts/CartContext';
+import { useSearchSuggestions } from '@/hooks/useSearchSuggestions';
 import { logger } from '@/utils/logger';
 import './ProductsList.scss';
 
 interface ProductFilter {
   category?: string;
+  brand?: string;
   minPrice?: number;
   maxPrice?: number;
-  rating?: number;
+  minRating?: number;
+  inStock?: boolean;
 }
 
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+interface ProductFacets {
+  categories: FacetCount[];
+  brands: FacetCount[];
+  priceRanges: Array<{ min: number; max: number | null; count: number }>;
+  ratings: Array<{ minRating: number; count: number }>;
+  inStock: number;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  electronics: 'Eletrônicos',
+  clothing: 'Roupas',
+  books: 'Livros',
+  home: 'Casa',
+};
+
+const formatPrice = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
 interface ProductSort {
-  field: 'name' | 'price' | 'createdAt' | 'averageRating';
+  field: 'NAME' | 'PRICE' | 'CREATED_AT' | 'AVERAGE_RATING' | 'POPULARITY' | 'RELEVANCE';
   direction: 'ASC' | 'DESC';
 }
 
+interface SuggestionOption {
+  key: string;
+  label: string;
+  count?: number;
+  onSelect: () => void;
+}
+
+const DEFAULT_SORT: ProductSort = { field: 'CREATED_AT', direction: 'DESC' };
+const RELEVANCE_SORT: ProductSort = { field: 'RELEVANCE', direction: 'DESC' };
+
 export const ProductsList: React.FC = () => {
   const { addToCart, getItemQuantity, isInCart } = useCart();
+  const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(-1);
   const [filter, setFilter] = useState<ProductFilter>({});
-  const [sort, setSort] = useState<ProductSort>({ field: 'createdAt', direction: 'DESC' });
+  const [sort, setSort] = useState<ProductSort>(DEFAULT_SORT);
   // const [currentPage, setCurrentPage] = useState(1);
   const [isSearching, setIsSearching] = useState(false);
 
@@ -53,25 +92,32 @@ export const ProductsList: React.FC = () => {
   const currentLoading = isSearching ? searchLoading : productsLoading;
   const currentError = isSearching ? searchError : productsError;
 
-  const products = (currentData as any)?.products?.edges?.map((edge: any) => edge.node) || [];
-  const pageInfo = (currentData as any)?.products?.pageInfo;
-  const totalCount = (currentData as any)?.products?.totalCount || 0;
+  const connection = isSearching ? (currentData as any)?.searchProducts : (currentData as any)?.products;
+  const products = connection?.edges?.map((edge: any) => edge.node) || [];
+  const pageInfo = connection?.pageInfo;
+  const totalCount = connection?.totalCount || 0;
+  const facets: ProductFacets | undefined = connection?.facets;
 
   // Debounce para busca
   useEffect(() => {
     const timer = setTimeout(() => {
+      // Buscas começam pelos resultados mais relevantes
       if (searchQuery.trim()) {
+        if (!isSearching) setSort(RELEVANCE_SORT);
         setIsSearching(true);
       } else {
+        if (sort.field === 'RELEVANCE') setSort(DEFAULT_SORT);
         setIsSearching(false);
       }
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [searchQuery]);
+  }, [searchQuery, isSearching, sort.field]);
 
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
+    setShowSuggestions(true);
+    setHighlightedSuggestion(-1);
     // setCurrentPage(1);
   };
 
@@ -80,6 +126,91 @@ export const ProductsList: React.FC = () => {
     // setCurrentPage(1);
   };
 
+  // As faixas de preço não incluem o limite superior; o filtro de preço máximo inclui
+  const handlePriceRangeChange = (min: string) => {
+    const range = facets?.priceRanges.find((r) => String(r.min) === min);
+    handleFilterChange({
+      minPrice: range && range.min > 0 ? range.min : undefined,
+      maxPrice: range && range.max !== null ? range.max - 0.01 : undefined,
+    });
+  };
+
+  const selectedPriceRange = filter.minPrice !== undefined || filter.maxPrice !== undefined
+    ? String(filter.minPrice ?? 0)
+    : '';
+
+  // Sugestões da busca: categorias e marcas viram filtros no lugar do texto digitado
+  const { suggestions } = useSearchSuggestions(searchQuery);
+  const didYouMean = suggestions?.didYouMean;
+
+  const filterBySuggestion = (newFilter: Partial<ProductFilter>) => {
+    handleFilterChange(newFilter);
+    setSearchQuery('');
+  };
+
+  const suggestionGroups: Array<{ title: string; options: SuggestionOption[] }> = suggestions
+    ? [
+        {
+          title: 'Você quis dizer',
+          options: didYouMean
+            ? [{ key: 'did-you-mean', label: didYouMean, onSelect: () => setSearchQuery(didYouMean) }]
+            : [],
+        },
+        {
+          title: 'Produtos',
+          options: suggestions.products.map((product) => ({
+            key: `product-${product.id}`,
+            label: product.name,
+            onSelect: () => navigate(`/products/${product.id}`),
+          })),
+        },
+        {
+          title: 'Categorias',
+          options: suggestions.categories.map((category) => ({
+            key: `category-${category.value}`,
+            label: CATEGORY_LABELS[category.value] || category.value,
+            count: category.count,
+            onSelect: () => filterBySuggestion({ category: category.value }),
+          })),
+        },
+        {
+          title: 'Marcas',
+          options: suggestions.brands.map((brand) => ({
+            key: `brand-${brand.value}`,
+            label: brand.value,
+            count: brand.count,
+            onSelect: () => filterBySuggestion({ brand: brand.value }),
+          })),
+        },
+      ].filter((group) => group.options.length > 0)
+    : [];
+
+  const suggestionOptions = suggestionGroups.flatMap((group) => group.options);
+  const suggestionsOpen = showSuggestions && suggestionOptions.length > 0;
+
+  const selectSuggestion = (option: SuggestionOption) => {
+    option.onSelect();
+    setShowSuggestions(false);
+    setHighlightedSuggestion(-1);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestionsOpen) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedSuggestion((index) => (index + 1) % suggestionOptions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedSuggestion((index) => (index <= 0 ? suggestionOptions.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && suggestionOptions[highlightedSuggestion]) {
+      e.preventDefault();
+      selectSuggestion(suggestionOptions[highlightedSuggestion]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
   const handleSortChange = (newSort: ProductSort) => {
     setSort(newSort);
     // setCurrentPage(1);
@@ -151,6 +282,13 @@ export const ProductsList: React.FC = () => {
               placeholder="Buscar produtos..."
               value={searchQuery}
               onChange={handleSearch}
+              onKeyDown={handleSearchKeyDown}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={suggestionsOpen}
+              aria-controls="products-search-suggestions"
               leftIcon={
                 <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
                   <circle cx="11" cy="11" r="8" stroke="currentColor" strokeWidth="2"/>
@@ -158,6 +296,37 @@ export const ProductsList: React.FC = () => {
                 </svg>
               }
             />
+
+            {suggestionsOpen && (
+              <div id="products-search-suggestions" className="products-list__suggestions" role="listbox">
+                {suggestionGroups.map((group) => (
+                  <div key={group.title} className="products-list__suggestion-group">
+                    <p className="products-list__suggestion-title">{group.title}</p>
+                    {group.options.map((option) => {
+                      const index = suggestionOptions.indexOf(option);
+                      return (
+                        <button
+                          key={option.key}
+                          type="button"
+                          role="option"
+                          aria-selected={index === highlightedSuggestion}
+                          className={`products-list__suggestion ${index === highlightedSuggestion ? 'products-list__suggestion--active' : ''}`}
+                          // Mantém o foco na busca para o clique chegar antes do blur
+                          onMouseDown={(e) => e.preventDefault()}
+                          onMouseEnter={() => setHighlightedSuggestion(index)}
+                          onClick={() => selectSuggestion(option)}
+                        >
+                          <span>{option.label}</span>
+                          {option.count !== undefined && (
+                            <span className="products-list__suggestion-count">{option.count}</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="products-list__controls">
@@ -169,13 +338,15 @@ export const ProductsList: React.FC = () => {
                 handleSortChange({ field: field as any, direction: direction as any });
               }}
             >
-              <option value="createdAt-DESC">Mais recentes</option>
-              <option value="createdAt-ASC">Mais antigos</option>
-              <option value="price-ASC">Menor preço</option>
-              <option value="price-DESC">Maior preço</option>
-              <option value="name-ASC">Nome A-Z</option>
-              <option value="name-DESC">Nome Z-A</option>
-              <option value="averageRating-DESC">Melhor avaliados</option>
+              {isSearching && <option value="RELEVANCE-DESC">Mais relevantes</option>}
+              <option value="CREATED_AT-DESC">Mais recentes</option>
+              <option value="CREATED_AT-ASC">Mais antigos</option>
+              <option value="PRICE-ASC">Menor preço</option>
+              <option value="PRICE-DESC">Maior preço</option>
+              <option value="NAME-ASC">Nome A-Z</option>
+              <option value="NAME-DESC">Nome Z-A</option>
+              <option value="AVERAGE_RATING-DESC">Melhor avaliados</option>
+              <option value="POPULARITY-DESC">Mais vendidos</option>
             </select>
 
             <select
@@ -184,11 +355,67 @@ export const ProductsList: React.FC = () => {
               onChange={(e) => handleFilterChange({ category: e.target.value || undefined })}
             >
               <option value="">Todas as categorias</option>
-              <option value="electronics">Eletrônicos</option>
-              <option value="clothing">Roupas</option>
-              <option value="books">Livros</option>
-              <option value="home">Casa</option>
+              {facets?.categories.map((category) => (
+                <option key={category.value} value={category.value}>
+                  {CATEGORY_LABELS[category.value] || category.value} ({category.count})
+                </option>
+              ))}
+            </select>
+
+            {facets && facets.brands.length > 0 && (
+              <select
+                className="products-list__filter"
+                value={filter.brand || ''}
+                onChange={(e) => handleFilterChange({ brand: e.target.value || undefined })}
+              >
+                <option value="">Todas as marcas</option>
+                {facets.brands.map((brand) => (
+                  <option key={brand.value} value={brand.value}>
+                    {brand.value} ({brand.count})
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <select
+              className="products-list__filter"
+              value={selectedPriceRange}
+              onChange={(e) => handlePriceRangeChange(e.target.value)}
+            >
+              <option value="">Qualquer preço</option>
+              {facets?.priceRanges.map((range) => (
+                <option key={range.min} value={String(range.min)}>
+                  {range.max === null
+                    ? `Acima de ${formatPrice(range.min)}`
+                    : range.min === 0
+                      ? `Até ${formatPrice(range.max)}`
+                      : `${formatPrice(range.min)} a ${formatPrice(range.max)}`}
+                  {' '}({range.count})
+                </option>
+              ))}
+            </select>
+
+            <select
+              className="products-list__filter"
+              value={filter.minRating ? String(filter.minRating) : ''}
+              onChange={(e) => handleFilterChange({ minRating: e.target.value ? Number(e.target.value) : undefined })}
+            >
+              <option value="">Qualquer avaliação</option>
+              {facets?.ratings.map((rating) => (
+                <option key={rating.minRating} value={String(rating.minRating)}>
+                  {rating.minRating}★ ou mais ({rating.count})
+                </option>
+              ))}
             </select>
+
+            <label className="products-list__in-stock">
+              <input
+                type="checkbox"
+                checked={Boolean(filter.inStock)}
+                onChange={(e) => handleFilterChange({ inStock: e.target.checked || undefined })}
+              />
+              Em estoque{facets ? ` (${facets.inStock})` : ''}
+            </label>
           </div>
         </div>
 